@@ -12,7 +12,10 @@ import { SearchModule } from '../search/search.module';
 import { BrandModule } from '../brand/brand.module';
 import { CigarModule } from '../cigar/cigar.module';
 import { TastingModule } from '../tasting/tasting.module';
+import { EngagementModule } from '../engagement/engagement.module';
+import { EventModule } from '../event/event.module';
 import { PlanModule } from '../plan/plan.module';
+import { PlanApiModule } from '../plan/plan-api.module';
 import { HealthModule } from '../health/health.module';
 import { FeedbackModule } from '../feedback/feedback.module';
 import { AnalyticsModule } from '../analytics/analytics.module';
@@ -38,7 +41,10 @@ import { AnalyticsModule } from '../analytics/analytics.module';
     BrandModule,
     CigarModule,
     TastingModule,
+    EngagementModule,
+    EventModule,
     PlanModule,
+    PlanApiModule,
     HealthModule,
     FeedbackModule,
     AnalyticsModule,
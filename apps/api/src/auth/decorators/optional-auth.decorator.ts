@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * OptionalAuth decorator for routes open to anonymous visitors that still
+ * adapt to the caller when a token is sent (e.g. visibility-aware aggregates)
+ *
+ * - No token → request goes through without user
+ * - Token → authenticated as usual (an invalid token is still rejected)
+ *
+ * Usage:
+ * @Get('stats')
+ * @OptionalAuth()
+ * async getStats(@CurrentUser('id') userId?: string) { ... }
+ */
+export const IS_OPTIONAL_AUTH_KEY = 'isOptionalAuth';
+export const OptionalAuth = () => SetMetadata(IS_OPTIONAL_AUTH_KEY, true);
@@ -6,6 +6,7 @@ import { SupabaseService } from '../supabase.service';
 import { PrismaService } from '../../app/prisma.service';
 import { InvalidTokenException } from '../../common/exceptions';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { IS_OPTIONAL_AUTH_KEY } from '../decorators/optional-auth.decorator';
 import { slugify, ensureMinLength } from '../../common/utils/username.utils';
 import { mapRole } from '../../common/utils/role.utils';
 
@@ -45,6 +46,16 @@ export class JwtAuthGuard implements CanActivate {
     const token = this.extractTokenFromHeader(request);
 
     if (!token) {
+      // Optional auth: anonymous visitors go through without user
+      const isOptionalAuth = this.reflector.getAllAndOverride<boolean>(IS_OPTIONAL_AUTH_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (isOptionalAuth) {
+        return true;
+      }
+
       throw new InvalidTokenException('No authentication token provided');
     }
 
@@ -1,8 +1,23 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
 import { BrandService } from './brand.service';
-import { BrandResponseDto, BrandFilterDto } from './dto';
+import { BrandResponseDto, BrandFilterDto, MergeBrandDto } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Public } from '../auth/decorators/public.decorator';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Role } from '@cigar-platform/prisma-client';
 
 @ApiTags('brands')
 @Controller('brands')
@@ -25,4 +40,43 @@ export class BrandController {
   async findAll(@Query() filter: BrandFilterDto): Promise<BrandResponseDto[]> {
     return this.brandService.findAll(filter);
   }
+
+  @Get(':slug')
+  @Public()
+  @ApiOperation({ summary: 'Get brand by slug (public, old slugs of merged brands resolve too)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Brand found',
+    type: BrandResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Brand not found',
+  })
+  async findBySlug(@Param('slug') slug: string): Promise<BrandResponseDto> {
+    return this.brandService.findBySlug(slug);
+  }
+
+  @Post(':id/merge')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Merge a duplicate brand into its canonical brand (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Duplicate brand UUID (removed)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Brands merged successfully, returns the canonical brand',
+    type: BrandResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot merge a brand into itself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async merge(
+    @Param('id') id: string,
+    @Body() dto: MergeBrandDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<BrandResponseDto> {
+    return this.brandService.merge(id, dto.targetBrandId, userId);
+  }
 }
@@ -3,9 +3,10 @@ import { BrandController } from './brand.controller';
 import { BrandService } from './brand.service';
 import { PrismaService } from '../app/prisma.service';
 import { AuthModule } from '../auth/auth.module';
+import { CigarStatsModule } from '../cigar/cigar-stats.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, CigarStatsModule],
   controllers: [BrandController],
   providers: [BrandService, PrismaService],
   exports: [BrandService],
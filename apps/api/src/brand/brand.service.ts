@@ -1,15 +1,38 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../app/prisma.service';
-import { BrandResponseDto, BrandFilterDto } from './dto';
-import { slugifyBrand } from '../common/utils/slugify';
+import { BrandResponseDto, BrandFilterDto, BrandSuggestionDto } from './dto';
+import { slugifyBrand, slugifyCigar } from '../common/utils/slugify';
+import {
+  DUPLICATE_SIMILARITY_THRESHOLD,
+  normalizeName,
+  similarityScore,
+} from '../common/utils/similarity.util';
+import { mergeCigarInto } from '../common/utils/catalog-merge.util';
+import { CigarStatsService } from '../cigar/cigar-stats.service';
+import { Prisma } from '../../../../generated/prisma';
+
+const BRAND_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  country: true,
+  description: true,
+  logoUrl: true,
+  isVerified: true,
+  createdAt: true,
+} satisfies Prisma.BrandSelect;
 
 @Injectable()
 export class BrandService {
   private readonly logger = new Logger(BrandService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cigarStatsService: CigarStatsService
+  ) {}
 
   private readonly MAX_BRANDS = 100;
+  private readonly MAX_SUGGESTIONS = 5;
 
   /**
    * Find all brands with optional search filter
@@ -27,16 +50,7 @@ export class BrandService {
             ],
           }
         : undefined,
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        country: true,
-        description: true,
-        logoUrl: true,
-        isVerified: true,
-        createdAt: true,
-      },
+      select: BRAND_SELECT,
       orderBy: [
         { isVerified: 'desc' }, // Verified brands first
         { name: 'asc' },
@@ -47,6 +61,32 @@ export class BrandService {
     return brands;
   }
 
+  /**
+   * Find brand by slug (public endpoint)
+   * Falls back to the redirects left by merges so old slugs still resolve
+   */
+  async findBySlug(slug: string): Promise<BrandResponseDto> {
+    const brand = await this.prisma.brand.findUnique({
+      where: { slug },
+      select: BRAND_SELECT,
+    });
+
+    if (brand) {
+      return brand;
+    }
+
+    const redirect = await this.prisma.brandSlugRedirect.findUnique({
+      where: { slug },
+      select: { brand: { select: BRAND_SELECT } },
+    });
+
+    if (!redirect) {
+      throw new NotFoundException(`Brand with slug "${slug}" not found`);
+    }
+
+    return redirect.brand;
+  }
+
   /**
    * Find brand by exact name (case-insensitive)
    * Used for checking existence before creation
@@ -54,21 +94,28 @@ export class BrandService {
   async findByName(name: string): Promise<BrandResponseDto | null> {
     const brand = await this.prisma.brand.findFirst({
       where: { name: { equals: name, mode: 'insensitive' } },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        country: true,
-        description: true,
-        logoUrl: true,
-        isVerified: true,
-        createdAt: true,
-      },
+      select: BRAND_SELECT,
     });
 
     return brand;
   }
 
+  /**
+   * Find brands whose name is close to the given one (duplicate detection)
+   * Sorted by similarity, best match first
+   */
+  async findSimilar(name: string): Promise<BrandSuggestionDto[]> {
+    const brands = await this.prisma.brand.findMany({
+      select: BRAND_SELECT,
+    });
+
+    return brands
+      .map((brand) => ({ ...brand, score: similarityScore(name, brand.name) }))
+      .filter((brand) => brand.score >= DUPLICATE_SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.MAX_SUGGESTIONS);
+  }
+
   /**
    * Create a new brand (unverified by default)
    * Called during cigar creation if brand doesn't exist
@@ -88,19 +135,102 @@ export class BrandService {
         isVerified: false,
         createdBy: userId,
       },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        country: true,
-        description: true,
-        logoUrl: true,
-        isVerified: true,
-        createdAt: true,
-      },
+      select: BRAND_SELECT,
     });
 
     this.logger.log(`Created brand: ${brand.name} (${brand.id})`);
     return brand;
   }
+
+  /**
+   * Merge a duplicate brand into its canonical brand (single transaction)
+   * - Cigars are moved to the canonical brand (slug regenerated, old slug redirected)
+   * - Cigars already existing in the canonical brand are merged with it
+   * - The duplicate brand is deleted and its slug redirected
+   */
+  async merge(sourceId: string, targetId: string, moderatorId: string): Promise<BrandResponseDto> {
+    if (sourceId === targetId) {
+      throw new BadRequestException('Cannot merge a brand into itself');
+    }
+
+    const [source, target] = await Promise.all([
+      this.prisma.brand.findUnique({
+        where: { id: sourceId },
+        include: { cigars: { select: { id: true, name: true, slug: true } } },
+      }),
+      this.prisma.brand.findUnique({
+        where: { id: targetId },
+        include: { cigars: { select: { id: true, name: true, slug: true } } },
+      }),
+    ]);
+
+    if (!source) {
+      throw new NotFoundException(`Brand with ID "${sourceId}" not found`);
+    }
+
+    if (!target) {
+      throw new NotFoundException(`Brand with ID "${targetId}" not found`);
+    }
+
+    // Moved cigars join the candidates so two duplicates of the same cigar end up merged
+    const targetCigars = [...target.cigars];
+    const affectedCigarIds = new Set<string>();
+    let mergedCigars = 0;
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const cigar of source.cigars) {
+        const slug = slugifyCigar(target.slug, cigar.name);
+        const existing = targetCigars.find(
+          (candidate) =>
+            normalizeName(candidate.name) === normalizeName(cigar.name) || candidate.slug === slug
+        );
+
+        if (existing) {
+          await mergeCigarInto(tx, cigar, existing.id, moderatorId);
+          affectedCigarIds.add(cigar.id).add(existing.id);
+          mergedCigars++;
+          continue;
+        }
+
+        affectedCigarIds.add(cigar.id);
+
+        await tx.cigar.update({
+          where: { id: cigar.id },
+          data: { brandId: target.id, slug },
+        });
+        targetCigars.push({ id: cigar.id, name: cigar.name, slug });
+
+        if (slug !== cigar.slug) {
+          await tx.cigarSlugRedirect.upsert({
+            where: { slug: cigar.slug },
+            update: { cigarId: cigar.id },
+            create: { slug: cigar.slug, cigarId: cigar.id },
+          });
+        }
+      }
+
+      await tx.brandSlugRedirect.updateMany({
+        where: { brandId: source.id },
+        data: { brandId: target.id },
+      });
+
+      await tx.brand.delete({ where: { id: source.id } });
+
+      await tx.brandSlugRedirect.upsert({
+        where: { slug: source.slug },
+        update: { brandId: target.id },
+        create: { slug: source.slug, brandId: target.id },
+      });
+    });
+
+    // Merged cigars moved their tastings, moved cigars changed brand and slug
+    affectedCigarIds.forEach((cigarId) => this.cigarStatsService.invalidate(cigarId));
+
+    this.logger.log(
+      `Brand merged: ${source.name} (${source.id}) → ${target.name} (${target.id}), ` +
+        `${source.cigars.length - mergedCigars} cigar(s) moved, ${mergedCigars} merged by ${moderatorId}`
+    );
+
+    return this.findBySlug(target.slug);
+  }
 }
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { BrandResponseDto } from './brand-response.dto';
+
+/**
+ * Existing brand close to a submitted name (duplicate detection)
+ */
+export class BrandSuggestionDto extends BrandResponseDto {
+  @ApiProperty({ example: 0.94, description: 'Similarity score (1 = same name once normalized)' })
+  score: number;
+}
@@ -1,3 +1,5 @@
 export * from './brand-response.dto';
 export * from './brand-filter.dto';
 export * from './create-brand.dto';
+export * from './merge-brand.dto';
+export * from './brand-suggestion.dto';
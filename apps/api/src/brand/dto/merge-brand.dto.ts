@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+/**
+ * DTO for merging a duplicate brand into its canonical brand (moderators only)
+ */
+export class MergeBrandDto {
+  @IsUUID()
+  @ApiProperty({
+    description: 'ID of the canonical brand (kept after the merge)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  targetBrandId: string;
+}
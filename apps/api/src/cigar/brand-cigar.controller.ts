@@ -0,0 +1,35 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { CigarService } from './cigar.service';
+import { FilterBrandCigarsDto, PaginatedCigarCatalogResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Public } from '../auth/decorators/public.decorator';
+
+/**
+ * Catalogue of one brand, served under /brands but backed by CigarService
+ * (BrandModule cannot depend on CigarModule)
+ */
+@ApiTags('brands')
+@Controller('brands/:slug/cigars')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class BrandCigarController {
+  constructor(private readonly cigarService: CigarService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'Browse the cigars of a brand (public, same filters and facets as GET /cigars)' })
+  @ApiParam({ name: 'slug', description: 'Brand slug (old slugs of merged brands resolve too)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Catalogue page with facet counts',
+    type: PaginatedCigarCatalogResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async findAll(
+    @Param('slug') slug: string,
+    @Query() filter: FilterBrandCigarsDto,
+  ): Promise<PaginatedCigarCatalogResponseDto> {
+    return this.cigarService.findBrandCatalog(slug, filter);
+  }
+}
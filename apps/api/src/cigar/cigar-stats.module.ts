@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CigarStatsService } from './cigar-stats.service';
+import { PrismaService } from '../app/prisma.service';
+
+/**
+ * Cigar stats cache, on its own so BrandModule can invalidate it
+ * without importing CigarModule (which imports BrandModule)
+ */
+@Module({
+  providers: [CigarStatsService, PrismaService],
+  exports: [CigarStatsService],
+})
+export class CigarStatsModule {}
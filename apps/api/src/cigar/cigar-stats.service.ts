@@ -0,0 +1,211 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import {
+  PairingType,
+  Prisma,
+  TastingStatus,
+  TastingVisibility,
+} from '../../../../generated/prisma';
+import { CigarStatsResponseDto, CigarFlavorCountDto } from './dto';
+import {
+  CIGAR_STATS_CACHE_TTL_MS,
+  CIGAR_STATS_CACHE_MAX_ENTRIES,
+  CIGAR_STATS_TOP_LIMIT,
+} from './cigar.constants';
+import { unrevealedCigarEventWhere } from '../common/utils/cigar-reveal.util';
+import { extractFlavorIds } from '../observation/organoleptic.schema';
+
+const SAMPLE_SELECT = {
+  userId: true,
+  visibility: true,
+  rating: true,
+  pairing: true,
+  sharedClubs: { select: { clubId: true } },
+  user: { select: { clubMemberships: { select: { clubId: true } } } },
+  observations: { select: { aromas: true, organoleptic: true } },
+} satisfies Prisma.TastingSelect;
+
+type SampleRow = Prisma.TastingGetPayload<{ select: typeof SAMPLE_SELECT }>;
+
+/**
+ * What the aggregates need from one completed tasting, plus what the read rules need
+ */
+interface TastingSample {
+  userId: string;
+  visibility: TastingVisibility;
+  // Shared clubs the author still belongs to (CLUB_ONLY read rule)
+  readableClubIds: string[];
+  rating: number;
+  pairing: PairingType | null;
+  aromaIds: string[];
+  tasteIds: string[];
+}
+
+interface CacheEntry {
+  samples: TastingSample[];
+  expiresAt: number;
+}
+
+/**
+ * Per-cigar aggregates (ratings, flavor profile, pairings)
+ *
+ * The completed tastings of a cigar are loaded once into an in-memory cache,
+ * then filtered for each viewer with the TastingService read rules:
+ * own tastings, PUBLIC ones, CLUB_ONLY ones shared with a club of both viewer and author.
+ * Blind tastings stay out until the reveal.
+ * TastingService calls invalidate() whenever a tasting of the cigar changes.
+ */
+@Injectable()
+export class CigarStatsService {
+  private readonly logger = new Logger(CigarStatsService.name);
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get the aggregates of a cigar for a viewer
+   * @param cigarId - Cigar ID
+   * @param viewerId - Current user ID (undefined for anonymous visitors)
+   * @returns Aggregates of the tastings the viewer can read
+   */
+  async getStats(cigarId: string, viewerId?: string): Promise<CigarStatsResponseDto> {
+    const samples = await this.getSamples(cigarId);
+    const viewerClubIds = await this.getViewerClubIds(samples, viewerId);
+
+    const readable = samples.filter(
+      (sample) =>
+        sample.userId === viewerId ||
+        sample.visibility === TastingVisibility.PUBLIC ||
+        (sample.visibility === TastingVisibility.CLUB_ONLY &&
+          sample.readableClubIds.some((clubId) => viewerClubIds.has(clubId)))
+    );
+
+    const ratingSum = readable.reduce((sum, sample) => sum + sample.rating, 0);
+    const ratingDistribution = [1, 2, 3, 4, 5].map((rating) => ({
+      rating,
+      count: readable.filter((sample) => Math.max(1, Math.ceil(sample.rating)) === rating).length,
+    }));
+
+    return {
+      cigarId,
+      tastingCount: readable.length,
+      averageRating: readable.length > 0 ? Math.round((ratingSum / readable.length) * 10) / 10 : null,
+      ratingDistribution,
+      topAromas: this.topCounts(readable.flatMap((sample) => sample.aromaIds)),
+      topTastes: this.topCounts(readable.flatMap((sample) => sample.tasteIds)),
+      topPairings: this.topCounts(
+        readable.flatMap((sample) => (sample.pairing ? [sample.pairing] : []))
+      ).map(({ id, count }) => ({ pairing: id as PairingType, count })),
+    };
+  }
+
+  /**
+   * Drop the cached samples of a cigar (next read reloads them)
+   * @param cigarId - Cigar ID
+   */
+  invalidate(cigarId: string): void {
+    if (this.cache.delete(cigarId)) {
+      this.logger.debug(`Stats cache invalidated for cigar ${cigarId}`);
+    }
+  }
+
+  /**
+   * Cached samples, loaded from the database on miss or expiry
+   */
+  private async getSamples(cigarId: string): Promise<TastingSample[]> {
+    const cached = this.cache.get(cigarId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.samples;
+    }
+
+    const cigar = await this.prisma.cigar.findUnique({
+      where: { id: cigarId },
+      select: { id: true },
+    });
+
+    if (!cigar) {
+      throw new NotFoundException(`Cigar with ID "${cigarId}" not found`);
+    }
+
+    const rows = await this.prisma.tasting.findMany({
+      where: {
+        cigarId,
+        status: TastingStatus.COMPLETED,
+        NOT: { event: { is: unrevealedCigarEventWhere() } },
+      },
+      select: SAMPLE_SELECT,
+    });
+
+    const samples = rows.map((row) => this.toSample(row));
+
+    // Map keeps insertion order: re-insert on refresh, evict the oldest entry when full
+    this.cache.delete(cigarId);
+    if (this.cache.size >= CIGAR_STATS_CACHE_MAX_ENTRIES) {
+      const oldestCigarId = this.cache.keys().next().value;
+      if (oldestCigarId) this.cache.delete(oldestCigarId);
+    }
+    this.cache.set(cigarId, { samples, expiresAt: Date.now() + CIGAR_STATS_CACHE_TTL_MS });
+
+    return samples;
+  }
+
+  /**
+   * Clubs of the viewer, only queried when a CLUB_ONLY tasting needs them
+   */
+  private async getViewerClubIds(samples: TastingSample[], viewerId?: string): Promise<Set<string>> {
+    const needsClubs = samples.some(
+      (sample) => sample.visibility === TastingVisibility.CLUB_ONLY && sample.userId !== viewerId
+    );
+
+    if (!viewerId || !needsClubs) {
+      return new Set();
+    }
+
+    const memberships = await this.prisma.clubMember.findMany({
+      where: { userId: viewerId },
+      select: { clubId: true },
+    });
+
+    return new Set(memberships.map((membership) => membership.clubId));
+  }
+
+  private toSample(row: SampleRow): TastingSample {
+    const authorClubIds = new Set(row.user.clubMemberships.map((membership) => membership.clubId));
+
+    // A tasting counts an aroma or taste once, whatever the number of phases citing it
+    const aromaIds = row.observations.flatMap((observation) => [
+      ...observation.aromas,
+      ...extractFlavorIds(observation.organoleptic, 'aromas'),
+    ]);
+    const tasteIds = row.observations.flatMap((observation) =>
+      extractFlavorIds(observation.organoleptic, 'tastes')
+    );
+
+    return {
+      userId: row.userId,
+      visibility: row.visibility,
+      readableClubIds: row.sharedClubs
+        .map((sharedClub) => sharedClub.clubId)
+        .filter((clubId) => authorClubIds.has(clubId)),
+      rating: row.rating,
+      pairing: row.pairing,
+      aromaIds: [...new Set(aromaIds)],
+      tasteIds: [...new Set(tasteIds)],
+    };
+  }
+
+  /**
+   * Most frequent ids first (ties broken by id for a stable order)
+   */
+  private topCounts(ids: string[]): CigarFlavorCountDto[] {
+    const counts = new Map<string, number>();
+    for (const id of ids) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+
+    return [...counts]
+      .map(([id, count]) => ({ id, count }))
+      .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id))
+      .slice(0, CIGAR_STATS_TOP_LIMIT);
+  }
+}
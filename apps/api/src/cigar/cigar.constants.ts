@@ -0,0 +1,17 @@
+/**
+ * Cigar Constants
+ */
+
+/**
+ * Stats Cache
+ * Tasting samples of a cigar are kept in memory, per API instance.
+ * Completing, amending, re-sharing or deleting a tasting drops the entry;
+ * the TTL bounds staleness from changes made elsewhere (club memberships, event reveals).
+ */
+export const CIGAR_STATS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const CIGAR_STATS_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Number of aromas, tastes and pairings returned by the stats endpoint
+ */
+export const CIGAR_STATS_TOP_LIMIT = 5;
@@ -1,26 +1,95 @@
-import { Controller, Post, Get, Body, Param, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
 import { CigarService } from './cigar.service';
-import { CreateCigarDto, CigarResponseDto } from './dto';
+import { CigarStatsService } from './cigar-stats.service';
+import {
+  CreateCigarDto,
+  CigarResponseDto,
+  FilterCigarModerationDto,
+  UpdateCigarModerationDto,
+  RejectCigarDto,
+  CigarModerationResponseDto,
+  PaginatedCigarModerationResponseDto,
+  MergeCigarDto,
+  CheckCigarDuplicatesDto,
+  CigarDuplicatesResponseDto,
+  UpdateCigarDto,
+  CigarRevisionResponseDto,
+  CigarStatsResponseDto,
+  FilterCigarCatalogDto,
+  PaginatedCigarCatalogResponseDto,
+} from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
+import { OptionalAuth } from '../auth/decorators/optional-auth.decorator';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators';
+import { Role } from '@cigar-platform/prisma-client';
+import { RequestDbUser } from '../auth/types/request-user.type';
 
 @ApiTags('cigars')
 @Controller('cigars')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class CigarController {
-  constructor(private readonly cigarService: CigarService) {}
+  constructor(
+    private readonly cigarService: CigarService,
+    private readonly cigarStatsService: CigarStatsService,
+  ) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'Browse the cigar catalogue (public, paginated, filters with facet counts)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Catalogue page with facet counts',
+    type: PaginatedCigarCatalogResponseDto,
+  })
+  async findCatalog(
+    @Query() filter: FilterCigarCatalogDto,
+  ): Promise<PaginatedCigarCatalogResponseDto> {
+    return this.cigarService.findCatalog(filter);
+  }
+
+  @Get('duplicates')
+  @ApiOperation({ summary: 'Find existing brands and cigars close to the submitted names' })
+  @ApiResponse({
+    status: 200,
+    description: 'Near-duplicate suggestions (empty lists when nothing is close)',
+    type: CigarDuplicatesResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async findDuplicates(
+    @Query() dto: CheckCigarDuplicatesDto,
+  ): Promise<CigarDuplicatesResponseDto> {
+    return this.cigarService.findDuplicates(dto);
+  }
 
   @Get(':slug')
   @Public()
-  @ApiOperation({ summary: 'Get cigar by slug (public)' })
+  @ApiOperation({ summary: 'Get cigar by slug (public, old slugs of merged cigars resolve too)' })
   @ApiResponse({
     status: 200,
     description: 'Cigar found',
@@ -55,4 +124,167 @@ export class CigarController {
   ): Promise<CigarResponseDto> {
     return this.cigarService.create(dto, userId);
   }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit the cigar specification (submitter until verified, moderators always)' })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigar updated successfully (edit recorded in the change history)',
+    type: CigarResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the submitter, or cigar verified' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  @ApiResponse({ status: 409, description: 'Name already taken for this brand' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateCigarDto,
+    @CurrentUser('dbUser') user: RequestDbUser,
+  ): Promise<CigarResponseDto> {
+    return this.cigarService.update(id, dto, user.id, user.role);
+  }
+
+  @Get(':id/stats')
+  @OptionalAuth()
+  @ApiOperation({
+    summary: 'Get cigar aggregates (ratings, aromas, tastes, pairings) over the tastings the viewer can read',
+  })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Aggregates computed (anonymous visitors only see PUBLIC tastings)',
+    type: CigarStatsResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  async getStats(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') currentUserId?: string,
+  ): Promise<CigarStatsResponseDto> {
+    return this.cigarStatsService.getStats(id, currentUserId);
+  }
+
+  @Get(':id/history')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get the change history of a cigar (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Change history retrieved successfully (newest first)',
+    type: [CigarRevisionResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  async getHistory(@Param('id') id: string): Promise<CigarRevisionResponseDto[]> {
+    return this.cigarService.getHistory(id);
+  }
+
+  @Get('moderation/queue')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get cigars awaiting moderation (moderators only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Moderation queue retrieved successfully',
+    type: PaginatedCigarModerationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  async findModerationQueue(
+    @Query() filter: FilterCigarModerationDto,
+  ): Promise<PaginatedCigarModerationResponseDto> {
+    return this.cigarService.findModerationQueue(filter);
+  }
+
+  @Patch(':id/moderation')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Edit a submitted cigar before approval (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigar updated successfully',
+    type: CigarModerationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  @ApiResponse({ status: 409, description: 'Cigar already verified or name already taken' })
+  async updateForModeration(
+    @Param('id') id: string,
+    @Body() dto: UpdateCigarModerationDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<CigarModerationResponseDto> {
+    return this.cigarService.updateForModeration(id, dto, userId);
+  }
+
+  @Post(':id/approve')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a submitted cigar (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigar approved successfully',
+    type: CigarModerationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  @ApiResponse({ status: 409, description: 'Cigar already verified' })
+  async approve(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<CigarModerationResponseDto> {
+    return this.cigarService.approve(id, userId);
+  }
+
+  @Post(':id/reject')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a submitted cigar with a reason (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Cigar UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigar rejected successfully',
+    type: CigarModerationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  @ApiResponse({ status: 409, description: 'Cigar is not pending' })
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: RejectCigarDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<CigarModerationResponseDto> {
+    return this.cigarService.reject(id, dto, userId);
+  }
+
+  @Post(':id/merge')
+  @UseGuards(RolesGuard)
+  @Roles(Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Merge a duplicate cigar into its canonical cigar (moderators only)' })
+  @ApiParam({ name: 'id', description: 'Duplicate cigar UUID (removed)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigars merged successfully, returns the canonical cigar',
+    type: CigarResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot merge a cigar into itself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Moderators only' })
+  @ApiResponse({ status: 404, description: 'Cigar not found' })
+  async merge(
+    @Param('id') id: string,
+    @Body() dto: MergeCigarDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<CigarResponseDto> {
+    return this.cigarService.merge(id, dto.targetCigarId, userId);
+  }
 }
@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { CigarController } from './cigar.controller';
+import { BrandCigarController } from './brand-cigar.controller';
 import { CigarService } from './cigar.service';
+import { CigarStatsModule } from './cigar-stats.module';
 import { BrandModule } from '../brand/brand.module';
 import { AuthModule } from '../auth/auth.module';
 import { PrismaService } from '../app/prisma.service';
 
 @Module({
-  imports: [AuthModule, BrandModule],
-  controllers: [CigarController],
+  imports: [AuthModule, BrandModule, CigarStatsModule],
+  controllers: [CigarController, BrandCigarController],
   providers: [CigarService, PrismaService],
+  exports: [CigarStatsModule],
 })
 export class CigarModule {}
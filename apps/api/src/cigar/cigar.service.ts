@@ -1,9 +1,98 @@
-import { Injectable, Logger, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../app/prisma.service';
 import { BrandService } from '../brand/brand.service';
-import { CreateCigarDto, CigarResponseDto } from './dto';
+import { CigarStatsService } from './cigar-stats.service';
+import { BrandResponseDto } from '../brand/dto';
+import {
+  CreateCigarDto,
+  CigarResponseDto,
+  FilterCigarModerationDto,
+  UpdateCigarModerationDto,
+  RejectCigarDto,
+  CigarModerationResponseDto,
+  PaginatedCigarModerationResponseDto,
+  CheckCigarDuplicatesDto,
+  CigarDuplicatesResponseDto,
+  CigarSuggestionDto,
+  UpdateCigarDto,
+  CigarRevisionResponseDto,
+  CigarFieldChangeDto,
+  FilterCigarCatalogDto,
+  FilterBrandCigarsDto,
+  CigarCatalogSort,
+  CigarCatalogFacetsDto,
+  PaginatedCigarCatalogResponseDto,
+} from './dto';
 import { slugifyCigar } from '../common/utils/slugify';
-import { CigarStatus } from '@cigar-platform/prisma-client';
+import {
+  DUPLICATE_SIMILARITY_THRESHOLD,
+  normalizeName,
+  similarityScore,
+} from '../common/utils/similarity.util';
+import { mergeCigarInto } from '../common/utils/catalog-merge.util';
+import { unrevealedCigarEventWhere } from '../common/utils/cigar-reveal.util';
+import { CigarStatus, Role } from '@cigar-platform/prisma-client';
+import { Prisma } from '../../../../generated/prisma';
+
+const BRAND_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  country: true,
+  description: true,
+  logoUrl: true,
+  isVerified: true,
+  createdAt: true,
+} satisfies Prisma.BrandSelect;
+
+const MODERATION_INCLUDE = {
+  brand: {
+    select: BRAND_SELECT,
+  },
+  creator: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+    },
+  },
+} satisfies Prisma.CigarInclude;
+
+type CigarWithBrand = Prisma.CigarGetPayload<{ include: { brand: { select: typeof BRAND_SELECT } } }>;
+type CigarForModeration = Prisma.CigarGetPayload<{ include: typeof MODERATION_INCLUDE }>;
+
+const MAX_SUGGESTIONS = 5;
+
+// Fields tracked in the change history
+const SPEC_FIELDS = ['name', 'vitola', 'strength', 'length', 'ringGauge', 'wrapper', 'origin'] as const;
+
+const MODERATOR_ROLES: Role[] = [Role.MODERATOR, Role.ADMIN, Role.SUPER_ADMIN];
+
+// Catalogue filters that have a facet
+type CatalogFacet = 'brandId' | 'origin' | 'vitola' | 'strength' | 'ringGauge' | 'status';
+
+interface CatalogRating {
+  tastingCount: number;
+  averageRating: number | null;
+}
+
+/**
+ * Tastings behind catalogue popularity and ratings (what anonymous visitors can read)
+ */
+function catalogTastingWhere(): Prisma.TastingWhereInput {
+  return {
+    status: 'COMPLETED',
+    visibility: 'PUBLIC',
+    NOT: { event: { is: unrevealedCigarEventWhere() } },
+  };
+}
 
 @Injectable()
 export class CigarService {
@@ -12,47 +101,135 @@ export class CigarService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly brandService: BrandService,
+    private readonly cigarStatsService: CigarStatsService,
   ) {}
 
   /**
    * Find cigar by slug (public endpoint)
+   * Falls back to the redirects left by merges so old slugs still resolve
+   * (the response carries the canonical slug)
    */
   async findBySlug(slug: string): Promise<CigarResponseDto> {
     const cigar = await this.prisma.cigar.findUnique({
       where: { slug },
       include: {
         brand: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            country: true,
-            description: true,
-            logoUrl: true,
-            isVerified: true,
-            createdAt: true,
+          select: BRAND_SELECT,
+        },
+      },
+    });
+
+    if (cigar) {
+      return this.mapToResponse(cigar);
+    }
+
+    const redirect = await this.prisma.cigarSlugRedirect.findUnique({
+      where: { slug },
+      include: {
+        cigar: {
+          include: {
+            brand: {
+              select: BRAND_SELECT,
+            },
           },
         },
       },
     });
 
-    if (!cigar) {
+    if (!redirect) {
       throw new NotFoundException(`Cigar with slug "${slug}" not found`);
     }
 
+    return this.mapToResponse(redirect.cigar);
+  }
+
+  /**
+   * Find existing brands and cigars close to the submitted names
+   * Shown before creation so users pick the existing entry instead of a duplicate
+   */
+  async findDuplicates(dto: CheckCigarDuplicatesDto): Promise<CigarDuplicatesResponseDto> {
+    const brands = await this.brandService.findSimilar(dto.brandName);
+
+    if (!dto.name || brands.length === 0) {
+      return { brands, cigars: [] };
+    }
+
+    const name = dto.name;
+    const candidates = await this.prisma.cigar.findMany({
+      where: { brandId: { in: brands.map((brand) => brand.id) } },
+      include: {
+        brand: {
+          select: BRAND_SELECT,
+        },
+      },
+    });
+
+    const cigars: CigarSuggestionDto[] = candidates
+      .map((cigar) => ({ ...this.mapToResponse(cigar), score: similarityScore(name, cigar.name) }))
+      .filter((cigar) => cigar.score >= DUPLICATE_SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS);
+
+    return { brands, cigars };
+  }
+
+  /**
+   * Browse the catalogue (public endpoint)
+   * Paginated, filtered, with facet counts; REJECTED cigars are left out
+   */
+  async findCatalog(filter: FilterCigarCatalogDto): Promise<PaginatedCigarCatalogResponseDto> {
+    const { page = 1, limit = 20, sortBy = 'popularity' } = filter;
+    const where = this.buildCatalogWhere(filter);
+
+    const [total, pageIds, facets] = await Promise.all([
+      this.prisma.cigar.count({ where }),
+      this.findCatalogPageIds(where, sortBy, (page - 1) * limit, limit),
+      this.getCatalogFacets(filter),
+    ]);
+
+    const [cigars, ratings] = await Promise.all([
+      this.prisma.cigar.findMany({
+        where: { id: { in: pageIds } },
+        include: {
+          brand: {
+            select: BRAND_SELECT,
+          },
+        },
+      }),
+      this.getCatalogRatings(pageIds),
+    ]);
+
+    const cigarsById = new Map(cigars.map((cigar) => [cigar.id, cigar]));
+
     return {
-      id: cigar.id,
-      name: cigar.name,
-      slug: cigar.slug,
-      vitola: cigar.vitola ?? '',
-      strength: cigar.strength ?? 3,
-      brand: cigar.brand,
-      isVerified: cigar.isVerified,
-      status: cigar.status,
-      createdAt: cigar.createdAt,
+      data: pageIds
+        .map((id) => cigarsById.get(id))
+        .filter((cigar): cigar is CigarWithBrand => !!cigar)
+        .map((cigar) => ({
+          ...this.mapToResponse(cigar),
+          ...(ratings.get(cigar.id) ?? { tastingCount: 0, averageRating: null }),
+        })),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+      facets,
     };
   }
 
+  /**
+   * Browse the catalogue of one brand (public endpoint, old brand slugs resolve too)
+   */
+  async findBrandCatalog(
+    brandSlug: string,
+    filter: FilterBrandCigarsDto,
+  ): Promise<PaginatedCigarCatalogResponseDto> {
+    const brand = await this.brandService.findBySlug(brandSlug);
+
+    return this.findCatalog({ ...filter, brandId: brand.id });
+  }
+
   /**
    * Create a new cigar with inline brand creation
    */
@@ -60,8 +237,10 @@ export class CigarService {
     dto: CreateCigarDto,
     userId: string,
   ): Promise<CigarResponseDto> {
-    // 1. Find or create brand
-    let brand = await this.brandService.findByName(dto.brandName);
+    // 1. Find or create brand (same name once normalized, e.g. "H Upmann" → "H. Upmann")
+    let brand =
+      (await this.brandService.findByName(dto.brandName)) ??
+      (await this.findBrandWithSameName(dto.brandName));
 
     if (!brand) {
       brand = await this.brandService.create(
@@ -72,19 +251,18 @@ export class CigarService {
       this.logger.log(`Auto-created brand: ${brand.name}`);
     }
 
-    // 2. Check if cigar already exists
-    const existingCigar = await this.prisma.cigar.findUnique({
-      where: {
-        brandId_name: {
-          brandId: brand.id,
-          name: dto.name,
-        },
-      },
+    // 2. Check if cigar already exists (same name once normalized)
+    const brandCigars = await this.prisma.cigar.findMany({
+      where: { brandId: brand.id },
+      select: { name: true },
     });
+    const existingCigar = brandCigars.find(
+      (cigar) => normalizeName(cigar.name) === normalizeName(dto.name),
+    );
 
     if (existingCigar) {
       throw new ConflictException(
-        `Cigar "${dto.name}" already exists for brand "${brand.name}"`,
+        `Cigar "${existingCigar.name}" already exists for brand "${brand.name}"`,
       );
     }
 
@@ -98,38 +276,499 @@ export class CigarService {
         brandId: brand.id,
         vitola: dto.vitola,
         strength: dto.strength,
+        length: dto.length,
+        ringGauge: dto.ringGauge,
+        wrapper: dto.wrapper?.trim() || null,
+        origin: dto.origin?.trim() || null,
         status: CigarStatus.PENDING,
         isVerified: false,
         createdBy: userId,
       },
       include: {
         brand: {
+          select: BRAND_SELECT,
+        },
+      },
+    });
+
+    this.logger.log(`Created cigar: ${cigar.name} (${cigar.id})`);
+
+    return this.mapToResponse(cigar);
+  }
+
+  /**
+   * Get the moderation queue (paginated, oldest submissions first)
+   */
+  async findModerationQueue(
+    filter: FilterCigarModerationDto,
+  ): Promise<PaginatedCigarModerationResponseDto> {
+    const { page = 1, limit = 20, status = CigarStatus.PENDING } = filter;
+    const skip = (page - 1) * limit;
+    const where: Prisma.CigarWhereInput = { status };
+
+    const [cigars, total] = await Promise.all([
+      this.prisma.cigar.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+        include: MODERATION_INCLUDE,
+      }),
+      this.prisma.cigar.count({ where }),
+    ]);
+
+    return {
+      data: cigars.map((cigar) => this.mapToModerationResponse(cigar)),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Edit the cigar specification
+   * - The submitter can edit their cigar until it is verified
+   * - Moderators can edit any cigar, verified ones included
+   * Every edit is recorded in the change history
+   */
+  async update(
+    id: string,
+    dto: UpdateCigarDto,
+    userId: string,
+    role: Role,
+  ): Promise<CigarResponseDto> {
+    const existingCigar = await this.findForModerationOrThrow(id);
+
+    if (!MODERATOR_ROLES.includes(role)) {
+      if (existingCigar.createdBy !== userId) {
+        throw new ForbiddenException('Only the submitter or a moderator can edit this cigar');
+      }
+
+      if (existingCigar.status === CigarStatus.VERIFIED) {
+        throw new ForbiddenException('Verified cigars can only be edited by moderators');
+      }
+    }
+
+    const cigar = await this.applySpecUpdate(existingCigar, dto, userId);
+    return this.mapToResponse(cigar);
+  }
+
+  /**
+   * Edit a submitted cigar before approval (specs and name)
+   * Renaming regenerates the slug
+   */
+  async updateForModeration(
+    id: string,
+    dto: UpdateCigarModerationDto,
+    moderatorId: string,
+  ): Promise<CigarModerationResponseDto> {
+    const existingCigar = await this.findForModerationOrThrow(id);
+
+    if (existingCigar.status === CigarStatus.VERIFIED) {
+      throw new ConflictException(`Cigar "${existingCigar.name}" is already verified`);
+    }
+
+    const cigar = await this.applySpecUpdate(existingCigar, dto, moderatorId);
+    return this.mapToModerationResponse(cigar);
+  }
+
+  /**
+   * Get the change history of a cigar (newest first)
+   */
+  async getHistory(id: string): Promise<CigarRevisionResponseDto[]> {
+    await this.findForModerationOrThrow(id);
+
+    const revisions = await this.prisma.cigarRevision.findMany({
+      where: { cigarId: id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        editor: {
           select: {
             id: true,
-            name: true,
-            slug: true,
-            country: true,
-            description: true,
-            logoUrl: true,
-            isVerified: true,
-            createdAt: true,
+            username: true,
+            displayName: true,
           },
         },
       },
     });
 
-    this.logger.log(`Created cigar: ${cigar.name} (${cigar.id})`);
+    return revisions.map((revision) => ({
+      id: revision.id,
+      changes: revision.changes as unknown as CigarFieldChangeDto[],
+      editor: revision.editor,
+      createdAt: revision.createdAt,
+    }));
+  }
+
+  /**
+   * Approve a submitted cigar (PENDING/REJECTED → VERIFIED)
+   */
+  async approve(
+    id: string,
+    moderatorId: string,
+  ): Promise<CigarModerationResponseDto> {
+    const existingCigar = await this.findForModerationOrThrow(id);
+
+    if (existingCigar.status === CigarStatus.VERIFIED) {
+      throw new ConflictException(`Cigar "${existingCigar.name}" is already verified`);
+    }
+
+    const cigar = await this.prisma.cigar.update({
+      where: { id },
+      data: {
+        status: CigarStatus.VERIFIED,
+        isVerified: true,
+        verifiedBy: moderatorId,
+        verifiedAt: new Date(),
+        rejectionReason: null,
+      },
+      include: MODERATION_INCLUDE,
+    });
+
+    this.logger.log(`Cigar approved: ${cigar.name} (${cigar.id}) by ${moderatorId}`);
+    return this.mapToModerationResponse(cigar);
+  }
+
+  /**
+   * Reject a submitted cigar with a reason (PENDING → REJECTED)
+   */
+  async reject(
+    id: string,
+    dto: RejectCigarDto,
+    moderatorId: string,
+  ): Promise<CigarModerationResponseDto> {
+    const existingCigar = await this.findForModerationOrThrow(id);
+
+    if (existingCigar.status !== CigarStatus.PENDING) {
+      throw new ConflictException(
+        `Cigar "${existingCigar.name}" is not pending (status: ${existingCigar.status})`,
+      );
+    }
+
+    const cigar = await this.prisma.cigar.update({
+      where: { id },
+      data: {
+        status: CigarStatus.REJECTED,
+        isVerified: false,
+        verifiedBy: moderatorId,
+        verifiedAt: new Date(),
+        rejectionReason: dto.reason,
+      },
+      include: MODERATION_INCLUDE,
+    });
+
+    this.logger.log(`Cigar rejected: ${cigar.name} (${cigar.id}) by ${moderatorId}`);
+    return this.mapToModerationResponse(cigar);
+  }
+
+  /**
+   * Merge a duplicate cigar into its canonical cigar (single transaction)
+   * Tastings and events are repointed, the duplicate slug redirects to the canonical cigar
+   */
+  async merge(
+    id: string,
+    targetCigarId: string,
+    moderatorId: string,
+  ): Promise<CigarResponseDto> {
+    if (id === targetCigarId) {
+      throw new BadRequestException('Cannot merge a cigar into itself');
+    }
+
+    const [source, target] = await Promise.all([
+      this.findForModerationOrThrow(id),
+      this.findForModerationOrThrow(targetCigarId),
+    ]);
+
+    await this.prisma.$transaction(async (tx) => {
+      await mergeCigarInto(tx, source, target.id, moderatorId);
+    });
+
+    // Tastings moved to the canonical cigar
+    this.cigarStatsService.invalidate(source.id);
+    this.cigarStatsService.invalidate(target.id);
+
+    this.logger.log(
+      `Cigar merged: ${source.name} (${source.id}) → ${target.name} (${target.id}) by ${moderatorId}`,
+    );
+    return this.mapToResponse(target);
+  }
+
+  /**
+   * Apply a spec edit and record it in the change history (single transaction)
+   * Renaming regenerates the slug, the old one keeps redirecting
+   */
+  private async applySpecUpdate(
+    existingCigar: CigarForModeration,
+    dto: UpdateCigarDto,
+    editorId: string,
+  ): Promise<CigarForModeration> {
+    const changes: CigarFieldChangeDto[] = [];
+    for (const field of SPEC_FIELDS) {
+      const value = dto[field];
+      if (value !== undefined && value !== existingCigar[field]) {
+        changes.push({ field, from: existingCigar[field], to: value });
+      }
+    }
+
+    if (changes.length === 0) {
+      return existingCigar;
+    }
+
+    const newName = dto.name !== existingCigar.name ? dto.name : undefined;
+    let slug: string | undefined;
+
+    if (newName) {
+      const brandCigars = await this.prisma.cigar.findMany({
+        where: { brandId: existingCigar.brandId, id: { not: existingCigar.id } },
+        select: { name: true },
+      });
+      const duplicate = brandCigars.find(
+        (cigar) => normalizeName(cigar.name) === normalizeName(newName),
+      );
+
+      if (duplicate) {
+        throw new ConflictException(
+          `Cigar "${duplicate.name}" already exists for brand "${existingCigar.brand.name}"`,
+        );
+      }
+
+      slug = slugifyCigar(existingCigar.brand.slug, newName);
+    }
+
+    const cigar = await this.prisma.$transaction(async (tx) => {
+      if (slug && slug !== existingCigar.slug) {
+        // The new slug may have been left as a redirect by an earlier rename
+        await tx.cigarSlugRedirect.deleteMany({ where: { slug } });
+        await tx.cigarSlugRedirect.upsert({
+          where: { slug: existingCigar.slug },
+          update: { cigarId: existingCigar.id },
+          create: { slug: existingCigar.slug, cigarId: existingCigar.id },
+        });
+      }
+
+      await tx.cigarRevision.create({
+        data: {
+          cigarId: existingCigar.id,
+          editedBy: editorId,
+          changes: changes as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return tx.cigar.update({
+        where: { id: existingCigar.id },
+        data: {
+          name: dto.name,
+          slug,
+          vitola: dto.vitola,
+          strength: dto.strength,
+          length: dto.length,
+          ringGauge: dto.ringGauge,
+          wrapper: dto.wrapper,
+          origin: dto.origin,
+        },
+        include: MODERATION_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Cigar edited: ${cigar.name} (${cigar.id}) by ${editorId} [${changes.map((change) => change.field).join(', ')}]`,
+    );
+    return cigar;
+  }
+
+  /**
+   * Catalogue where clause
+   * @param omit - Filter left out (facet counted against the other filters)
+   */
+  private buildCatalogWhere(filter: FilterCigarCatalogDto, omit?: CatalogFacet): Prisma.CigarWhereInput {
+    const apply = (facet: CatalogFacet): boolean => omit !== facet;
 
+    return {
+      status: filter.status && apply('status') ? filter.status : { not: CigarStatus.REJECTED },
+      ...(filter.brandId && apply('brandId') && { brandId: filter.brandId }),
+      ...(filter.origin && apply('origin') && {
+        origin: { equals: filter.origin, mode: 'insensitive' as const },
+      }),
+      ...(filter.vitola && apply('vitola') && {
+        vitola: { equals: filter.vitola, mode: 'insensitive' as const },
+      }),
+      ...(filter.strength && apply('strength') && { strength: filter.strength }),
+      ...(filter.ringGauge && apply('ringGauge') && { ringGauge: filter.ringGauge }),
+    };
+  }
+
+  /**
+   * IDs of one catalogue page in display order
+   * Popularity and rating sorts rank cigars with public tastings first, the others follow by name
+   */
+  private async findCatalogPageIds(
+    where: Prisma.CigarWhereInput,
+    sortBy: CigarCatalogSort,
+    skip: number,
+    take: number,
+  ): Promise<string[]> {
+    if (sortBy === 'name') {
+      const cigars = await this.prisma.cigar.findMany({
+        where,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        skip,
+        take,
+        select: { id: true },
+      });
+      return cigars.map((cigar) => cigar.id);
+    }
+
+    const groups = await this.prisma.tasting.groupBy({
+      by: ['cigarId'],
+      where: { ...catalogTastingWhere(), cigar: where },
+      _count: { _all: true },
+      _avg: { rating: true },
+    });
+
+    const byCount = (a: (typeof groups)[number], b: (typeof groups)[number]): number =>
+      b._count._all - a._count._all;
+    const byRating = (a: (typeof groups)[number], b: (typeof groups)[number]): number =>
+      (b._avg.rating ?? 0) - (a._avg.rating ?? 0);
+
+    const rankedIds = groups
+      .sort((a, b) =>
+        (sortBy === 'rating' ? byRating(a, b) || byCount(a, b) : byCount(a, b) || byRating(a, b)) ||
+        a.cigarId.localeCompare(b.cigarId),
+      )
+      .map((group) => group.cigarId);
+
+    const pageIds = rankedIds.slice(skip, skip + take);
+    if (pageIds.length === take) {
+      return pageIds;
+    }
+
+    const untasted = await this.prisma.cigar.findMany({
+      where: { AND: [where, { tastings: { none: catalogTastingWhere() } }] },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      skip: Math.max(0, skip - rankedIds.length),
+      take: take - pageIds.length,
+      select: { id: true },
+    });
+
+    return [...pageIds, ...untasted.map((cigar) => cigar.id)];
+  }
+
+  /**
+   * Public tasting count and average rating of the given cigars
+   */
+  private async getCatalogRatings(cigarIds: string[]): Promise<Map<string, CatalogRating>> {
+    if (cigarIds.length === 0) {
+      return new Map();
+    }
+
+    const groups = await this.prisma.tasting.groupBy({
+      by: ['cigarId'],
+      where: { ...catalogTastingWhere(), cigarId: { in: cigarIds } },
+      _count: { _all: true },
+      _avg: { rating: true },
+    });
+
+    return new Map(
+      groups.map((group) => [
+        group.cigarId,
+        {
+          tastingCount: group._count._all,
+          averageRating: group._avg.rating !== null ? Math.round(group._avg.rating * 10) / 10 : null,
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Facet counts, each one against the other active filters
+   */
+  private async getCatalogFacets(filter: FilterCigarCatalogDto): Promise<CigarCatalogFacetsDto> {
+    const countBy = async (field: CatalogFacet): Promise<Array<{ value: string; count: number }>> => {
+      const groups = await this.prisma.cigar.groupBy({
+        by: [field],
+        where: this.buildCatalogWhere(filter, field),
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } },
+      });
+
+      return groups
+        .filter((group) => group[field] !== null)
+        .map((group) => ({ value: String(group[field]), count: group._count._all }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, undefined, { numeric: true }));
+    };
+
+    const [brandCounts, origins, vitolas, strengths, ringGauges, statuses] = await Promise.all([
+      countBy('brandId'),
+      countBy('origin'),
+      countBy('vitola'),
+      countBy('strength'),
+      countBy('ringGauge'),
+      countBy('status'),
+    ]);
+
+    const brands = await this.prisma.brand.findMany({
+      where: { id: { in: brandCounts.map((brandCount) => brandCount.value) } },
+      select: { id: true, name: true, slug: true },
+    });
+    const brandsById = new Map(brands.map((brand) => [brand.id, brand]));
+
+    return {
+      brands: brandCounts.flatMap((brandCount) => {
+        const brand = brandsById.get(brandCount.value);
+        return brand ? [{ ...brand, count: brandCount.count }] : [];
+      }),
+      origins,
+      vitolas,
+      strengths: strengths.map(({ value, count }) => ({ value: Number(value), count })),
+      ringGauges: ringGauges.map(({ value, count }) => ({ value: Number(value), count })),
+      statuses: statuses.map(({ value, count }) => ({ value: value as CigarStatus, count })),
+    };
+  }
+
+  private async findBrandWithSameName(name: string): Promise<BrandResponseDto | null> {
+    const [bestMatch] = await this.brandService.findSimilar(name);
+    return bestMatch && bestMatch.score === 1 ? bestMatch : null;
+  }
+
+  private async findForModerationOrThrow(id: string): Promise<CigarForModeration> {
+    const cigar = await this.prisma.cigar.findUnique({
+      where: { id },
+      include: MODERATION_INCLUDE,
+    });
+
+    if (!cigar) {
+      throw new NotFoundException(`Cigar with ID "${id}" not found`);
+    }
+
+    return cigar;
+  }
+
+  private mapToResponse(cigar: CigarWithBrand): CigarResponseDto {
     return {
       id: cigar.id,
       name: cigar.name,
       slug: cigar.slug,
-      vitola: cigar.vitola ?? '',
-      strength: cigar.strength ?? 3,
+      vitola: cigar.vitola,
+      strength: cigar.strength,
+      length: cigar.length,
+      ringGauge: cigar.ringGauge,
+      wrapper: cigar.wrapper,
+      origin: cigar.origin,
       brand: cigar.brand,
       isVerified: cigar.isVerified,
       status: cigar.status,
       createdAt: cigar.createdAt,
     };
   }
+
+  private mapToModerationResponse(cigar: CigarForModeration): CigarModerationResponseDto {
+    return {
+      ...this.mapToResponse(cigar),
+      rejectionReason: cigar.rejectionReason,
+      verifiedAt: cigar.verifiedAt,
+      creator: cigar.creator,
+    };
+  }
 }
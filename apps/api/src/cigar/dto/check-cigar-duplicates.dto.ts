@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, MaxLength, IsOptional } from 'class-validator';
+
+export class CheckCigarDuplicatesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @ApiProperty({
+    description: 'Brand name as typed by the user',
+    example: 'H Upmann',
+  })
+  brandName: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Cigar name as typed by the user',
+    example: 'Magnum 50s',
+  })
+  name?: string;
+}
@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CigarStatus } from '@cigar-platform/prisma-client';
+import { CigarResponseDto } from './cigar-response.dto';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+
+/**
+ * Catalogue entry: cigar with its public tasting aggregates
+ */
+export class CigarCatalogItemDto extends CigarResponseDto {
+  @ApiProperty({ example: 24, description: 'Number of public completed tastings' })
+  tastingCount: number;
+
+  @ApiProperty({ type: Number, example: 4.2, nullable: true, description: 'Average public rating (1 decimal), null without tastings' })
+  averageRating: number | null;
+}
+
+export class CatalogFacetCountDto {
+  @ApiProperty({ example: 'Cuba' })
+  value: string;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+export class CatalogNumericFacetCountDto {
+  @ApiProperty({ example: 52 })
+  value: number;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+export class CatalogBrandFacetDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440003' })
+  id: string;
+
+  @ApiProperty({ example: 'Cohiba' })
+  name: string;
+
+  @ApiProperty({ example: 'cohiba' })
+  slug: string;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+export class CatalogStatusFacetDto {
+  @ApiProperty({ enum: [CigarStatus.PENDING, CigarStatus.VERIFIED], example: CigarStatus.VERIFIED })
+  value: CigarStatus;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+/**
+ * Facet counts, most frequent first (unknown values are not counted)
+ * Each facet ignores its own filter so the other options stay selectable
+ */
+export class CigarCatalogFacetsDto {
+  @ApiProperty({ type: [CatalogBrandFacetDto] })
+  brands: CatalogBrandFacetDto[];
+
+  @ApiProperty({ type: [CatalogFacetCountDto] })
+  origins: CatalogFacetCountDto[];
+
+  @ApiProperty({ type: [CatalogFacetCountDto] })
+  vitolas: CatalogFacetCountDto[];
+
+  @ApiProperty({ type: [CatalogNumericFacetCountDto] })
+  strengths: CatalogNumericFacetCountDto[];
+
+  @ApiProperty({ type: [CatalogNumericFacetCountDto] })
+  ringGauges: CatalogNumericFacetCountDto[];
+
+  @ApiProperty({ type: [CatalogStatusFacetDto] })
+  statuses: CatalogStatusFacetDto[];
+}
+
+export class PaginatedCigarCatalogResponseDto {
+  @ApiProperty({ type: [CigarCatalogItemDto] })
+  data: CigarCatalogItemDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+
+  @ApiProperty({ type: CigarCatalogFacetsDto })
+  facets: CigarCatalogFacetsDto;
+}
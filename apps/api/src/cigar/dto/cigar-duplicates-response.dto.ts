@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CigarResponseDto } from './cigar-response.dto';
+import { BrandSuggestionDto } from '../../brand/dto';
+
+/**
+ * Existing cigar close to a submitted name (duplicate detection)
+ */
+export class CigarSuggestionDto extends CigarResponseDto {
+  @ApiProperty({ example: 0.92, description: 'Similarity score (1 = same name once normalized)' })
+  score: number;
+}
+
+/**
+ * Near-duplicate suggestions shown before creating a cigar
+ */
+export class CigarDuplicatesResponseDto {
+  @ApiProperty({ type: [BrandSuggestionDto], description: 'Brands close to the submitted brand name' })
+  brands: BrandSuggestionDto[];
+
+  @ApiProperty({ type: [CigarSuggestionDto], description: 'Cigars close to the submitted name within those brands' })
+  cigars: CigarSuggestionDto[];
+}
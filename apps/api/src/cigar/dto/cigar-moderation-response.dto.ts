@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CigarResponseDto } from './cigar-response.dto';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+
+export class CigarSubmitterDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'john_doe' })
+  username: string;
+
+  @ApiProperty({ example: 'John Doe' })
+  displayName: string;
+}
+
+/**
+ * Cigar with verification details (moderation queue)
+ */
+export class CigarModerationResponseDto extends CigarResponseDto {
+  @ApiProperty({ type: String, example: null, nullable: true })
+  rejectionReason: string | null;
+
+  @ApiProperty({ type: Date, example: null, nullable: true })
+  verifiedAt: Date | null;
+
+  @ApiProperty({ type: CigarSubmitterDto })
+  creator: CigarSubmitterDto;
+}
+
+export class PaginatedCigarModerationResponseDto {
+  @ApiProperty({ type: [CigarModerationResponseDto] })
+  data: CigarModerationResponseDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+}
@@ -11,11 +11,23 @@ export class CigarResponseDto {
   @ApiProperty({ example: 'cohiba-behike-52' })
   slug: string;
 
-  @ApiProperty({ example: 'Robusto' })
-  vitola: string;
+  @ApiProperty({ type: String, example: 'Robusto', nullable: true })
+  vitola: string | null;
 
-  @ApiProperty({ example: 3 })
-  strength: number;
+  @ApiProperty({ type: Number, example: 3, nullable: true, description: 'Strength (1-5), null when unknown' })
+  strength: number | null;
+
+  @ApiProperty({ type: Number, example: 119, nullable: true })
+  length: number | null;
+
+  @ApiProperty({ type: Number, example: 52, nullable: true })
+  ringGauge: number | null;
+
+  @ApiProperty({ type: String, example: 'Colorado', nullable: true })
+  wrapper: string | null;
+
+  @ApiProperty({ type: String, example: 'Cuba', nullable: true })
+  origin: string | null;
 
   @ApiProperty({ type: BrandResponseDto })
   brand: BrandResponseDto;
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CigarSubmitterDto } from './cigar-moderation-response.dto';
+
+/**
+ * A single field modified by an edit
+ */
+export class CigarFieldChangeDto {
+  @ApiProperty({ example: 'ringGauge' })
+  field: string;
+
+  @ApiProperty({ oneOf: [{ type: 'string' }, { type: 'number' }], example: 50, nullable: true })
+  from: string | number | null;
+
+  @ApiProperty({ oneOf: [{ type: 'string' }, { type: 'number' }], example: 52, nullable: true })
+  to: string | number | null;
+}
+
+/**
+ * Cigar spec edit (change history)
+ */
+export class CigarRevisionResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ type: [CigarFieldChangeDto] })
+  changes: CigarFieldChangeDto[];
+
+  @ApiProperty({
+    type: CigarSubmitterDto,
+    nullable: true,
+    description: 'Editor (null once the account is deleted)',
+  })
+  editor: CigarSubmitterDto | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PairingType } from '@cigar-platform/prisma-client';
+
+/**
+ * Number of tastings per star (ratings rounded up: 3.5 counts as 4)
+ */
+export class CigarRatingBucketDto {
+  @ApiProperty({ example: 4, description: 'Star (1-5)' })
+  rating: number;
+
+  @ApiProperty({ example: 12 })
+  count: number;
+}
+
+/**
+ * Aroma or taste id (shared constants) with the number of tastings citing it
+ */
+export class CigarFlavorCountDto {
+  @ApiProperty({ example: 'woody' })
+  id: string;
+
+  @ApiProperty({ example: 8 })
+  count: number;
+}
+
+export class CigarPairingCountDto {
+  @ApiProperty({ enum: PairingType, example: PairingType.WHISKY })
+  pairing: PairingType;
+
+  @ApiProperty({ example: 5 })
+  count: number;
+}
+
+/**
+ * Aggregates of the completed tastings of a cigar the viewer is allowed to read
+ */
+export class CigarStatsResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  cigarId: string;
+
+  @ApiProperty({ example: 24 })
+  tastingCount: number;
+
+  @ApiProperty({ type: Number, example: 4.2, nullable: true, description: 'Average rating (1 decimal), null without tastings' })
+  averageRating: number | null;
+
+  @ApiProperty({ type: [CigarRatingBucketDto], description: 'One bucket per star, 1 to 5' })
+  ratingDistribution: CigarRatingBucketDto[];
+
+  @ApiProperty({ type: [CigarFlavorCountDto], description: 'Most cited aromas (most cited first)' })
+  topAromas: CigarFlavorCountDto[];
+
+  @ApiProperty({ type: [CigarFlavorCountDto], description: 'Most cited tastes (most cited first)' })
+  topTastes: CigarFlavorCountDto[];
+
+  @ApiProperty({ type: [CigarPairingCountDto], description: 'Most frequent pairings (most frequent first)' })
+  topPairings: CigarPairingCountDto[];
+}
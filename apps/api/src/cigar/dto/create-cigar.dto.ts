@@ -6,6 +6,7 @@ import {
   MaxLength,
   IsOptional,
   IsInt,
+  IsNumber,
   Min,
   Max,
 } from 'class-validator';
@@ -60,4 +61,44 @@ export class CreateCigarDto {
     example: 3,
   })
   strength: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(50)
+  @Max(300)
+  @ApiPropertyOptional({
+    description: 'Length in mm',
+    example: 119,
+  })
+  length?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(20)
+  @Max(80)
+  @ApiPropertyOptional({
+    description: 'Ring gauge (64ths of an inch)',
+    example: 52,
+  })
+  ringGauge?: number;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @ApiPropertyOptional({
+    description: 'Wrapper type',
+    example: 'Colorado',
+  })
+  wrapper?: string;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @ApiPropertyOptional({
+    description: 'Country of origin',
+    example: 'Cuba',
+  })
+  origin?: string;
 }
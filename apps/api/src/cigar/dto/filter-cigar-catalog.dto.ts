@@ -0,0 +1,116 @@
+import { IsOptional, IsInt, Min, Max, IsString, IsIn, IsUUID, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CigarStatus } from '@cigar-platform/prisma-client';
+
+export const CIGAR_CATALOG_SORTS = ['popularity', 'rating', 'name'] as const;
+export type CigarCatalogSort = (typeof CIGAR_CATALOG_SORTS)[number];
+
+// REJECTED cigars never show in the catalogue
+const CATALOG_STATUSES = [CigarStatus.PENDING, CigarStatus.VERIFIED];
+
+/**
+ * DTO for browsing the cigar catalogue
+ * All filters are combined (AND), each facet is counted with the other filters applied
+ */
+export class FilterCigarCatalogDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+    example: 1,
+  })
+  page?: number = 1;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    example: 20,
+  })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsIn(CIGAR_CATALOG_SORTS)
+  @ApiPropertyOptional({
+    description: 'Sort by number of public tastings, average public rating or name (cigars without tastings come last, by name)',
+    enum: CIGAR_CATALOG_SORTS,
+    default: 'popularity',
+    example: 'popularity',
+  })
+  sortBy?: CigarCatalogSort = 'popularity';
+
+  @IsOptional()
+  @IsUUID()
+  @ApiPropertyOptional({
+    description: 'Filter by brand ID',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  brandId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Filter by origin (case insensitive)',
+    example: 'Cuba',
+  })
+  origin?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Filter by vitola (case insensitive)',
+    example: 'Robusto',
+  })
+  vitola?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Filter by strength (1 = light, 5 = full)',
+    minimum: 1,
+    maximum: 5,
+    example: 3,
+  })
+  strength?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Filter by ring gauge',
+    minimum: 1,
+    example: 52,
+  })
+  ringGauge?: number;
+
+  @IsOptional()
+  @IsIn(CATALOG_STATUSES)
+  @ApiPropertyOptional({
+    description: 'Filter by verification status (both by default)',
+    enum: CATALOG_STATUSES,
+    example: CigarStatus.VERIFIED,
+  })
+  status?: CigarStatus;
+}
+
+/**
+ * Same filters for the catalogue of one brand (brand taken from the URL)
+ */
+export class FilterBrandCigarsDto extends OmitType(FilterCigarCatalogDto, ['brandId'] as const) {}
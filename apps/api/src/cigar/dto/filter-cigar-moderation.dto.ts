@@ -0,0 +1,38 @@
+import { IsOptional, IsInt, Min, Max, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CigarStatus } from '@cigar-platform/prisma-client';
+
+export class FilterCigarModerationDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Page number',
+    example: 1,
+    default: 1,
+  })
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    example: 20,
+    default: 20,
+  })
+  limit?: number;
+
+  @IsOptional()
+  @IsEnum(CigarStatus)
+  @ApiPropertyOptional({
+    description: 'Filter by status (defaults to the PENDING queue)',
+    enum: CigarStatus,
+    default: CigarStatus.PENDING,
+  })
+  status?: CigarStatus;
+}
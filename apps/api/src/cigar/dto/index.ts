@@ -1,2 +1,14 @@
 export * from './create-cigar.dto';
 export * from './cigar-response.dto';
+export * from './filter-cigar-moderation.dto';
+export * from './update-cigar-moderation.dto';
+export * from './reject-cigar.dto';
+export * from './cigar-moderation-response.dto';
+export * from './merge-cigar.dto';
+export * from './check-cigar-duplicates.dto';
+export * from './cigar-duplicates-response.dto';
+export * from './update-cigar.dto';
+export * from './cigar-revision-response.dto';
+export * from './cigar-stats-response.dto';
+export * from './filter-cigar-catalog.dto';
+export * from './cigar-catalog-response.dto';
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for rejecting a submitted cigar (moderators only)
+ */
+export class RejectCigarDto {
+  @IsSecureText()
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(500)
+  @ApiProperty({
+    description: 'Reason shown to the submitter',
+    example: 'Doublon de "Cohiba Behike 52"',
+  })
+  reason: string;
+}
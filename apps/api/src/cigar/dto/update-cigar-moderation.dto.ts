@@ -0,0 +1,88 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  MinLength,
+  MaxLength,
+  IsOptional,
+  IsInt,
+  IsNumber,
+  Min,
+  Max,
+} from 'class-validator';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for editing a submitted cigar before approval (moderators only)
+ */
+export class UpdateCigarModerationDto {
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MinLength(2)
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Cigar name (the slug is regenerated)',
+    example: 'Behike 52',
+  })
+  name?: string;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @ApiPropertyOptional({
+    description: 'Cigar vitola (format)',
+    example: 'Robusto',
+  })
+  vitola?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(5)
+  @ApiPropertyOptional({
+    description: 'Cigar strength (1-5)',
+    example: 3,
+  })
+  strength?: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(50)
+  @Max(300)
+  @ApiPropertyOptional({
+    description: 'Length in mm',
+    example: 119,
+  })
+  length?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(20)
+  @Max(80)
+  @ApiPropertyOptional({
+    description: 'Ring gauge (64ths of an inch)',
+    example: 52,
+  })
+  ringGauge?: number;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @ApiPropertyOptional({
+    description: 'Wrapper type',
+    example: 'Colorado',
+  })
+  wrapper?: string;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @ApiPropertyOptional({
+    description: 'Country of origin',
+    example: 'Cuba',
+  })
+  origin?: string;
+}
@@ -0,0 +1,10 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateCigarDto } from './create-cigar.dto';
+
+/**
+ * DTO for editing the cigar specification
+ * Renaming regenerates the slug (the old one keeps redirecting)
+ */
+export class UpdateCigarDto extends PartialType(
+  OmitType(CreateCigarDto, ['brandName', 'brandCountry'] as const)
+) {}
@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import { StorageService } from '../common/services/storage.service';
+import {
+  CLUB_ARCHIVE_RETENTION_DAYS,
+  CLUB_PURGE_JOB_INTERVAL_MS,
+} from './club.constants';
+
+/**
+ * Advisory lock key of the purge job
+ * Only one API instance runs the job at a time
+ */
+const CLUB_PURGE_LOCK_KEY = 720_260_124;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+/**
+ * Club Archive Purge Service
+ *
+ * Scheduled job deleting clubs archived for more than CLUB_ARCHIVE_RETENTION_DAYS.
+ * Deleting a club cascades to its members, events, invites and tasting shares
+ * (the tastings themselves belong to their authors and are kept).
+ * Uploaded club avatars are removed from storage once the rows are gone.
+ *
+ * Idempotent: restored clubs have no archivedAt and are never matched.
+ * Disable it with CLUB_PURGE_JOB_ENABLED=false.
+ */
+@Injectable()
+export class ClubArchivePurgeService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ClubArchivePurgeService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<string>('CLUB_PURGE_JOB_ENABLED') === 'false') {
+      this.logger.log('Club purge job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.runSafely(), CLUB_PURGE_JOB_INTERVAL_MS);
+    void this.runSafely();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purge clubs whose retention window is over
+   * Stops early when another instance holds the lock
+   * @returns Number of purged clubs
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const batch = await this.purgeBatch(now);
+      if (batch === null) return purged;
+
+      purged += batch.length;
+
+      // Best effort: storage failures are logged by StorageService
+      for (const { imageUrl } of batch) {
+        await this.storageService.deleteImage(imageUrl);
+      }
+
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    return purged;
+  }
+
+  /**
+   * Delete one batch of expired archived clubs
+   * @returns Deleted clubs, null when the lock is taken
+   */
+  private async purgeBatch(now: Date): Promise<Array<{ id: string; imageUrl: string | null }> | null> {
+    const retentionCutoff = new Date(now.getTime() - CLUB_ARCHIVE_RETENTION_DAYS * DAY_MS);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.tryLock(tx))) return null;
+
+      const clubs = await tx.club.findMany({
+        where: {
+          isArchived: true,
+          archivedAt: { lt: retentionCutoff },
+        },
+        select: { id: true, imageUrl: true },
+        take: BATCH_SIZE,
+      });
+
+      if (clubs.length === 0) return [];
+
+      await tx.club.deleteMany({
+        where: { id: { in: clubs.map((club) => club.id) } },
+      });
+
+      clubs.forEach((club) => this.logger.log(`Club purged: ${club.id}`));
+
+      return clubs;
+    });
+  }
+
+  /**
+   * Transaction-scoped advisory lock (released on commit/rollback)
+   */
+  private async tryLock(tx: Prisma.TransactionClient): Promise<boolean> {
+    const [{ locked }] = await tx.$queryRaw<Array<{ locked: boolean }>>`
+      SELECT pg_try_advisory_xact_lock(${CLUB_PURGE_LOCK_KEY}) AS locked
+    `;
+    return locked;
+  }
+
+  /**
+   * Timer entry point: never overlaps and never throws
+   */
+  private async runSafely(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const purged = await this.run();
+      if (purged > 0) {
+        this.logger.log(`Club purge job: ${purged} club(s) purged`);
+      }
+    } catch (error) {
+      this.logger.error('Club purge job failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
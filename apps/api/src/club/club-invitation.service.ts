@@ -0,0 +1,325 @@
+import { Injectable, Logger, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import { ClubInvitationStatus, ClubRole, JoinRequestStatus } from '@cigar-platform/prisma-client';
+import { normalizeUsername } from '../common/utils/identifier.util';
+import {
+  CreateClubInvitationDto,
+  FilterClubInvitationDto,
+  ClubInvitationResponseDto,
+  PaginatedClubInvitationResponseDto,
+  JoinByCodeResponseDto,
+} from './dto';
+import {
+  ClubInvitationNotFoundException,
+  MemberAlreadyExistsException,
+  UserBannedException,
+  UserNotFoundException,
+} from './exceptions';
+import { ClubService } from './club.service';
+import { ClubMemberService } from './club-member.service';
+import { ClubInviteService } from './club-invite.service';
+
+const USER_SELECT = {
+  id: true,
+  displayName: true,
+  username: true,
+  avatarUrl: true,
+} satisfies Prisma.UserSelect;
+
+const INVITATION_INCLUDE = {
+  club: { select: { id: true, name: true, slug: true, imageUrl: true } },
+  invitee: { select: USER_SELECT },
+  inviter: { select: USER_SELECT },
+} satisfies Prisma.ClubInvitationInclude;
+
+type InvitationWithRelations = Prisma.ClubInvitationGetPayload<{ include: typeof INVITATION_INCLUDE }>;
+
+/**
+ * Direct club invitations (a member invites a specific @username)
+ * The invitee accepts or declines; accepting joins the club right away,
+ * whatever autoApproveMembers says. Bans and maxMembers still apply.
+ */
+@Injectable()
+export class ClubInvitationService {
+  private readonly logger = new Logger(ClubInvitationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clubService: ClubService,
+    private readonly clubMemberService: ClubMemberService,
+    private readonly clubInviteService: ClubInviteService
+  ) {}
+
+  /**
+   * Invite a user into a club
+   * Same permission as invite codes (owners/admins, or members if member invites are allowed)
+   * A declined or accepted-then-left invitation can be sent again
+   * Invitees are found by @username only: email lookups would reveal which emails have an account
+   * @param clubId - Club ID
+   * @param invitedBy - Current user ID
+   * @param createDto - Username of the invitee
+   */
+  async create(
+    clubId: string,
+    invitedBy: string,
+    createDto: CreateClubInvitationDto
+  ): Promise<ClubInvitationResponseDto> {
+    await this.clubInviteService.assertCanInvite(clubId, invitedBy);
+
+    const invitee = await this.resolveInvitee(createDto.identifier);
+
+    if (invitee.id === invitedBy) {
+      throw new BadRequestException('You cannot invite yourself');
+    }
+
+    const [membership, isBanned, club] = await Promise.all([
+      this.clubMemberService.findMyMembership(clubId, invitee.id),
+      this.clubMemberService.isBanned(clubId, invitee.id),
+      this.prisma.club.findUniqueOrThrow({
+        where: { id: clubId },
+        select: { maxMembers: true, _count: { select: { members: true } } },
+      }),
+    ]);
+
+    if (membership) {
+      throw new MemberAlreadyExistsException(invitee.id, clubId);
+    }
+
+    if (isBanned) {
+      throw new UserBannedException(invitee.id, clubId);
+    }
+
+    if (club.maxMembers && club._count.members >= club.maxMembers) {
+      throw new ForbiddenException('Club has reached maximum member capacity');
+    }
+
+    const existing = await this.prisma.clubInvitation.findUnique({
+      where: { clubId_inviteeId: { clubId, inviteeId: invitee.id } },
+      select: { status: true },
+    });
+
+    if (existing?.status === ClubInvitationStatus.PENDING) {
+      throw new ConflictException('This user already has a pending invitation to this club');
+    }
+
+    const invitation = await this.prisma.clubInvitation.upsert({
+      where: { clubId_inviteeId: { clubId, inviteeId: invitee.id } },
+      create: { clubId, inviteeId: invitee.id, invitedBy },
+      update: { invitedBy, status: ClubInvitationStatus.PENDING, createdAt: new Date() },
+      include: INVITATION_INCLUDE,
+    });
+
+    this.logger.log(`User ${invitee.id} invited to club ${clubId} by ${invitedBy}`);
+
+    return this.mapToResponse(invitation);
+  }
+
+  /**
+   * Get the invitations of a club (PENDING first, newest first)
+   * Owners/admins see every invitation, members only the ones they sent
+   * @param clubId - Club ID
+   * @param userId - Current user ID
+   * @param filter - Pagination and status
+   */
+  async findAll(
+    clubId: string,
+    userId: string,
+    filter: FilterClubInvitationDto = {}
+  ): Promise<PaginatedClubInvitationResponseDto> {
+    const { page = 1, limit = 20, status } = filter;
+    const role = await this.clubMemberService.getMemberRole(clubId, userId);
+    const isAdmin = role === ClubRole.owner || role === ClubRole.admin;
+
+    const where: Prisma.ClubInvitationWhereInput = {
+      clubId,
+      ...(!isAdmin && { invitedBy: userId }),
+      ...(status && { status }),
+    };
+
+    const [invitations, total] = await Promise.all([
+      this.prisma.clubInvitation.findMany({
+        where,
+        include: INVITATION_INCLUDE,
+        orderBy: [
+          { status: 'asc' }, // PENDING first
+          { createdAt: 'desc' }, // newest first
+        ],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.clubInvitation.count({ where }),
+    ]);
+
+    return {
+      data: invitations.map((invitation) => this.mapToResponse(invitation)),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Get the pending invitations received by the current user (newest first)
+   * @param userId - Current user ID
+   */
+  async findMine(userId: string): Promise<ClubInvitationResponseDto[]> {
+    const invitations = await this.prisma.clubInvitation.findMany({
+      where: { inviteeId: userId, status: ClubInvitationStatus.PENDING },
+      include: INVITATION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.mapToResponse(invitation));
+  }
+
+  /**
+   * Cancel a pending invitation (inviter or club owners/admins)
+   * @param clubId - Club ID
+   * @param invitationId - Invitation ID
+   * @param userId - Current user ID
+   */
+  async cancel(clubId: string, invitationId: string, userId: string): Promise<void> {
+    const invitation = await this.prisma.clubInvitation.findFirst({
+      where: { id: invitationId, clubId },
+      select: { id: true, invitedBy: true, status: true },
+    });
+
+    if (!invitation) {
+      throw new ClubInvitationNotFoundException(invitationId);
+    }
+
+    if (invitation.invitedBy !== userId) {
+      const role = await this.clubMemberService.getMemberRole(clubId, userId);
+      if (role !== ClubRole.owner && role !== ClubRole.admin) {
+        throw new ForbiddenException('Only the inviter or a club admin can cancel this invitation');
+      }
+    }
+
+    if (invitation.status !== ClubInvitationStatus.PENDING) {
+      throw new ForbiddenException('Can only cancel pending invitations');
+    }
+
+    await this.prisma.clubInvitation.delete({
+      where: { id: invitationId },
+    });
+
+    this.logger.log(`Invitation ${invitationId} of club ${clubId} cancelled by ${userId}`);
+  }
+
+  /**
+   * Accept an invitation: join the club as member (auto-approved)
+   * A pending join request of the invitee is approved at the same time
+   * Invitees who joined meanwhile (code, join request) just close the invitation
+   * @param invitationId - Invitation ID
+   * @param userId - Current user ID (the invitee)
+   */
+  async accept(invitationId: string, userId: string): Promise<JoinByCodeResponseDto> {
+    const invitation = await this.findPendingForInvitee(invitationId, userId);
+
+    try {
+      // Checks ban, existing membership and maxMembers
+      await this.clubMemberService.addMember(invitation.clubId, userId, ClubRole.member);
+    } catch (error) {
+      if (!(error instanceof MemberAlreadyExistsException)) {
+        throw error;
+      }
+
+      await this.prisma.clubInvitation.update({
+        where: { id: invitationId },
+        data: { status: ClubInvitationStatus.ACCEPTED },
+      });
+
+      const membership = await this.clubMemberService.findMyMembership(invitation.clubId, userId);
+      return {
+        club: await this.clubService.findOne(invitation.clubId),
+        role: membership?.role ?? ClubRole.member,
+      };
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.clubInvitation.update({
+        where: { id: invitationId },
+        data: { status: ClubInvitationStatus.ACCEPTED },
+      }),
+      this.prisma.clubJoinRequest.updateMany({
+        where: { clubId: invitation.clubId, userId, status: JoinRequestStatus.PENDING },
+        data: { status: JoinRequestStatus.APPROVED },
+      }),
+    ]);
+
+    this.logger.log(`User ${userId} accepted invitation ${invitationId} to club ${invitation.clubId}`);
+
+    return {
+      club: await this.clubService.findOne(invitation.clubId),
+      role: ClubRole.member,
+    };
+  }
+
+  /**
+   * Decline an invitation (the club can invite again later)
+   * @param invitationId - Invitation ID
+   * @param userId - Current user ID (the invitee)
+   */
+  async decline(invitationId: string, userId: string): Promise<void> {
+    await this.findPendingForInvitee(invitationId, userId);
+
+    await this.prisma.clubInvitation.update({
+      where: { id: invitationId },
+      data: { status: ClubInvitationStatus.DECLINED },
+    });
+
+    this.logger.log(`User ${userId} declined invitation ${invitationId}`);
+  }
+
+  /**
+   * Pending invitation addressed to the current user (404 otherwise, invitations of others stay hidden)
+   */
+  private async findPendingForInvitee(
+    invitationId: string,
+    userId: string
+  ): Promise<{ id: string; clubId: string }> {
+    const invitation = await this.prisma.clubInvitation.findFirst({
+      where: { id: invitationId, inviteeId: userId, status: ClubInvitationStatus.PENDING },
+      select: { id: true, clubId: true },
+    });
+
+    if (!invitation) {
+      throw new ClubInvitationNotFoundException(invitationId);
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Resolve the invitee from a username (with or without @)
+   */
+  private async resolveInvitee(identifier: string): Promise<{ id: string }> {
+    const username = normalizeUsername(identifier.trim());
+    const user = await this.prisma.user.findUnique({
+      where: { username },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new UserNotFoundException(username);
+    }
+
+    return user;
+  }
+
+  private mapToResponse(invitation: InvitationWithRelations): ClubInvitationResponseDto {
+    return {
+      id: invitation.id,
+      clubId: invitation.clubId,
+      status: invitation.status,
+      createdAt: invitation.createdAt,
+      updatedAt: invitation.updatedAt,
+      club: invitation.club,
+      invitee: invitation.invitee,
+      inviter: invitation.inviter,
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import { randomInt } from 'crypto';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import { ClubRole } from '@cigar-platform/prisma-client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import {
+  CreateClubInviteDto,
+  ClubInviteResponseDto,
+  ClubInviteStatus,
+  JoinByCodeDto,
+  JoinByCodeResponseDto,
+} from './dto';
+import {
+  ClubNotFoundException,
+  ClubArchivedException,
+  ClubInviteNotFoundException,
+  InvalidClubInviteException,
+  MemberNotFoundException,
+} from './exceptions';
+import { ClubService } from './club.service';
+import { ClubMemberService } from './club-member.service';
+
+const INVITE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude similar chars (I, O, 0, 1)
+const INVITE_CODE_LENGTH = 8;
+const INVITE_CODE_MAX_ATTEMPTS = 5;
+const DEFAULT_INVITE_VALIDITY_HOURS = 168; // 7 days
+
+const INVITE_INCLUDE = {
+  creator: {
+    select: {
+      id: true,
+      displayName: true,
+      username: true,
+      avatarUrl: true,
+    },
+  },
+} satisfies Prisma.ClubInviteInclude;
+
+type InviteWithCreator = Prisma.ClubInviteGetPayload<{ include: typeof INVITE_INCLUDE }>;
+
+/**
+ * Club invite codes
+ * Each code has a creator, an expiry and a max-use count, and can be revoked.
+ * Owners/admins can always create codes, members only when the club allows member invites.
+ */
+@Injectable()
+export class ClubInviteService {
+  private readonly logger = new Logger(ClubInviteService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clubService: ClubService,
+    private readonly clubMemberService: ClubMemberService
+  ) {}
+
+  /**
+   * Create an invite code
+   * @param clubId - Club ID
+   * @param userId - Current user ID (must be a member)
+   * @param createDto - Validity and max uses
+   */
+  async create(
+    clubId: string,
+    userId: string,
+    createDto: CreateClubInviteDto
+  ): Promise<ClubInviteResponseDto> {
+    await this.assertCanInvite(clubId, userId);
+
+    const expiresInHours = createDto.expiresInHours ?? DEFAULT_INVITE_VALIDITY_HOURS;
+    const expiresAt = new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+
+    // Codes are random: retry on the (unlikely) unique constraint collision
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const invite = await this.prisma.clubInvite.create({
+          data: {
+            clubId,
+            code: this.generateCode(),
+            createdBy: userId,
+            expiresAt,
+            maxUses: createDto.maxUses ?? 1,
+          },
+          include: INVITE_INCLUDE,
+        });
+
+        this.logger.log(`Invite ${invite.id} created in club ${clubId} by user ${userId}`);
+
+        return this.mapToResponse(invite);
+      } catch (error) {
+        const isCodeCollision = error instanceof PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!isCodeCollision || attempt >= INVITE_CODE_MAX_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the invites of a club (newest first)
+   * Owners/admins see every invite, members only their own
+   * @param clubId - Club ID
+   * @param userId - Current user ID
+   */
+  async findAll(clubId: string, userId: string): Promise<ClubInviteResponseDto[]> {
+    const role = await this.clubMemberService.getMemberRole(clubId, userId);
+    if (!role) {
+      throw new MemberNotFoundException(userId, clubId);
+    }
+
+    const invites = await this.prisma.clubInvite.findMany({
+      where: {
+        clubId,
+        ...(!this.isClubAdmin(role) && { createdBy: userId }),
+      },
+      include: INVITE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invites.map((invite) => this.mapToResponse(invite));
+  }
+
+  /**
+   * Revoke an invite (idempotent)
+   * Allowed for the invite creator and club owners/admins
+   * @param clubId - Club ID
+   * @param inviteId - Invite ID
+   * @param userId - Current user ID
+   */
+  async revoke(clubId: string, inviteId: string, userId: string): Promise<void> {
+    const invite = await this.prisma.clubInvite.findFirst({
+      where: { id: inviteId, clubId },
+      select: { id: true, createdBy: true, revokedAt: true },
+    });
+
+    if (!invite) {
+      throw new ClubInviteNotFoundException(inviteId);
+    }
+
+    if (invite.createdBy !== userId) {
+      const role = await this.clubMemberService.getMemberRole(clubId, userId);
+      if (!role || !this.isClubAdmin(role)) {
+        throw new ForbiddenException('Only the invite creator or a club admin can revoke this invite');
+      }
+    }
+
+    if (invite.revokedAt) {
+      return;
+    }
+
+    await this.prisma.clubInvite.update({
+      where: { id: inviteId },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(`Invite ${inviteId} of club ${clubId} revoked by user ${userId}`);
+  }
+
+  /**
+   * Join a club using an invite code
+   * Auto-approves if the code is active; one use is claimed atomically
+   * so concurrent joins cannot exceed maxUses
+   */
+  async joinByCode(joinDto: JoinByCodeDto, userId: string): Promise<JoinByCodeResponseDto> {
+    const code = joinDto.code.trim().toUpperCase();
+
+    const invite = await this.prisma.clubInvite.findUnique({
+      where: { code },
+      select: { id: true, clubId: true, expiresAt: true, revokedAt: true },
+    });
+
+    if (!invite || invite.revokedAt || invite.expiresAt <= new Date()) {
+      throw new InvalidClubInviteException();
+    }
+
+    const { count } = await this.prisma.clubInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        useCount: { lt: this.prisma.clubInvite.fields.maxUses },
+      },
+      data: { useCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new InvalidClubInviteException();
+    }
+
+    try {
+      await this.clubMemberService.addMember(invite.clubId, userId, ClubRole.member, invite.id);
+    } catch (error) {
+      // Banned, already member or club full: give the use back
+      await this.prisma.clubInvite.update({
+        where: { id: invite.id },
+        data: { useCount: { decrement: 1 } },
+      });
+      throw error;
+    }
+
+    this.logger.log(`User ${userId} joined club ${invite.clubId} using invite ${invite.id}`);
+
+    return {
+      club: await this.clubService.findOne(invite.clubId),
+      role: ClubRole.member,
+    };
+  }
+
+  /**
+   * Check that a user can invite people into a club (invite codes and direct invitations)
+   * Owners/admins always can, members only when the club allows member invites.
+   * Archived clubs cannot invite anyone.
+   * @returns Role of the user in the club
+   */
+  async assertCanInvite(clubId: string, userId: string): Promise<ClubRole> {
+    const club = await this.prisma.club.findUnique({
+      where: { id: clubId },
+      select: { id: true, allowMemberInvites: true, isArchived: true },
+    });
+
+    if (!club) {
+      throw new ClubNotFoundException(clubId);
+    }
+
+    if (club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
+    const role = await this.clubMemberService.getMemberRole(clubId, userId);
+    if (!role) {
+      throw new MemberNotFoundException(userId, clubId);
+    }
+
+    if (!this.isClubAdmin(role) && !club.allowMemberInvites) {
+      throw new ForbiddenException('Only club owners and admins can invite in this club');
+    }
+
+    return role;
+  }
+
+  private isClubAdmin(role: ClubRole): boolean {
+    return role === ClubRole.owner || role === ClubRole.admin;
+  }
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_CHARS.charAt(randomInt(INVITE_CODE_CHARS.length));
+    }
+    return code;
+  }
+
+  private getStatus(invite: InviteWithCreator): ClubInviteStatus {
+    if (invite.revokedAt) return 'REVOKED';
+    if (invite.expiresAt <= new Date()) return 'EXPIRED';
+    if (invite.useCount >= invite.maxUses) return 'EXHAUSTED';
+    return 'ACTIVE';
+  }
+
+  private mapToResponse(invite: InviteWithCreator): ClubInviteResponseDto {
+    return {
+      id: invite.id,
+      clubId: invite.clubId,
+      code: invite.code,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.maxUses,
+      useCount: invite.useCount,
+      revokedAt: invite.revokedAt,
+      status: this.getStatus(invite),
+      createdAt: invite.createdAt,
+      creator: invite.creator,
+    };
+  }
+}
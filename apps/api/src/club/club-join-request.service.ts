@@ -6,14 +6,12 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import {
   CreateJoinRequestDto,
   UpdateJoinRequestDto,
-  JoinByCodeDto,
-  JoinByCodeResponseDto,
   PaginatedJoinRequestResponseDto,
   ClubJoinRequestResponseDto,
 } from './dto';
-import { ClubService } from './club.service';
 import {
   ClubNotFoundException,
+  ClubArchivedException,
   MemberAlreadyExistsException,
   UserBannedException,
 } from './exceptions';
@@ -32,8 +30,7 @@ export class ClubJoinRequestService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly clubMemberService: ClubMemberService,
-    private readonly clubService: ClubService
+    private readonly clubMemberService: ClubMemberService
   ) {}
 
   /**
@@ -62,6 +59,12 @@ export class ClubJoinRequestService {
       }
       this.logger.log(`[JOIN REQUEST] Club found: ${club.name} (autoApprove=${club.autoApproveMembers})`);
 
+      // Archived clubs are read-only
+      if (club.isArchived) {
+        this.logger.warn(`[JOIN REQUEST] Club is archived: ${clubId}`);
+        throw new ClubArchivedException(clubId);
+      }
+
       // Check if user is banned
       this.logger.log(`[JOIN REQUEST] Checking if user is banned: ${userId}`);
       const isBanned = await this.clubMemberService.isBanned(clubId, userId);
@@ -172,69 +175,6 @@ export class ClubJoinRequestService {
     }
   }
 
-  /**
-   * Join a club using an invite code
-   * Auto-approves if code is valid
-   */
-  async joinByCode(joinDto: JoinByCodeDto, userId: string): Promise<JoinByCodeResponseDto> {
-    const { code } = joinDto;
-
-    // Find club by invite code
-    const club = await this.prisma.club.findFirst({
-      where: {
-        inviteCode: code,
-        visibility: 'PRIVATE', // Only PRIVATE clubs have invite codes
-      },
-    });
-
-    if (!club) {
-      throw new BadRequestException('Invalid invite code');
-    }
-
-    // Check if user is banned
-    const isBanned = await this.clubMemberService.isBanned(club.id, userId);
-    if (isBanned) {
-      throw new UserBannedException(userId, club.id);
-    }
-
-    // Check if user is already a member
-    const existingMember = await this.prisma.clubMember.findUnique({
-      where: {
-        clubId_userId: {
-          clubId: club.id,
-          userId,
-        },
-      },
-    });
-
-    if (existingMember) {
-      throw new MemberAlreadyExistsException(userId, club.id);
-    }
-
-    // Check if club is full
-    if (club.maxMembers) {
-      const memberCount = await this.prisma.clubMember.count({
-        where: { clubId: club.id },
-      });
-
-      if (memberCount >= club.maxMembers) {
-        throw new ForbiddenException('Club has reached maximum member capacity');
-      }
-    }
-
-    // Auto-approve with invite code
-    const member = await this.clubMemberService.addMember(club.id, userId, ClubRole.member);
-    this.logger.log(`User ${userId} joined club ${club.id} using invite code`);
-
-    // Get the club response DTO
-    const clubResponse = await this.clubService.findOne(club.id);
-
-    return {
-      club: clubResponse,
-      role: ClubRole.member,
-    };
-  }
-
   /**
    * Update a join request status (approve/reject)
    */
@@ -14,6 +14,7 @@ import {
 } from './dto';
 import {
   ClubNotFoundException,
+  ClubArchivedException,
   UserNotFoundException,
   MemberNotFoundException,
   MemberAlreadyExistsException,
@@ -31,11 +32,13 @@ export class ClubMemberService {
 
   /**
    * Add a member to a club
+   * @param inviteId - Invite the member joined through (kept for admins)
    */
   async addMember(
     clubId: string,
     userId: string,
-    role: ClubRole = ClubRole.member
+    role: ClubRole = ClubRole.member,
+    inviteId?: string
   ): Promise<ClubMember> {
     this.logger.log(`[ADD MEMBER START] clubId=${clubId}, userId=${userId}, role=${role}`);
 
@@ -52,6 +55,12 @@ export class ClubMemberService {
       }
       this.logger.log(`[ADD MEMBER] Club found: ${club.name}`);
 
+      // Archived clubs are read-only
+      if (club.isArchived) {
+        this.logger.warn(`[ADD MEMBER] Club is archived: ${clubId}`);
+        throw new ClubArchivedException(clubId);
+      }
+
       // Check if user exists
       this.logger.log(`[ADD MEMBER] Checking if user exists`);
       const user = await this.prisma.user.findUnique({
@@ -110,6 +119,7 @@ export class ClubMemberService {
           clubId,
           userId,
           role,
+          inviteId: inviteId ?? null,
         },
       });
 
@@ -279,14 +289,20 @@ export class ClubMemberService {
 
   /**
    * Get all members of a club
+   * Owners/admins also get the invite each member joined through
+   * @param viewerId - Current user ID
    */
   async getMembers(
     clubId: string,
-    filter: FilterMemberDto = {}
+    filter: FilterMemberDto = {},
+    viewerId?: string
   ): Promise<PaginatedMemberResponseDto> {
     const { page = 1, limit = 20, role } = filter;
     const skip = (page - 1) * limit;
 
+    const viewerRole = viewerId ? await this.getMemberRole(clubId, viewerId) : null;
+    const canSeeInvites = viewerRole === ClubRole.owner || viewerRole === ClubRole.admin;
+
     // Build where clause
     const where: Prisma.ClubMemberWhereInput = {
       clubId,
@@ -306,6 +322,20 @@ export class ClubMemberService {
               avatarUrl: true,
             },
           },
+          invite: {
+            select: {
+              id: true,
+              code: true,
+              creator: {
+                select: {
+                  id: true,
+                  displayName: true,
+                  username: true,
+                  avatarUrl: true,
+                },
+              },
+            },
+          },
         },
         orderBy: [
           { role: 'asc' }, // owner -> admin -> member
@@ -330,6 +360,7 @@ export class ClubMemberService {
           username: member.user.username,
           avatarUrl: member.user.avatarUrl,
         },
+        ...(canSeeInvites && { joinedVia: member.invite }),
       })),
       meta: {
         total,
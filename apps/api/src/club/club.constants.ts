@@ -0,0 +1,15 @@
+/**
+ * Club Constants
+ */
+
+// Archived clubs can be restored during this window, then they are purged
+export const CLUB_ARCHIVE_RETENTION_DAYS = 30;
+
+export const CLUB_PURGE_JOB_INTERVAL_MS = 6 * 60 * 60 * 1000; // Every 6 hours
+
+// Directory "activity" sort: shared tastings and events within this window
+export const CLUB_ACTIVITY_WINDOW_DAYS = 30;
+
+// Directory "near me" queries
+export const CLUB_NEARBY_DEFAULT_RADIUS_KM = 50;
+export const CLUB_NEARBY_MAX_RADIUS_KM = 500;
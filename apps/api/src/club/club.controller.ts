@@ -30,6 +30,8 @@ import { MAX_IMAGE_SIZE, ALLOWED_IMAGE_MIMES } from '../common/config/image-pres
 import { ClubService } from './club.service';
 import { ClubMemberService } from './club-member.service';
 import { ClubJoinRequestService } from './club-join-request.service';
+import { ClubInviteService } from './club-invite.service';
+import { ClubInvitationService } from './club-invitation.service';
 import {
   CreateClubDto,
   UpdateClubDto,
@@ -46,6 +48,12 @@ import {
   PaginatedJoinRequestResponseDto,
   PaginatedBanResponseDto,
   JoinByCodeResponseDto,
+  CreateClubInviteDto,
+  ClubInviteResponseDto,
+  CreateClubInvitationDto,
+  FilterClubInvitationDto,
+  ClubInvitationResponseDto,
+  PaginatedClubInvitationResponseDto,
 } from './dto';
 import { ClubProfileStatsResponseDto } from '../users/dto/profile-stats.dto';
 import { ClubRole } from '@cigar-platform/prisma-client';
@@ -62,7 +70,9 @@ export class ClubController {
   constructor(
     private readonly clubService: ClubService,
     private readonly clubMemberService: ClubMemberService,
-    private readonly clubJoinRequestService: ClubJoinRequestService
+    private readonly clubJoinRequestService: ClubJoinRequestService,
+    private readonly clubInviteService: ClubInviteService,
+    private readonly clubInvitationService: ClubInvitationService
   ) {}
 
   @Post()
@@ -88,7 +98,7 @@ export class ClubController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all clubs with pagination and filtering' })
+  @ApiOperation({ summary: 'Browse the club directory (listed, non-archived clubs) with pagination, search and sorting' })
   @ApiResponse({
     status: 200,
     description: 'Clubs retrieved successfully',
@@ -116,6 +126,47 @@ export class ClubController {
     return this.clubService.findMyClubs(userId);
   }
 
+  @Get('me/invitations')
+  @ApiOperation({ summary: 'Get my pending club invitations' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved successfully',
+    type: [ClubInvitationResponseDto],
+  })
+  async findMyInvitations(@CurrentUser('id') userId: string): Promise<ClubInvitationResponseDto[]> {
+    return this.clubInvitationService.findMine(userId);
+  }
+
+  @Post('me/invitations/:invitationId/accept')
+  @ApiOperation({ summary: 'Accept a club invitation (joins the club immediately)' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation UUID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined successfully',
+    type: JoinByCodeResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - User is banned, already member or club is full' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async acceptInvitation(
+    @Param('invitationId') invitationId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<JoinByCodeResponseDto> {
+    return this.clubInvitationService.accept(invitationId, userId);
+  }
+
+  @Post('me/invitations/:invitationId/decline')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Decline a club invitation' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation UUID' })
+  @ApiResponse({ status: 204, description: 'Invitation declined' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async declineInvitation(
+    @Param('invitationId') invitationId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<void> {
+    return this.clubInvitationService.decline(invitationId, userId);
+  }
+
   @Get(':id/profile-stats')
   @UseGuards(ClubRolesGuard)
   @ApiOperation({ summary: 'Get club profile stats (parcours, signature, terroirs, journal)' })
@@ -310,7 +361,11 @@ export class ClubController {
   @UseGuards(ClubRolesGuard)
   @ClubRoles(ClubRole.owner)
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a club' })
+  @ApiOperation({
+    summary: 'Archive a club',
+    description:
+      'The club becomes read-only and hidden from explore and search. Members keep access to its history. It can be restored until purgeAt, then it is deleted for good.',
+  })
   @ApiParam({
     name: 'id',
     description: 'Club UUID',
@@ -318,11 +373,11 @@ export class ClubController {
   })
   @ApiResponse({
     status: 204,
-    description: 'Club deleted successfully',
+    description: 'Club archived successfully',
   })
   @ApiResponse({
     status: 403,
-    description: 'Forbidden - Only club owner can delete',
+    description: 'Forbidden - Only club owner can archive',
   })
   @ApiResponse({
     status: 404,
@@ -332,8 +387,39 @@ export class ClubController {
     status: 401,
     description: 'Unauthorized',
   })
-  async remove(@Param('id') id: string): Promise<void> {
-    return this.clubService.remove(id);
+  async archive(@Param('id') id: string): Promise<void> {
+    return this.clubService.archive(id);
+  }
+
+  @Post(':id/restore')
+  @UseGuards(ClubRolesGuard)
+  @ClubRoles(ClubRole.owner)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore an archived club (before its purge date)' })
+  @ApiParam({
+    name: 'id',
+    description: 'Club UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Club restored successfully',
+    type: ClubResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Club is not archived',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only club owner can restore, or retention period is over',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Club not found',
+  })
+  async restore(@Param('id') id: string): Promise<ClubResponseDto> {
+    return this.clubService.restore(id);
   }
 
   // ==================== MEMBER MANAGEMENT ====================
@@ -351,11 +437,12 @@ export class ClubController {
   @ApiResponse({ status: 404, description: 'Club not found' })
   async getMembers(
     @Param('id') clubId: string,
+    @CurrentUser('id') userId: string,
     @Query('page') page?: number,
     @Query('limit') limit?: number,
     @Query('role') role?: ClubRole
   ): Promise<PaginatedMemberResponseDto> {
-    return this.clubMemberService.getMembers(clubId, { page, limit, role });
+    return this.clubMemberService.getMembers(clubId, { page, limit, role }, userId);
   }
 
   @Get(':id/members/me')
@@ -490,6 +577,117 @@ export class ClubController {
     return this.clubMemberService.getBannedMembers(clubId, { page, limit });
   }
 
+  // ==================== INVITES ====================
+
+  @Post(':id/invites')
+  @UseGuards(ClubRolesGuard)
+  @ApiOperation({ summary: 'Create an invite code (owners/admins, or any member if member invites are allowed)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invite created successfully',
+    type: ClubInviteResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Member invites are disabled' })
+  @ApiResponse({ status: 404, description: 'Club not found or not a member' })
+  async createInvite(
+    @Param('id') clubId: string,
+    @CurrentUser('id') userId: string,
+    @Body() createDto: CreateClubInviteDto
+  ): Promise<ClubInviteResponseDto> {
+    return this.clubInviteService.create(clubId, userId, createDto);
+  }
+
+  @Get(':id/invites')
+  @UseGuards(ClubRolesGuard)
+  @ApiOperation({ summary: 'Get club invites (all for owners/admins, own invites for members)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invites retrieved successfully',
+    type: [ClubInviteResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Not a member of this club' })
+  async getInvites(
+    @Param('id') clubId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<ClubInviteResponseDto[]> {
+    return this.clubInviteService.findAll(clubId, userId);
+  }
+
+  @Delete(':id/invites/:inviteId')
+  @UseGuards(ClubRolesGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an invite (invite creator or owners/admins)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiParam({ name: 'inviteId', description: 'Invite UUID' })
+  @ApiResponse({ status: 204, description: 'Invite revoked successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the invite creator or an admin' })
+  @ApiResponse({ status: 404, description: 'Invite not found' })
+  async revokeInvite(
+    @Param('id') clubId: string,
+    @Param('inviteId') inviteId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<void> {
+    return this.clubInviteService.revoke(clubId, inviteId, userId);
+  }
+
+  @Post(':id/invitations')
+  @UseGuards(ClubRolesGuard)
+  @ApiOperation({ summary: 'Invite a user by @username (owners/admins, or any member if member invites are allowed)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation sent successfully',
+    type: ClubInvitationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid username or self invitation' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Member invites disabled, user banned or club full' })
+  @ApiResponse({ status: 404, description: 'Username not found' })
+  @ApiResponse({ status: 409, description: 'User already member or already invited' })
+  async createInvitation(
+    @Param('id') clubId: string,
+    @CurrentUser('id') userId: string,
+    @Body() createDto: CreateClubInvitationDto
+  ): Promise<ClubInvitationResponseDto> {
+    return this.clubInvitationService.create(clubId, userId, createDto);
+  }
+
+  @Get(':id/invitations')
+  @UseGuards(ClubRolesGuard)
+  @ApiOperation({ summary: 'Get club invitations (all for owners/admins, sent ones for members)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved successfully',
+    type: PaginatedClubInvitationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Must be a club member' })
+  async getInvitations(
+    @Param('id') clubId: string,
+    @CurrentUser('id') userId: string,
+    @Query() filter: FilterClubInvitationDto
+  ): Promise<PaginatedClubInvitationResponseDto> {
+    return this.clubInvitationService.findAll(clubId, userId, filter);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @UseGuards(ClubRolesGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel a pending invitation (inviter or owners/admins)' })
+  @ApiParam({ name: 'id', description: 'Club UUID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation UUID' })
+  @ApiResponse({ status: 204, description: 'Invitation cancelled' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the inviter or an admin' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async cancelInvitation(
+    @Param('id') clubId: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<void> {
+    return this.clubInvitationService.cancel(clubId, invitationId, userId);
+  }
+
   // ==================== JOIN REQUESTS ====================
 
   @Post(':id/join')
@@ -513,13 +711,13 @@ export class ClubController {
     description: 'Joined successfully',
     type: JoinByCodeResponseDto,
   })
-  @ApiResponse({ status: 400, description: 'Invalid invite code' })
+  @ApiResponse({ status: 400, description: 'Invalid, expired, revoked or fully used invite code' })
   @ApiResponse({ status: 403, description: 'Forbidden - User is banned or already member' })
   async joinByCode(
     @CurrentUser('id') userId: string,
     @Body() joinDto: JoinByCodeDto
   ): Promise<JoinByCodeResponseDto> {
-    return this.clubJoinRequestService.joinByCode(joinDto, userId);
+    return this.clubInviteService.joinByCode(joinDto, userId);
   }
 
   @Get(':id/join-requests')
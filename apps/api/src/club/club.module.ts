@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { ClubService } from './club.service';
 import { ClubMemberService } from './club-member.service';
 import { ClubJoinRequestService } from './club-join-request.service';
+import { ClubInviteService } from './club-invite.service';
+import { ClubInvitationService } from './club-invitation.service';
+import { ClubArchivePurgeService } from './club-archive-purge.service';
 import { ClubController } from './club.controller';
 import { AuthModule } from '../auth/auth.module';
 import { PlanModule } from '../plan/plan.module';
@@ -10,7 +13,7 @@ import { StorageService } from '../common/services/storage.service';
 @Module({
   imports: [AuthModule, PlanModule],
   controllers: [ClubController],
-  providers: [ClubService, ClubMemberService, ClubJoinRequestService, StorageService],
+  providers: [ClubService, ClubMemberService, ClubJoinRequestService, ClubInviteService, ClubInvitationService, ClubArchivePurgeService, StorageService],
   exports: [ClubService, ClubMemberService, ClubJoinRequestService],
 })
 export class ClubModule {}
\ No newline at end of file
@@ -1,14 +1,22 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../app/prisma.service';
 import { StorageService } from '../common/services/storage.service';
 import { PlanService } from '../plan/plan.service';
-import { Club, Prisma, TastingStatus } from '../../../../generated/prisma';
+import {
+  Club,
+  Prisma,
+  TastingStatus,
+  TastingVisibility,
+  EventStatus,
+  RSVPResponse,
+} from '../../../../generated/prisma';
 import {
   CreateClubDto,
   UpdateClubDto,
   ClubResponseDto,
   ClubUserStatus,
   FilterClubDto,
+  ClubDirectorySort,
   PaginatedClubResponseDto,
 } from './dto';
 import {
@@ -21,14 +29,24 @@ import { ClubRole } from '@cigar-platform/prisma-client';
 import {
   ClubNotFoundException,
   ClubAlreadyExistsException,
+  ClubArchivedException,
 } from './exceptions';
+import {
+  CLUB_ARCHIVE_RETENTION_DAYS,
+  CLUB_ACTIVITY_WINDOW_DAYS,
+  CLUB_NEARBY_DEFAULT_RADIUS_KM,
+} from './club.constants';
 import {
   generateUniqueUsername,
   slugify,
 } from '../common/utils/username.utils';
 import { isUuid, normalizeSlug } from '../common/utils/identifier.util';
 import { getCountryCode } from '../common/utils/country-code.util';
+import { CIGAR_REVEAL_SELECT, isCigarRevealed } from '../common/utils/cigar-reveal.util';
+import { clubDirectoryWhere } from '../common/utils/club-directory.util';
+import { GeoPoint, boundingBox, distanceKm } from '../common/utils/geo.util';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class ClubService {
@@ -58,18 +76,14 @@ export class ClubService {
       throw new ClubAlreadyExistsException(createClubDto.name);
     }
 
+    this.assertCoordinatesPair(createClubDto.latitude, createClubDto.longitude);
+
     // Generate unique slug from club name before transaction
     const slug = await this.generateSlug(createClubDto.name);
 
     try {
       // Use transaction to create club and club member atomically
       const club = await this.prisma.$transaction(async (tx) => {
-        // Generate invite code if visibility is PRIVATE
-        const inviteCode =
-          createClubDto.visibility === 'PRIVATE'
-            ? this.generateInviteCode()
-            : null;
-
         // Create the club
         const newClub = await tx.club.create({
           data: {
@@ -79,11 +93,14 @@ export class ClubService {
             imageUrl: createClubDto.imageUrl ?? null,
             coverUrl: createClubDto.coverUrl ?? null,
             visibility: createClubDto.visibility ?? 'PUBLIC',
-            inviteCode,
             isPublicDirectory: createClubDto.isPublicDirectory ?? true,
             autoApproveMembers: createClubDto.autoApproveMembers ?? true,
             allowMemberInvites: createClubDto.allowMemberInvites ?? false,
             maxMembers: createClubDto.maxMembers ?? null,
+            city: createClubDto.city ?? null,
+            country: this.normalizeCountry(createClubDto.country) ?? null,
+            latitude: createClubDto.latitude ?? null,
+            longitude: createClubDto.longitude ?? null,
             createdBy: userId,
           },
         });
@@ -113,19 +130,6 @@ export class ClubService {
     }
   }
 
-  /**
-   * Generate unique invite code for private clubs
-   * Format: CLUBNAME-XXXX (e.g., COHIBA-LOVERS-A7X9)
-   */
-  private generateInviteCode(): string {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude similar chars (I, O, 0, 1)
-    let code = '';
-    for (let i = 0; i < 8; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
-  }
-
   /**
    * Generate unique slug from club name
    * Checks database for existing slugs to avoid collisions
@@ -148,63 +152,111 @@ export class ClubService {
     return generateUniqueUsername(clubName, existingSlugs, 'club');
   }
 
+  /**
+   * Browse the club directory
+   * Only clubs listed in the public directory, never archived ones (see clubDirectoryWhere)
+   * With lat/lng, only clubs within radiusKm are kept and each one gets its distanceKm
+   * @param filter - Pagination, name search, country, position and sort
+   * @returns Paginated clubs in display order
+   */
   async findAll(
     filter: FilterClubDto
   ): Promise<PaginatedClubResponseDto> {
-    const { page = 1, limit = 10, search, sortBy = 'createdAt', order = 'desc' } = filter;
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      sortBy = 'createdAt',
+      order = 'desc',
+      country,
+      lat,
+      lng,
+      radiusKm = CLUB_NEARBY_DEFAULT_RADIUS_KM,
+    } = filter;
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: Prisma.ClubWhereInput = search
-      ? {
-          name: {
-            contains: search,
-            mode: 'insensitive',
-          },
-        }
-      : {};
+    if ((lat === undefined) !== (lng === undefined)) {
+      throw new BadRequestException('lat and lng must be given together');
+    }
+
+    if (sortBy === 'distance' && lat === undefined) {
+      throw new BadRequestException('Sorting by distance requires lat and lng');
+    }
 
-    // Build orderBy clause
-    const orderBy: Prisma.ClubOrderByWithRelationInput = {
-      [sortBy]: order,
+    // Build where clause
+    let where: Prisma.ClubWhereInput = {
+      ...clubDirectoryWhere(),
+      ...(search && {
+        name: {
+          contains: search,
+          mode: 'insensitive',
+        },
+      }),
+      ...(country && { country: country.toUpperCase() }),
     };
 
+    // Near me: distances are computed here, then the other sorts apply to the clubs in range
+    const distances =
+      lat !== undefined && lng !== undefined
+        ? await this.findClubDistances(where, { latitude: lat, longitude: lng }, radiusKm)
+        : null;
+
+    if (distances) {
+      where = { AND: [where, { id: { in: [...distances.keys()] } }] };
+    }
+
     // Execute queries in parallel
-    const [clubs, total] = await Promise.all([
-      this.prisma.club.findMany({
-        where,
-        orderBy,
-        skip,
-        take: limit,
-        select: {
-          id: true,
-          name: true,
-          slug: true,
-          description: true,
-          imageUrl: true,
-          coverUrl: true,
-          visibility: true,
-          inviteCode: true,
-          isPublicDirectory: true,
-          autoApproveMembers: true,
-          allowMemberInvites: true,
-          maxMembers: true,
-          isArchived: true,
-          createdBy: true,
-          createdAt: true,
-          updatedAt: true,
-          _count: {
-            select: {
-              members: true,
-            },
+    const [pageIds, total] = await Promise.all([
+      sortBy === 'distance'
+        ? [...(distances ?? [])]
+            .sort(([aId, aDistance], [bId, bDistance]) => aDistance - bDistance || aId.localeCompare(bId))
+            .map(([clubId]) => clubId)
+            .slice(skip, skip + limit)
+        : this.findDirectoryPageIds(where, sortBy, order, skip, limit),
+      distances ? distances.size : this.prisma.club.count({ where }),
+    ]);
+
+    const clubs = await this.prisma.club.findMany({
+      where: { id: { in: pageIds } },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        description: true,
+        imageUrl: true,
+        coverUrl: true,
+        visibility: true,
+        isPublicDirectory: true,
+        autoApproveMembers: true,
+        allowMemberInvites: true,
+        maxMembers: true,
+        city: true,
+        country: true,
+        latitude: true,
+        longitude: true,
+        isArchived: true,
+        archivedAt: true,
+        createdBy: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: {
+          select: {
+            members: true,
           },
         },
-      }),
-      this.prisma.club.count({ where }),
-    ]);
+      },
+    });
+
+    const clubsById = new Map(clubs.map((club) => [club.id, club]));
 
     return {
-      data: clubs.map((club) => this.mapToResponse(club, club._count.members)),
+      data: pageIds
+        .map((id) => clubsById.get(id))
+        .filter((club): club is (typeof clubs)[number] => !!club)
+        .map((club) => ({
+          ...this.mapToResponse(club, club._count.members),
+          ...(distances && { distanceKm: Math.round((distances.get(club.id) ?? 0) * 10) / 10 }),
+        })),
       meta: {
         total,
         page,
@@ -213,6 +265,113 @@ export class ClubService {
     };
   }
 
+  /**
+   * Distance of every club within radiusKm of center
+   * A bounding box prefilters the rows, the exact great-circle distance decides
+   * @returns Distance in km by club ID (clubs without coordinates are left out)
+   */
+  private async findClubDistances(
+    where: Prisma.ClubWhereInput,
+    center: GeoPoint,
+    radiusKm: number
+  ): Promise<Map<string, number>> {
+    const box = boundingBox(center, radiusKm);
+
+    const clubs = await this.prisma.club.findMany({
+      where: {
+        AND: [where, { latitude: box.latitude, longitude: box.longitude ?? { not: null } }],
+      },
+      select: { id: true, latitude: true, longitude: true },
+    });
+
+    const distances = new Map<string, number>();
+    for (const club of clubs) {
+      if (club.latitude === null || club.longitude === null) continue;
+
+      const distance = distanceKm(center, { latitude: club.latitude, longitude: club.longitude });
+      if (distance <= radiusKm) {
+        distances.set(club.id, distance);
+      }
+    }
+
+    return distances;
+  }
+
+  /**
+   * IDs of one directory page in display order
+   * The activity sort ranks clubs by shared tastings and events of the last
+   * CLUB_ACTIVITY_WINDOW_DAYS; inactive clubs follow, newest first
+   */
+  private async findDirectoryPageIds(
+    where: Prisma.ClubWhereInput,
+    sortBy: Exclude<ClubDirectorySort, 'distance'>,
+    order: 'asc' | 'desc',
+    skip: number,
+    take: number
+  ): Promise<string[]> {
+    if (sortBy !== 'activity') {
+      const orderBy: Prisma.ClubOrderByWithRelationInput =
+        sortBy === 'memberCount' ? { members: { _count: order } } : { [sortBy]: order };
+
+      const clubs = await this.prisma.club.findMany({
+        where,
+        orderBy: [orderBy, { id: 'asc' }],
+        skip,
+        take,
+        select: { id: true },
+      });
+      return clubs.map((club) => club.id);
+    }
+
+    const since = new Date(Date.now() - CLUB_ACTIVITY_WINDOW_DAYS * DAY_MS);
+
+    const [sharedTastings, events] = await Promise.all([
+      this.prisma.tastingOnClub.groupBy({
+        by: ['clubId'],
+        where: {
+          sharedAt: { gte: since },
+          tasting: { status: TastingStatus.COMPLETED },
+          club: where,
+        },
+        _count: { _all: true },
+      }),
+      // Recent and upcoming events
+      this.prisma.event.groupBy({
+        by: ['clubId'],
+        where: {
+          status: EventStatus.PUBLISHED,
+          date: { gte: since },
+          club: where,
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const scores = new Map<string, number>();
+    for (const group of [...sharedTastings, ...events]) {
+      scores.set(group.clubId, (scores.get(group.clubId) ?? 0) + group._count._all);
+    }
+
+    const rankedIds = [...scores]
+      .sort(([aId, aScore], [bId, bScore]) => bScore - aScore || aId.localeCompare(bId))
+      .map(([clubId]) => clubId);
+
+    const pageIds = rankedIds.slice(skip, skip + take);
+    if (pageIds.length === take) {
+      return pageIds;
+    }
+
+    const inactive = await this.prisma.club.findMany({
+      where: { AND: [where, { id: { notIn: rankedIds } }] },
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip: Math.max(0, skip - rankedIds.length),
+      take: take - pageIds.length,
+      select: { id: true },
+    });
+
+    return [...pageIds, ...inactive.map((club) => club.id)];
+  }
+
   /**
    * Find club by ID or slug
    * Supports both UUID and slug lookups
@@ -235,12 +394,16 @@ export class ClubService {
         imageUrl: true,
         coverUrl: true,
         visibility: true,
-        inviteCode: true,
         isPublicDirectory: true,
         autoApproveMembers: true,
         allowMemberInvites: true,
         maxMembers: true,
+        city: true,
+        country: true,
+        latitude: true,
+        longitude: true,
         isArchived: true,
+        archivedAt: true,
         createdBy: true,
         createdAt: true,
         updatedAt: true,
@@ -316,6 +479,11 @@ export class ClubService {
       }
     }
 
+    // Archived clubs stay readable by their members only
+    if (club.isArchived && currentUserStatus !== ClubUserStatus.MEMBER) {
+      throw new ClubNotFoundException(identifier);
+    }
+
     return this.mapToResponse(club, club._count.members, currentUserStatus, currentUserRole);
   }
 
@@ -332,6 +500,12 @@ export class ClubService {
       throw new ClubNotFoundException(id);
     }
 
+    if (existingClub.isArchived) {
+      throw new ClubArchivedException(id);
+    }
+
+    this.assertCoordinatesPair(updateClubDto.latitude, updateClubDto.longitude);
+
     // Check if new name conflicts with another club
     if (updateClubDto.name) {
       const clubWithSameName = await this.prisma.club.findFirst({
@@ -370,6 +544,10 @@ export class ClubService {
           autoApproveMembers: updateClubDto.autoApproveMembers,
           allowMemberInvites: updateClubDto.allowMemberInvites,
           maxMembers: updateClubDto.maxMembers,
+          city: updateClubDto.city,
+          country: this.normalizeCountry(updateClubDto.country),
+          latitude: updateClubDto.latitude,
+          longitude: updateClubDto.longitude,
         },
         select: {
           id: true,
@@ -379,12 +557,16 @@ export class ClubService {
           imageUrl: true,
           coverUrl: true,
           visibility: true,
-          inviteCode: true,
           isPublicDirectory: true,
           autoApproveMembers: true,
           allowMemberInvites: true,
           maxMembers: true,
+          city: true,
+          country: true,
+          latitude: true,
+          longitude: true,
           isArchived: true,
+          archivedAt: true,
           createdBy: true,
           createdAt: true,
           updatedAt: true,
@@ -409,22 +591,66 @@ export class ClubService {
     }
   }
 
-  async remove(id: string): Promise<void> {
-    try {
-      await this.prisma.club.delete({
-        where: { id },
-      });
+  /**
+   * Archive a club (owner "delete")
+   * The club becomes read-only and hidden from explore and search; members keep
+   * access to its history. It is purged CLUB_ARCHIVE_RETENTION_DAYS later unless restored.
+   * Idempotent: archiving again keeps the original retention window.
+   * @param id - Club ID
+   */
+  async archive(id: string): Promise<void> {
+    const club = await this.prisma.club.findUnique({
+      where: { id },
+      select: { id: true, isArchived: true },
+    });
 
-      this.logger.log(`Club deleted: ${id}`);
-    } catch (error) {
-      if (
-        error instanceof Prisma.PrismaClientKnownRequestError &&
-        error.code === 'P2025'
-      ) {
-        throw new ClubNotFoundException(id);
-      }
-      throw error;
+    if (!club) {
+      throw new ClubNotFoundException(id);
+    }
+
+    if (club.isArchived) {
+      return;
+    }
+
+    await this.prisma.club.update({
+      where: { id },
+      data: { isArchived: true, archivedAt: new Date() },
+    });
+
+    this.logger.log(`Club archived: ${id}`);
+  }
+
+  /**
+   * Restore an archived club, as long as its retention window is still open
+   * @param id - Club ID
+   * @returns Restored club
+   */
+  async restore(id: string): Promise<ClubResponseDto> {
+    const club = await this.prisma.club.findUnique({
+      where: { id },
+      select: { id: true, isArchived: true, archivedAt: true },
+    });
+
+    if (!club) {
+      throw new ClubNotFoundException(id);
+    }
+
+    if (!club.isArchived) {
+      throw new BadRequestException('Club is not archived');
     }
+
+    const purgeAt = this.getPurgeDate(club.archivedAt);
+    if (purgeAt && purgeAt <= new Date()) {
+      throw new ForbiddenException('Retention period is over, the club can no longer be restored');
+    }
+
+    await this.prisma.club.update({
+      where: { id },
+      data: { isArchived: false, archivedAt: null },
+    });
+
+    this.logger.log(`Club restored: ${id}`);
+    return this.findOne(id);
   }
 
   /**
@@ -450,6 +676,10 @@ export class ClubService {
       throw new ClubNotFoundException(clubId);
     }
 
+    if (club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
     // Delete old avatar if exists
     if (club.imageUrl) {
       await this.storageService.deleteImage(club.imageUrl);
@@ -518,7 +748,9 @@ export class ClubService {
         _count: {
           select: {
             members: true,
-            events: true,
+            events: {
+              where: { status: EventStatus.PUBLISHED },
+            },
           },
         },
       },
@@ -528,6 +760,21 @@ export class ClubService {
       throw new ClubNotFoundException(clubId);
     }
 
+    // Participation: confirmed attendances over (past published events × current members)
+    const now = new Date();
+    const [pastEventCount, confirmedAttendanceCount] = await Promise.all([
+      this.prisma.event.count({
+        where: { clubId, status: EventStatus.PUBLISHED, date: { lt: now } },
+      }),
+      this.prisma.eventAttendee.count({
+        where: {
+          response: RSVPResponse.YES,
+          isWaitlisted: false,
+          event: { clubId, status: EventStatus.PUBLISHED, date: { lt: now } },
+        },
+      }),
+    ]);
+
     // Get tastings from TWO sources:
     // 1. Tastings shared with this club via TastingOnClub
     // 2. Tastings linked via club events (Tasting.eventId → Event.clubId)
@@ -545,12 +792,24 @@ export class ClubService {
       cigar: {
         include: { brand: true },
       },
+      event: {
+        select: CIGAR_REVEAL_SELECT,
+      },
       observations: true,
+      _count: {
+        select: { likes: true, comments: true },
+      },
+    };
+
+    // Only tastings still visible to the club: not PRIVATE, author still a member
+    const sharedTastingWhere: Prisma.TastingWhereInput = {
+      visibility: { not: TastingVisibility.PRIVATE },
+      user: { clubMemberships: { some: { clubId } } },
     };
 
     // Source 1: TastingOnClub
     const tastingsOnClub = await this.prisma.tastingOnClub.findMany({
-      where: { clubId },
+      where: { clubId, tasting: sharedTastingWhere },
       include: {
         tasting: {
           include: tastingInclude,
@@ -566,6 +825,7 @@ export class ClubService {
           clubId,
         },
         status: TastingStatus.COMPLETED,
+        ...sharedTastingWhere,
       },
       include: tastingInclude,
       orderBy: { date: 'desc' },
@@ -589,7 +849,10 @@ export class ClubService {
     }
 
     // Convert to array and sort by date
-    const completedTastings = Array.from(tastingMap.values()).sort(
+    // Blind tastings are left out until the event cigar is revealed
+    const completedTastings = Array.from(tastingMap.values())
+      .filter((tasting) => isCigarRevealed(tasting.event))
+      .sort(
       (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
     );
 
@@ -598,6 +861,12 @@ export class ClubService {
       tastingCount: completedTastings.length,
       memberCount: club._count.members,
       eventCount: club._count.events,
+      participationRate:
+        pastEventCount > 0 && club._count.members > 0
+          ? Math.round(
+              (confirmedAttendanceCount / (pastEventCount * club._count.members)) * 100
+            )
+          : null,
     };
 
     // Identify chronic tastings from Premium members only
@@ -642,7 +911,8 @@ export class ClubService {
       // Calculate terroir stats from chronic tastings only
       const terroirCount = new Map<string, number>();
       for (const tasting of chronicTastings) {
-        const origin = tasting.cigar.origin;
+        // Cigars without a known origin fall back to their brand country
+        const origin = tasting.cigar.origin ?? tasting.cigar.brand.country;
         if (origin) {
           terroirCount.set(origin, (terroirCount.get(origin) ?? 0) + 1);
         }
@@ -692,6 +962,8 @@ export class ClubService {
           displayName: tasting.user.displayName,
           avatarUrl: tasting.user.avatarUrl,
         },
+        likeCount: tasting._count.likes,
+        commentCount: tasting._count.comments,
       };
     });
 
@@ -719,12 +991,17 @@ export class ClubService {
       imageUrl: club.imageUrl,
       coverUrl: club.coverUrl,
       visibility: club.visibility,
-      inviteCode: club.inviteCode,
       isPublicDirectory: club.isPublicDirectory,
       autoApproveMembers: club.autoApproveMembers,
       allowMemberInvites: club.allowMemberInvites,
       maxMembers: club.maxMembers,
+      city: club.city,
+      country: club.country,
+      latitude: club.latitude,
+      longitude: club.longitude,
       isArchived: club.isArchived,
+      archivedAt: club.archivedAt,
+      purgeAt: this.getPurgeDate(club.archivedAt),
       createdBy: club.createdBy,
       createdAt: club.createdAt,
       updatedAt: club.updatedAt,
@@ -733,4 +1010,35 @@ export class ClubService {
       currentUserRole,
     };
   }
+
+  /**
+   * Latitude and longitude go together: both set, both cleared (null) or both left out
+   * @throws BadRequestException otherwise
+   */
+  private assertCoordinatesPair(latitude?: number | null, longitude?: number | null): void {
+    const state = (value?: number | null): string =>
+      value === undefined ? 'unset' : value === null ? 'cleared' : 'set';
+
+    if (state(latitude) !== state(longitude)) {
+      throw new BadRequestException('latitude and longitude must be set together');
+    }
+  }
+
+  /**
+   * Country codes are stored uppercase (null/undefined kept as is for updates)
+   */
+  private normalizeCountry(country?: string | null): string | null | undefined {
+    return country ? country.toUpperCase() : country;
+  }
+
+  /**
+   * End of the retention window of an archived club (null when not archived)
+   */
+  private getPurgeDate(archivedAt: Date | null): Date | null {
+    if (!archivedAt) {
+      return null;
+    }
+
+    return new Date(archivedAt.getTime() + CLUB_ARCHIVE_RETENTION_DAYS * DAY_MS);
+  }
 }
\ No newline at end of file
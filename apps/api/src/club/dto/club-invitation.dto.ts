@@ -0,0 +1,102 @@
+import { IsString, IsNotEmpty, Matches, IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ClubInvitationStatus } from '@cigar-platform/prisma-client';
+import { MemberUserDto } from './club-member-response.dto';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+
+export class CreateClubInvitationDto {
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^@?[a-z0-9._]{3,30}$/, {
+    message: 'Invitations are sent to a @username',
+  })
+  @ApiProperty({
+    description: 'Username (with or without @) of the user to invite',
+    example: '@johndoe',
+    pattern: '^@?[a-z0-9._]{3,30}$',
+  })
+  identifier: string;
+}
+
+export class FilterClubInvitationDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({ description: 'Page number', default: 1, minimum: 1 })
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({ description: 'Items per page', default: 20, minimum: 1, maximum: 100 })
+  limit?: number;
+
+  @IsOptional()
+  @IsEnum(ClubInvitationStatus)
+  @ApiPropertyOptional({ enum: ClubInvitationStatus, description: 'Filter by status' })
+  status?: ClubInvitationStatus;
+}
+
+/**
+ * Club summary shown to the invitee
+ */
+export class ClubInvitationClubDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'Cohiba Lovers' })
+  name: string;
+
+  @ApiProperty({ example: 'cohiba-lovers' })
+  slug: string;
+
+  @ApiProperty({ type: String, example: 'https://example.com/club.jpg', nullable: true })
+  imageUrl: string | null;
+}
+
+/**
+ * Club Invitation Response DTO
+ */
+export class ClubInvitationResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  clubId: string;
+
+  @ApiProperty({ enum: ClubInvitationStatus, example: ClubInvitationStatus.PENDING })
+  status: ClubInvitationStatus;
+
+  @ApiProperty({ example: '2026-01-23T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2026-01-23T10:00:00.000Z' })
+  updatedAt: Date;
+
+  @ApiProperty({ type: ClubInvitationClubDto })
+  club: ClubInvitationClubDto;
+
+  @ApiProperty({ type: MemberUserDto, description: 'User who is invited' })
+  invitee: MemberUserDto;
+
+  @ApiProperty({ type: MemberUserDto, description: 'Member who sent the invitation' })
+  inviter: MemberUserDto;
+}
+
+export class PaginatedClubInvitationResponseDto {
+  @ApiProperty({
+    type: [ClubInvitationResponseDto],
+    description: 'Array of invitations',
+  })
+  data: ClubInvitationResponseDto[];
+
+  @ApiProperty({
+    type: PaginationMetaDto,
+    description: 'Pagination metadata',
+  })
+  meta: PaginationMetaDto;
+}
@@ -0,0 +1,69 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MemberUserDto } from './club-member-response.dto';
+
+export const CLUB_INVITE_STATUSES = ['ACTIVE', 'EXPIRED', 'EXHAUSTED', 'REVOKED'] as const;
+export type ClubInviteStatus = (typeof CLUB_INVITE_STATUSES)[number];
+
+export class CreateClubInviteDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Validity in hours (1 hour to 30 days)',
+    default: 168,
+    minimum: 1,
+    maximum: 720,
+    example: 48,
+  })
+  expiresInHours?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Number of members who can join with this code (1 = single-use)',
+    default: 1,
+    minimum: 1,
+    maximum: 100,
+    example: 1,
+  })
+  maxUses?: number;
+}
+
+export class ClubInviteResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  clubId: string;
+
+  @ApiProperty({ example: 'A7X9K2M5' })
+  code: string;
+
+  @ApiProperty({ example: '2026-01-29T10:00:00.000Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 1 })
+  maxUses: number;
+
+  @ApiProperty({ example: 0 })
+  useCount: number;
+
+  @ApiProperty({ type: Date, example: null, nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty({ enum: CLUB_INVITE_STATUSES, example: 'ACTIVE', description: 'Computed from revokedAt, expiresAt and useCount' })
+  status: ClubInviteStatus;
+
+  @ApiProperty({ example: '2026-01-22T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ type: MemberUserDto })
+  creator: MemberUserDto;
+}
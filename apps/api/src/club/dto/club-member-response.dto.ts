@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ClubRole } from '@cigar-platform/prisma-client';
 
 /**
@@ -18,6 +18,20 @@ export class MemberUserDto {
   avatarUrl: string | null;
 }
 
+/**
+ * Invite a member joined through (code and who created it)
+ */
+export class ClubMemberInviteDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'A7X9K2M5' })
+  code: string;
+
+  @ApiProperty({ type: MemberUserDto })
+  creator: MemberUserDto;
+}
+
 /**
  * Club Member Response DTO
  */
@@ -39,4 +53,11 @@ export class ClubMemberResponseDto {
 
   @ApiProperty({ type: MemberUserDto })
   user: MemberUserDto;
+
+  @ApiPropertyOptional({
+    type: ClubMemberInviteDto,
+    nullable: true,
+    description: 'Invite used to join (null = join request or direct join), only returned to owners/admins',
+  })
+  joinedVia?: ClubMemberInviteDto | null;
 }
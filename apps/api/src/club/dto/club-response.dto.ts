@@ -46,10 +46,6 @@ export class ClubResponseDto {
   @ApiProperty({ enum: ClubVisibility, example: ClubVisibility.PUBLIC })
   visibility: ClubVisibility;
 
-  @Expose()
-  @ApiPropertyOptional({ type: String, example: 'A7X9K2M5', description: 'Only returned for club owners/admins' })
-  inviteCode: string | null;
-
   @Expose()
   @ApiProperty({ example: true })
   isPublicDirectory: boolean;
@@ -66,10 +62,50 @@ export class ClubResponseDto {
   @ApiPropertyOptional({ type: Number, example: 100 })
   maxMembers: number | null;
 
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: 'Paris' })
+  city: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, description: 'ISO 3166-1 alpha-2 code', example: 'FR' })
+  country: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: Number, example: 48.8566 })
+  latitude: number | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: Number, example: 2.3522 })
+  longitude: number | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: Number,
+    description: 'Distance from the searched position in km (directory "near me" queries only)',
+    example: 3.2,
+  })
+  distanceKm?: number;
+
   @Expose()
   @ApiProperty({ example: false })
   isArchived: boolean;
 
+  @Expose()
+  @ApiPropertyOptional({
+    type: Date,
+    description: 'When the club was archived (null when active)',
+    example: '2025-01-15T10:00:00.000Z',
+  })
+  archivedAt: Date | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: Date,
+    description: 'When an archived club is purged; it can be restored until then',
+    example: '2025-02-14T10:00:00.000Z',
+  })
+  purgeAt: Date | null;
+
   @Expose()
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
   createdBy: string;
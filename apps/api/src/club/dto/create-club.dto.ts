@@ -8,7 +8,10 @@ import {
   IsEnum,
   IsBoolean,
   IsInt,
+  IsNumber,
+  IsISO31661Alpha2,
   Min,
+  Max,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ClubVisibility } from '@cigar-platform/prisma-client';
@@ -99,4 +102,46 @@ export class CreateClubDto {
     default: true,
   })
   isPublicDirectory?: boolean;
-}
\ No newline at end of file
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'City where the club meets',
+    example: 'Paris',
+    maxLength: 100,
+  })
+  city?: string;
+
+  @IsISO31661Alpha2()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Country (ISO 3166-1 alpha-2 code)',
+    example: 'FR',
+  })
+  country?: string;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(-90)
+  @Max(90)
+  @ApiPropertyOptional({
+    description: 'Latitude in degrees (set together with longitude)',
+    example: 48.8566,
+    minimum: -90,
+    maximum: 90,
+  })
+  latitude?: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(-180)
+  @Max(180)
+  @ApiPropertyOptional({
+    description: 'Longitude in degrees (set together with latitude)',
+    example: 2.3522,
+    minimum: -180,
+    maximum: 180,
+  })
+  longitude?: number;
+}
@@ -1,7 +1,16 @@
-import { IsOptional, IsInt, Min, Max, IsString, IsIn } from 'class-validator';
+import { IsOptional, IsInt, IsNumber, Min, Max, IsString, IsIn, IsISO31661Alpha2 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CLUB_NEARBY_DEFAULT_RADIUS_KM, CLUB_NEARBY_MAX_RADIUS_KM } from '../club.constants';
 
+export const CLUB_DIRECTORY_SORTS = ['activity', 'memberCount', 'distance', 'name', 'createdAt'] as const;
+export type ClubDirectorySort = (typeof CLUB_DIRECTORY_SORTS)[number];
+
+/**
+ * DTO for browsing the club directory
+ * Only clubs listed in the public directory are returned (never archived ones)
+ * "Near me": lat + lng keep the clubs within radiusKm (clubs without coordinates are left out)
+ */
 export class FilterClubDto {
   @IsOptional()
   @IsInt()
@@ -38,15 +47,15 @@ export class FilterClubDto {
   search?: string;
 
   @IsOptional()
-  @IsString()
-  @IsIn(['name', 'createdAt'])
+  @IsIn(CLUB_DIRECTORY_SORTS)
   @ApiPropertyOptional({
-    description: 'Sort by field',
-    enum: ['name', 'createdAt'],
+    description:
+      'Sort by recent activity (shared tastings and events of the last days, always most active first, inactive clubs follow by creation date), member count, distance (requires lat/lng, always nearest first), name or creation date',
+    enum: CLUB_DIRECTORY_SORTS,
     default: 'createdAt',
-    example: 'createdAt',
+    example: 'activity',
   })
-  sortBy?: string = 'createdAt';
+  sortBy?: ClubDirectorySort = 'createdAt';
 
   @IsOptional()
   @IsString()
@@ -58,4 +67,52 @@ export class FilterClubDto {
     example: 'desc',
   })
   order?: 'asc' | 'desc' = 'desc';
-}
\ No newline at end of file
+
+  @IsOptional()
+  @IsISO31661Alpha2()
+  @ApiPropertyOptional({
+    description: 'Filter by country (ISO 3166-1 alpha-2 code)',
+    example: 'FR',
+  })
+  country?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Latitude of the searched position (with lng)',
+    minimum: -90,
+    maximum: 90,
+    example: 48.8566,
+  })
+  lat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Longitude of the searched position (with lat)',
+    minimum: -180,
+    maximum: 180,
+    example: 2.3522,
+  })
+  lng?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(CLUB_NEARBY_MAX_RADIUS_KM)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Search radius in km around lat/lng',
+    default: CLUB_NEARBY_DEFAULT_RADIUS_KM,
+    minimum: 1,
+    maximum: CLUB_NEARBY_MAX_RADIUS_KM,
+    example: 25,
+  })
+  radiusKm?: number = CLUB_NEARBY_DEFAULT_RADIUS_KM;
+}
@@ -12,4 +12,6 @@ export * from './paginated-ban-response.dto';
 export * from './join-by-code-response.dto';
 export * from './club-member-response.dto';
 export * from './club-join-request-response.dto';
-export * from './club-ban-response.dto';
\ No newline at end of file
+export * from './club-ban-response.dto';
+export * from './club-invite.dto';
+export * from './club-invitation.dto';
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Archived clubs are read-only (no joins, events, invites or new shared tastings)
+ */
+export class ClubArchivedException extends ForbiddenException {
+  constructor(clubId: string) {
+    super(`Club "${clubId}" is archived and read-only`);
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common';
+
+export class ClubInvitationNotFoundException extends NotFoundException {
+  constructor(invitationId: string) {
+    super(`Club invitation with ID "${invitationId}" not found`);
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common';
+
+export class ClubInviteNotFoundException extends NotFoundException {
+  constructor(inviteId: string) {
+    super(`Club invite with ID "${inviteId}" not found`);
+  }
+}
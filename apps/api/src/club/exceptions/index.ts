@@ -5,4 +5,8 @@ export * from './member-not-found.exception';
 export * from './member-already-exists.exception';
 export * from './user-banned.exception';
 export * from './cannot-remove-owner.exception';
-export * from './cannot-transfer-to-self.exception';
\ No newline at end of file
+export * from './cannot-transfer-to-self.exception';
+export * from './club-invite-not-found.exception';
+export * from './invalid-club-invite.exception';
+export * from './club-invitation-not-found.exception';
+export * from './club-archived.exception';
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Unknown, expired, revoked or fully used invite code
+ * (same message for every case, codes cannot be probed)
+ */
+export class InvalidClubInviteException extends BadRequestException {
+  constructor() {
+    super('Invalid or expired invite code');
+  }
+}
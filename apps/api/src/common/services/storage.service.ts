@@ -145,6 +145,43 @@ export class StorageService {
     }
   }
 
+  /**
+   * Delete an image only if it belongs to the given entity
+   * Use it for URLs stored on rows users can write to: any URL outside
+   * {bucket}/{entityId}/ of the preset is ignored instead of deleted
+   *
+   * @param preset - Image preset type (determines bucket)
+   * @param entityId - Entity identifier (storage path prefix)
+   * @param imageUrl - Full public URL of the image
+   *
+   * @example
+   * await storageService.deleteEntityImage('feed', tasting.id, tasting.photoUrl);
+   */
+  async deleteEntityImage(
+    preset: ImagePresetType,
+    entityId: string,
+    imageUrl: string | null
+  ): Promise<void> {
+    if (!imageUrl) {
+      return;
+    }
+
+    const { bucket } = IMAGE_PRESETS[preset];
+    const match = imageUrl.match(/\/object\/public\/([^/]+)\/(.+)/);
+    const filePath = match?.[2] ?? '';
+
+    if (
+      match?.[1] !== bucket ||
+      !filePath.startsWith(`${entityId}/`) ||
+      filePath.split('/').includes('..')
+    ) {
+      this.logger.warn(`Refusing to delete image outside ${bucket}/${entityId}: ${imageUrl}`);
+      return;
+    }
+
+    await this.deleteImage(imageUrl);
+  }
+
   /**
    * Delete all images for an entity in a specific bucket
    * Useful for cleanup when deleting entities (user, event, etc.)
@@ -203,6 +240,7 @@ export class StorageService {
 
   /**
    * Process image with sharp according to preset configuration
+   * - Apply EXIF orientation, then drop all metadata (EXIF, GPS, ICC)
    * - Resize to preset dimensions
    * - Convert to JPEG
    * - Optimize quality
@@ -214,7 +252,10 @@ export class StorageService {
     buffer: Buffer,
     config: ImagePresetConfig
   ): Promise<Buffer> {
+    // sharp strips metadata unless withMetadata() is called,
+    // so orientation must be baked into the pixels first
     return sharp(buffer)
+      .rotate()
       .resize(config.width, config.height, {
         fit: config.fit,
         position: 'center',
@@ -0,0 +1,65 @@
+import { Prisma } from '../../../../../generated/prisma';
+
+/**
+ * Catalog Merge Utilities
+ * Shared by cigar and brand merges (moderation of duplicates)
+ *
+ * Must be called inside a transaction: a merge either moves every
+ * reference or none of them.
+ */
+
+/**
+ * Merge a duplicate cigar into its canonical cigar
+ * - Repoints tastings and events to the canonical cigar
+ * - Repoints existing redirects and keeps the duplicate slug as a redirect
+ * - Moves the change history and records the merge as a revision of the canonical cigar
+ * - Deletes the duplicate
+ * @param tx - Transaction client
+ * @param source - Duplicate cigar (removed)
+ * @param targetId - Canonical cigar ID (kept)
+ * @param mergedBy - Moderator ID (revision editor)
+ */
+export async function mergeCigarInto(
+  tx: Prisma.TransactionClient,
+  source: { id: string; slug: string },
+  targetId: string,
+  mergedBy: string
+): Promise<void> {
+  await tx.tasting.updateMany({
+    where: { cigarId: source.id },
+    data: { cigarId: targetId },
+  });
+
+  await tx.event.updateMany({
+    where: { cigarId: source.id },
+    data: { cigarId: targetId },
+  });
+
+  await tx.cigarSlugRedirect.updateMany({
+    where: { cigarId: source.id },
+    data: { cigarId: targetId },
+  });
+
+  // Revisions cascade with the cigar: they would be lost with the duplicate
+  await tx.cigarRevision.updateMany({
+    where: { cigarId: source.id },
+    data: { cigarId: targetId },
+  });
+
+  await tx.cigarRevision.create({
+    data: {
+      cigarId: targetId,
+      editedBy: mergedBy,
+      changes: [{ field: 'mergedCigar', from: source.slug, to: null }],
+    },
+  });
+
+  await tx.cigar.delete({ where: { id: source.id } });
+
+  // A stale redirect may already use this slug (slug reused after an older merge)
+  await tx.cigarSlugRedirect.upsert({
+    where: { slug: source.slug },
+    update: { cigarId: targetId },
+    create: { slug: source.slug, cigarId: targetId },
+  });
+}
@@ -0,0 +1,63 @@
+import { Prisma } from '../../../../../generated/prisma';
+
+/**
+ * Cigar Reveal Utilities
+ * Helpers for blind-tasting events (secret cigar until reveal)
+ *
+ * The reveal is computed at read time:
+ * - manual reveal by an admin (cigarRevealed)
+ * - automatic reveal once cigarRevealAt has passed
+ */
+
+/**
+ * Event fields needed to compute the reveal state
+ */
+export interface CigarRevealState {
+  cigarSecret: boolean;
+  cigarRevealAt: Date | null;
+  cigarRevealed: boolean;
+}
+
+/**
+ * Prisma select for the reveal state (use on Event relations)
+ */
+export const CIGAR_REVEAL_SELECT = {
+  cigarSecret: true,
+  cigarRevealAt: true,
+  cigarRevealed: true,
+} as const;
+
+/**
+ * Check if the cigar of an event can be shown
+ * @param event - Event reveal state (null = tasting without event)
+ * @param now - Reference date (defaults to now)
+ * @returns True if the cigar is not secret or has been revealed
+ */
+export function isCigarRevealed(
+  event: CigarRevealState | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!event || !event.cigarSecret) {
+    return true;
+  }
+
+  if (event.cigarRevealed) {
+    return true;
+  }
+
+  return event.cigarRevealAt !== null && event.cigarRevealAt <= now;
+}
+
+/**
+ * Prisma filter matching events whose cigar is still hidden
+ * Use with NOT on tasting queries that would leak the cigar identity
+ * @param now - Reference date (defaults to now)
+ * @returns Event where clause
+ */
+export function unrevealedCigarEventWhere(now: Date = new Date()): Prisma.EventWhereInput {
+  return {
+    cigarSecret: true,
+    cigarRevealed: false,
+    OR: [{ cigarRevealAt: null }, { cigarRevealAt: { gt: now } }],
+  };
+}
@@ -0,0 +1,19 @@
+import { Prisma } from '../../../../../generated/prisma';
+
+/**
+ * Club Directory Utilities
+ * Shared by the explore directory (ClubService.findAll) and the omnisearch
+ */
+
+/**
+ * Prisma filter matching the clubs listed in the public directory
+ * - Owners opt in with isPublicDirectory (PRIVATE clubs can be listed, joining still needs a request or invite)
+ * - Archived clubs are never listed
+ * @returns Club where clause
+ */
+export function clubDirectoryWhere(): Prisma.ClubWhereInput {
+  return {
+    isArchived: false,
+    isPublicDirectory: true,
+  };
+}
@@ -0,0 +1,44 @@
+import { encodeCursor, decodeCursor, cursorWhere } from './cursor.util';
+
+describe('cursor.util', () => {
+  const position = {
+    date: new Date('2026-01-19T20:00:00.000Z'),
+    id: '550e8400-e29b-41d4-a716-446655440000',
+  };
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should decode the position it encoded', () => {
+      expect(decodeCursor(encodeCursor(position))).toEqual(position);
+    });
+
+    it('should produce a URL-safe cursor', () => {
+      expect(encodeCursor(position)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should return null for a cursor without id', () => {
+      const cursor = Buffer.from('2026-01-19T20:00:00.000Z').toString('base64url');
+      expect(decodeCursor(cursor)).toBeNull();
+    });
+
+    it('should return null for a cursor with an invalid date', () => {
+      const cursor = Buffer.from(`not-a-date|${position.id}`).toString('base64url');
+      expect(decodeCursor(cursor)).toBeNull();
+    });
+
+    it('should return null for garbage input', () => {
+      expect(decodeCursor('')).toBeNull();
+      expect(decodeCursor('%%%')).toBeNull();
+    });
+  });
+
+  describe('cursorWhere', () => {
+    it('should select rows strictly after the cursor in (date desc, id desc) order', () => {
+      expect(cursorWhere(position)).toEqual({
+        OR: [
+          { date: { lt: position.date } },
+          { date: position.date, id: { lt: position.id } },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Cursor Utilities
+ * Opaque keyset cursors for infinite scroll (date + id)
+ *
+ * Unlike page/limit offsets, a keyset cursor keeps its position when new
+ * rows are inserted at the top: no entry is skipped or returned twice.
+ * Lists must be ordered by (date desc, id desc) to match cursorWhere.
+ */
+
+export interface DateIdCursor {
+  date: Date;
+  id: string;
+}
+
+export interface DateIdCursorWhere {
+  OR: ({ date: { lt: Date } } | { date: Date; id: { lt: string } })[];
+}
+
+/**
+ * Encode the position of a row as an opaque cursor
+ * @example
+ * encodeCursor({ date: tasting.date, id: tasting.id }) // 'MjAyNi0wMS0xOVQyMDowMDowMC4wMDBafDU1MGU4NDAw...'
+ */
+export function encodeCursor(cursor: DateIdCursor): string {
+  return Buffer.from(`${cursor.date.toISOString()}|${cursor.id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): DateIdCursor | null {
+  const [isoDate, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(isoDate);
+
+  if (!id || Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  return { date, id };
+}
+
+/**
+ * Prisma filter for rows strictly after the cursor in (date desc, id desc) order
+ */
+export function cursorWhere(cursor: DateIdCursor): DateIdCursorWhere {
+  return {
+    OR: [{ date: { lt: cursor.date } }, { date: cursor.date, id: { lt: cursor.id } }],
+  };
+}
@@ -0,0 +1,43 @@
+import { distanceKm, boundingBox } from './geo.util';
+
+describe('geo.util', () => {
+  const paris = { latitude: 48.8566, longitude: 2.3522 };
+  const lyon = { latitude: 45.764, longitude: 4.8357 };
+
+  describe('distanceKm', () => {
+    it('should be 0 for the same point', () => {
+      expect(distanceKm(paris, paris)).toBe(0);
+    });
+
+    it('should compute the great-circle distance', () => {
+      expect(distanceKm(paris, lyon)).toBeCloseTo(391.5, 0);
+    });
+
+    it('should be symmetric', () => {
+      expect(distanceKm(lyon, paris)).toBeCloseTo(distanceKm(paris, lyon), 9);
+    });
+  });
+
+  describe('boundingBox', () => {
+    it('should enclose every point of the circle', () => {
+      const box = boundingBox(paris, 400);
+
+      expect(lyon.latitude).toBeGreaterThanOrEqual(box.latitude.gte);
+      expect(lyon.latitude).toBeLessThanOrEqual(box.latitude.lte);
+      expect(lyon.longitude).toBeGreaterThanOrEqual(box.longitude?.gte ?? -Infinity);
+      expect(lyon.longitude).toBeLessThanOrEqual(box.longitude?.lte ?? Infinity);
+    });
+
+    it('should drop the longitude range across the antimeridian', () => {
+      const box = boundingBox({ latitude: -17.7, longitude: 179.5 }, 100);
+      expect(box.longitude).toBeNull();
+    });
+
+    it('should clamp latitudes and drop the longitude range near a pole', () => {
+      const box = boundingBox({ latitude: 89.5, longitude: 0 }, 100);
+
+      expect(box.latitude.lte).toBe(90);
+      expect(box.longitude).toBeNull();
+    });
+  });
+});
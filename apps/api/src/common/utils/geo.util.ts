@@ -0,0 +1,66 @@
+/**
+ * Geo Utilities
+ * Great-circle distances for "near me" queries (WGS 84 coordinates in degrees)
+ */
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Latitude/longitude ranges enclosing a circle, used to prefilter rows before
+ * the exact distance check. Longitude is null when the box would wrap
+ * around the antimeridian or a pole (no longitude prefilter then).
+ */
+export interface GeoBoundingBox {
+  latitude: { gte: number; lte: number };
+  longitude: { gte: number; lte: number } | null;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance between two points
+ * @returns Distance in kilometers
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Bounding box of the circle of radiusKm around center
+ * @param center - Circle center
+ * @param radiusKm - Circle radius in kilometers
+ */
+export function boundingBox(center: GeoPoint, radiusKm: number): GeoBoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const minLat = center.latitude - latDelta;
+  const maxLat = center.latitude + latDelta;
+
+  const latitude = { gte: Math.max(-90, minLat), lte: Math.min(90, maxLat) };
+
+  if (minLat <= -90 || maxLat >= 90) {
+    return { latitude, longitude: null };
+  }
+
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos(toRadians(center.latitude)));
+  const minLng = center.longitude - lngDelta;
+  const maxLng = center.longitude + lngDelta;
+
+  if (minLng < -180 || maxLng > 180) {
+    return { latitude, longitude: null };
+  }
+
+  return { latitude, longitude: { gte: minLng, lte: maxLng } };
+}
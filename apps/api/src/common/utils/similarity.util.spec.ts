@@ -0,0 +1,31 @@
+import { normalizeName, similarityScore, DUPLICATE_SIMILARITY_THRESHOLD } from './similarity.util';
+
+describe('similarity.util', () => {
+  describe('normalizeName', () => {
+    it('should remove case, accents, punctuation and spaces', () => {
+      expect(normalizeName('H. Upmann')).toBe('hupmann');
+      expect(normalizeName('Roméo y Julieta')).toBe('romeoyjulieta');
+    });
+  });
+
+  describe('similarityScore', () => {
+    it('should be 1 for names identical once normalized', () => {
+      expect(similarityScore('H. Upmann', 'h upmann')).toBe(1);
+      expect(similarityScore('', '')).toBe(1);
+    });
+
+    it('should flag near-duplicates above the threshold', () => {
+      expect(similarityScore('Cohiba Robusto', 'Cohiba Robustos')).toBeGreaterThanOrEqual(
+        DUPLICATE_SIMILARITY_THRESHOLD
+      );
+    });
+
+    it('should keep different names below the threshold', () => {
+      expect(similarityScore('Cohiba', 'Partagas')).toBeLessThan(DUPLICATE_SIMILARITY_THRESHOLD);
+    });
+
+    it('should score one edit over the longest name', () => {
+      expect(similarityScore('abcd', 'abce')).toBe(0.75);
+    });
+  });
+});
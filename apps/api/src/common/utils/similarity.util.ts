@@ -0,0 +1,69 @@
+/**
+ * Similarity Utilities
+ * Fuzzy name matching used to detect near-duplicate brands and cigars
+ *
+ * Example: "H. Upmann" ≈ "H Upmann", "Cohiba Robusto" ≈ "Cohiba Robustos"
+ */
+
+/**
+ * Minimum score for two names to be considered near-duplicates
+ */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Normalize a name for comparison
+ * Lowercase, no accents, no punctuation, no spaces
+ * Example: "H. Upmann" → "hupmann", "Roméo y Julieta" → "romeoyjulieta"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, ''); // Remove punctuation and spaces
+}
+
+/**
+ * Compute the similarity between two names
+ * Based on the Levenshtein distance of the normalized names
+ * @returns Score between 0 (different) and 1 (identical once normalized)
+ */
+export function similarityScore(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+
+  if (left === right) {
+    return 1;
+  }
+
+  const maxLength = Math.max(left.length, right.length);
+  if (maxLength === 0) {
+    return 1;
+  }
+
+  return 1 - levenshteinDistance(left, right) / maxLength;
+}
+
+/**
+ * Levenshtein distance (single-row dynamic programming)
+ */
+function levenshteinDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const previous = row[j];
+      row[j] = Math.min(
+        row[j] + 1, // Deletion
+        row[j - 1] + 1, // Insertion
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1) // Substitution
+      );
+      diagonal = previous;
+    }
+  }
+
+  return row[b.length];
+}
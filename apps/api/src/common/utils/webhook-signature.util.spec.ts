@@ -0,0 +1,60 @@
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from './webhook-signature.util';
+
+describe('webhook-signature.util', () => {
+  const secret = 'whsec_test';
+  const payload = JSON.stringify({ id: 'evt_1', type: 'invoice.paid' });
+  const timestamp = 1767225600; // 2026-01-01T00:00:00Z
+
+  it('should accept a payload signed with the same secret', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+    expect(verifyWebhookSignature(payload, header, secret, timestamp)).toBe(true);
+  });
+
+  it('should accept the raw body as a Buffer', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+    expect(verifyWebhookSignature(Buffer.from(payload), header, secret, timestamp)).toBe(true);
+  });
+
+  it('should reject another secret', () => {
+    const header = signWebhookPayload(payload, 'whsec_other', timestamp);
+    expect(verifyWebhookSignature(payload, header, secret, timestamp)).toBe(false);
+  });
+
+  it('should reject a modified payload', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+    expect(verifyWebhookSignature(`${payload} `, header, secret, timestamp)).toBe(false);
+  });
+
+  it('should accept any v1 signature (secret rotation)', () => {
+    const signature = signWebhookPayload(payload, secret, timestamp).split(',')[1];
+    const header = `t=${timestamp},v1=${'0'.repeat(64)},${signature}`;
+    expect(verifyWebhookSignature(payload, header, secret, timestamp)).toBe(true);
+  });
+
+  it('should reject a malformed header', () => {
+    expect(verifyWebhookSignature(payload, '', secret, timestamp)).toBe(false);
+    expect(verifyWebhookSignature(payload, `t=${timestamp}`, secret, timestamp)).toBe(false);
+    expect(verifyWebhookSignature(payload, 'v1=abc', secret, timestamp)).toBe(false);
+  });
+
+  describe('timestamp tolerance', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    it('should accept a payload at the edge of the tolerance window', () => {
+      expect(verifyWebhookSignature(payload, header, secret, timestamp + WEBHOOK_TOLERANCE_SECONDS)).toBe(true);
+      expect(verifyWebhookSignature(payload, header, secret, timestamp - WEBHOOK_TOLERANCE_SECONDS)).toBe(true);
+    });
+
+    it('should reject a payload older than the tolerance (replay)', () => {
+      expect(verifyWebhookSignature(payload, header, secret, timestamp + WEBHOOK_TOLERANCE_SECONDS + 1)).toBe(false);
+    });
+
+    it('should reject a payload signed too far in the future', () => {
+      expect(verifyWebhookSignature(payload, header, secret, timestamp - WEBHOOK_TOLERANCE_SECONDS - 1)).toBe(false);
+    });
+  });
+});
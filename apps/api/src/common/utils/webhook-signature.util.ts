@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook Signature Utilities
+ * Stripe-compatible signed payloads: header "t=<timestamp>,v1=<signature>"
+ * where signature = HMAC-SHA256(secret, "<timestamp>.<raw body>") in hex
+ */
+
+/**
+ * Maximum age of a signed payload (replay protection)
+ */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Sign a payload (used by the local fixture replay script)
+ * @returns Value of the signature header
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header against the raw payload
+ * Accepts any of the v1 signatures (secret rotation) within the tolerance window
+ */
+export function verifyWebhookSignature(
+  payload: Buffer | string,
+  header: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(now - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    createHmac('sha256', secret).update(`${timestamp}.${payload.toString()}`).digest('hex')
+  );
+
+  return signatures.some((signature) => {
+    const candidate = Buffer.from(signature ?? '');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+}
@@ -6,13 +6,14 @@ import {
 
 /**
  * Security patterns to prevent XSS and external links injection
+ * No `g` flag: test() on a global regex keeps lastIndex between calls and skips matches
  */
 const SECURITY_PATTERNS = [
   // Anti-XSS: Script injections
-  /<script|javascript:|onerror=|onload=|onclick=|eval\(/gi,
+  /<script|javascript:|onerror=|onload=|onclick=|eval\(/i,
 
   // Anti-spam: External links (excluding our domain)
-  /(http|https):\/\/(?!.*cigar-platform\.)/gi,
+  /(http|https):\/\/(?!.*cigar-platform\.)/i,
 ];
 
 /**
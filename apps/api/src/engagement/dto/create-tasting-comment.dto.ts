@@ -0,0 +1,19 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for commenting on a tasting
+ */
+export class CreateTastingCommentDto {
+  @IsSecureText()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  @ApiProperty({
+    description: 'Comment text',
+    example: 'Superbe accord avec le rhum !',
+    maxLength: 1000,
+  })
+  content: string;
+}
@@ -0,0 +1,4 @@
+export * from './create-tasting-comment.dto';
+export * from './filter-tasting-comments.dto';
+export * from './tasting-comment-response.dto';
+export * from './tasting-like-response.dto';
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+import { TastingAuthorDto } from '../../tasting/dto';
+
+/**
+ * Tasting Comment Response DTO
+ */
+export class TastingCommentResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tastingId: string;
+
+  @ApiProperty({ example: 'Superbe accord avec le rhum !' })
+  content: string;
+
+  @ApiProperty({ example: '2024-12-31T21:30:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ type: TastingAuthorDto, description: 'Author of the comment' })
+  author: TastingAuthorDto;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether the current user can delete this comment (comment author, tasting author or club admin)',
+  })
+  canDelete: boolean;
+}
+
+/**
+ * Paginated Tasting Comment Response DTO
+ */
+export class PaginatedTastingCommentResponseDto {
+  @ApiProperty({
+    type: [TastingCommentResponseDto],
+    description: 'Comments, oldest first',
+  })
+  data: TastingCommentResponseDto[];
+
+  @ApiProperty({
+    type: PaginationMetaDto,
+    description: 'Pagination metadata',
+  })
+  meta: PaginationMetaDto;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Tasting Like Response DTO
+ * Like state of a tasting after liking / unliking it
+ */
+export class TastingLikeResponseDto {
+  @ApiProperty({ example: 12, description: 'Number of likes' })
+  likeCount: number;
+
+  @ApiProperty({ example: true, description: 'Whether the current user likes this tasting' })
+  likedByMe: boolean;
+}
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { EngagementService } from './engagement.service';
+import {
+  CreateTastingCommentDto,
+  FilterTastingCommentsDto,
+  PaginatedTastingCommentResponseDto,
+  TastingCommentResponseDto,
+  TastingLikeResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('engagement')
+@Controller('tastings/:tastingId')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+@ApiParam({
+  name: 'tastingId',
+  description: 'Tasting UUID',
+  example: '550e8400-e29b-41d4-a716-446655440000',
+})
+export class EngagementController {
+  constructor(private readonly engagementService: EngagementService) {}
+
+  @Post('like')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Like a tasting' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasting liked',
+    type: TastingLikeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Tasting is not completed' })
+  @ApiResponse({ status: 403, description: 'Forbidden (tasting not readable)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async like(
+    @Param('tastingId') tastingId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingLikeResponseDto> {
+    return this.engagementService.like(tastingId, userId);
+  }
+
+  @Delete('like')
+  @ApiOperation({ summary: 'Remove my like from a tasting' })
+  @ApiResponse({
+    status: 200,
+    description: 'Like removed',
+    type: TastingLikeResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden (tasting not readable)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async unlike(
+    @Param('tastingId') tastingId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingLikeResponseDto> {
+    return this.engagementService.unlike(tastingId, userId);
+  }
+
+  @Get('comments')
+  @ApiOperation({ summary: 'Get comments of a tasting (paginated, oldest first)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Comments retrieved successfully',
+    type: PaginatedTastingCommentResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden (tasting not readable)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async findComments(
+    @Param('tastingId') tastingId: string,
+    @Query() filter: FilterTastingCommentsDto,
+    @CurrentUser('id') userId: string
+  ): Promise<PaginatedTastingCommentResponseDto> {
+    return this.engagementService.findComments(tastingId, filter, userId);
+  }
+
+  @Post('comments')
+  @ApiOperation({ summary: 'Comment on a tasting' })
+  @ApiResponse({
+    status: 201,
+    description: 'Comment created',
+    type: TastingCommentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid content or tasting not completed' })
+  @ApiResponse({ status: 403, description: 'Forbidden (tasting not readable)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async addComment(
+    @Param('tastingId') tastingId: string,
+    @Body() createCommentDto: CreateTastingCommentDto,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingCommentResponseDto> {
+    return this.engagementService.addComment(tastingId, createCommentDto, userId);
+  }
+
+  @Delete('comments/:commentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a comment (comment author, tasting author or club admin)' })
+  @ApiParam({
+    name: 'commentId',
+    description: 'Comment UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({ status: 204, description: 'Comment deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Comment not found' })
+  async removeComment(
+    @Param('tastingId') tastingId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<void> {
+    return this.engagementService.removeComment(tastingId, commentId, userId);
+  }
+}
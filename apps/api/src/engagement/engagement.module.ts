@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EngagementService } from './engagement.service';
+import { EngagementController } from './engagement.controller';
+import { AuthModule } from '../auth/auth.module';
+import { TastingModule } from '../tasting/tasting.module';
+
+@Module({
+  imports: [AuthModule, TastingModule],
+  controllers: [EngagementController],
+  providers: [EngagementService],
+  exports: [EngagementService],
+})
+export class EngagementModule {}
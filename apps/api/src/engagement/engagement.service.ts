@@ -0,0 +1,235 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import {
+  Prisma,
+  Tasting,
+  TastingStatus,
+  ClubRole,
+  UserVisibility,
+} from '../../../../generated/prisma';
+import { TastingService } from '../tasting/tasting.service';
+import { TastingForbiddenException } from '../tasting/exceptions';
+import {
+  CreateTastingCommentDto,
+  FilterTastingCommentsDto,
+  PaginatedTastingCommentResponseDto,
+  TastingCommentResponseDto,
+  TastingLikeResponseDto,
+} from './dto';
+import { TastingCommentNotFoundException } from './exceptions';
+
+const COMMENT_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatarUrl: true,
+      visibility: true,
+    },
+  },
+};
+
+type CommentWithUser = Prisma.TastingCommentGetPayload<{ include: typeof COMMENT_INCLUDE }>;
+
+/**
+ * Likes and comments on tastings
+ * Anyone who can read a completed tasting (TastingService read rules) can like and comment it
+ */
+@Injectable()
+export class EngagementService {
+  private readonly logger = new Logger(EngagementService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tastingService: TastingService
+  ) {}
+
+  /**
+   * Like a tasting (idempotent)
+   * @param tastingId - Tasting ID
+   * @param userId - Current user ID
+   */
+  async like(tastingId: string, userId: string): Promise<TastingLikeResponseDto> {
+    await this.findEngageableTasting(tastingId, userId);
+
+    await this.prisma.tastingLike.upsert({
+      where: { tastingId_userId: { tastingId, userId } },
+      create: { tastingId, userId },
+      update: {},
+    });
+
+    return this.getLikeState(tastingId, true);
+  }
+
+  /**
+   * Remove the current user's like (idempotent)
+   * @param tastingId - Tasting ID
+   * @param userId - Current user ID
+   */
+  async unlike(tastingId: string, userId: string): Promise<TastingLikeResponseDto> {
+    await this.tastingService.findReadable(tastingId, userId);
+
+    await this.prisma.tastingLike.deleteMany({
+      where: { tastingId, userId },
+    });
+
+    return this.getLikeState(tastingId, false);
+  }
+
+  /**
+   * Get the comments of a tasting (paginated, oldest first)
+   * @param tastingId - Tasting ID
+   * @param filter - Pagination
+   * @param userId - Current user ID
+   */
+  async findComments(
+    tastingId: string,
+    filter: FilterTastingCommentsDto,
+    userId: string
+  ): Promise<PaginatedTastingCommentResponseDto> {
+    const { page = 1, limit = 20 } = filter;
+    const tasting = await this.tastingService.findReadable(tastingId, userId);
+
+    const [comments, total, canModerate] = await Promise.all([
+      this.prisma.tastingComment.findMany({
+        where: { tastingId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: COMMENT_INCLUDE,
+      }),
+      this.prisma.tastingComment.count({ where: { tastingId } }),
+      this.canModerate(tasting, userId),
+    ]);
+
+    return {
+      data: comments.map((comment) =>
+        this.mapCommentToResponse(comment, canModerate || comment.userId === userId)
+      ),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Comment on a tasting
+   * @param tastingId - Tasting ID
+   * @param createCommentDto - Comment text (checked by @IsSecureText)
+   * @param userId - Current user ID
+   */
+  async addComment(
+    tastingId: string,
+    createCommentDto: CreateTastingCommentDto,
+    userId: string
+  ): Promise<TastingCommentResponseDto> {
+    await this.findEngageableTasting(tastingId, userId);
+
+    const content = createCommentDto.content.trim();
+    if (!content) {
+      throw new BadRequestException('Comment cannot be empty');
+    }
+
+    const comment = await this.prisma.tastingComment.create({
+      data: { tastingId, userId, content },
+      include: COMMENT_INCLUDE,
+    });
+
+    this.logger.log(`Comment ${comment.id} added to tasting ${tastingId} by user ${userId}`);
+
+    return this.mapCommentToResponse(comment, true);
+  }
+
+  /**
+   * Delete a comment
+   * Allowed for the comment author, the tasting author and admins of a club the tasting is shared with
+   * @param tastingId - Tasting ID
+   * @param commentId - Comment ID
+   * @param userId - Current user ID
+   */
+  async removeComment(tastingId: string, commentId: string, userId: string): Promise<void> {
+    const comment = await this.prisma.tastingComment.findFirst({
+      where: { id: commentId, tastingId },
+      include: { tasting: true },
+    });
+
+    if (!comment) {
+      throw new TastingCommentNotFoundException(commentId);
+    }
+
+    if (comment.userId !== userId && !(await this.canModerate(comment.tasting, userId))) {
+      throw new TastingForbiddenException('delete comments on');
+    }
+
+    await this.prisma.tastingComment.delete({
+      where: { id: commentId },
+    });
+
+    this.logger.log(`Comment ${commentId} deleted from tasting ${tastingId} by user ${userId}`);
+  }
+
+  /**
+   * Readable AND completed tasting (drafts get no likes or comments)
+   */
+  private async findEngageableTasting(tastingId: string, userId: string): Promise<Tasting> {
+    const tasting = await this.tastingService.findReadable(tastingId, userId);
+
+    if (tasting.status !== TastingStatus.COMPLETED) {
+      throw new BadRequestException('Only completed tastings can be liked or commented');
+    }
+
+    return tasting;
+  }
+
+  /**
+   * Tasting author, or owner/admin of a club the tasting is shared with
+   */
+  private async canModerate(tasting: Tasting, userId: string): Promise<boolean> {
+    if (tasting.userId === userId) {
+      return true;
+    }
+
+    const adminMembership = await this.prisma.clubMember.findFirst({
+      where: {
+        userId,
+        role: { in: [ClubRole.owner, ClubRole.admin] },
+        club: { tastings: { some: { tastingId: tasting.id } } },
+      },
+      select: { id: true },
+    });
+
+    return !!adminMembership;
+  }
+
+  private async getLikeState(tastingId: string, likedByMe: boolean): Promise<TastingLikeResponseDto> {
+    const likeCount = await this.prisma.tastingLike.count({
+      where: { tastingId },
+    });
+
+    return { likeCount, likedByMe };
+  }
+
+  /**
+   * Map a comment to DTO (displayName hidden for PRIVATE profiles)
+   */
+  private mapCommentToResponse(comment: CommentWithUser, canDelete: boolean): TastingCommentResponseDto {
+    const { user } = comment;
+
+    return {
+      id: comment.id,
+      tastingId: comment.tastingId,
+      content: comment.content,
+      createdAt: comment.createdAt,
+      author: {
+        id: user.id,
+        username: user.username,
+        displayName: user.visibility === UserVisibility.PUBLIC ? user.displayName : null,
+        avatarUrl: user.avatarUrl,
+      },
+      canDelete,
+    };
+  }
+}
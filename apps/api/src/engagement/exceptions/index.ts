@@ -0,0 +1 @@
+export * from './tasting-comment-not-found.exception';
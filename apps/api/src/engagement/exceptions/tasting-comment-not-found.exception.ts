@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common';
+
+export class TastingCommentNotFoundException extends NotFoundException {
+  constructor(commentId: string) {
+    super(`Comment with ID "${commentId}" not found`);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for creating a club event
+ * Only club owners and admins can create events
+ */
+export class CreateEventDto {
+  @IsSecureText()
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(100)
+  @ApiProperty({
+    description: 'Event name',
+    example: 'Soirée Cubains Vintage',
+    minLength: 3,
+    maxLength: 100,
+  })
+  name: string;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  @ApiPropertyOptional({
+    description: 'Event description',
+    example: 'Soirée dédiée aux cigares cubains vintage',
+    maxLength: 2000,
+  })
+  description?: string;
+
+  @IsSecureText()
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  @ApiPropertyOptional({
+    description: 'Event location',
+    example: 'Le Comptoir, Caen',
+    maxLength: 200,
+  })
+  location?: string;
+
+  @IsDateString()
+  @ApiProperty({
+    description: 'Event date and time (ISO 8601)',
+    example: '2026-01-31T20:00:00.000Z',
+  })
+  date: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'UUID of the main cigar of the event',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  cigarId?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Keep the cigar secret until reveal (blind tasting, requires cigarId)',
+    example: false,
+  })
+  cigarSecret?: boolean;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Automatic reveal date of a secret cigar (ISO 8601, omit for manual reveal)',
+    example: '2026-01-31T22:30:00.000Z',
+  })
+  cigarRevealAt?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(500)
+  @ApiPropertyOptional({
+    description: 'Maximum number of attendees (YES responses beyond the cap go to the waitlist)',
+    example: 12,
+    minimum: 1,
+    maximum: 500,
+  })
+  maxAttendees?: number;
+}
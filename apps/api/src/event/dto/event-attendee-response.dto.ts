@@ -0,0 +1,88 @@
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RSVPResponse } from '@cigar-platform/prisma-client';
+import { MemberUserDto } from '../../club/dto/club-member-response.dto';
+
+/**
+ * Event Attendee Response DTO
+ * A user's RSVP to a club event
+ */
+export class EventAttendeeResponseDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  eventId: string;
+
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440002' })
+  userId: string;
+
+  @Expose()
+  @ApiProperty({ enum: RSVPResponse, example: RSVPResponse.YES })
+  response: RSVPResponse;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'True when the user answered YES but the event is full (promoted automatically when a seat frees up)',
+  })
+  isWaitlisted: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: '2026-01-20T18:00:00.000Z' })
+  respondedAt: Date | null;
+
+  @Expose()
+  @Type(() => MemberUserDto)
+  @ApiProperty({ type: MemberUserDto })
+  user: MemberUserDto;
+}
+
+/**
+ * Event Attendance Counts DTO
+ * Number of attendees per RSVP response
+ */
+export class EventAttendanceCountsDto {
+  @Expose()
+  @ApiProperty({ example: 5, description: 'Confirmed attendees (YES, not waitlisted)' })
+  yes: number;
+
+  @Expose()
+  @ApiProperty({ example: 2 })
+  maybe: number;
+
+  @Expose()
+  @ApiProperty({ example: 1 })
+  no: number;
+
+  @Expose()
+  @ApiProperty({ example: 3, description: 'Club members who have not answered yet' })
+  pending: number;
+
+  @Expose()
+  @ApiProperty({ example: 1, description: 'YES responses waiting for a seat' })
+  waitlisted: number;
+}
+
+/**
+ * Event Attendees Response DTO
+ * Attendee list with counts per response (club admins only)
+ */
+export class EventAttendeesResponseDto {
+  @Expose()
+  @Type(() => EventAttendanceCountsDto)
+  @ApiProperty({ type: EventAttendanceCountsDto })
+  counts: EventAttendanceCountsDto;
+
+  @Expose()
+  @ApiPropertyOptional({ type: Number, example: 12, description: 'Attendance cap (null = unlimited)' })
+  maxAttendees: number | null;
+
+  @Expose()
+  @Type(() => EventAttendeeResponseDto)
+  @ApiProperty({ type: [EventAttendeeResponseDto] })
+  attendees: EventAttendeeResponseDto[];
+}
@@ -0,0 +1,51 @@
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MemberUserDto } from '../../club/dto/club-member-response.dto';
+import { EventCigarDto } from './event-response.dto';
+
+/**
+ * Event Blind Result DTO
+ * A participant's blind rating of the event cigar
+ */
+export class EventBlindResultDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tastingId: string;
+
+  @Expose()
+  @ApiProperty({ example: 4.5, description: 'Rating given before the reveal' })
+  rating: number;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: 'Très boisé, je pensais à un Partagas' })
+  comment: string | null;
+
+  @Expose()
+  @ApiProperty({ example: '2026-01-31T21:00:00.000Z' })
+  date: Date;
+
+  @Expose()
+  @Type(() => MemberUserDto)
+  @ApiProperty({ type: MemberUserDto })
+  user: MemberUserDto;
+}
+
+/**
+ * Event Blind Results Response DTO
+ * Real cigar identity with every participant's blind rating (available after reveal)
+ */
+export class EventBlindResultsResponseDto {
+  @Expose()
+  @Type(() => EventCigarDto)
+  @ApiProperty({ type: EventCigarDto, description: 'Revealed cigar' })
+  cigar: EventCigarDto;
+
+  @Expose()
+  @ApiPropertyOptional({ type: Number, example: 4.2, description: 'Average blind rating (null if no tasting)' })
+  averageRating: number | null;
+
+  @Expose()
+  @Type(() => EventBlindResultDto)
+  @ApiProperty({ type: [EventBlindResultDto] })
+  results: EventBlindResultDto[];
+}
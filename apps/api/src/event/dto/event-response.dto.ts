@@ -0,0 +1,148 @@
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EventStatus, RSVPResponse } from '@cigar-platform/prisma-client';
+import { MemberUserDto } from '../../club/dto/club-member-response.dto';
+
+/**
+ * Event Cigar DTO
+ * Simplified cigar info for event responses
+ */
+export class EventCigarDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Siglo VI' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ example: 'cohiba-siglo-vi' })
+  slug: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Cohiba' })
+  brandName: string;
+}
+
+/**
+ * Event My Attendance DTO
+ * Current user's RSVP to the event
+ */
+export class EventMyAttendanceDto {
+  @Expose()
+  @ApiProperty({ enum: RSVPResponse, example: RSVPResponse.YES })
+  response: RSVPResponse;
+
+  @Expose()
+  @ApiProperty({ example: false })
+  isWaitlisted: boolean;
+}
+
+/**
+ * Event Response DTO
+ * Returned by all club event endpoints
+ */
+export class EventResponseDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  clubId: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Soirée Cubains Vintage' })
+  name: string;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: 'Soirée dédiée aux cigares cubains vintage' })
+  description: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: 'Le Comptoir, Caen' })
+  location: string | null;
+
+  @Expose()
+  @ApiProperty({ example: '2026-01-31T20:00:00.000Z' })
+  date: Date;
+
+  @Expose()
+  @ApiProperty({ enum: EventStatus, example: EventStatus.PUBLISHED })
+  status: EventStatus;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: null })
+  cancelledAt: Date | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, example: '550e8400-e29b-41d4-a716-446655440002' })
+  cigarId: string | null;
+
+  @Expose()
+  @Type(() => EventCigarDto)
+  @ApiPropertyOptional({
+    type: EventCigarDto,
+    nullable: true,
+    description: 'Event cigar (null when secret and not yet revealed, except for club owners and admins)',
+  })
+  cigar: EventCigarDto | null;
+
+  @Expose()
+  @ApiProperty({ example: false, description: 'Blind tasting: the cigar is hidden until reveal' })
+  cigarSecret: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: String,
+    example: '2026-01-31T22:30:00.000Z',
+    description: 'Automatic reveal date (null = manual reveal)',
+  })
+  cigarRevealAt: Date | null;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'Whether the cigar has been revealed (manually or automatically)',
+  })
+  cigarRevealed: boolean;
+
+  @Expose()
+  @Type(() => MemberUserDto)
+  @ApiProperty({ type: MemberUserDto, description: 'Event creator' })
+  creator: MemberUserDto;
+
+  @Expose()
+  @ApiPropertyOptional({ type: Number, example: 12, description: 'Attendance cap (null = unlimited)' })
+  maxAttendees: number | null;
+
+  @Expose()
+  @ApiProperty({ example: 8, description: 'Number of confirmed attendees (YES, not waitlisted)' })
+  attendeeCount: number;
+
+  @Expose()
+  @ApiProperty({ example: 2, description: 'Number of YES responses waiting for a seat' })
+  waitlistCount: number;
+
+  @Expose()
+  @Type(() => EventMyAttendanceDto)
+  @ApiPropertyOptional({
+    type: EventMyAttendanceDto,
+    nullable: true,
+    description: 'Current user\'s RSVP (null if not answered)',
+  })
+  myAttendance: EventMyAttendanceDto | null;
+
+  @Expose()
+  @ApiProperty({ example: 6, description: 'Number of tastings linked to this event' })
+  tastingCount: number;
+
+  @Expose()
+  @ApiProperty({ example: '2026-01-10T10:00:00.000Z' })
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty({ example: '2026-01-10T10:00:00.000Z' })
+  updatedAt: Date;
+}
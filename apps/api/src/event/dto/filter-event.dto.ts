@@ -0,0 +1,55 @@
+import { IsOptional, IsInt, Min, Max, IsString, IsIn, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EventStatus } from '@cigar-platform/prisma-client';
+
+/**
+ * DTO for filtering and paginating club events
+ */
+export class FilterEventDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Page number',
+    default: 1,
+    minimum: 1,
+    example: 1,
+  })
+  page?: number = 1;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 10,
+    minimum: 1,
+    maximum: 100,
+    example: 10,
+  })
+  limit?: number = 10;
+
+  @IsOptional()
+  @IsString()
+  @IsIn(['upcoming', 'past'])
+  @ApiPropertyOptional({
+    description: 'Upcoming events (soonest first) or past events (most recent first)',
+    enum: ['upcoming', 'past'],
+    default: 'upcoming',
+    example: 'upcoming',
+  })
+  period?: 'upcoming' | 'past' = 'upcoming';
+
+  @IsOptional()
+  @IsEnum(EventStatus)
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: EventStatus,
+    example: EventStatus.PUBLISHED,
+  })
+  status?: EventStatus;
+}
@@ -0,0 +1,8 @@
+export * from './create-event.dto';
+export * from './update-event.dto';
+export * from './filter-event.dto';
+export * from './event-response.dto';
+export * from './paginated-event-response.dto';
+export * from './respond-event.dto';
+export * from './event-attendee-response.dto';
+export * from './event-blind-results-response.dto';
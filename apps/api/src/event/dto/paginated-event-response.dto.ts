@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+import { EventResponseDto } from './event-response.dto';
+
+/**
+ * Paginated Event Response DTO
+ * Used for endpoints that return lists of club events
+ */
+export class PaginatedEventResponseDto {
+  @ApiProperty({
+    type: [EventResponseDto],
+    description: 'Array of events',
+  })
+  data: EventResponseDto[];
+
+  @ApiProperty({
+    type: PaginationMetaDto,
+    description: 'Pagination metadata',
+  })
+  meta: PaginationMetaDto;
+}
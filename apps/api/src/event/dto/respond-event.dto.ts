@@ -0,0 +1,18 @@
+import { IsEnum, IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { RSVPResponse } from '@cigar-platform/prisma-client';
+
+/**
+ * DTO for responding to a club event (RSVP)
+ * PENDING is reserved for invitations that have not been answered yet
+ */
+export class RespondEventDto {
+  @IsEnum(RSVPResponse)
+  @IsIn([RSVPResponse.YES, RSVPResponse.NO, RSVPResponse.MAYBE])
+  @ApiProperty({
+    description: 'RSVP response',
+    enum: [RSVPResponse.YES, RSVPResponse.NO, RSVPResponse.MAYBE],
+    example: RSVPResponse.YES,
+  })
+  response: RSVPResponse;
+}
@@ -0,0 +1,19 @@
+import { PartialType, OmitType, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+import { CreateEventDto } from './create-event.dto';
+
+/**
+ * DTO for updating a club event
+ * All fields from CreateEventDto are optional
+ */
+export class UpdateEventDto extends PartialType(OmitType(CreateEventDto, ['cigarRevealAt'] as const)) {
+  @IsDateString()
+  @IsOptional()
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description: 'Automatic reveal date of a secret cigar (ISO 8601, null to switch back to a manual reveal)',
+    example: '2026-01-31T22:30:00.000Z',
+  })
+  cigarRevealAt?: string | null;
+}
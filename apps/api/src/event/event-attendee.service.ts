@@ -0,0 +1,317 @@
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma, EventStatus, RSVPResponse } from '../../../../generated/prisma';
+import {
+  RespondEventDto,
+  EventAttendeeResponseDto,
+  EventAttendeesResponseDto,
+} from './dto';
+import {
+  EventNotFoundException,
+  EventCancelledException,
+  EventAlreadyPastException,
+  EventMaxAttendeesTooLowException,
+} from './exceptions';
+import { ClubArchivedException } from '../club/exceptions';
+
+const ATTENDEE_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      displayName: true,
+      username: true,
+      avatarUrl: true,
+    },
+  },
+} satisfies Prisma.EventAttendeeInclude;
+
+type AttendeeWithUser = Prisma.EventAttendeeGetPayload<{ include: typeof ATTENDEE_INCLUDE }>;
+
+/**
+ * Event Attendee Service
+ *
+ * Handles RSVP to club events:
+ * - YES / NO / MAYBE responses (members can change their answer at any time)
+ * - maxAttendees cap with a waitlist for YES responses beyond the cap
+ * - Automatic promotion of the waitlist when a confirmed attendee steps out
+ */
+@Injectable()
+export class EventAttendeeService {
+  private readonly logger = new Logger(EventAttendeeService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Respond to a club event (create or update RSVP)
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @param userId - Current user ID
+   * @param respondDto - RSVP response
+   * @returns Current user's attendance
+   */
+  async respond(
+    clubId: string,
+    eventId: string,
+    userId: string,
+    respondDto: RespondEventDto
+  ): Promise<EventAttendeeResponseDto> {
+    const event = await this.prisma.event.findFirst({
+      where: { id: eventId, clubId },
+      include: { club: { select: { isArchived: true } } },
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    if (event.status === EventStatus.CANCELLED) {
+      throw new EventCancelledException(eventId);
+    }
+
+    if (event.club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
+    if (event.date < new Date()) {
+      throw new EventAlreadyPastException(eventId);
+    }
+
+    // ClubRolesGuard lets platform moderators and admins through: they may not RSVP as outsiders
+    const membership = await this.prisma.clubMember.findUnique({
+      where: { clubId_userId: { clubId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('Only club members can respond to this event');
+    }
+
+    const attendee = await this.prisma.$transaction(async (tx) => {
+      // Serializes concurrent RSVPs of the event so the cap cannot be oversold
+      const maxAttendees = await this.lockEvent(eventId, tx);
+
+      const existing = await tx.eventAttendee.findUnique({
+        where: { eventId_userId: { eventId, userId } },
+      });
+
+      const wasConfirmed =
+        existing?.response === RSVPResponse.YES && !existing.isWaitlisted;
+
+      // A YES keeps its seat; a new YES goes to the waitlist when the event is full
+      let isWaitlisted = false;
+      if (respondDto.response === RSVPResponse.YES && !wasConfirmed && maxAttendees) {
+        const confirmedCount = await tx.eventAttendee.count({
+          where: { eventId, response: RSVPResponse.YES, isWaitlisted: false },
+        });
+        isWaitlisted = confirmedCount >= maxAttendees;
+      }
+
+      const respondedAt =
+        existing?.response === respondDto.response && existing.respondedAt
+          ? existing.respondedAt
+          : new Date();
+
+      const updated = await tx.eventAttendee.upsert({
+        where: { eventId_userId: { eventId, userId } },
+        update: {
+          response: respondDto.response,
+          isWaitlisted,
+          respondedAt,
+        },
+        create: {
+          eventId,
+          userId,
+          response: respondDto.response,
+          isWaitlisted,
+          respondedAt,
+        },
+        include: ATTENDEE_INCLUDE,
+      });
+
+      // A confirmed attendee stepping out frees a seat for the waitlist
+      if (wasConfirmed && respondDto.response !== RSVPResponse.YES) {
+        await this.promoteWaitlisted(eventId, maxAttendees, tx);
+      }
+
+      return updated;
+    });
+
+    this.logger.log(
+      `RSVP ${attendee.response}${attendee.isWaitlisted ? ' (waitlisted)' : ''} for event ${eventId} by user ${userId}`
+    );
+    return this.mapToResponse(attendee);
+  }
+
+  /**
+   * Get attendees of a club event with counts per response
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @returns Attendee list and counts
+   */
+  async getAttendees(
+    clubId: string,
+    eventId: string
+  ): Promise<EventAttendeesResponseDto> {
+    const event = await this.prisma.event.findFirst({
+      where: { id: eventId, clubId },
+      select: { id: true, maxAttendees: true },
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    const [attendees, memberCount] = await Promise.all([
+      this.prisma.eventAttendee.findMany({
+        where: { eventId },
+        include: ATTENDEE_INCLUDE,
+        orderBy: [{ response: 'asc' }, { respondedAt: 'asc' }],
+      }),
+      this.prisma.clubMember.count({ where: { clubId } }),
+    ]);
+
+    const counts = { yes: 0, maybe: 0, no: 0, pending: 0, waitlisted: 0 };
+    let answered = 0;
+
+    for (const attendee of attendees) {
+      switch (attendee.response) {
+        case RSVPResponse.YES:
+          if (attendee.isWaitlisted) {
+            counts.waitlisted++;
+          } else {
+            counts.yes++;
+          }
+          answered++;
+          break;
+        case RSVPResponse.MAYBE:
+          counts.maybe++;
+          answered++;
+          break;
+        case RSVPResponse.NO:
+          counts.no++;
+          answered++;
+          break;
+      }
+    }
+
+    // Members who never answered are pending as well
+    counts.pending = Math.max(0, memberCount - answered);
+
+    return {
+      counts,
+      maxAttendees: event.maxAttendees,
+      attendees: attendees.map((attendee) => this.mapToResponse(attendee)),
+    };
+  }
+
+  /**
+   * Promote waitlisted attendees (first come, first served) while seats are available
+   * Called when a confirmed attendee steps out or when the cap is raised
+   * @param eventId - Event ID
+   * @param maxAttendees - Current attendance cap (null = unlimited)
+   * @param tx - Transaction client already holding the event lock (see lockEvent);
+   *   without it, runs in its own transaction and reads the cap from the locked row
+   * @returns Number of promoted attendees
+   */
+  async promoteWaitlisted(
+    eventId: string,
+    maxAttendees: number | null,
+    tx?: Prisma.TransactionClient
+  ): Promise<number> {
+    if (!tx) {
+      return this.prisma.$transaction(async (lockedTx) =>
+        this.promoteWaitlisted(eventId, await this.lockEvent(eventId, lockedTx), lockedTx)
+      );
+    }
+
+    let take: number | undefined;
+
+    if (maxAttendees !== null) {
+      const confirmedCount = await tx.eventAttendee.count({
+        where: { eventId, response: RSVPResponse.YES, isWaitlisted: false },
+      });
+      take = maxAttendees - confirmedCount;
+
+      if (take <= 0) {
+        return 0;
+      }
+    }
+
+    const waitlisted = await tx.eventAttendee.findMany({
+      where: { eventId, response: RSVPResponse.YES, isWaitlisted: true },
+      orderBy: { respondedAt: 'asc' },
+      take,
+      select: { id: true },
+    });
+
+    if (waitlisted.length === 0) {
+      return 0;
+    }
+
+    await tx.eventAttendee.updateMany({
+      where: { id: { in: waitlisted.map((attendee) => attendee.id) } },
+      data: { isWaitlisted: false },
+    });
+
+    this.logger.log(`Promoted ${waitlisted.length} waitlisted attendee(s) for event ${eventId}`);
+    return waitlisted.length;
+  }
+
+  /**
+   * Check a new attendance cap against the confirmed attendees (locks the event row)
+   * Confirmed seats are never taken back, so the cap cannot go below them
+   * @param eventId - Event ID
+   * @param maxAttendees - New cap (null: unlimited)
+   * @param tx - Transaction the event update runs in
+   */
+  async assertMaxAttendees(
+    eventId: string,
+    maxAttendees: number | null,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    await this.lockEvent(eventId, tx);
+
+    if (maxAttendees === null) return;
+
+    const confirmedCount = await tx.eventAttendee.count({
+      where: { eventId, response: RSVPResponse.YES, isWaitlisted: false },
+    });
+
+    if (confirmedCount > maxAttendees) {
+      throw new EventMaxAttendeesTooLowException(eventId, confirmedCount);
+    }
+  }
+
+  /**
+   * Lock the event row until the transaction ends (SELECT ... FOR UPDATE)
+   * Seat counting and waitlist promotion of an event run one at a time
+   * @returns Attendance cap read from the locked row
+   */
+  private async lockEvent(eventId: string, tx: Prisma.TransactionClient): Promise<number | null> {
+    const [event] = await tx.$queryRaw<Array<{ maxAttendees: number | null }>>`
+      SELECT "maxAttendees" FROM events WHERE id = ${eventId}::uuid FOR UPDATE
+    `;
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    return event.maxAttendees;
+  }
+
+  private mapToResponse(attendee: AttendeeWithUser): EventAttendeeResponseDto {
+    return {
+      id: attendee.id,
+      eventId: attendee.eventId,
+      userId: attendee.userId,
+      response: attendee.response,
+      isWaitlisted: attendee.isWaitlisted,
+      respondedAt: attendee.respondedAt,
+      user: {
+        id: attendee.user.id,
+        displayName: attendee.user.displayName,
+        username: attendee.user.username,
+        avatarUrl: attendee.user.avatarUrl,
+      },
+    };
+  }
+}
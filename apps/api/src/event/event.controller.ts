@@ -0,0 +1,238 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Put,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { EventService } from './event.service';
+import { EventAttendeeService } from './event-attendee.service';
+import {
+  CreateEventDto,
+  UpdateEventDto,
+  FilterEventDto,
+  EventResponseDto,
+  PaginatedEventResponseDto,
+  RespondEventDto,
+  EventAttendeeResponseDto,
+  EventAttendeesResponseDto,
+  EventBlindResultsResponseDto,
+} from './dto';
+import { ClubRole } from '@cigar-platform/prisma-client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ClubRolesGuard } from '../common/guards/club-roles.guard';
+import { ClubRoles } from '../common/decorators';
+
+@ApiTags('events')
+@Controller('clubs/:clubId/events')
+@UseGuards(JwtAuthGuard, ClubRolesGuard)
+@ApiBearerAuth()
+export class EventController {
+  constructor(
+    private readonly eventService: EventService,
+    private readonly eventAttendeeService: EventAttendeeService
+  ) {}
+
+  @Post()
+  @ClubRoles(ClubRole.owner, ClubRole.admin)
+  @ApiOperation({ summary: 'Create a club event' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Event created successfully',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only club owners and admins' })
+  @ApiResponse({ status: 404, description: 'Club or cigar not found' })
+  async create(
+    @Param('clubId') clubId: string,
+    @Body() createEventDto: CreateEventDto,
+    @CurrentUser('id') userId: string
+  ): Promise<EventResponseDto> {
+    return this.eventService.create(clubId, createEventDto, userId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get club events (upcoming or past, paginated)' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Events retrieved successfully',
+    type: PaginatedEventResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Must be a club member' })
+  async findAll(
+    @Param('clubId') clubId: string,
+    @Query() filter: FilterEventDto,
+    @CurrentUser('id') userId: string
+  ): Promise<PaginatedEventResponseDto> {
+    return this.eventService.findAll(clubId, filter, userId);
+  }
+
+  @Get(':eventId')
+  @ApiOperation({ summary: 'Get a club event by ID' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event found',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Must be a club member' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async findOne(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<EventResponseDto> {
+    return this.eventService.findOne(clubId, eventId, userId);
+  }
+
+  @Patch(':eventId')
+  @ClubRoles(ClubRole.owner, ClubRole.admin)
+  @ApiOperation({ summary: 'Update a club event' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event updated successfully',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event is cancelled, or maxAttendees is below the confirmed attendees' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only club owners and admins' })
+  @ApiResponse({ status: 404, description: 'Event or cigar not found' })
+  async update(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string,
+    @Body() updateEventDto: UpdateEventDto,
+    @CurrentUser('id') userId: string
+  ): Promise<EventResponseDto> {
+    return this.eventService.update(clubId, eventId, updateEventDto, userId);
+  }
+
+  @Post(':eventId/cancel')
+  @ClubRoles(ClubRole.owner, ClubRole.admin)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a club event' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event cancelled successfully',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event already cancelled' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only club owners and admins' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async cancel(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<EventResponseDto> {
+    return this.eventService.cancel(clubId, eventId, userId);
+  }
+
+  @Post(':eventId/reveal')
+  @ClubRoles(ClubRole.owner, ClubRole.admin)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reveal the secret cigar of a blind-tasting event' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cigar revealed (or already revealed, event returned unchanged)',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event has no secret cigar' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only club owners and admins' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async revealCigar(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string,
+    @CurrentUser('id') userId: string
+  ): Promise<EventResponseDto> {
+    return this.eventService.revealCigar(clubId, eventId, userId);
+  }
+
+  @Get(':eventId/blind-results')
+  @ApiOperation({ summary: 'Get blind ratings next to the revealed cigar' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Blind results retrieved successfully',
+    type: EventBlindResultsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event has no secret cigar' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Must be a club member, cigar not revealed yet' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getBlindResults(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string
+  ): Promise<EventBlindResultsResponseDto> {
+    return this.eventService.getBlindResults(clubId, eventId);
+  }
+
+  @Put(':eventId/rsvp')
+  @ApiOperation({ summary: 'Respond to a club event (YES / NO / MAYBE)' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'RSVP saved (waitlisted when the event is full)',
+    type: EventAttendeeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Event is cancelled or already past' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Must be a club member' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async respond(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string,
+    @Body() respondEventDto: RespondEventDto,
+    @CurrentUser('id') userId: string
+  ): Promise<EventAttendeeResponseDto> {
+    return this.eventAttendeeService.respond(clubId, eventId, userId, respondEventDto);
+  }
+
+  @Get(':eventId/attendees')
+  @ClubRoles(ClubRole.owner, ClubRole.admin)
+  @ApiOperation({ summary: 'Get attendees of a club event with response counts' })
+  @ApiParam({ name: 'clubId', description: 'Club UUID' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attendees retrieved successfully',
+    type: EventAttendeesResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only club owners and admins' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getAttendees(
+    @Param('clubId') clubId: string,
+    @Param('eventId') eventId: string
+  ): Promise<EventAttendeesResponseDto> {
+    return this.eventAttendeeService.getAttendees(clubId, eventId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EventService } from './event.service';
+import { EventAttendeeService } from './event-attendee.service';
+import { EventController } from './event.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [EventController],
+  providers: [EventService, EventAttendeeService],
+  exports: [EventService, EventAttendeeService],
+})
+export class EventModule {}
@@ -0,0 +1,636 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import {
+  Prisma,
+  EventStatus,
+  RSVPResponse,
+  ClubRole,
+  TastingStatus,
+} from '../../../../generated/prisma';
+import {
+  CreateEventDto,
+  UpdateEventDto,
+  FilterEventDto,
+  EventResponseDto,
+  PaginatedEventResponseDto,
+  EventBlindResultsResponseDto,
+} from './dto';
+import {
+  EventNotFoundException,
+  EventCancelledException,
+  EventCigarNotSecretException,
+  EventCigarNotRevealedException,
+} from './exceptions';
+import { ClubNotFoundException, ClubArchivedException } from '../club/exceptions';
+import { isCigarRevealed } from '../common/utils/cigar-reveal.util';
+import { EventAttendeeService } from './event-attendee.service';
+
+/**
+ * Common include for event queries
+ * Includes cigar with brand name, creator, linked tastings count
+ * and the current user's RSVP
+ */
+const eventInclude = (currentUserId: string) =>
+  ({
+    cigar: {
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        brand: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    },
+    creator: {
+      select: {
+        id: true,
+        displayName: true,
+        username: true,
+        avatarUrl: true,
+      },
+    },
+    _count: {
+      select: {
+        tastings: true,
+      },
+    },
+    attendees: {
+      where: { userId: currentUserId },
+      select: {
+        response: true,
+        isWaitlisted: true,
+      },
+    },
+  }) satisfies Prisma.EventInclude;
+
+type EventWithRelations = Prisma.EventGetPayload<{ include: ReturnType<typeof eventInclude> }>;
+
+interface AttendanceCounts {
+  attendeeCount: number;
+  waitlistCount: number;
+}
+
+@Injectable()
+export class EventService {
+  private readonly logger = new Logger(EventService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventAttendeeService: EventAttendeeService
+  ) {}
+
+  /**
+   * Create a new club event
+   * @param clubId - Club ID
+   * @param createEventDto - Event data
+   * @param userId - Current user ID (will be set as event creator)
+   * @returns Created event
+   */
+  async create(
+    clubId: string,
+    createEventDto: CreateEventDto,
+    userId: string
+  ): Promise<EventResponseDto> {
+    const club = await this.prisma.club.findUnique({
+      where: { id: clubId },
+      select: { id: true, isArchived: true },
+    });
+
+    if (!club) {
+      throw new ClubNotFoundException(clubId);
+    }
+
+    if (club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
+    if (createEventDto.cigarId) {
+      await this.assertCigarExists(createEventDto.cigarId);
+    }
+
+    if (createEventDto.cigarSecret && !createEventDto.cigarId) {
+      throw new BadRequestException('A secret cigar requires a cigarId');
+    }
+
+    const event = await this.prisma.event.create({
+      data: {
+        clubId,
+        name: createEventDto.name,
+        description: createEventDto.description ?? null,
+        location: createEventDto.location ?? null,
+        date: new Date(createEventDto.date),
+        cigarId: createEventDto.cigarId ?? null,
+        maxAttendees: createEventDto.maxAttendees ?? null,
+        cigarSecret: createEventDto.cigarSecret ?? false,
+        cigarRevealAt: createEventDto.cigarRevealAt
+          ? new Date(createEventDto.cigarRevealAt)
+          : null,
+        createdBy: userId,
+      },
+      include: eventInclude(userId),
+    });
+
+    this.logger.log(`Event created: ${event.id} in club ${clubId} by user ${userId}`);
+    return this.mapToResponse(event, { attendeeCount: 0, waitlistCount: 0 }, true);
+  }
+
+  /**
+   * Get events of a club (paginated)
+   * Upcoming events are sorted soonest first, past events most recent first
+   * @param clubId - Club ID
+   * @param filter - Pagination and filters
+   * @param currentUserId - Current user ID
+   * @returns Paginated events
+   */
+  async findAll(
+    clubId: string,
+    filter: FilterEventDto,
+    currentUserId: string
+  ): Promise<PaginatedEventResponseDto> {
+    const { page = 1, limit = 10, period = 'upcoming', status } = filter;
+    const skip = (page - 1) * limit;
+    const now = new Date();
+
+    // Build where clause
+    const where: Prisma.EventWhereInput = {
+      clubId,
+      ...(status && { status }),
+      date: period === 'upcoming' ? { gte: now } : { lt: now },
+    };
+
+    // Execute queries in parallel
+    const [events, total] = await Promise.all([
+      this.prisma.event.findMany({
+        where,
+        orderBy: { date: period === 'upcoming' ? 'asc' : 'desc' },
+        skip,
+        take: limit,
+        include: eventInclude(currentUserId),
+      }),
+      this.prisma.event.count({ where }),
+    ]);
+
+    const [attendance, canSeeSecretCigar] = await Promise.all([
+      this.getAttendanceCounts(events.map((event) => event.id)),
+      this.canSeeSecretCigar(clubId, currentUserId),
+    ]);
+
+    return {
+      data: events.map((event) =>
+        this.mapToResponse(event, attendance.get(event.id), canSeeSecretCigar)
+      ),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Get a club event by ID
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @param currentUserId - Current user ID
+   * @returns Event
+   */
+  async findOne(
+    clubId: string,
+    eventId: string,
+    currentUserId: string
+  ): Promise<EventResponseDto> {
+    const event = await this.prisma.event.findFirst({
+      where: { id: eventId, clubId },
+      include: eventInclude(currentUserId),
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    const [attendance, canSeeSecretCigar] = await Promise.all([
+      this.getAttendanceCounts([event.id]),
+      this.canSeeSecretCigar(clubId, currentUserId),
+    ]);
+    return this.mapToResponse(event, attendance.get(event.id), canSeeSecretCigar);
+  }
+
+  /**
+   * Update a club event
+   * Cancelled events cannot be modified
+   * Raising or removing the attendance cap promotes the waitlist,
+   * it cannot be lowered below the confirmed attendees
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @param updateEventDto - Updated fields
+   * @param currentUserId - Current user ID
+   * @returns Updated event
+   */
+  async update(
+    clubId: string,
+    eventId: string,
+    updateEventDto: UpdateEventDto,
+    currentUserId: string
+  ): Promise<EventResponseDto> {
+    const existingEvent = await this.findEventOrThrow(clubId, eventId);
+
+    if (existingEvent.status === EventStatus.CANCELLED) {
+      throw new EventCancelledException(eventId);
+    }
+
+    if (existingEvent.club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
+    if (updateEventDto.cigarId) {
+      await this.assertCigarExists(updateEventDto.cigarId);
+    }
+
+    const cigarSecret = updateEventDto.cigarSecret ?? existingEvent.cigarSecret;
+    if (cigarSecret && !(updateEventDto.cigarId ?? existingEvent.cigarId)) {
+      throw new BadRequestException('A secret cigar requires a cigarId');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (updateEventDto.maxAttendees !== undefined) {
+        await this.eventAttendeeService.assertMaxAttendees(eventId, updateEventDto.maxAttendees, tx);
+      }
+
+      const event = await tx.event.update({
+        where: { id: eventId },
+        data: {
+          name: updateEventDto.name,
+          description: updateEventDto.description,
+          location: updateEventDto.location,
+          date: updateEventDto.date ? new Date(updateEventDto.date) : undefined,
+          cigarId: updateEventDto.cigarId,
+          maxAttendees: updateEventDto.maxAttendees,
+          cigarSecret: updateEventDto.cigarSecret,
+          // null switches back to a manual reveal
+          cigarRevealAt:
+            updateEventDto.cigarRevealAt === null
+              ? null
+              : updateEventDto.cigarRevealAt
+                ? new Date(updateEventDto.cigarRevealAt)
+                : undefined,
+        },
+      });
+
+      if (
+        updateEventDto.maxAttendees !== undefined &&
+        existingEvent.maxAttendees !== null &&
+        (event.maxAttendees === null || event.maxAttendees > existingEvent.maxAttendees)
+      ) {
+        await this.eventAttendeeService.promoteWaitlisted(eventId, event.maxAttendees, tx);
+      }
+    });
+
+    this.logger.log(`Event updated: ${eventId}`);
+    return this.findOne(clubId, eventId, currentUserId);
+  }
+
+  /**
+   * Cancel a club event (PUBLISHED → CANCELLED)
+   * The event is kept so linked tastings stay attached to it
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @param currentUserId - Current user ID
+   * @returns Cancelled event
+   */
+  async cancel(
+    clubId: string,
+    eventId: string,
+    currentUserId: string
+  ): Promise<EventResponseDto> {
+    const existingEvent = await this.findEventOrThrow(clubId, eventId);
+
+    if (existingEvent.status === EventStatus.CANCELLED) {
+      throw new EventCancelledException(eventId);
+    }
+
+    if (existingEvent.club.isArchived) {
+      throw new ClubArchivedException(clubId);
+    }
+
+    const event = await this.prisma.event.update({
+      where: { id: eventId },
+      data: {
+        status: EventStatus.CANCELLED,
+        cancelledAt: new Date(),
+      },
+      include: eventInclude(currentUserId),
+    });
+
+    const attendance = await this.getAttendanceCounts([event.id]);
+
+    this.logger.log(`Event cancelled: ${eventId}`);
+    return this.mapToResponse(event, attendance.get(event.id), true);
+  }
+
+  /**
+   * Reveal the secret cigar of a blind-tasting event (manual reveal)
+   * Idempotent: an event already revealed is returned unchanged
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @param currentUserId - Current user ID
+   * @returns Event with the cigar revealed
+   */
+  async revealCigar(
+    clubId: string,
+    eventId: string,
+    currentUserId: string
+  ): Promise<EventResponseDto> {
+    const existingEvent = await this.findEventOrThrow(clubId, eventId);
+
+    if (!existingEvent.cigarSecret) {
+      throw new EventCigarNotSecretException(eventId);
+    }
+
+    // Already revealed (manually or by its reveal date): nothing to change
+    if (isCigarRevealed(existingEvent)) {
+      return this.findOne(clubId, eventId, currentUserId);
+    }
+
+    await this.prisma.event.update({
+      where: { id: eventId },
+      data: { cigarRevealed: true },
+    });
+
+    this.logger.log(`Event cigar revealed: ${eventId}`);
+    return this.findOne(clubId, eventId, currentUserId);
+  }
+
+  /**
+   * Get blind-tasting results: the revealed cigar with each participant's rating
+   * Only completed tastings linked to the event are included
+   * @param clubId - Club ID
+   * @param eventId - Event ID
+   * @returns Revealed cigar and blind ratings
+   */
+  async getBlindResults(
+    clubId: string,
+    eventId: string
+  ): Promise<EventBlindResultsResponseDto> {
+    const event = await this.prisma.event.findFirst({
+      where: { id: eventId, clubId },
+      include: {
+        cigar: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+            brand: { select: { name: true } },
+          },
+        },
+        tastings: {
+          where: { status: TastingStatus.COMPLETED },
+          orderBy: { rating: 'desc' },
+          include: {
+            user: {
+              select: {
+                id: true,
+                displayName: true,
+                username: true,
+                avatarUrl: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    if (!event.cigarSecret || !event.cigar) {
+      throw new EventCigarNotSecretException(eventId);
+    }
+
+    if (!isCigarRevealed(event)) {
+      throw new EventCigarNotRevealedException(eventId);
+    }
+
+    const averageRating =
+      event.tastings.length > 0
+        ? Math.round(
+            (event.tastings.reduce((sum, tasting) => sum + tasting.rating, 0) /
+              event.tastings.length) *
+              10
+          ) / 10
+        : null;
+
+    return {
+      cigar: {
+        id: event.cigar.id,
+        name: event.cigar.name,
+        slug: event.cigar.slug,
+        brandName: event.cigar.brand.name,
+      },
+      averageRating,
+      results: event.tastings.map((tasting) => ({
+        tastingId: tasting.id,
+        rating: tasting.rating,
+        comment: tasting.comment,
+        date: tasting.date,
+        user: {
+          id: tasting.user.id,
+          displayName: tasting.user.displayName,
+          username: tasting.user.username,
+          avatarUrl: tasting.user.avatarUrl,
+        },
+      })),
+    };
+  }
+
+  /**
+   * Check that a user can link a tasting to an event
+   * The event must exist, not be cancelled, and the user must be a member of its club
+   * @param eventId - Event ID
+   * @param userId - Tasting author ID
+   * @returns Cigar ID imposed by a blind-tasting event (null if the event cigar is not secret)
+   * @throws EventNotFoundException, EventCancelledException or ForbiddenException
+   */
+  async assertCanLinkTasting(eventId: string, userId: string): Promise<string | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        clubId: true,
+        status: true,
+        cigarId: true,
+        cigarSecret: true,
+        club: { select: { isArchived: true } },
+      },
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    if (event.status === EventStatus.CANCELLED) {
+      throw new EventCancelledException(eventId);
+    }
+
+    if (event.club.isArchived) {
+      throw new ClubArchivedException(event.clubId);
+    }
+
+    const membership = await this.prisma.clubMember.findUnique({
+      where: {
+        clubId_userId: {
+          clubId: event.clubId,
+          userId,
+        },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('Only club members can link a tasting to this event');
+    }
+
+    return event.cigarSecret ? event.cigarId : null;
+  }
+
+  private async findEventOrThrow(clubId: string, eventId: string) {
+    const event = await this.prisma.event.findFirst({
+      where: { id: eventId, clubId },
+      include: { club: { select: { isArchived: true } } },
+    });
+
+    if (!event) {
+      throw new EventNotFoundException(eventId);
+    }
+
+    return event;
+  }
+
+  /**
+   * Count confirmed and waitlisted YES responses for a set of events
+   * @param eventIds - Event IDs
+   * @returns Attendance counts by event ID
+   */
+  private async getAttendanceCounts(
+    eventIds: string[]
+  ): Promise<Map<string, AttendanceCounts>> {
+    const counts = new Map<string, AttendanceCounts>();
+
+    if (eventIds.length === 0) {
+      return counts;
+    }
+
+    const groups = await this.prisma.eventAttendee.groupBy({
+      by: ['eventId', 'isWaitlisted'],
+      where: {
+        eventId: { in: eventIds },
+        response: RSVPResponse.YES,
+      },
+      _count: { _all: true },
+    });
+
+    for (const group of groups) {
+      const current = counts.get(group.eventId) ?? { attendeeCount: 0, waitlistCount: 0 };
+      if (group.isWaitlisted) {
+        current.waitlistCount = group._count._all;
+      } else {
+        current.attendeeCount = group._count._all;
+      }
+      counts.set(group.eventId, current);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Club owners and admins can see a secret cigar before its reveal
+   * @param clubId - Club ID
+   * @param userId - Current user ID
+   * @returns True if the user is an owner or admin of the club
+   */
+  private async canSeeSecretCigar(clubId: string, userId: string): Promise<boolean> {
+    const membership = await this.prisma.clubMember.findUnique({
+      where: { clubId_userId: { clubId, userId } },
+      select: { role: true },
+    });
+
+    return membership?.role === ClubRole.owner || membership?.role === ClubRole.admin;
+  }
+
+  private async assertCigarExists(cigarId: string): Promise<void> {
+    const cigar = await this.prisma.cigar.findUnique({
+      where: { id: cigarId },
+      select: { id: true },
+    });
+
+    if (!cigar) {
+      throw new NotFoundException(`Cigar with ID "${cigarId}" not found`);
+    }
+  }
+
+  /**
+   * Map Prisma entity to Response DTO
+   * @param event - Prisma event entity (with relations)
+   * @param attendance - Confirmed and waitlisted attendee counts
+   * @param canSeeSecretCigar - Whether the secret cigar can be shown before reveal
+   * @returns EventResponseDto
+   */
+  private mapToResponse(
+    event: EventWithRelations,
+    attendance: AttendanceCounts = { attendeeCount: 0, waitlistCount: 0 },
+    canSeeSecretCigar = false
+  ): EventResponseDto {
+    const [myAttendance] = event.attendees;
+    const cigarRevealed = isCigarRevealed(event);
+    const showCigar = cigarRevealed || canSeeSecretCigar;
+
+    return {
+      id: event.id,
+      clubId: event.clubId,
+      name: event.name,
+      description: event.description,
+      location: event.location,
+      date: event.date,
+      status: event.status,
+      cancelledAt: event.cancelledAt,
+      cigarId: showCigar ? event.cigarId : null,
+      cigar: showCigar && event.cigar
+        ? {
+            id: event.cigar.id,
+            name: event.cigar.name,
+            slug: event.cigar.slug,
+            brandName: event.cigar.brand.name,
+          }
+        : null,
+      cigarSecret: event.cigarSecret,
+      cigarRevealAt: event.cigarRevealAt,
+      cigarRevealed,
+      creator: {
+        id: event.creator.id,
+        displayName: event.creator.displayName,
+        username: event.creator.username,
+        avatarUrl: event.creator.avatarUrl,
+      },
+      maxAttendees: event.maxAttendees,
+      attendeeCount: attendance.attendeeCount,
+      waitlistCount: attendance.waitlistCount,
+      myAttendance: myAttendance
+        ? {
+            response: myAttendance.response,
+            isWaitlisted: myAttendance.isWaitlisted,
+          }
+        : null,
+      tastingCount: event._count.tastings,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+    };
+  }
+}
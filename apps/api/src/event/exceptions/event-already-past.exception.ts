@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class EventAlreadyPastException extends BadRequestException {
+  constructor(eventId: string) {
+    super(`Event "${eventId}" has already taken place`);
+  }
+}
@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class EventCancelledException extends BadRequestException {
+  constructor(eventId: string) {
+    super(`Event "${eventId}" has been cancelled and cannot be modified`);
+  }
+}
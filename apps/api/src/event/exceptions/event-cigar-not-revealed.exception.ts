@@ -0,0 +1,7 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export class EventCigarNotRevealedException extends ForbiddenException {
+  constructor(eventId: string) {
+    super(`The cigar of event "${eventId}" has not been revealed yet`);
+  }
+}
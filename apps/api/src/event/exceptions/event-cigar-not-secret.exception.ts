@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class EventCigarNotSecretException extends BadRequestException {
+  constructor(eventId: string) {
+    super(`Event "${eventId}" has no secret cigar to reveal`);
+  }
+}
@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class EventMaxAttendeesTooLowException extends BadRequestException {
+  constructor(eventId: string, confirmedCount: number) {
+    super(`Event "${eventId}" already has ${confirmedCount} confirmed attendees, maxAttendees cannot be lower`);
+  }
+}
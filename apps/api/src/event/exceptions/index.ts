@@ -0,0 +1,6 @@
+export * from './event-not-found.exception';
+export * from './event-cancelled.exception';
+export * from './event-already-past.exception';
+export * from './event-cigar-not-secret.exception';
+export * from './event-cigar-not-revealed.exception';
+export * from './event-max-attendees-too-low.exception';
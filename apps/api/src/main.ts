@@ -12,7 +12,8 @@ import { HttpExceptionFilter } from './common/filters';
 import { TransformInterceptor } from './common/interceptors';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody: signed webhooks are verified against the exact payload
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Security: Helmet middleware for HTTP headers protection
   app.use(
@@ -17,7 +17,7 @@ export class ObservationResponseDto {
   @Expose()
   @ApiProperty({
     example: 'presentation',
-    description: 'Phase: presentation | fumage_cru | foin | divin | purin | conclusion',
+    description: 'Phase: presentation | cold_draw | first_third | second_third | final_third | conclusion',
   })
   phase: string;
 
@@ -42,14 +42,21 @@ export class ObservationResponseDto {
     type: Object,
     example: {
       presentation: {
-        wrapperAspect: ['well_stretched', 'fine_grain'],
+        wrapperAspect: 'well_stretched',
         wrapperColor: 'colorado',
-        touch: ['firm', 'regular'],
+        touch: 'firm',
       },
     },
   })
   organoleptic: Record<string, unknown> | null;
 
+  @Expose()
+  @ApiProperty({
+    example: 2,
+    description: 'Organoleptic schema version (1 = legacy free-form payload)',
+  })
+  organolepticVersion: number;
+
   @Expose()
   @ApiProperty({ example: '2024-12-31T20:00:00.000Z' })
   createdAt: Date;
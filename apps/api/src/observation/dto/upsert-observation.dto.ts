@@ -46,8 +46,8 @@ export class UpsertObservationDto {
   @IsString({ each: true })
   @IsOptional()
   @ApiPropertyOptional({
-    description: 'Detected aromas (simple array)',
-    example: ['boise', 'cafe', 'cuir', 'epice'],
+    description: 'Detected aromas (AROMAS ids, extracted from organoleptic when omitted)',
+    example: ['woody', 'coffee', 'animal'],
     type: [String],
   })
   aromas?: string[];
@@ -64,12 +64,13 @@ export class UpsertObservationDto {
   @IsObject()
   @IsOptional()
   @ApiPropertyOptional({
-    description: 'Detailed organoleptic profile (JSON)',
+    description:
+      'Organoleptic profile for the phase, keyed by phase (presentation, coldDraw, firstThird, secondThird, finalThird, conclusion). ' +
+      'Validated server-side against the shared tasting vocabularies.',
     example: {
-      presentation: {
-        wrapperAspect: ['well_stretched', 'fine_grain'],
-        wrapperColor: 'colorado',
-        touch: ['firm', 'regular'],
+      coldDraw: {
+        tastes: [{ id: 'woody', intensity: 2 }],
+        aromas: [{ id: 'coffee', intensity: 3 }],
       },
     },
   })
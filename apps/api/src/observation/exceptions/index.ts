@@ -1 +1,2 @@
 export * from './observation-not-found.exception';
+export * from './invalid-organoleptic.exception';
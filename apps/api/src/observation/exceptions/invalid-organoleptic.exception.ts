@@ -0,0 +1,19 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrganolepticIssue } from '../organoleptic.schema';
+
+/**
+ * Rejected observation payload
+ * Issues use the class-validator response shape, so the global filter
+ * returns them as VALIDATION_ERROR with one validationErrors entry per path
+ */
+export class InvalidOrganolepticException extends BadRequestException {
+  constructor(issues: OrganolepticIssue[]) {
+    super({
+      message: issues.map((issue) => ({
+        property: issue.path,
+        message: issue.message,
+      })),
+      error: 'Invalid organoleptic payload',
+    });
+  }
+}
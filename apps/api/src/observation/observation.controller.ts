@@ -37,7 +37,7 @@ export class ObservationController {
   })
   @ApiParam({
     name: 'phase',
-    description: 'Phase: presentation | fumage_cru | foin | divin | purin | conclusion',
+    description: 'Phase: presentation | cold_draw | first_third | second_third | final_third | conclusion',
     example: 'presentation',
   })
   @ApiResponse({
@@ -45,6 +45,10 @@ export class ObservationController {
     description: 'Observation upserted successfully',
     type: ObservationResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown phase or invalid organoleptic payload (validationErrors lists each path)',
+  })
   @ApiResponse({
     status: 404,
     description: 'Tasting not found',
@@ -112,7 +116,7 @@ export class ObservationController {
   })
   @ApiParam({
     name: 'phase',
-    description: 'Phase: presentation | fumage_cru | foin | divin | purin | conclusion',
+    description: 'Phase: presentation | cold_draw | first_third | second_third | final_third | conclusion',
     example: 'presentation',
   })
   @ApiResponse({
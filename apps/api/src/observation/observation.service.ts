@@ -1,24 +1,40 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../app/prisma.service';
-import { Observation, Prisma } from '../../../../generated/prisma';
+import { Observation, Prisma, TastingStatus } from '../../../../generated/prisma';
 import { UpsertObservationDto, ObservationResponseDto } from './dto';
-import { ObservationNotFoundException } from './exceptions';
+import {
+  ObservationNotFoundException,
+  InvalidOrganolepticException,
+} from './exceptions';
+import {
+  ORGANOLEPTIC_SCHEMA_VERSION,
+  OrganolepticIssue,
+  validateOrganoleptic,
+  isObservationPhase,
+  OBSERVATION_PHASES,
+} from './organoleptic.schema';
+import { AROMAS } from '@cigar-platform/shared/constants';
 import {
   TastingNotFoundException,
   TastingForbiddenException,
 } from '../tasting/exceptions';
+import { CigarStatsService } from '../cigar/cigar-stats.service';
 
 @Injectable()
 export class ObservationService {
   private readonly logger = new Logger(ObservationService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cigarStatsService: CigarStatsService
+  ) {}
 
   /**
    * Upsert observation for a phase
    * Creates new observation if none exists, updates existing one
+   * The payload is validated against the current organoleptic schema
    * @param tastingId - Tasting ID
-   * @param phase - Phase (presentation | fumage_cru | foin | divin | purin | conclusion)
+   * @param phase - Phase (presentation | cold_draw | first_third | second_third | final_third | conclusion)
    * @param upsertObservationDto - Observation data
    * @param userId - Current user ID (must be tasting author)
    * @returns Observation
@@ -29,6 +45,11 @@ export class ObservationService {
     upsertObservationDto: UpsertObservationDto,
     userId: string
   ): Promise<ObservationResponseDto> {
+    const issues = this.validatePayload(phase, upsertObservationDto);
+    if (issues.length > 0) {
+      throw new InvalidOrganolepticException(issues);
+    }
+
     // Check if tasting exists and user is the author
     const tasting = await this.prisma.tasting.findUnique({
       where: { id: tastingId },
@@ -75,6 +96,7 @@ export class ObservationService {
           organoleptic: upsertObservationDto.organoleptic
             ? (upsertObservationDto.organoleptic as Prisma.JsonObject)
             : Prisma.DbNull,
+          organolepticVersion: ORGANOLEPTIC_SCHEMA_VERSION,
         },
       });
 
@@ -94,6 +116,7 @@ export class ObservationService {
           organoleptic: upsertObservationDto.organoleptic
             ? (upsertObservationDto.organoleptic as Prisma.JsonObject)
             : Prisma.DbNull,
+          organolepticVersion: ORGANOLEPTIC_SCHEMA_VERSION,
         },
       });
 
@@ -102,6 +125,11 @@ export class ObservationService {
       );
     }
 
+    // Completed tastings feed the cigar flavor profile
+    if (tasting.status === TastingStatus.COMPLETED) {
+      this.cigarStatsService.invalidate(tasting.cigarId);
+    }
+
     return this.mapToResponse(observation);
   }
 
@@ -180,6 +208,10 @@ export class ObservationService {
     this.logger.log(
       `Observation deleted: ${observation.id} (tasting: ${tastingId}, phase: ${phase})`
     );
+
+    if (tasting.status === TastingStatus.COMPLETED) {
+      this.cigarStatsService.invalidate(tasting.cigarId);
+    }
   }
 
   /**
@@ -234,6 +266,39 @@ export class ObservationService {
     }
   }
 
+  /**
+   * Validate phase, explicit aromas and organoleptic payload
+   * @returns Every issue found (empty when valid)
+   */
+  private validatePayload(
+    phase: string,
+    upsertObservationDto: UpsertObservationDto
+  ): OrganolepticIssue[] {
+    if (!isObservationPhase(phase)) {
+      return [
+        {
+          path: 'phase',
+          message: `Unknown phase "${phase}" (expected ${OBSERVATION_PHASES.join(', ')})`,
+        },
+      ];
+    }
+
+    const aromaIds: readonly string[] = AROMAS.map((aroma) => aroma.id);
+    const issues: OrganolepticIssue[] = (upsertObservationDto.aromas ?? [])
+      .map((id, index) => ({ id, index }))
+      .filter(({ id }) => !aromaIds.includes(id))
+      .map(({ id, index }) => ({
+        path: `aromas[${index}]`,
+        message: `Unknown id "${id}"`,
+      }));
+
+    if (upsertObservationDto.organoleptic) {
+      issues.push(...validateOrganoleptic(phase, upsertObservationDto.organoleptic));
+    }
+
+    return issues;
+  }
+
   /**
    * Extract aromas from organoleptic JSON structure
    * Handles nested structures like { coldDraw: { aromas: [{id: 'boise'}] } }
@@ -294,6 +359,7 @@ export class ObservationService {
       aromas: observation.aromas,
       notes: observation.notes,
       organoleptic: observation.organoleptic as Record<string, unknown> | null,
+      organolepticVersion: observation.organolepticVersion,
       createdAt: observation.createdAt,
       updatedAt: observation.updatedAt,
     };
@@ -0,0 +1,112 @@
+import { AROMAS, CAPE_ASPECTS, MOUTH_IMPRESSIONS, TASTES } from '@cigar-platform/shared/constants';
+import { validateOrganoleptic } from './organoleptic.schema';
+
+describe('validateOrganoleptic', () => {
+  const taste = TASTES[0].id;
+  const aroma = AROMAS[0].id;
+
+  it('should accept a valid tercio payload', () => {
+    expect(
+      validateOrganoleptic('first_third', {
+        firstThird: {
+          tastes: [{ id: taste, intensity: 1 }],
+          aromas: [{ id: aroma, intensity: 3 }],
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should accept a valid conclusion payload', () => {
+    expect(
+      validateOrganoleptic('conclusion', {
+        conclusion: {
+          power: 7,
+          variety: 1,
+          mouthImpression: [MOUTH_IMPRESSIONS[0].id, MOUTH_IMPRESSIONS[1].id],
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should accept an empty payload and a cleared choice', () => {
+    expect(validateOrganoleptic('presentation', {})).toEqual([]);
+    expect(validateOrganoleptic('presentation', { presentation: { wrapperAspect: null } })).toEqual([]);
+  });
+
+  it('should reject an unknown phase', () => {
+    expect(validateOrganoleptic('fourth_third', {})).toEqual([
+      expect.objectContaining({ path: 'phase' }),
+    ]);
+  });
+
+  it('should reject a payload that is not an object', () => {
+    expect(validateOrganoleptic('presentation', [])).toEqual([
+      { path: 'organoleptic', message: 'Must be an object' },
+    ]);
+    expect(validateOrganoleptic('presentation', { presentation: 'smooth' })).toEqual([
+      { path: 'organoleptic.presentation', message: 'Must be an object' },
+    ]);
+  });
+
+  it('should reject the key of another phase', () => {
+    expect(validateOrganoleptic('cold_draw', { firstThird: {} })).toEqual([
+      expect.objectContaining({ path: 'organoleptic.firstThird' }),
+    ]);
+  });
+
+  it('should reject unknown fields and ids', () => {
+    const issues = validateOrganoleptic('presentation', {
+      presentation: { wrapperAspect: 'shiny', smell: CAPE_ASPECTS[0].id },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'organoleptic.presentation.wrapperAspect',
+      'organoleptic.presentation.smell',
+    ]);
+  });
+
+  it('should reject out-of-range intensities and duplicate flavors', () => {
+    const issues = validateOrganoleptic('second_third', {
+      secondThird: {
+        tastes: [
+          { id: taste, intensity: 4 },
+          { id: taste, intensity: 2 },
+        ],
+        aromas: [{ id: aroma, intensity: 1.5, note: 'x' }],
+      },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'organoleptic.secondThird.tastes[0].intensity',
+      'organoleptic.secondThird.tastes[1].id',
+      'organoleptic.secondThird.aromas[0].intensity',
+      'organoleptic.secondThird.aromas[0]',
+    ]);
+  });
+
+  it('should reject bare flavor ids (legacy format)', () => {
+    expect(validateOrganoleptic('final_third', { finalThird: { tastes: [taste] } })).toEqual([
+      { path: 'organoleptic.finalThird.tastes[0]', message: 'Must be { id, intensity }' },
+    ]);
+  });
+
+  it('should reject scales out of range and duplicate multi-choice ids', () => {
+    const impression = MOUTH_IMPRESSIONS[0].id;
+    const issues = validateOrganoleptic('conclusion', {
+      conclusion: { power: 11, variety: 0, mouthImpression: [impression, impression] },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'organoleptic.conclusion.power',
+      'organoleptic.conclusion.variety',
+      'organoleptic.conclusion.mouthImpression',
+    ]);
+  });
+
+  it('should reject cold draw notes over 2000 characters', () => {
+    expect(validateOrganoleptic('cold_draw', { coldDraw: { notes: 'a'.repeat(2000) } })).toEqual([]);
+    expect(validateOrganoleptic('cold_draw', { coldDraw: { notes: 'a'.repeat(2001) } })).toEqual([
+      expect.objectContaining({ path: 'organoleptic.coldDraw.notes' }),
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  TASTING_PHASES,
+  TastingPhase,
+  CAPE_ASPECTS,
+  CAPE_COLORS,
+  CAPE_TOUCHES,
+  TASTES,
+  AROMAS,
+  DRAWS,
+  ASH_NATURES,
+  BALANCES,
+  TERROIRS,
+  MOUTH_IMPRESSIONS,
+  PERSISTENCES,
+  STRENGTH_LABELS,
+  VARIETY_LABELS,
+} from '@cigar-platform/shared/constants';
+
+/**
+ * Organoleptic Schema
+ *
+ * Server-side contract for Observation.organoleptic, built on the shared
+ * tasting vocabularies (same ids as the web tasting flow).
+ *
+ * Versions:
+ * - 1: free-form JSON written before validation existed (legacy rows)
+ * - 2: one key per phase, ids from the shared constants, bounded intensities
+ *
+ * Kept free of Nest/Prisma imports so scripts can reuse it for migrations.
+ */
+export const ORGANOLEPTIC_SCHEMA_VERSION = 2;
+
+/**
+ * Flavor tag intensity: 1 = Faible, 2 = Moyen, 3 = Fort
+ */
+export const FLAVOR_INTENSITY_MIN = 1;
+export const FLAVOR_INTENSITY_MAX = 3;
+
+export interface OrganolepticIssue {
+  path: string;
+  message: string;
+}
+
+type FieldRule =
+  | { kind: 'choice'; ids: readonly string[] }
+  | { kind: 'choices'; ids: readonly string[] }
+  | { kind: 'flavors'; ids: readonly string[] }
+  | { kind: 'scale'; min: number; max: number }
+  | { kind: 'text'; maxLength: number };
+
+const ids = (list: readonly { id: string }[]): readonly string[] => list.map((item) => item.id);
+const scale = (labels: readonly { value: number }[]): FieldRule => ({
+  kind: 'scale',
+  min: Math.min(...labels.map((label) => label.value)),
+  max: Math.max(...labels.map((label) => label.value)),
+});
+
+const TERCIO_FIELDS: Record<string, FieldRule> = {
+  tastes: { kind: 'flavors', ids: ids(TASTES) },
+  aromas: { kind: 'flavors', ids: ids(AROMAS) },
+};
+
+/**
+ * Payload key and fields expected for each phase
+ * e.g. PUT .../observations/cold_draw → { coldDraw: { tastes, aromas, notes } }
+ */
+const PHASE_SCHEMAS: Record<TastingPhase, { key: string; fields: Record<string, FieldRule> }> = {
+  presentation: {
+    key: 'presentation',
+    fields: {
+      wrapperAspect: { kind: 'choice', ids: ids(CAPE_ASPECTS) },
+      wrapperColor: { kind: 'choice', ids: ids(CAPE_COLORS) },
+      touch: { kind: 'choice', ids: ids(CAPE_TOUCHES) },
+    },
+  },
+  cold_draw: {
+    key: 'coldDraw',
+    fields: {
+      ...TERCIO_FIELDS,
+      notes: { kind: 'text', maxLength: 2000 },
+    },
+  },
+  first_third: { key: 'firstThird', fields: TERCIO_FIELDS },
+  second_third: { key: 'secondThird', fields: TERCIO_FIELDS },
+  final_third: { key: 'finalThird', fields: TERCIO_FIELDS },
+  conclusion: {
+    key: 'conclusion',
+    fields: {
+      draw: { kind: 'choice', ids: ids(DRAWS) },
+      ashNature: { kind: 'choice', ids: ids(ASH_NATURES) },
+      balance: { kind: 'choice', ids: ids(BALANCES) },
+      terroir: { kind: 'choice', ids: ids(TERROIRS) },
+      power: scale(STRENGTH_LABELS),
+      variety: scale(VARIETY_LABELS),
+      mouthImpression: { kind: 'choices', ids: ids(MOUTH_IMPRESSIONS) },
+      persistence: { kind: 'choice', ids: ids(PERSISTENCES) },
+    },
+  },
+};
+
+export const OBSERVATION_PHASES: readonly TastingPhase[] = TASTING_PHASES.map((phase) => phase.id);
+
+export function isObservationPhase(phase: string): phase is TastingPhase {
+  return (OBSERVATION_PHASES as readonly string[]).includes(phase);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Flavor ids cited in a phase payload (tercio phases, FlavorTag format)
+ * Bare ids of legacy rows are kept, duplicates are removed
+ */
+export function extractFlavorIds(organoleptic: unknown, field: 'aromas' | 'tastes'): string[] {
+  if (!isRecord(organoleptic)) {
+    return [];
+  }
+
+  const flavorIds = Object.values(organoleptic).flatMap((data) => {
+    const tags = isRecord(data) ? data[field] : undefined;
+    return Array.isArray(tags) ? tags.map((tag) => (isRecord(tag) ? tag['id'] : tag)) : [];
+  });
+
+  return [...new Set(flavorIds.filter((id): id is string => typeof id === 'string'))];
+}
+
+/**
+ * Validate a phase payload against the current schema version
+ * @returns Every issue found (empty when valid)
+ */
+export function validateOrganoleptic(phase: string, organoleptic: unknown): OrganolepticIssue[] {
+  if (!isObservationPhase(phase)) {
+    return [{ path: 'phase', message: `Unknown phase "${phase}" (expected ${OBSERVATION_PHASES.join(', ')})` }];
+  }
+
+  if (!isRecord(organoleptic)) {
+    return [{ path: 'organoleptic', message: 'Must be an object' }];
+  }
+
+  const schema = PHASE_SCHEMAS[phase];
+  const issues: OrganolepticIssue[] = [];
+
+  for (const key of Object.keys(organoleptic)) {
+    if (key !== schema.key) {
+      issues.push({ path: `organoleptic.${key}`, message: `Unexpected key for phase "${phase}" (expected "${schema.key}")` });
+    }
+  }
+
+  const data = organoleptic[schema.key];
+  if (data === undefined) {
+    return issues;
+  }
+
+  if (!isRecord(data)) {
+    issues.push({ path: `organoleptic.${schema.key}`, message: 'Must be an object' });
+    return issues;
+  }
+
+  for (const [field, value] of Object.entries(data)) {
+    const path = `organoleptic.${schema.key}.${field}`;
+    const rule = schema.fields[field];
+
+    if (!rule) {
+      issues.push({ path, message: 'Unknown field' });
+      continue;
+    }
+
+    issues.push(...validateField(path, rule, value));
+  }
+
+  return issues;
+}
+
+function validateField(path: string, rule: FieldRule, value: unknown): OrganolepticIssue[] {
+  switch (rule.kind) {
+    case 'choice':
+      if (value === null || rule.ids.includes(value as string)) return [];
+      return [{ path, message: `Unknown id "${String(value)}"` }];
+
+    case 'choices': {
+      if (!Array.isArray(value)) return [{ path, message: 'Must be an array of ids' }];
+      const issues = value
+        .map((id, index) => (rule.ids.includes(id) ? null : { path: `${path}[${index}]`, message: `Unknown id "${String(id)}"` }))
+        .filter((issue): issue is OrganolepticIssue => issue !== null);
+      if (new Set(value).size !== value.length) issues.push({ path, message: 'Duplicate ids' });
+      return issues;
+    }
+
+    case 'flavors': {
+      if (!Array.isArray(value)) return [{ path, message: 'Must be an array of { id, intensity }' }];
+      const issues: OrganolepticIssue[] = [];
+      const seen = new Set<string>();
+
+      value.forEach((tag, index) => {
+        const tagPath = `${path}[${index}]`;
+        if (!isRecord(tag)) {
+          issues.push({ path: tagPath, message: 'Must be { id, intensity }' });
+          return;
+        }
+        if (!rule.ids.includes(tag['id'] as string)) {
+          issues.push({ path: `${tagPath}.id`, message: `Unknown id "${String(tag['id'])}"` });
+        } else if (seen.has(tag['id'] as string)) {
+          issues.push({ path: `${tagPath}.id`, message: `Duplicate id "${String(tag['id'])}"` });
+        }
+        seen.add(tag['id'] as string);
+        if (!isIntegerInRange(tag['intensity'], FLAVOR_INTENSITY_MIN, FLAVOR_INTENSITY_MAX)) {
+          issues.push({ path: `${tagPath}.intensity`, message: `Must be an integer between ${FLAVOR_INTENSITY_MIN} and ${FLAVOR_INTENSITY_MAX}` });
+        }
+        const extraKeys = Object.keys(tag).filter((key) => key !== 'id' && key !== 'intensity');
+        if (extraKeys.length > 0) {
+          issues.push({ path: tagPath, message: `Unknown field(s): ${extraKeys.join(', ')}` });
+        }
+      });
+
+      return issues;
+    }
+
+    case 'scale':
+      if (isIntegerInRange(value, rule.min, rule.max)) return [];
+      return [{ path, message: `Must be an integer between ${rule.min} and ${rule.max}` }];
+
+    case 'text':
+      if (typeof value === 'string' && value.length <= rule.maxLength) return [];
+      return [{ path, message: `Must be a string of at most ${rule.maxLength} characters` }];
+  }
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Best-effort upgrade of a legacy (version 1) payload to the current schema
+ * - single-choice fields stored as arrays keep their first known id
+ * - unknown ids, unknown fields and foreign phase keys are dropped
+ * - intensities and scales are rounded and clamped to their range
+ *
+ * The result must still go through validateOrganoleptic before being saved.
+ */
+export function upgradeOrganoleptic(phase: string, organoleptic: unknown): Record<string, unknown> | null {
+  if (!isObservationPhase(phase) || !isRecord(organoleptic)) {
+    return null;
+  }
+
+  const schema = PHASE_SCHEMAS[phase];
+  const data = organoleptic[schema.key];
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  const upgraded: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    if (!(field in data)) continue;
+    const value = data[field];
+
+    switch (rule.kind) {
+      case 'choice': {
+        const candidates = Array.isArray(value) ? value : [value];
+        upgraded[field] = candidates.find((id) => rule.ids.includes(id)) ?? null;
+        break;
+      }
+
+      case 'choices': {
+        const candidates = Array.isArray(value) ? value : [value];
+        upgraded[field] = [...new Set(candidates.filter((id) => rule.ids.includes(id)))];
+        break;
+      }
+
+      case 'flavors': {
+        // Legacy rows may hold bare ids instead of { id, intensity }
+        const flavors = new Map<string, number>();
+        for (const tag of Array.isArray(value) ? value : []) {
+          const record = typeof tag === 'string' ? { id: tag } : tag;
+          if (!isRecord(record) || !rule.ids.includes(record['id'] as string)) continue;
+          if (flavors.has(record['id'] as string)) continue;
+          flavors.set(
+            record['id'] as string,
+            clamp(record['intensity'], FLAVOR_INTENSITY_MIN, FLAVOR_INTENSITY_MAX, 2)
+          );
+        }
+        upgraded[field] = [...flavors].map(([id, intensity]) => ({ id, intensity }));
+        break;
+      }
+
+      case 'scale':
+        upgraded[field] = clamp(value, rule.min, rule.max, Math.round((rule.min + rule.max) / 2));
+        break;
+
+      case 'text':
+        if (typeof value === 'string') upgraded[field] = value.slice(0, rule.maxLength);
+        break;
+    }
+  }
+
+  return { [schema.key]: upgraded };
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+}
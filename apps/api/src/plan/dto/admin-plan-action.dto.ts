@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength, IsDateString } from 'class-validator';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for revoking or converting a plan to LIFETIME (admin only)
+ */
+export class PlanReasonDto {
+  @IsSecureText()
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @ApiPropertyOptional({
+    description: 'Reason kept on the plan',
+    example: 'Beta tester actif',
+  })
+  reason?: string;
+}
+
+/**
+ * DTO for gifting Premium to a user (admin only)
+ */
+export class GiftPlanDto extends PlanReasonDto {
+  @IsOptional()
+  @IsDateString()
+  @ApiPropertyOptional({
+    description: 'Expiration date (ISO 8601, omit for no expiration)',
+    example: '2027-06-30T23:59:59.999Z',
+  })
+  expiresAt?: string;
+}
+
+/**
+ * DTO for extending a Premium plan (admin only)
+ */
+export class ExtendPlanDto {
+  @IsDateString()
+  @ApiProperty({
+    description: 'New expiration date (ISO 8601, must be in the future)',
+    example: '2027-06-30T23:59:59.999Z',
+  })
+  expiresAt: string;
+}
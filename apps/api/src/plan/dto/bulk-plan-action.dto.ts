@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  IsDateString,
+  IsBoolean,
+  IsArray,
+  IsUUID,
+  ArrayMaxSize,
+} from 'class-validator';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+import { PlanCohortFilterDto } from './filter-plan-users.dto';
+
+export enum PlanAdminAction {
+  GIFT = 'GIFT',
+  EXTEND = 'EXTEND',
+  REVOKE = 'REVOKE',
+  LIFETIME = 'LIFETIME',
+}
+
+/**
+ * DTO for applying a plan action to a cohort (admin only)
+ * Example: LIFETIME for all BETA users with at least 10 completed tastings
+ */
+export class BulkPlanActionDto extends PlanCohortFilterDto {
+  @IsEnum(PlanAdminAction)
+  @ApiProperty({
+    description: 'Action applied to every user of the cohort',
+    enum: PlanAdminAction,
+    enumName: 'PlanAdminAction',
+    example: PlanAdminAction.LIFETIME,
+  })
+  action: PlanAdminAction;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  @ApiPropertyOptional({
+    description: 'Restrict the cohort to these users',
+    type: [String],
+  })
+  userIds?: string[];
+
+  @IsOptional()
+  @IsDateString()
+  @ApiPropertyOptional({
+    description: 'Expiration date for GIFT (optional) and EXTEND (required)',
+    example: '2027-06-30T23:59:59.999Z',
+  })
+  expiresAt?: string;
+
+  @IsSecureText()
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @ApiPropertyOptional({
+    description: 'Reason kept on the plans',
+    example: 'Beta tester actif',
+  })
+  reason?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiPropertyOptional({
+    description: 'Only count the cohort, change nothing',
+    default: false,
+  })
+  dryRun?: boolean;
+}
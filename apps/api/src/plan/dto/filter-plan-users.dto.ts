@@ -0,0 +1,88 @@
+import { IsOptional, IsInt, Min, Max, IsEnum, IsString, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PlanType, PlanSource, PlanStatus } from '@cigar-platform/prisma-client';
+
+/**
+ * Cohort filter shared by the user list and bulk plan actions (admin only)
+ */
+export class PlanCohortFilterDto {
+  @IsOptional()
+  @IsEnum(PlanType)
+  @ApiPropertyOptional({
+    description: 'Filter by plan type',
+    enum: PlanType,
+  })
+  type?: PlanType;
+
+  @IsOptional()
+  @IsEnum(PlanSource)
+  @ApiPropertyOptional({
+    description: 'Filter by plan source',
+    enum: PlanSource,
+  })
+  source?: PlanSource;
+
+  @IsOptional()
+  @IsEnum(PlanStatus)
+  @ApiPropertyOptional({
+    description: 'Filter by plan status',
+    enum: PlanStatus,
+  })
+  status?: PlanStatus;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Only users with at least this many completed tastings',
+    example: 10,
+  })
+  minCompletedTastings?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Only plans expiring within this many days',
+    example: 30,
+  })
+  expiringWithinDays?: number;
+}
+
+export class FilterPlanUsersDto extends PlanCohortFilterDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Page number',
+    example: 1,
+    default: 1,
+  })
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    example: 20,
+    default: 20,
+  })
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Search by username, display name or email',
+    example: 'john',
+  })
+  search?: string;
+}
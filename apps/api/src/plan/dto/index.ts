@@ -1 +1,7 @@
-export * from './user-plan.dto';
\ No newline at end of file
+export * from './user-plan.dto';
+export * from './filter-plan-users.dto';
+export * from './admin-plan-action.dto';
+export * from './bulk-plan-action.dto';
+export * from './plan-user-response.dto';
+export * from './trial-eligibility.dto';
+export * from './plan-expiry-alert.dto';
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Pending "Premium expires soon" alert of the current user
+ * Queued by the expiry job, shown in the web app until acknowledged
+ */
+export class PlanExpiryAlertDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '2026-02-01T00:00:00.000Z', description: 'Expiration date the alert is about' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 7, description: 'Days left before expiration' })
+  daysRemaining: number;
+}
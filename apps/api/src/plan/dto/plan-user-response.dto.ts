@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserPlanDto } from './user-plan.dto';
+import { PaginationMetaDto } from '../../common/dto/paginated-response.dto';
+
+/**
+ * User with their plan (admin plan management)
+ */
+export class PlanUserResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: 'john_doe' })
+  username: string;
+
+  @ApiProperty({ example: 'John Doe' })
+  displayName: string;
+
+  @ApiProperty({ example: 'john@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ type: String, example: null, nullable: true })
+  avatarUrl: string | null;
+
+  @ApiProperty({ example: '2026-01-15T10:00:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: 12, description: 'Completed tastings' })
+  completedTastingCount: number;
+
+  @ApiProperty({ type: UserPlanDto })
+  plan: UserPlanDto;
+}
+
+export class PaginatedPlanUserResponseDto {
+  @ApiProperty({ type: [PlanUserResponseDto] })
+  data: PlanUserResponseDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+}
+
+/**
+ * Result of a bulk plan action
+ */
+export class BulkPlanActionResultDto {
+  @ApiProperty({ example: 42, description: 'Users matching the cohort' })
+  matched: number;
+
+  @ApiProperty({ example: 42, description: 'Plans actually changed (0 for a dry run)' })
+  updated: number;
+
+  @ApiProperty({ example: false })
+  dryRun: boolean;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Free trial availability for the current user
+ */
+export class TrialEligibilityDto {
+  @ApiProperty({ example: true, description: 'Whether the user can start a free trial' })
+  eligible: boolean;
+
+  @ApiProperty({ example: 14, description: 'Trial length in days' })
+  durationDays: number;
+
+  @ApiProperty({
+    enum: ['ALREADY_USED', 'ALREADY_PREMIUM'],
+    nullable: true,
+    example: null,
+    description: 'Why the trial is not available (null when eligible)',
+  })
+  reason: 'ALREADY_USED' | 'ALREADY_PREMIUM' | null;
+}
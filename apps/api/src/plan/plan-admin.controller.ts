@@ -0,0 +1,157 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { PlanAdminService } from './plan-admin.service';
+import {
+  UserPlanDto,
+  FilterPlanUsersDto,
+  GiftPlanDto,
+  ExtendPlanDto,
+  PlanReasonDto,
+  BulkPlanActionDto,
+  PaginatedPlanUserResponseDto,
+  BulkPlanActionResultDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators';
+import { Role } from '@cigar-platform/prisma-client';
+
+@ApiTags('admin-plans')
+@Controller('admin/plans')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPER_ADMIN)
+@ApiBearerAuth()
+export class PlanAdminController {
+  constructor(private readonly planAdminService: PlanAdminService) {}
+
+  @Get('users')
+  @ApiOperation({ summary: 'List users with their plan (admins only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Users retrieved successfully',
+    type: PaginatedPlanUserResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  async findUsers(
+    @Query() filter: FilterPlanUsersDto,
+  ): Promise<PaginatedPlanUserResponseDto> {
+    return this.planAdminService.findUsers(filter);
+  }
+
+  @Post('users/:userId/gift')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Gift Premium to a user (admins only)' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Premium gifted successfully',
+    type: UserPlanDto,
+  })
+  @ApiResponse({ status: 400, description: 'Expiration date in the past' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async gift(
+    @Param('userId') userId: string,
+    @Body() dto: GiftPlanDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<UserPlanDto> {
+    return this.planAdminService.gift(userId, dto, adminId);
+  }
+
+  @Post('users/:userId/extend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Extend the expiration of a Premium plan (admins only)' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Plan extended successfully',
+    type: UserPlanDto,
+  })
+  @ApiResponse({ status: 400, description: 'No extendable Premium plan or date in the past' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  async extend(
+    @Param('userId') userId: string,
+    @Body() dto: ExtendPlanDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<UserPlanDto> {
+    return this.planAdminService.extend(userId, dto, adminId);
+  }
+
+  @Post('users/:userId/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke Premium access (admins only)' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Plan revoked successfully',
+    type: UserPlanDto,
+  })
+  @ApiResponse({ status: 400, description: 'No active Premium plan' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  async revoke(
+    @Param('userId') userId: string,
+    @Body() dto: PlanReasonDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<UserPlanDto> {
+    return this.planAdminService.revoke(userId, dto, adminId);
+  }
+
+  @Post('users/:userId/lifetime')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Convert a plan to LIFETIME Premium (admins only)' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Plan converted successfully',
+    type: UserPlanDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async convertToLifetime(
+    @Param('userId') userId: string,
+    @Body() dto: PlanReasonDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<UserPlanDto> {
+    return this.planAdminService.convertToLifetime(userId, dto, adminId);
+  }
+
+  @Post('bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Apply a plan action to a cohort of users (admins only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Bulk action applied (or previewed with dryRun)',
+    type: BulkPlanActionResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Missing cohort filter or expiration date' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admins only' })
+  async bulk(
+    @Body() dto: BulkPlanActionDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<BulkPlanActionResultDto> {
+    return this.planAdminService.bulk(dto, adminId);
+  }
+}
@@ -0,0 +1,382 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  PlanType,
+  PlanSource,
+  PlanStatus,
+  TastingStatus,
+} from '@cigar-platform/prisma-client';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import { PlanService } from './plan.service';
+import {
+  UserPlanDto,
+  PlanCohortFilterDto,
+  FilterPlanUsersDto,
+  GiftPlanDto,
+  ExtendPlanDto,
+  PlanReasonDto,
+  BulkPlanActionDto,
+  PlanAdminAction,
+  PlanUserResponseDto,
+  PaginatedPlanUserResponseDto,
+  BulkPlanActionResultDto,
+} from './dto';
+
+const PLAN_USER_SELECT = {
+  id: true,
+  username: true,
+  displayName: true,
+  email: true,
+  avatarUrl: true,
+  createdAt: true,
+  plan: true,
+  _count: {
+    select: {
+      tastings: { where: { status: TastingStatus.COMPLETED } },
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+type PlanUser = Prisma.UserGetPayload<{ select: typeof PLAN_USER_SELECT }>;
+
+// Plans each bulk action applies to (other users of the cohort are skipped)
+const BULK_ACTION_PLAN_WHERE: Record<PlanAdminAction, Prisma.UserPlanWhereInput> = {
+  [PlanAdminAction.GIFT]: {},
+  [PlanAdminAction.LIFETIME]: {},
+  [PlanAdminAction.EXTEND]: { type: PlanType.PREMIUM, source: { not: PlanSource.LIFETIME } },
+  [PlanAdminAction.REVOKE]: { type: PlanType.PREMIUM, status: PlanStatus.ACTIVE },
+};
+
+const BULK_ACTION_TRANSITION_REASONS: Record<PlanAdminAction, string> = {
+  [PlanAdminAction.GIFT]: 'admin_gift',
+  [PlanAdminAction.LIFETIME]: 'admin_lifetime',
+  [PlanAdminAction.EXTEND]: 'admin_extend',
+  [PlanAdminAction.REVOKE]: 'admin_revoke',
+};
+
+/**
+ * Plan Admin Service
+ *
+ * Admin management of user plans:
+ * - List users with their plan and activity (cohort filters)
+ * - Gift, extend, revoke or convert a plan to LIFETIME
+ * - Bulk actions on a cohort (e.g. all BETA users with 10+ completed tastings)
+ */
+@Injectable()
+export class PlanAdminService {
+  private readonly logger = new Logger(PlanAdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly planService: PlanService
+  ) {}
+
+  /**
+   * List users with their plan (paginated, newest first)
+   */
+  async findUsers(filter: FilterPlanUsersDto): Promise<PaginatedPlanUserResponseDto> {
+    const { page = 1, limit = 20, search } = filter;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.UserWhereInput = {
+      AND: [
+        await this.buildCohortWhere(filter),
+        search
+          ? {
+              OR: [
+                { username: { contains: search, mode: 'insensitive' } },
+                { displayName: { contains: search, mode: 'insensitive' } },
+                { email: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: PLAN_USER_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return {
+      data: users.map((user) => this.mapToResponse(user)),
+      meta: {
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Gift Premium to a user (with or without expiration)
+   */
+  async gift(userId: string, dto: GiftPlanDto, adminId: string): Promise<UserPlanDto> {
+    await this.assertUserExists(userId);
+
+    const expiresAt = dto.expiresAt ? this.parseFutureDate(dto.expiresAt) : null;
+    const plan = await this.planService.giftPremium(userId, expiresAt, adminId, dto.reason);
+
+    this.logger.log(`Premium gifted to user ${userId} by ${adminId} (expires: ${expiresAt?.toISOString() ?? 'never'})`);
+    return plan;
+  }
+
+  /**
+   * Extend the expiration of a Premium plan (source unchanged)
+   */
+  async extend(userId: string, dto: ExtendPlanDto, adminId: string): Promise<UserPlanDto> {
+    const existing = await this.prisma.userPlan.findUnique({ where: { userId } });
+
+    if (!existing || existing.type !== PlanType.PREMIUM) {
+      throw new BadRequestException(`User ${userId} has no Premium plan to extend`);
+    }
+
+    if (existing.source === PlanSource.LIFETIME) {
+      throw new BadRequestException('A LIFETIME plan never expires');
+    }
+
+    if (existing.source === PlanSource.SUBSCRIPTION) {
+      throw new BadRequestException('A subscription plan expires with its Stripe billing period');
+    }
+
+    const expiresAt = this.parseFutureDate(dto.expiresAt);
+    const plan = await this.planService.extendPremium(userId, expiresAt, adminId);
+
+    this.logger.log(`Premium extended for user ${userId} until ${expiresAt.toISOString()} by ${adminId}`);
+    return plan;
+  }
+
+  /**
+   * Revoke Premium access (plan cancelled)
+   */
+  async revoke(userId: string, dto: PlanReasonDto, adminId: string): Promise<UserPlanDto> {
+    const existing = await this.prisma.userPlan.findUnique({ where: { userId } });
+
+    if (!existing || existing.type !== PlanType.PREMIUM || existing.status !== PlanStatus.ACTIVE) {
+      throw new BadRequestException(`User ${userId} has no active Premium plan to revoke`);
+    }
+
+    const plan = await this.planService.revokePremium(userId, dto.reason);
+
+    this.logger.log(`Premium revoked for user ${userId} by ${adminId}`);
+    return plan;
+  }
+
+  /**
+   * Convert a user's plan to LIFETIME Premium
+   */
+  async convertToLifetime(userId: string, dto: PlanReasonDto, adminId: string): Promise<UserPlanDto> {
+    await this.assertUserExists(userId);
+
+    const plan = await this.planService.upgradeToPremiumLifetime(userId, adminId, dto.reason);
+
+    this.logger.log(`Plan converted to LIFETIME for user ${userId} by ${adminId}`);
+    return plan;
+  }
+
+  /**
+   * Apply a plan action to every user of a cohort (single transaction)
+   * Users the action does not apply to are skipped (e.g. EXTEND on a FREE plan, Stripe subscriptions)
+   */
+  async bulk(dto: BulkPlanActionDto, adminId: string): Promise<BulkPlanActionResultDto> {
+    const hasCohortFilter =
+      dto.type !== undefined ||
+      dto.source !== undefined ||
+      dto.status !== undefined ||
+      dto.minCompletedTastings !== undefined ||
+      dto.expiringWithinDays !== undefined ||
+      (dto.userIds?.length ?? 0) > 0;
+
+    if (!hasCohortFilter) {
+      throw new BadRequestException('Bulk actions need at least one cohort filter');
+    }
+
+    if (dto.action === PlanAdminAction.EXTEND && !dto.expiresAt) {
+      throw new BadRequestException('expiresAt is required to extend plans');
+    }
+
+    const expiresAt = dto.expiresAt ? this.parseFutureDate(dto.expiresAt) : null;
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        AND: [
+          await this.buildCohortWhere(dto),
+          dto.userIds?.length ? { id: { in: dto.userIds } } : {},
+        ],
+      },
+      select: { id: true, plan: { select: { id: true } } },
+    });
+
+    const userIds = users.map((user) => user.id);
+    const dryRun = dto.dryRun ?? false;
+
+    if (dryRun || userIds.length === 0) {
+      return { matched: userIds.length, updated: 0, dryRun };
+    }
+
+    const withoutPlan = users.filter((user) => !user.plan).map((user) => user.id);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Stripe manages subscription plans: bulk actions leave them untouched
+      const plans = await tx.userPlan.findMany({
+        where: {
+          userId: { in: userIds },
+          source: { not: PlanSource.SUBSCRIPTION },
+          ...BULK_ACTION_PLAN_WHERE[dto.action],
+        },
+        select: { id: true, status: true },
+      });
+      const planIds = plans.map((plan) => plan.id);
+      let createdPlans: { id: string; status: PlanStatus }[] = [];
+
+      switch (dto.action) {
+        case PlanAdminAction.GIFT:
+        case PlanAdminAction.LIFETIME: {
+          const isLifetime = dto.action === PlanAdminAction.LIFETIME;
+          const data = {
+            type: PlanType.PREMIUM,
+            source: isLifetime ? PlanSource.LIFETIME : PlanSource.GIFT,
+            status: PlanStatus.ACTIVE,
+            expiresAt: isLifetime ? null : expiresAt,
+            giftedBy: adminId,
+            giftReason: dto.reason ?? (isLifetime ? 'Lifetime access' : 'Gift from admin'),
+          };
+
+          await tx.userPlan.updateMany({
+            where: { id: { in: planIds } },
+            data: { ...data, startedAt: new Date() },
+          });
+          createdPlans = await tx.userPlan.createManyAndReturn({
+            data: withoutPlan.map((userId) => ({ userId, ...data })),
+            select: { id: true, status: true },
+            skipDuplicates: true,
+          });
+          break;
+        }
+
+        case PlanAdminAction.EXTEND:
+          await tx.userPlan.updateMany({
+            where: { id: { in: planIds } },
+            data: { status: PlanStatus.ACTIVE, expiresAt, giftedBy: adminId },
+          });
+          break;
+
+        case PlanAdminAction.REVOKE:
+          await tx.userPlan.updateMany({
+            where: { id: { in: planIds } },
+            data: { status: PlanStatus.CANCELLED, giftReason: dto.reason },
+          });
+          break;
+      }
+
+      const toStatus = dto.action === PlanAdminAction.REVOKE ? PlanStatus.CANCELLED : PlanStatus.ACTIVE;
+      const reason = BULK_ACTION_TRANSITION_REASONS[dto.action];
+      await tx.planTransition.createMany({
+        data: [...plans, ...createdPlans].map((plan) => ({
+          planId: plan.id,
+          fromStatus: plan.status,
+          toStatus,
+          reason,
+        })),
+      });
+
+      return plans.length + createdPlans.length;
+    });
+
+    this.logger.log(
+      `Bulk plan action ${dto.action} by ${adminId}: ${updated}/${userIds.length} plan(s) updated`
+    );
+
+    return { matched: userIds.length, updated, dryRun };
+  }
+
+  /**
+   * Build the user filter of a cohort
+   * Users without a plan row count as FREE / DEFAULT / ACTIVE
+   */
+  private async buildCohortWhere(filter: PlanCohortFilterDto): Promise<Prisma.UserWhereInput> {
+    const conditions: Prisma.UserWhereInput[] = [];
+
+    const planWhere: Prisma.UserPlanWhereInput = {};
+    if (filter.type) planWhere.type = filter.type;
+    if (filter.source) planWhere.source = filter.source;
+    if (filter.status) planWhere.status = filter.status;
+    if (filter.expiringWithinDays) {
+      const now = new Date();
+      const limit = new Date(now.getTime() + filter.expiringWithinDays * 24 * 60 * 60 * 1000);
+      planWhere.expiresAt = { gte: now, lte: limit };
+    }
+
+    if (Object.keys(planWhere).length > 0) {
+      const matchesDefaultPlan =
+        (!filter.type || filter.type === PlanType.FREE) &&
+        (!filter.source || filter.source === PlanSource.DEFAULT) &&
+        (!filter.status || filter.status === PlanStatus.ACTIVE) &&
+        !filter.expiringWithinDays;
+
+      conditions.push(
+        matchesDefaultPlan
+          ? { OR: [{ plan: { is: planWhere } }, { plan: { is: null } }] }
+          : { plan: { is: planWhere } }
+      );
+    }
+
+    if (filter.minCompletedTastings) {
+      const activeUsers = await this.prisma.tasting.groupBy({
+        by: ['userId'],
+        where: { status: TastingStatus.COMPLETED },
+        having: { userId: { _count: { gte: filter.minCompletedTastings } } },
+      });
+      conditions.push({ id: { in: activeUsers.map((user) => user.userId) } });
+    }
+
+    return { AND: conditions };
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+  }
+
+  private parseFutureDate(value: string): Date {
+    const date = new Date(value);
+
+    if (date <= new Date()) {
+      throw new BadRequestException('Expiration date must be in the future');
+    }
+
+    return date;
+  }
+
+  private mapToResponse(user: PlanUser): PlanUserResponseDto {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      email: user.email,
+      avatarUrl: user.avatarUrl,
+      createdAt: user.createdAt,
+      completedTastingCount: user._count.tastings,
+      plan: user.plan
+        ? this.planService.mapToDto(user.plan)
+        : this.planService.getDefaultPlanDto(user.id),
+    };
+  }
+}
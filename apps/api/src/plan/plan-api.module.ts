@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PlanController } from './plan.controller';
+import { PlanAdminController } from './plan-admin.controller';
+import { PlanAdminService } from './plan-admin.service';
+import { PlanModule } from './plan.module';
+import { AuthModule } from '../auth/auth.module';
+import { PrismaService } from '../app/prisma.service';
+
+/**
+ * Plan API Module
+ *
+ * Authenticated plan endpoints: free trial (users) and plan management (admins).
+ * Kept apart from PlanModule: AuthModule depends on PlanModule.
+ */
+@Module({
+  imports: [AuthModule, PlanModule],
+  controllers: [PlanController, PlanAdminController],
+  providers: [PlanAdminService, PrismaService],
+})
+export class PlanApiModule {}
@@ -0,0 +1,234 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PlanType, PlanSource, PlanStatus } from '@cigar-platform/prisma-client';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import {
+  GRACE_PERIOD_DAYS,
+  EXPIRY_ALERT_DAYS,
+  PLAN_EXPIRY_JOB_INTERVAL_MS,
+} from './plan.constants';
+
+/**
+ * Advisory lock key of the expiry job
+ * Only one API instance runs the job at a time
+ */
+const PLAN_EXPIRY_LOCK_KEY = 720_260_115;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 1000;
+
+export interface PlanExpiryRunResult {
+  expired: number;
+  alertsQueued: number;
+}
+
+/**
+ * Plan Expiry Service
+ *
+ * Scheduled job keeping plan statuses in line with their expiration:
+ * - Plans past expiresAt + GRACE_PERIOD_DAYS become EXPIRED (transition recorded)
+ * - Expired trials revert to FREE/DEFAULT (no grace period)
+ * - Premium plans expiring within EXPIRY_ALERT_DAYS get a queued alert,
+ *   shown in the web app until acknowledged (trials excluded: they show their own countdown)
+ *
+ * Idempotent: only ACTIVE plans are expired and alerts are unique per
+ * plan and expiration date, so running it again changes nothing.
+ * Disable it with PLAN_EXPIRY_JOB_ENABLED=false.
+ */
+@Injectable()
+export class PlanExpiryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(PlanExpiryService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<string>('PLAN_EXPIRY_JOB_ENABLED') === 'false') {
+      this.logger.log('Plan expiry job disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.runSafely(), PLAN_EXPIRY_JOB_INTERVAL_MS);
+    void this.runSafely();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire plans past their grace period and queue expiry alerts
+   * Works in batches (all beta plans expire on the same day); stops early
+   * when another instance holds the lock
+   */
+  async run(now: Date = new Date()): Promise<PlanExpiryRunResult> {
+    const result: PlanExpiryRunResult = { expired: 0, alertsQueued: 0 };
+
+    for (;;) {
+      const expired = await this.expireBatch(now);
+      if (expired === null) return result;
+
+      result.expired += expired;
+      if (expired < BATCH_SIZE) break;
+    }
+
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.queueAlertBatch(now, cursor);
+      if (batch === null) return result;
+
+      result.alertsQueued += batch.queued;
+      if (!batch.lastPlanId) break;
+      cursor = batch.lastPlanId;
+    }
+
+    return result;
+  }
+
+  /**
+   * Expire one batch of plans whose grace period is over
+   * Trials have no grace period and revert to FREE/DEFAULT instead
+   * @returns Number of expired plans, null when the lock is taken
+   */
+  private async expireBatch(now: Date): Promise<number | null> {
+    const gracePeriodCutoff = new Date(now.getTime() - GRACE_PERIOD_DAYS * DAY_MS);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.tryLock(tx))) return null;
+
+      const plans = await tx.userPlan.findMany({
+        where: {
+          status: PlanStatus.ACTIVE,
+          OR: [
+            { source: PlanSource.TRIAL, expiresAt: { lt: now } },
+            { source: { not: PlanSource.TRIAL }, expiresAt: { lt: gracePeriodCutoff } },
+          ],
+        },
+        select: { id: true, source: true },
+        take: BATCH_SIZE,
+      });
+
+      if (plans.length === 0) return 0;
+
+      const trialIds = plans.filter((plan) => plan.source === PlanSource.TRIAL).map((plan) => plan.id);
+      const expiredIds = plans.filter((plan) => plan.source !== PlanSource.TRIAL).map((plan) => plan.id);
+
+      await tx.userPlan.updateMany({
+        where: { id: { in: trialIds } },
+        data: {
+          type: PlanType.FREE,
+          source: PlanSource.DEFAULT,
+          expiresAt: null,
+        },
+      });
+
+      await tx.userPlan.updateMany({
+        where: { id: { in: expiredIds } },
+        data: { status: PlanStatus.EXPIRED },
+      });
+
+      await tx.planTransition.createMany({
+        data: [
+          ...trialIds.map((planId) => ({
+            planId,
+            fromStatus: PlanStatus.ACTIVE,
+            toStatus: PlanStatus.ACTIVE,
+            reason: 'trial_ended',
+          })),
+          ...expiredIds.map((planId) => ({
+            planId,
+            fromStatus: PlanStatus.ACTIVE,
+            toStatus: PlanStatus.EXPIRED,
+            reason: 'grace_period_ended',
+          })),
+        ],
+      });
+
+      return plans.length;
+    });
+  }
+
+  /**
+   * Queue alerts for one batch of Premium plans expiring soon (id order)
+   * Existing alerts are skipped by the (planId, expiresAt) unique constraint
+   * @returns Queued alerts and the cursor of the next batch, null when the lock is taken
+   */
+  private async queueAlertBatch(
+    now: Date,
+    cursor: string | undefined
+  ): Promise<{ queued: number; lastPlanId: string | null } | null> {
+    const alertHorizon = new Date(now.getTime() + EXPIRY_ALERT_DAYS * DAY_MS);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await this.tryLock(tx))) return null;
+
+      const plans = await tx.userPlan.findMany({
+        where: {
+          type: PlanType.PREMIUM,
+          status: PlanStatus.ACTIVE,
+          source: { not: PlanSource.TRIAL },
+          expiresAt: { gt: now, lte: alertHorizon },
+          ...(cursor ? { id: { gt: cursor } } : {}),
+        },
+        select: { id: true, expiresAt: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      const { count } = await tx.planExpiryAlert.createMany({
+        data: plans.map((plan) => ({
+          planId: plan.id,
+          expiresAt: plan.expiresAt as Date,
+        })),
+        skipDuplicates: true,
+      });
+
+      return {
+        queued: count,
+        lastPlanId: plans.length === BATCH_SIZE ? plans[plans.length - 1].id : null,
+      };
+    });
+  }
+
+  /**
+   * Transaction-scoped advisory lock (released on commit/rollback)
+   */
+  private async tryLock(tx: Prisma.TransactionClient): Promise<boolean> {
+    const [{ locked }] = await tx.$queryRaw<Array<{ locked: boolean }>>`
+      SELECT pg_try_advisory_xact_lock(${PLAN_EXPIRY_LOCK_KEY}) AS locked
+    `;
+    return locked;
+  }
+
+  /**
+   * Timer entry point: never overlaps and never throws
+   */
+  private async runSafely(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const { expired, alertsQueued } = await this.run();
+      if (expired > 0 || alertsQueued > 0) {
+        this.logger.log(`Plan expiry job: ${expired} plan(s) expired, ${alertsQueued} alert(s) queued`);
+      }
+    } catch (error) {
+      this.logger.error('Plan expiry job failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
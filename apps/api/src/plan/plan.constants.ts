@@ -21,6 +21,21 @@ export const BETA_PREMIUM_EXPIRES = new Date('2026-12-31T23:59:59.999Z');
  */
 export const GRACE_PERIOD_DAYS = 3;
 
+/**
+ * Free Trial
+ * One Premium trial per account, no grace period at the end:
+ * the plan reverts to FREE/DEFAULT as soon as it expires.
+ */
+export const TRIAL_DURATION_DAYS = 14;
+
+/**
+ * Expiry Job
+ * Plans past their grace period are flipped to EXPIRED (trials revert to FREE),
+ * and an alert is queued EXPIRY_ALERT_DAYS before a Premium plan expires.
+ */
+export const EXPIRY_ALERT_DAYS = 7;
+export const PLAN_EXPIRY_JOB_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
 /**
  * Plan Labels for UI
  * Maps plan type + source combinations to user-friendly labels.
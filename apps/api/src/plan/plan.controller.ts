@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { PlanService } from './plan.service';
+import { UserPlanDto, TrialEligibilityDto, PlanExpiryAlertDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('plans')
+@Controller('plans')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PlanController {
+  constructor(private readonly planService: PlanService) {}
+
+  @Get('me/trial')
+  @ApiOperation({ summary: 'Check whether the current user can start the free trial' })
+  @ApiResponse({
+    status: 200,
+    description: 'Trial eligibility',
+    type: TrialEligibilityDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getTrialEligibility(
+    @CurrentUser('id') userId: string,
+  ): Promise<TrialEligibilityDto> {
+    return this.planService.getTrialEligibility(userId);
+  }
+
+  @Post('me/trial')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start the one-time free Premium trial' })
+  @ApiResponse({
+    status: 200,
+    description: 'Trial started',
+    type: UserPlanDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 409, description: 'Trial already used, Premium already active or concurrent trial request' })
+  async startTrial(
+    @CurrentUser('id') userId: string,
+  ): Promise<UserPlanDto> {
+    return this.planService.startTrial(userId);
+  }
+
+  @Get('me/expiry-alerts')
+  @ApiOperation({ summary: 'Get the pending "Premium expires soon" alerts of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending alerts',
+    type: [PlanExpiryAlertDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getExpiryAlerts(
+    @CurrentUser('id') userId: string,
+  ): Promise<PlanExpiryAlertDto[]> {
+    return this.planService.getExpiryAlerts(userId);
+  }
+
+  @Post('me/expiry-alerts/:alertId/acknowledge')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Mark an expiry alert as seen' })
+  @ApiParam({ name: 'alertId', description: 'Alert UUID' })
+  @ApiResponse({ status: 204, description: 'Alert acknowledged' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async acknowledgeExpiryAlert(
+    @CurrentUser('id') userId: string,
+    @Param('alertId', ParseUUIDPipe) alertId: string,
+  ): Promise<void> {
+    return this.planService.acknowledgeExpiryAlert(userId, alertId);
+  }
+}
@@ -1,14 +1,20 @@
 import { Module } from '@nestjs/common';
 import { PlanService } from './plan.service';
+import { PlanExpiryService } from './plan-expiry.service';
+import { SubscriptionWebhookController } from './subscription-webhook.controller';
+import { SubscriptionWebhookService } from './subscription-webhook.service';
 
 /**
  * Plan Module
  *
  * Provides plan management services for user subscriptions.
  * Plan data is served via UserDto through AuthService.
+ * PlanExpiryService runs the scheduled plan expiry job.
+ * Subscription webhooks (Stripe) keep SUBSCRIPTION plans in sync.
  */
 @Module({
-  providers: [PlanService],
+  controllers: [SubscriptionWebhookController],
+  providers: [PlanService, PlanExpiryService, SubscriptionWebhookService],
   exports: [PlanService],
 })
 export class PlanModule {}
\ No newline at end of file
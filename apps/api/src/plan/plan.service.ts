@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
 import {
   PlanType,
   PlanSource,
@@ -6,9 +6,11 @@ import {
   UserPlan,
 } from '@cigar-platform/prisma-client';
 import { PrismaService } from '../app/prisma.service';
-import { UserPlanDto } from './dto';
+import { Prisma } from '../../../../generated/prisma';
+import { UserPlanDto, TrialEligibilityDto, PlanExpiryAlertDto } from './dto';
 import {
   BETA_PREMIUM_EXPIRES,
+  TRIAL_DURATION_DAYS,
   isBetaPeriod,
   isWithinGracePeriod,
   getPlanLabel,
@@ -22,6 +24,8 @@ import {
  * - Grace period handling
  * - Premium access calculation
  * - Plan lifecycle management
+ * - One-time free trial
+ * - Expiry alerts (queued by PlanExpiryService, delivered in the web app)
  */
 @Injectable()
 export class PlanService {
@@ -100,6 +104,7 @@ export class PlanService {
 
   /**
    * Gift a Premium plan to a user (admin action)
+   * A plan following a Stripe subscription is detached from it
    */
   async giftPremium(
     userId: string,
@@ -107,64 +112,238 @@ export class PlanService {
     giftedBy: string,
     giftReason?: string
   ): Promise<UserPlanDto> {
-    const plan = await this.prisma.userPlan.upsert({
-      where: { userId },
-      update: {
-        type: PlanType.PREMIUM,
-        source: PlanSource.GIFT,
-        status: PlanStatus.ACTIVE,
-        startedAt: new Date(),
-        expiresAt,
-        giftedBy,
-        giftReason: giftReason ?? 'Gift from admin',
-      },
-      create: {
-        userId,
-        type: PlanType.PREMIUM,
-        source: PlanSource.GIFT,
-        status: PlanStatus.ACTIVE,
-        expiresAt,
-        giftedBy,
-        giftReason: giftReason ?? 'Gift from admin',
-      },
-    });
+    const data = {
+      type: PlanType.PREMIUM,
+      source: PlanSource.GIFT,
+      status: PlanStatus.ACTIVE,
+      expiresAt,
+      subscriptionId: null,
+      giftedBy,
+      giftReason: giftReason ?? 'Gift from admin',
+    };
 
-    return this.mapToDto(plan);
+    return this.applyAdminChange(userId, 'admin_gift', (tx) =>
+      tx.userPlan.upsert({
+        where: { userId },
+        update: { ...data, startedAt: new Date() },
+        create: { userId, ...data },
+      })
+    );
   }
 
   /**
    * Upgrade a user to LIFETIME Premium (admin action)
+   * A plan following a Stripe subscription is detached from it
    */
   async upgradeToPremiumLifetime(
     userId: string,
     giftedBy: string,
     giftReason?: string
   ): Promise<UserPlanDto> {
-    const plan = await this.prisma.userPlan.upsert({
-      where: { userId },
-      update: {
-        type: PlanType.PREMIUM,
-        source: PlanSource.LIFETIME,
-        status: PlanStatus.ACTIVE,
-        startedAt: new Date(),
-        expiresAt: null, // Never expires
-        giftedBy,
-        giftReason: giftReason ?? 'Lifetime access',
-      },
-      create: {
-        userId,
-        type: PlanType.PREMIUM,
-        source: PlanSource.LIFETIME,
-        status: PlanStatus.ACTIVE,
-        expiresAt: null,
-        giftedBy,
-        giftReason: giftReason ?? 'Lifetime access',
-      },
+    const data = {
+      type: PlanType.PREMIUM,
+      source: PlanSource.LIFETIME,
+      status: PlanStatus.ACTIVE,
+      expiresAt: null, // Never expires
+      subscriptionId: null,
+      giftedBy,
+      giftReason: giftReason ?? 'Lifetime access',
+    };
+
+    return this.applyAdminChange(userId, 'admin_lifetime', (tx) =>
+      tx.userPlan.upsert({
+        where: { userId },
+        update: { ...data, startedAt: new Date() },
+        create: { userId, ...data },
+      })
+    );
+  }
+
+  /**
+   * Extend a Premium plan to a new expiration date (admin action)
+   * Keeps the plan source (BETA stays BETA, GIFT stays GIFT...)
+   */
+  async extendPremium(
+    userId: string,
+    expiresAt: Date,
+    extendedBy: string
+  ): Promise<UserPlanDto> {
+    return this.applyAdminChange(userId, 'admin_extend', (tx) =>
+      tx.userPlan.update({
+        where: { userId },
+        data: {
+          status: PlanStatus.ACTIVE,
+          expiresAt,
+          giftedBy: extendedBy,
+        },
+      })
+    );
+  }
+
+  /**
+   * Revoke Premium access (admin action)
+   * The plan is cancelled but keeps its type/source for the record
+   */
+  async revokePremium(userId: string, reason?: string): Promise<UserPlanDto> {
+    return this.applyAdminChange(userId, 'admin_revoke', (tx) =>
+      tx.userPlan.update({
+        where: { userId },
+        data: {
+          status: PlanStatus.CANCELLED,
+          giftReason: reason,
+        },
+      })
+    );
+  }
+
+  /**
+   * Check whether a user can start the free trial
+   * One trial per account (checked against plan history), FREE users only
+   */
+  async getTrialEligibility(userId: string): Promise<TrialEligibilityDto> {
+    return this.checkTrialEligibility(this.prisma, userId);
+  }
+
+  /**
+   * Start the one-time free trial (PREMIUM/TRIAL for TRIAL_DURATION_DAYS)
+   * The expiry job reverts it to FREE/DEFAULT once expired
+   */
+  async startTrial(userId: string): Promise<UserPlanDto> {
+    let plan: UserPlan;
+    try {
+      plan = await this.startTrialTransaction(userId);
+    } catch (error) {
+      // Lost the race against a concurrent request (serialization failure or plan created meanwhile)
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === 'P2034' || error.code === 'P2002')
+      ) {
+        throw new ConflictException('A free trial request is already being processed');
+      }
+      throw error;
+    }
+
+    return this.mapToDto(plan);
+  }
+
+  /**
+   * Pending expiry alerts of a user (oldest first)
+   * Alerts about an expiration that no longer applies (plan extended, renewed or ended) are left out
+   */
+  async getExpiryAlerts(userId: string): Promise<PlanExpiryAlertDto[]> {
+    const plan = await this.prisma.userPlan.findUnique({ where: { userId } });
+    if (!plan?.expiresAt || !this.isPremium(plan) || plan.expiresAt <= new Date()) {
+      return [];
+    }
+
+    const alerts = await this.prisma.planExpiryAlert.findMany({
+      where: { planId: plan.id, expiresAt: plan.expiresAt, sentAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return alerts.map((alert) => ({
+      id: alert.id,
+      expiresAt: alert.expiresAt,
+      daysRemaining: this.getDaysRemaining(alert.expiresAt) ?? 0,
+    }));
+  }
+
+  /**
+   * Mark an expiry alert as delivered (the user has seen it)
+   * Idempotent for alerts already acknowledged
+   */
+  async acknowledgeExpiryAlert(userId: string, alertId: string): Promise<void> {
+    const alert = await this.prisma.planExpiryAlert.findFirst({
+      where: { id: alertId, plan: { userId } },
+      select: { id: true, sentAt: true },
+    });
+
+    if (!alert) {
+      throw new NotFoundException(`Expiry alert "${alertId}" not found`);
+    }
+
+    if (alert.sentAt) return;
+
+    await this.prisma.planExpiryAlert.update({
+      where: { id: alertId },
+      data: { sentAt: new Date() },
+    });
+  }
+
+  /**
+   * Apply an admin change to a plan and record its status transition (same transaction)
+   */
+  private async applyAdminChange(
+    userId: string,
+    reason: string,
+    change: (tx: Prisma.TransactionClient) => Promise<UserPlan>
+  ): Promise<UserPlanDto> {
+    const plan = await this.prisma.$transaction(async (tx) => {
+      const previous = await tx.userPlan.findUnique({ where: { userId } });
+      const updated = await change(tx);
+
+      await tx.planTransition.create({
+        data: {
+          planId: updated.id,
+          fromStatus: previous?.status ?? PlanStatus.ACTIVE,
+          toStatus: updated.status,
+          reason,
+        },
+      });
+
+      return updated;
     });
 
     return this.mapToDto(plan);
   }
 
+  private startTrialTransaction(userId: string): Promise<UserPlan> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const eligibility = await this.checkTrialEligibility(tx, userId);
+
+        if (eligibility.reason === 'ALREADY_USED') {
+          throw new ConflictException('Free trial already used');
+        }
+
+        if (eligibility.reason === 'ALREADY_PREMIUM') {
+          throw new ConflictException('Premium access is already active');
+        }
+
+        const previous = await tx.userPlan.findUnique({ where: { userId } });
+        const expiresAt = new Date(Date.now() + TRIAL_DURATION_DAYS * 24 * 60 * 60 * 1000);
+        const data = {
+          type: PlanType.PREMIUM,
+          source: PlanSource.TRIAL,
+          status: PlanStatus.ACTIVE,
+          startedAt: new Date(),
+          expiresAt,
+          giftedBy: null,
+          giftReason: null,
+        };
+
+        const trialPlan = await tx.userPlan.upsert({
+          where: { userId },
+          update: data,
+          create: { userId, ...data },
+        });
+
+        await tx.planTransition.create({
+          data: {
+            planId: trialPlan.id,
+            fromStatus: previous?.status ?? PlanStatus.ACTIVE,
+            toStatus: PlanStatus.ACTIVE,
+            reason: 'trial_started',
+          },
+        });
+
+        return trialPlan;
+      },
+      // Two concurrent requests must not both pass the eligibility check
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  }
+
   /**
    * Check if a user has Premium access
    * Considers plan type, status, expiration, and grace period
@@ -182,8 +361,8 @@ export class PlanService {
     // Not expired yet
     if (plan.expiresAt > now) return true;
 
-    // Check grace period
-    return isWithinGracePeriod(plan.expiresAt);
+    // Check grace period (trials end without one)
+    return plan.source !== PlanSource.TRIAL && isWithinGracePeriod(plan.expiresAt);
   }
 
   /**
@@ -215,7 +394,7 @@ export class PlanService {
     const isPremium = this.isPremium(plan);
     const daysRemaining = this.getDaysRemaining(plan.expiresAt);
     const isExpiringSoon = this.isExpiringSoon(plan.expiresAt);
-    const isInGracePeriod = isWithinGracePeriod(plan.expiresAt);
+    const isInGracePeriod = plan.source !== PlanSource.TRIAL && isWithinGracePeriod(plan.expiresAt);
 
     // Determine effective label
     // If expired and not in grace period, show as "Découverte"
@@ -240,6 +419,27 @@ export class PlanService {
     };
   }
 
+  private async checkTrialEligibility(
+    client: Prisma.TransactionClient,
+    userId: string
+  ): Promise<TrialEligibilityDto> {
+    const [plan, trialsStarted] = await Promise.all([
+      client.userPlan.findUnique({ where: { userId } }),
+      client.planTransition.count({
+        where: { plan: { userId }, reason: 'trial_started' },
+      }),
+    ]);
+
+    const reason =
+      trialsStarted > 0 || plan?.source === PlanSource.TRIAL
+        ? 'ALREADY_USED'
+        : this.isPremium(plan)
+          ? 'ALREADY_PREMIUM'
+          : null;
+
+    return { eligible: reason === null, durationDays: TRIAL_DURATION_DAYS, reason };
+  }
+
   /**
    * Create a default FREE plan DTO (for users without a plan in DB)
    */
@@ -0,0 +1,36 @@
+import {
+  Controller,
+  Post,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Request } from 'express';
+import {
+  SubscriptionWebhookService,
+  WebhookReceipt,
+} from './subscription-webhook.service';
+
+/**
+ * Payment provider webhooks (server-to-server, authenticated by signature)
+ * Excluded from Swagger: not part of the client API
+ */
+@ApiExcludeController()
+@SkipThrottle()
+@Controller('webhooks')
+export class SubscriptionWebhookController {
+  constructor(private readonly webhookService: SubscriptionWebhookService) {}
+
+  @Post('stripe')
+  @HttpCode(HttpStatus.OK)
+  async handleStripe(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string | undefined,
+  ): Promise<WebhookReceipt> {
+    return this.webhookService.handle(req.rawBody, signature);
+  }
+}
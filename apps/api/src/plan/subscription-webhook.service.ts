@@ -0,0 +1,288 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PlanType,
+  PlanSource,
+  PlanStatus,
+  UserPlan,
+} from '@cigar-platform/prisma-client';
+import { PrismaService } from '../app/prisma.service';
+import { Prisma } from '../../../../generated/prisma';
+import { verifyWebhookSignature } from '../common/utils/webhook-signature.util';
+import {
+  STRIPE_EVENT_TYPES,
+  STRIPE_ACTIVE_SUBSCRIPTION_STATUSES,
+  StripeEvent,
+  StripeSubscription,
+  StripeInvoice,
+} from './types/stripe-webhook.type';
+
+export interface WebhookReceipt {
+  received: true;
+  duplicate: boolean;
+}
+
+/**
+ * Subscription Webhook Service
+ *
+ * Maps Stripe subscription events onto UserPlan (source SUBSCRIPTION):
+ * - customer.subscription.created → PREMIUM ACTIVE until the period end (active or trialing only)
+ * - invoice.paid → renewal, expiresAt moved to the new period end
+ * - customer.subscription.deleted → CANCELLED
+ * - invoice.payment_failed → recorded, access kept until expiresAt + grace period
+ *
+ * Every event is stored by ID in the same transaction as its effects,
+ * so provider retries are acknowledged without being applied twice.
+ * Stripe does not guarantee event order: an invoice of an unknown subscription
+ * starts it from the invoice metadata, or is rejected (rolled back, not stored)
+ * so that Stripe retries it after customer.subscription.created.
+ */
+@Injectable()
+export class SubscriptionWebhookService {
+  private readonly logger = new Logger(SubscriptionWebhookService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Verify, deduplicate and apply a webhook payload
+   */
+  async handle(rawBody: Buffer | undefined, signature: string | undefined): Promise<WebhookReceipt> {
+    const secret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET');
+    if (!secret) {
+      throw new ServiceUnavailableException('Subscription webhooks are not configured');
+    }
+
+    if (!rawBody || !signature || !verifyWebhookSignature(rawBody, signature, secret)) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    let event: StripeEvent;
+    try {
+      event = JSON.parse(rawBody.toString());
+    } catch {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.webhookEvent.create({
+          data: { id: event.id, type: event.type },
+        });
+
+        await this.apply(tx, event);
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.log(`Webhook event ${event.id} already processed`);
+        return { received: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    return { received: true, duplicate: false };
+  }
+
+  private async apply(tx: Prisma.TransactionClient, event: StripeEvent): Promise<void> {
+    switch (event.type) {
+      case STRIPE_EVENT_TYPES.SUBSCRIPTION_CREATED:
+        return this.onSubscriptionCreated(tx, event.data.object as StripeSubscription);
+
+      case STRIPE_EVENT_TYPES.INVOICE_PAID:
+        return this.onInvoicePaid(tx, event.data.object as StripeInvoice);
+
+      case STRIPE_EVENT_TYPES.SUBSCRIPTION_DELETED:
+        return this.onSubscriptionDeleted(tx, event.data.object as StripeSubscription);
+
+      case STRIPE_EVENT_TYPES.INVOICE_PAYMENT_FAILED:
+        return this.onPaymentFailed(tx, event.data.object as StripeInvoice);
+
+      default:
+        // Stored anyway so the endpoint can subscribe to more events without side effects
+        this.logger.debug(`Ignoring webhook event type ${event.type}`);
+    }
+  }
+
+  private async onSubscriptionCreated(
+    tx: Prisma.TransactionClient,
+    subscription: StripeSubscription
+  ): Promise<void> {
+    if (!STRIPE_ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+      // Incomplete: the first paid invoice starts it
+      this.logger.log(`Subscription ${subscription.id} created with status ${subscription.status}, waiting for payment`);
+      return;
+    }
+
+    const userId = await this.findUserId(tx, subscription.metadata?.userId);
+    if (!userId) {
+      // Rolled back like an unknown invoice user: Stripe retries and the event is not lost
+      throw new ConflictException(
+        `Subscription ${subscription.id} has no known user (metadata.userId: ${subscription.metadata?.userId ?? 'missing'})`
+      );
+    }
+
+    await this.startSubscription(tx, userId, subscription.id, subscription.current_period_end);
+  }
+
+  private async onInvoicePaid(tx: Prisma.TransactionClient, invoice: StripeInvoice): Promise<void> {
+    if (!invoice.subscription) return;
+
+    const periodEnd = Math.max(...(invoice.lines?.data ?? []).map((line) => line.period.end));
+    if (!Number.isFinite(periodEnd)) {
+      this.logger.warn(`Invoice ${invoice.id} has no billing period`);
+      return;
+    }
+
+    const plan = await this.findSubscriptionPlan(tx, invoice.subscription);
+    if (!plan) {
+      // Paid before customer.subscription.created was received (or while incomplete)
+      const userId = await this.findInvoiceUserId(tx, invoice);
+      await this.startSubscription(tx, userId, invoice.subscription, periodEnd);
+      return;
+    }
+
+    const updated = await tx.userPlan.update({
+      where: { id: plan.id },
+      data: {
+        type: PlanType.PREMIUM,
+        source: PlanSource.SUBSCRIPTION,
+        status: PlanStatus.ACTIVE,
+        expiresAt: this.toDate(periodEnd),
+      },
+    });
+
+    await this.recordTransition(tx, updated, plan.status, 'subscription_renewed');
+  }
+
+  private async onSubscriptionDeleted(
+    tx: Prisma.TransactionClient,
+    subscription: StripeSubscription
+  ): Promise<void> {
+    const plan = await this.findSubscriptionPlan(tx, subscription.id);
+    if (!plan) return;
+
+    const updated = await tx.userPlan.update({
+      where: { id: plan.id },
+      data: { status: PlanStatus.CANCELLED },
+    });
+
+    await this.recordTransition(tx, updated, plan.status, 'subscription_cancelled');
+    this.logger.log(`Subscription ${subscription.id} cancelled for user ${plan.userId}`);
+  }
+
+  private async onPaymentFailed(tx: Prisma.TransactionClient, invoice: StripeInvoice): Promise<void> {
+    if (!invoice.subscription) return;
+
+    const plan = await this.findSubscriptionPlan(tx, invoice.subscription);
+    if (!plan) {
+      // First payment of an incomplete subscription: no access to keep,
+      // but an unknown user means the event arrived too early
+      await this.findInvoiceUserId(tx, invoice);
+      this.logger.warn(`Payment failed for subscription ${invoice.subscription} before it started`);
+      return;
+    }
+
+    // No status change: the grace period covers retries, the expiry job ends access
+    await this.recordTransition(tx, plan, plan.status, 'payment_failed');
+    this.logger.warn(`Payment failed for subscription ${invoice.subscription} (user ${plan.userId})`);
+  }
+
+  /**
+   * Grant PREMIUM ACTIVE for a subscription until the period end
+   * No-op when the plan already follows this subscription (created and paid events both start it)
+   */
+  private async startSubscription(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    subscriptionId: string,
+    periodEnd: number
+  ): Promise<void> {
+    const previous = await tx.userPlan.findUnique({ where: { userId } });
+    if (previous?.subscriptionId === subscriptionId) return;
+
+    const data = {
+      type: PlanType.PREMIUM,
+      source: PlanSource.SUBSCRIPTION,
+      status: PlanStatus.ACTIVE,
+      startedAt: new Date(),
+      expiresAt: this.toDate(periodEnd),
+      subscriptionId,
+      giftedBy: null,
+      giftReason: null,
+    };
+
+    const plan = await tx.userPlan.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+
+    await this.recordTransition(tx, plan, previous?.status ?? PlanStatus.ACTIVE, 'subscription_created');
+    this.logger.log(`Subscription ${subscriptionId} started for user ${userId}`);
+  }
+
+  private async findSubscriptionPlan(
+    tx: Prisma.TransactionClient,
+    subscriptionId: string
+  ): Promise<UserPlan | null> {
+    const plan = await tx.userPlan.findFirst({ where: { subscriptionId } });
+    if (!plan) {
+      this.logger.warn(`No plan linked to subscription ${subscriptionId}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * User of an invoice whose subscription is not linked yet (subscription metadata copied on the invoice)
+   * Throws when it cannot be resolved: the event is rolled back and Stripe retries it later
+   */
+  private async findInvoiceUserId(tx: Prisma.TransactionClient, invoice: StripeInvoice): Promise<string> {
+    const userId = await this.findUserId(tx, invoice.subscription_details?.metadata?.userId);
+    if (!userId) {
+      throw new ConflictException(
+        `Subscription ${invoice.subscription} of invoice ${invoice.id} is not known yet, retry later`
+      );
+    }
+
+    return userId;
+  }
+
+  private async findUserId(tx: Prisma.TransactionClient, userId: string | undefined): Promise<string | null> {
+    if (!userId) return null;
+
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { id: true } });
+    return user?.id ?? null;
+  }
+
+  private async recordTransition(
+    tx: Prisma.TransactionClient,
+    plan: UserPlan,
+    fromStatus: PlanStatus,
+    reason: string
+  ): Promise<void> {
+    await tx.planTransition.create({
+      data: {
+        planId: plan.id,
+        fromStatus,
+        toStatus: plan.status,
+        reason,
+      },
+    });
+  }
+
+  private toDate(unixSeconds: number): Date {
+    return new Date(unixSeconds * 1000);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Stripe webhook payloads
+ * Only the fields used to map subscriptions onto UserPlan are typed
+ */
+
+/**
+ * Handled event types
+ * - created: subscription started (checkout completed)
+ * - renewed: invoice paid for a new billing period
+ * - cancelled: subscription ended
+ * - payment_failed: renewal payment failed (grace period starts)
+ */
+export const STRIPE_EVENT_TYPES = {
+  SUBSCRIPTION_CREATED: 'customer.subscription.created',
+  SUBSCRIPTION_DELETED: 'customer.subscription.deleted',
+  INVOICE_PAID: 'invoice.paid',
+  INVOICE_PAYMENT_FAILED: 'invoice.payment_failed',
+} as const;
+
+/**
+ * Subscription statuses granting Premium on creation
+ * Incomplete subscriptions are granted by their first paid invoice instead
+ */
+export const STRIPE_ACTIVE_SUBSCRIPTION_STATUSES: readonly string[] = ['active', 'trialing'];
+
+export interface StripeEvent<T = unknown> {
+  id: string; // evt_...
+  type: string;
+  created: number;
+  data: {
+    object: T;
+  };
+}
+
+export interface StripeSubscription {
+  id: string; // sub_...
+  status: string; // incomplete, incomplete_expired, trialing, active, past_due, ...
+  current_period_end: number; // Unix timestamp
+  metadata: {
+    userId?: string; // Set when creating the checkout session
+  };
+}
+
+export interface StripeInvoice {
+  id: string; // in_...
+  subscription: string | null;
+  billing_reason: string | null;
+  subscription_details?: {
+    metadata: {
+      userId?: string; // Copied from the subscription metadata
+    } | null;
+  } | null;
+  lines?: {
+    data?: Array<{
+      period: {
+        start: number;
+        end: number;
+      };
+    }>;
+  };
+}
@@ -7,14 +7,15 @@ import {
   ClubSearchItemDto,
   UserSearchItemDto,
 } from './dto';
-import { ClubVisibility, UserVisibility } from '@cigar-platform/prisma-client';
+import { UserVisibility } from '@cigar-platform/prisma-client';
+import { clubDirectoryWhere } from '../common/utils/club-directory.util';
 
 /**
  * Omnisearch Service - "Machine de Guerre"
  *
  * Features:
  * - Prefix-based search (@ for users, # for clubs, default global)
- * - Visibility filtering (PRIVATE users show only @username, PRIVATE clubs excluded)
+ * - Visibility filtering (PRIVATE users show only @username, clubs limited to the public directory)
  * - Performance optimized (<100ms target with Promise.all)
  * - Max 8 results per category
  * - Case-insensitive contains search
@@ -123,11 +124,12 @@ export class SearchService {
   }
 
   /**
-   * Search clubs only (#slug)
+   * Search clubs only (#slug) - public directory only
    */
   private async searchClubs(query: string): Promise<SearchResultDto> {
     const clubs = await this.prisma.club.findMany({
       where: {
+        ...clubDirectoryWhere(),
         OR: [
           { slug: { contains: query, mode: 'insensitive' } },
           { name: { contains: query, mode: 'insensitive' } },
@@ -279,13 +281,13 @@ export class SearchService {
   }
 
   /**
-   * Search clubs (global - PUBLIC only)
+   * Search clubs (global - public directory only)
    */
   private async searchClubsGlobal(query: string): Promise<ClubSearchItemDto[]> {
     const clubs = await this.prisma.club.findMany({
       where: {
         AND: [
-          { visibility: ClubVisibility.PUBLIC }, // Only PUBLIC clubs in global search
+          clubDirectoryWhere(),
           {
             OR: [
               { name: { contains: query, mode: 'insensitive' } },
@@ -0,0 +1,61 @@
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsUUID,
+  Min,
+  Max,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TastingVisibility } from '@cigar-platform/prisma-client';
+import { IsSecureText } from '../../common/validators/safe-text.validator';
+
+/**
+ * DTO for amending a completed tasting (within the amendment window)
+ * Omitted fields are left unchanged
+ */
+export class AmendTastingDto {
+  @IsNumber()
+  @IsOptional()
+  @Min(0.5)
+  @Max(5)
+  @ApiPropertyOptional({
+    description: 'Rating from 0.5 to 5 (by steps of 0.5)',
+    example: 4,
+    minimum: 0.5,
+    maximum: 5,
+  })
+  rating?: number;
+
+  @IsString()
+  @IsOptional()
+  @IsSecureText()
+  @ApiPropertyOptional({
+    description: 'Global comment about the tasting',
+    example: 'Excellent cigare, très équilibré avec des notes de cèdre et de café.',
+  })
+  comment?: string;
+
+  @IsEnum(TastingVisibility)
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Tasting visibility',
+    enum: TastingVisibility,
+    example: TastingVisibility.CLUB_ONLY,
+  })
+  visibility?: TastingVisibility;
+
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @ArrayMaxSize(20)
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Clubs the tasting is shared with (replaces the current list, member clubs only)',
+    type: [String],
+    example: ['550e8400-e29b-41d4-a716-446655440000'],
+  })
+  clubIds?: string[];
+}
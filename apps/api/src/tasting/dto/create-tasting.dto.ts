@@ -4,12 +4,12 @@ import {
   IsUUID,
   IsOptional,
   IsEnum,
-  IsUrl,
   IsInt,
   Min,
   Max,
+  ValidateIf,
 } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiPropertyOptional } from '@nestjs/swagger';
 import {
   TastingMoment,
   TastingSituation,
@@ -24,13 +24,15 @@ import { IsSecureText } from '../../common/validators/safe-text.validator';
  * Tasting starts in DRAFT status
  */
 export class CreateTastingDto {
+  @ValidateIf((dto: CreateTastingDto) => !dto.eventId || dto.cigarId !== undefined)
   @IsUUID()
   @IsNotEmpty()
-  @ApiProperty({
-    description: 'UUID of the cigar being tasted',
+  @ApiPropertyOptional({
+    description:
+      'UUID of the cigar being tasted (optional with an eventId: blind-tasting events impose their secret cigar)',
     example: '550e8400-e29b-41d4-a716-446655440000',
   })
-  cigarId: string;
+  cigarId?: string;
 
   @IsUUID()
   @IsOptional()
@@ -95,15 +97,6 @@ export class CreateTastingDto {
   })
   location?: string;
 
-  @IsString()
-  @IsOptional()
-  @IsUrl()
-  @ApiPropertyOptional({
-    description: 'Photo URL',
-    example: 'https://example.com/tasting-photo.jpg',
-  })
-  photoUrl?: string;
-
   @IsInt()
   @IsOptional()
   @Min(1)
@@ -0,0 +1,148 @@
+import {
+  IsOptional,
+  IsInt,
+  IsNumber,
+  Min,
+  Max,
+  IsString,
+  IsIn,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  TastingMoment,
+  TastingSituation,
+  PairingType,
+} from '@cigar-platform/prisma-client';
+import { AROMAS } from '@cigar-platform/shared/constants';
+import { FilterTastingDto } from './filter-tasting.dto';
+
+const AROMA_IDS = AROMAS.map((aroma) => aroma.id);
+
+/**
+ * DTO for filtering and searching the current user's tasting journal
+ * All filters are combined (AND)
+ */
+export class FilterMyTastingsDto extends FilterTastingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Search in the comment and observation notes (case insensitive)',
+    example: 'cèdre',
+    maxLength: 100,
+  })
+  search?: string;
+
+  @IsOptional()
+  @IsUUID()
+  @ApiPropertyOptional({
+    description: 'Filter by cigar brand ID',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  brandId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @ApiPropertyOptional({
+    description: 'Filter by origin (cigar origin, or brand country when unknown)',
+    example: 'Cuba',
+  })
+  origin?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Filter by cigar strength (1 = light, 5 = full)',
+    minimum: 1,
+    maximum: 5,
+    example: 3,
+  })
+  strength?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(5)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Minimum rating (inclusive)',
+    minimum: 0.5,
+    maximum: 5,
+    example: 3.5,
+  })
+  minRating?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(5)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Maximum rating (inclusive)',
+    minimum: 0.5,
+    maximum: 5,
+    example: 5,
+  })
+  maxRating?: number;
+
+  @IsOptional()
+  @IsDateString()
+  @ApiPropertyOptional({
+    description: 'Tastings on or after this date (ISO 8601)',
+    example: '2026-01-01',
+  })
+  dateFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  @ApiPropertyOptional({
+    description: 'Tastings on or before this date (ISO 8601, a bare date includes the whole day)',
+    example: '2026-12-31',
+  })
+  dateTo?: string;
+
+  @IsOptional()
+  @IsEnum(PairingType)
+  @ApiPropertyOptional({
+    description: 'Filter by pairing',
+    enum: PairingType,
+    example: PairingType.WHISKY,
+  })
+  pairing?: PairingType;
+
+  @IsOptional()
+  @IsEnum(TastingMoment)
+  @ApiPropertyOptional({
+    description: 'Filter by moment of the day',
+    enum: TastingMoment,
+    example: TastingMoment.SOIR,
+  })
+  moment?: TastingMoment;
+
+  @IsOptional()
+  @IsEnum(TastingSituation)
+  @ApiPropertyOptional({
+    description: 'Filter by situation',
+    enum: TastingSituation,
+    example: TastingSituation.DIGESTIF,
+  })
+  situation?: TastingSituation;
+
+  @IsOptional()
+  @IsIn(AROMA_IDS)
+  @ApiPropertyOptional({
+    description: 'Filter by aroma detected in at least one observation',
+    enum: AROMA_IDS,
+    example: 'woody',
+  })
+  aroma?: string;
+}
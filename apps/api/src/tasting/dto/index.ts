@@ -3,6 +3,12 @@ export * from './update-tasting.dto';
 export * from './complete-tasting.dto';
 export * from './tasting-response.dto';
 export * from './filter-tasting.dto';
+export * from './filter-my-tastings.dto';
 export * from './paginated-tasting-response.dto';
 export * from './observation-response.dto';
 export * from './tasting-club.dto';
+export * from './tasting-photo.dto';
+export * from './amend-tasting.dto';
+export * from './tasting-revision-response.dto';
+export * from './update-tasting-sharing.dto';
+export * from './tasting-feed.dto';
@@ -0,0 +1,88 @@
+import { Expose, Type } from 'class-transformer';
+import { IsOptional, IsInt, IsString, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TastingResponseDto } from './tasting-response.dto';
+
+/**
+ * DTO for paging through the community feed
+ */
+export class FilterTastingFeedDto {
+  @IsOptional()
+  @IsString()
+  @ApiPropertyOptional({
+    description: 'Opaque cursor returned as nextCursor by the previous page (omit for the first page)',
+    example: 'MjAyNi0wMS0xOVQyMDowMDowMC4wMDBafDU1MGU4NDAwLWUyOWItNDFkNC1hNzE2LTQ0NjY1NTQ0MDAwMA',
+  })
+  cursor?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+    maximum: 50,
+    example: 20,
+  })
+  limit?: number = 20;
+}
+
+/**
+ * Tasting Author DTO
+ * Public author info (displayName is hidden for PRIVATE profiles)
+ */
+export class TastingAuthorDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'aficionado' })
+  username: string;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: 'Jean Dupont',
+    description: 'Null when the author profile is PRIVATE',
+  })
+  displayName: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: String, nullable: true, example: 'https://...' })
+  avatarUrl: string | null;
+}
+
+/**
+ * Feed Tasting DTO
+ * Tasting with its author
+ */
+export class FeedTastingResponseDto extends TastingResponseDto {
+  @Expose()
+  @ApiProperty({ type: TastingAuthorDto, description: 'Author of the tasting' })
+  @Type(() => TastingAuthorDto)
+  author: TastingAuthorDto;
+}
+
+/**
+ * Tasting Feed Response DTO
+ * Cursor-paginated page of the community feed
+ */
+export class TastingFeedResponseDto {
+  @ApiProperty({
+    type: [FeedTastingResponseDto],
+    description: 'Tastings, newest first',
+  })
+  data: FeedTastingResponseDto[];
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page (null on the last page)',
+  })
+  nextCursor: string | null;
+}
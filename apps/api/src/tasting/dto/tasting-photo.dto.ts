@@ -0,0 +1,34 @@
+import { Expose } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { TastingPhotoKind } from '@cigar-platform/prisma-client';
+
+/**
+ * Tasting Photo DTO
+ * Gallery photo attached to a tasting (band, foot, ash)
+ */
+export class TastingPhotoDto {
+  @Expose()
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ enum: TastingPhotoKind, example: TastingPhotoKind.BAND })
+  kind: TastingPhotoKind;
+
+  @Expose()
+  @ApiProperty({ example: 'https://...supabase.co/storage/v1/object/public/cigars/...' })
+  url: string;
+
+  @Expose()
+  @ApiProperty({ example: '2024-12-31T21:15:00.000Z' })
+  createdAt: Date;
+}
+
+/**
+ * Tasting cover photo upload response
+ */
+export class TastingCoverPhotoDto {
+  @Expose()
+  @ApiProperty({ example: 'https://...supabase.co/storage/v1/object/public/feed/...' })
+  photoUrl: string;
+}
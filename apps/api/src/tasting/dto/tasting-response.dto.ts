@@ -10,6 +10,7 @@ import {
 import { CigarResponseDto } from '../../cigar/dto/cigar-response.dto';
 import { ObservationResponseDto } from './observation-response.dto';
 import { TastingClubDto } from './tasting-club.dto';
+import { TastingPhotoDto } from './tasting-photo.dto';
 
 /**
  * Tasting Response DTO
@@ -25,13 +26,28 @@ export class TastingResponseDto {
   userId: string;
 
   @Expose()
-  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440002' })
-  cigarId: string;
+  @ApiPropertyOptional({
+    type: String,
+    example: '550e8400-e29b-41d4-a716-446655440002',
+    description: 'Null while the cigar of a blind-tasting event is hidden',
+  })
+  cigarId: string | null;
 
   @Expose()
   @Type(() => CigarResponseDto)
-  @ApiProperty({ type: CigarResponseDto })
-  cigar: CigarResponseDto;
+  @ApiPropertyOptional({
+    type: CigarResponseDto,
+    nullable: true,
+    description: 'Null while the cigar of a blind-tasting event is hidden',
+  })
+  cigar: CigarResponseDto | null;
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: 'True when the tasting belongs to a blind-tasting event whose cigar is not revealed yet',
+  })
+  cigarHidden: boolean;
 
   @Expose()
   @ApiPropertyOptional({ type: String, example: '550e8400-e29b-41d4-a716-446655440003' })
@@ -97,6 +113,18 @@ export class TastingResponseDto {
   @ApiProperty({ example: '2024-12-31T21:15:00.000Z' })
   updatedAt: Date;
 
+  @Expose()
+  @ApiPropertyOptional({ type: Date, example: '2024-12-31T21:15:00.000Z' })
+  completedAt: Date | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: Date,
+    example: '2025-01-01T21:15:00.000Z',
+    description: 'End of the amendment window (null while DRAFT)',
+  })
+  amendableUntil: Date | null;
+
   // Observations (chronic tasting data)
   @Expose()
   @Type(() => ObservationResponseDto)
@@ -114,4 +142,29 @@ export class TastingResponseDto {
     description: 'Clubs this tasting is shared with',
   })
   clubs: TastingClubDto[];
+
+  // Gallery photos (band, foot, ash)
+  @Expose()
+  @Type(() => TastingPhotoDto)
+  @ApiProperty({
+    type: [TastingPhotoDto],
+    description: 'Gallery photos (one per kind)',
+  })
+  photos: TastingPhotoDto[];
+
+  // Engagement
+  @Expose()
+  @ApiProperty({ example: 12, description: 'Number of likes' })
+  likeCount: number;
+
+  @Expose()
+  @ApiProperty({ example: 3, description: 'Number of comments' })
+  commentCount: number;
+
+  @Expose()
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Whether the current user liked this tasting (GET /tastings/:id only)',
+  })
+  likedByMe?: boolean;
 }
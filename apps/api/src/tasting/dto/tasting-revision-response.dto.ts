@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A single field modified by an amendment
+ * clubIds changes hold the full list of club IDs before and after
+ */
+export class TastingFieldChangeDto {
+  @ApiProperty({ example: 'rating' })
+  field: string;
+
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'array', items: { type: 'string' } }],
+    example: 4.5,
+    nullable: true,
+  })
+  from: string | number | string[] | null;
+
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'array', items: { type: 'string' } }],
+    example: 4,
+    nullable: true,
+  })
+  to: string | number | string[] | null;
+}
+
+/**
+ * Completed tasting amendment (revision history)
+ */
+export class TastingRevisionResponseDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ type: [TastingFieldChangeDto] })
+  changes: TastingFieldChangeDto[];
+
+  @ApiProperty({ example: '2024-12-31T21:15:00.000Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsUUID,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TastingVisibility } from '@cigar-platform/prisma-client';
+
+/**
+ * DTO for changing who can see a tasting (any status, author only)
+ * Omitted fields are left unchanged
+ */
+export class UpdateTastingSharingDto {
+  @IsEnum(TastingVisibility)
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Tasting visibility',
+    enum: TastingVisibility,
+    example: TastingVisibility.CLUB_ONLY,
+  })
+  visibility?: TastingVisibility;
+
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @ArrayMaxSize(20)
+  @IsOptional()
+  @ApiPropertyOptional({
+    description:
+      'Clubs the tasting is shared with (replaces the current list, an empty list un-shares it everywhere). Added clubs must be joined',
+    type: [String],
+    example: ['550e8400-e29b-41d4-a716-446655440000'],
+  })
+  clubIds?: string[];
+}
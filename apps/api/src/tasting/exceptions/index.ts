@@ -1,3 +1,4 @@
 export * from './tasting-not-found.exception';
 export * from './tasting-already-completed.exception';
 export * from './tasting-forbidden.exception';
+export * from './tasting-amendment-window-closed.exception';
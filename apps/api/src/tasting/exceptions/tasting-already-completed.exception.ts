@@ -3,7 +3,7 @@ import { BadRequestException } from '@nestjs/common';
 export class TastingAlreadyCompletedException extends BadRequestException {
   constructor(tastingId: string) {
     super(
-      `Tasting "${tastingId}" is already completed and cannot be modified. Completed tastings are immutable.`
+      `Tasting "${tastingId}" is already completed and cannot be modified. Use the amendment endpoint while the amendment window is open.`
     );
   }
 }
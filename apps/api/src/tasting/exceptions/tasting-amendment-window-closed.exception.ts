@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class TastingAmendmentWindowClosedException extends BadRequestException {
+  constructor(tastingId: string, windowHours: number) {
+    super(
+      `Tasting "${tastingId}" can no longer be amended: the amendment window closes ${windowHours}h after completion.`
+    );
+  }
+}
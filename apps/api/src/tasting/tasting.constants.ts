@@ -0,0 +1,11 @@
+/**
+ * Tasting Constants
+ */
+
+/**
+ * Amendment Window
+ * Hours after completion during which the author can still fix rating,
+ * comment, visibility and shared clubs (every change is stored as a revision).
+ * Override with TASTING_AMENDMENT_WINDOW_HOURS.
+ */
+export const DEFAULT_AMENDMENT_WINDOW_HOURS = 24;
@@ -10,14 +10,24 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  ParseEnumPipe,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
+import sharp from 'sharp';
+import { TastingPhotoKind } from '@cigar-platform/prisma-client';
+import { MAX_IMAGE_SIZE, ALLOWED_IMAGE_MIMES } from '../common/config/image-presets.config';
 import { TastingService } from './tasting.service';
 import {
   CreateTastingDto,
@@ -25,10 +35,55 @@ import {
   CompleteTastingDto,
   TastingResponseDto,
   FilterTastingDto,
+  FilterMyTastingsDto,
   PaginatedTastingResponseDto,
+  TastingPhotoDto,
+  TastingCoverPhotoDto,
+  UpdateTastingSharingDto,
+  FilterTastingFeedDto,
+  TastingFeedResponseDto,
+  AmendTastingDto,
+  TastingRevisionResponseDto,
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+/**
+ * Multer options shared by the photo endpoints (size and format checked before processing)
+ */
+const PHOTO_UPLOAD_OPTIONS = {
+  limits: { fileSize: MAX_IMAGE_SIZE },
+  fileFilter: (
+    req: unknown,
+    file: { mimetype: string },
+    cb: (error: Error | null, acceptFile: boolean) => void
+  ) => {
+    if (!(ALLOWED_IMAGE_MIMES as readonly string[]).includes(file.mimetype)) {
+      return cb(
+        new BadRequestException(
+          'Invalid file type. Only JPEG, PNG, and WebP are allowed.'
+        ),
+        false
+      );
+    }
+    cb(null, true);
+  },
+};
+
+const PHOTO_UPLOAD_BODY = {
+  description: 'Photo file',
+  schema: {
+    type: 'object',
+    properties: {
+      photo: {
+        type: 'string',
+        format: 'binary',
+        description: 'Image file (JPEG, PNG, WebP, max 5MB)',
+      },
+    },
+  },
+};
 
 @ApiTags('tastings')
 @Controller('tastings')
@@ -56,23 +111,67 @@ export class TastingController {
   }
 
   @Get('me')
-  @ApiOperation({ summary: 'Get my tastings (paginated)' })
+  @ApiOperation({ summary: 'Get my tastings (paginated, with journal filters and search)' })
   @ApiResponse({
     status: 200,
     description: 'User tastings retrieved successfully',
     type: PaginatedTastingResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filters (e.g. inverted rating or date range)',
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized',
   })
   async findMine(
-    @Query() filter: FilterTastingDto,
+    @Query() filter: FilterMyTastingsDto,
     @CurrentUser('id') userId: string
   ): Promise<PaginatedTastingResponseDto> {
     return this.tastingService.findMine(userId, filter);
   }
 
+  @Get('feed')
+  @Public()
+  @ApiOperation({
+    summary: 'Get the community feed of public tastings (cursor-paginated, newest first)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Feed page retrieved successfully',
+    type: TastingFeedResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid cursor',
+  })
+  async getFeed(
+    @Query() filter: FilterTastingFeedDto
+  ): Promise<TastingFeedResponseDto> {
+    return this.tastingService.getFeed(filter);
+  }
+
+  @Get('feed/following')
+  @ApiOperation({
+    summary: 'Get the feed of tastings from followed users (cursor-paginated, newest first)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Feed page retrieved successfully',
+    type: TastingFeedResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid cursor',
+  })
+  async getFollowingFeed(
+    @Query() filter: FilterTastingFeedDto,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingFeedResponseDto> {
+    return this.tastingService.getFollowingFeed(userId, filter);
+  }
+
   @Get('cigar/:cigarId')
   @ApiOperation({ summary: 'Get tastings for a cigar (paginated)' })
   @ApiParam({
@@ -228,6 +327,109 @@ export class TastingController {
     return this.tastingService.complete(id, completeTastingDto, userId);
   }
 
+  @Patch(':id/amend')
+  @ApiOperation({
+    summary: 'Amend a completed tasting within the amendment window (author only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasting amended, changes recorded as a revision',
+    type: TastingResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Tasting not completed or amendment window closed',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (not the author, or club not joined)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasting not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async amend(
+    @Param('id') id: string,
+    @Body() amendTastingDto: AmendTastingDto,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingResponseDto> {
+    return this.tastingService.amend(id, amendTastingDto, userId);
+  }
+
+  @Patch(':id/sharing')
+  @ApiOperation({
+    summary: 'Change the visibility and shared clubs of a tasting (author only, any status)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sharing updated successfully',
+    type: TastingResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (not the author, or club not joined)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasting not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async updateSharing(
+    @Param('id') id: string,
+    @Body() updateTastingSharingDto: UpdateTastingSharingDto,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingResponseDto> {
+    return this.tastingService.updateSharing(id, updateTastingSharingDto, userId);
+  }
+
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'Get the amendment history of a tasting (author only)' })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions retrieved successfully (newest first)',
+    type: [TastingRevisionResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (not the author)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasting not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+  })
+  async getRevisions(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string
+  ): Promise<TastingRevisionResponseDto[]> {
+    return this.tastingService.getRevisions(id, userId);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete tasting (author only)' })
@@ -258,4 +460,128 @@ export class TastingController {
   ): Promise<void> {
     return this.tastingService.remove(id, userId);
   }
+
+  /**
+   * Upload tasting photo
+   * POST /tastings/:id/photo
+   *
+   * - Max size: 5MB
+   * - Formats: JPEG, PNG, WebP
+   * - Auto-resize: 1080x1080 (feed preset), EXIF stripped
+   * - Auto-delete: Old photo removed
+   * - Only the author can upload
+   */
+  @Post(':id/photo')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('photo', PHOTO_UPLOAD_OPTIONS))
+  @ApiOperation({ summary: 'Upload tasting photo (author only)' })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(PHOTO_UPLOAD_BODY)
+  @ApiResponse({
+    status: 200,
+    description: 'Photo uploaded successfully',
+    type: TastingCoverPhotoDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file or file too large' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden (not the author)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async uploadPhoto(
+    @Param('id') id: string,
+    @UploadedFile() file: { buffer: Buffer; size: number; mimetype: string },
+    @CurrentUser('id') userId: string
+  ): Promise<TastingCoverPhotoDto> {
+    await this.assertValidImage(file);
+    const photoUrl = await this.tastingService.uploadPhoto(id, userId, file.buffer);
+    return { photoUrl };
+  }
+
+  /**
+   * Add or replace a gallery photo
+   * POST /tastings/:id/photos/:kind
+   *
+   * - One photo per kind (BAND, FOOT, ASH), re-upload replaces
+   * - Auto-resize: 600x600 (cigar preset), EXIF stripped
+   */
+  @Post(':id/photos/:kind')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('photo', PHOTO_UPLOAD_OPTIONS))
+  @ApiOperation({ summary: 'Add or replace a gallery photo (author only)' })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({ name: 'kind', enum: TastingPhotoKind })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(PHOTO_UPLOAD_BODY)
+  @ApiResponse({
+    status: 200,
+    description: 'Gallery photo uploaded successfully',
+    type: TastingPhotoDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file, file too large or unknown kind' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden (not the author)' })
+  @ApiResponse({ status: 404, description: 'Tasting not found' })
+  async uploadGalleryPhoto(
+    @Param('id') id: string,
+    @Param('kind', new ParseEnumPipe(TastingPhotoKind)) kind: TastingPhotoKind,
+    @UploadedFile() file: { buffer: Buffer; size: number; mimetype: string },
+    @CurrentUser('id') userId: string
+  ): Promise<TastingPhotoDto> {
+    await this.assertValidImage(file);
+    return this.tastingService.uploadGalleryPhoto(id, kind, userId, file.buffer);
+  }
+
+  @Delete(':id/photos/:kind')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a gallery photo (author only)' })
+  @ApiParam({
+    name: 'id',
+    description: 'Tasting UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({ name: 'kind', enum: TastingPhotoKind })
+  @ApiResponse({ status: 204, description: 'Gallery photo removed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden (not the author)' })
+  @ApiResponse({ status: 404, description: 'Tasting or photo not found' })
+  async removeGalleryPhoto(
+    @Param('id') id: string,
+    @Param('kind', new ParseEnumPipe(TastingPhotoKind)) kind: TastingPhotoKind,
+    @CurrentUser('id') userId: string
+  ): Promise<void> {
+    return this.tastingService.removeGalleryPhoto(id, kind, userId);
+  }
+
+  /**
+   * Reject missing, oversized or undecodable uploads before they reach storage
+   */
+  private async assertValidImage(
+    file: { buffer: Buffer; size: number } | undefined
+  ): Promise<void> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    if (file.size > MAX_IMAGE_SIZE) {
+      throw new BadRequestException(
+        `File too large. Maximum size is ${MAX_IMAGE_SIZE / 1024 / 1024}MB`
+      );
+    }
+
+    const metadata = await sharp(file.buffer)
+      .metadata()
+      .catch(() => null);
+
+    if (!metadata?.width || !metadata?.height) {
+      throw new BadRequestException('Invalid image file');
+    }
+  }
 }
@@ -4,11 +4,14 @@ import { TastingController } from './tasting.controller';
 import { ObservationService } from '../observation/observation.service';
 import { ObservationController } from '../observation/observation.controller';
 import { AuthModule } from '../auth/auth.module';
+import { EventModule } from '../event/event.module';
+import { CigarModule } from '../cigar/cigar.module';
+import { StorageService } from '../common/services/storage.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, EventModule, CigarModule],
   controllers: [TastingController, ObservationController],
-  providers: [TastingService, ObservationService],
+  providers: [TastingService, ObservationService, StorageService],
   exports: [TastingService, ObservationService],
 })
 export class TastingModule {}
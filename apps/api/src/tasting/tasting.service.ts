@@ -1,24 +1,69 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../app/prisma.service';
-import { Tasting, Prisma, TastingStatus } from '../../../../generated/prisma';
+import {
+  Tasting,
+  Prisma,
+  TastingStatus,
+  TastingPhoto,
+  TastingPhotoKind,
+  TastingVisibility,
+  UserVisibility,
+  FollowStatus,
+} from '../../../../generated/prisma';
 import {
   CreateTastingDto,
   UpdateTastingDto,
   CompleteTastingDto,
   TastingResponseDto,
   FilterTastingDto,
+  FilterMyTastingsDto,
   PaginatedTastingResponseDto,
+  TastingPhotoDto,
+  AmendTastingDto,
+  TastingFieldChangeDto,
+  TastingRevisionResponseDto,
+  UpdateTastingSharingDto,
+  FilterTastingFeedDto,
+  TastingFeedResponseDto,
+  FeedTastingResponseDto,
 } from './dto';
 import { PaginationMetaDto } from '../common/dto/paginated-response.dto';
 import {
   TastingNotFoundException,
   TastingAlreadyCompletedException,
   TastingForbiddenException,
+  TastingAmendmentWindowClosedException,
 } from './exceptions';
+import { DEFAULT_AMENDMENT_WINDOW_HOURS } from './tasting.constants';
+import { EventService } from '../event/event.service';
+import { ClubArchivedException } from '../club/exceptions';
+import { StorageService } from '../common/services/storage.service';
+import { CigarStatsService } from '../cigar/cigar-stats.service';
+import {
+  CIGAR_REVEAL_SELECT,
+  isCigarRevealed,
+  unrevealedCigarEventWhere,
+} from '../common/utils/cigar-reveal.util';
+import { encodeCursor, decodeCursor, cursorWhere } from '../common/utils/cursor.util';
+
+/**
+ * Like and comment counts (TastingResponseDto.likeCount / commentCount)
+ */
+const ENGAGEMENT_COUNT = {
+  select: { likes: true, comments: true },
+};
 
 /**
  * Common include for tasting queries
- * Includes cigar with brand, observations, and associated clubs
+ * Includes cigar with brand, event reveal state, observations, associated clubs, gallery photos
+ * and like/comment counts
  */
 const TASTING_INCLUDE = {
   cigar: {
@@ -26,6 +71,9 @@ const TASTING_INCLUDE = {
       brand: true,
     },
   },
+  event: {
+    select: CIGAR_REVEAL_SELECT,
+  },
   observations: {
     orderBy: {
       createdAt: 'asc' as const,
@@ -42,13 +90,62 @@ const TASTING_INCLUDE = {
       },
     },
   },
+  photos: {
+    orderBy: {
+      kind: 'asc' as const,
+    },
+  },
+  _count: ENGAGEMENT_COUNT,
+};
+
+/**
+ * Include for feed queries
+ * Lighter than TASTING_INCLUDE (no observations or clubs) plus the author
+ */
+const FEED_INCLUDE = {
+  cigar: {
+    include: {
+      brand: true,
+    },
+  },
+  event: {
+    select: CIGAR_REVEAL_SELECT,
+  },
+  photos: {
+    orderBy: {
+      kind: 'asc' as const,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatarUrl: true,
+      visibility: true,
+    },
+  },
+  _count: ENGAGEMENT_COUNT,
 };
 
 @Injectable()
 export class TastingService {
   private readonly logger = new Logger(TastingService.name);
+  private readonly amendmentWindowHours: number;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventService: EventService,
+    private readonly storageService: StorageService,
+    private readonly cigarStatsService: CigarStatsService,
+    configService: ConfigService
+  ) {
+    const configuredHours = Number(configService.get<string>('TASTING_AMENDMENT_WINDOW_HOURS') || NaN);
+    this.amendmentWindowHours =
+      Number.isFinite(configuredHours) && configuredHours >= 0
+        ? configuredHours
+        : DEFAULT_AMENDMENT_WINDOW_HOURS;
+  }
 
   /**
    * Create a new tasting (DRAFT status)
@@ -61,12 +158,27 @@ export class TastingService {
     createTastingDto: CreateTastingDto,
     userId: string
   ): Promise<TastingResponseDto> {
+    // Linking to an event requires club membership and a non-cancelled event
+    // Blind-tasting events impose their secret cigar
+    const blindCigarId = createTastingDto.eventId
+      ? await this.eventService.assertCanLinkTasting(createTastingDto.eventId, userId)
+      : null;
+    const cigarId = blindCigarId ?? createTastingDto.cigarId;
+
+    if (!cigarId) {
+      throw new BadRequestException('cigarId is required');
+    }
+
+    if (createTastingDto.clubId) {
+      await this.assertClubMemberships(userId, [createTastingDto.clubId]);
+    }
+
     // Use transaction to create tasting and club association atomically
     const result = await this.prisma.$transaction(async (tx) => {
       const tasting = await tx.tasting.create({
         data: {
           userId,
-          cigarId: createTastingDto.cigarId,
+          cigarId,
           eventId: createTastingDto.eventId ?? null,
           status: TastingStatus.DRAFT,
           // Phase 1 - Quick (all optional)
@@ -75,7 +187,6 @@ export class TastingService {
           pairing: createTastingDto.pairing ?? null,
           pairingNote: createTastingDto.pairingNote ?? null,
           location: createTastingDto.location ?? null,
-          photoUrl: createTastingDto.photoUrl ?? null,
           duration: createTastingDto.duration ?? null,
           // Phase Finale (will be filled on complete)
           rating: 0, // Temporary value, will be set on complete
@@ -83,6 +194,9 @@ export class TastingService {
         },
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
         },
       });
 
@@ -129,7 +243,35 @@ export class TastingService {
     // Check visibility permissions
     await this.checkReadPermission(tasting, currentUserId);
 
-    return this.mapToResponse(tasting);
+    const like = currentUserId
+      ? await this.prisma.tastingLike.findUnique({
+          where: { tastingId_userId: { tastingId: id, userId: currentUserId } },
+          select: { id: true },
+        })
+      : null;
+
+    return { ...this.mapToResponse(tasting), likedByMe: !!like };
+  }
+
+  /**
+   * Get a tasting the current user is allowed to read (same rules as findOne)
+   * Used by likes and comments
+   * @param id - Tasting ID
+   * @param currentUserId - Current user ID
+   * @returns Tasting (without relations)
+   */
+  async findReadable(id: string, currentUserId: string): Promise<Tasting> {
+    const tasting = await this.prisma.tasting.findUnique({
+      where: { id },
+    });
+
+    if (!tasting) {
+      throw new TastingNotFoundException(id);
+    }
+
+    await this.checkReadPermission(tasting, currentUserId);
+
+    return tasting;
   }
 
   /**
@@ -149,6 +291,11 @@ export class TastingService {
     // Get existing tasting
     const existingTasting = await this.prisma.tasting.findUnique({
       where: { id },
+      include: {
+        event: {
+          select: { cigarId: true, cigarSecret: true },
+        },
+      },
     });
 
     if (!existingTasting) {
@@ -160,28 +307,42 @@ export class TastingService {
       throw new TastingForbiddenException('update');
     }
 
-    // Check if already completed (IMMUTABLE)
+    // Check if already completed (changes then go through amend())
     if (existingTasting.status === TastingStatus.COMPLETED) {
       throw new TastingAlreadyCompletedException(id);
     }
 
+    // Linking to an event requires club membership and a non-cancelled event
+    // Blind-tasting events impose their secret cigar
+    let blindCigarId: string | null = null;
+    if (
+      updateTastingDto.eventId &&
+      updateTastingDto.eventId !== existingTasting.eventId
+    ) {
+      blindCigarId = await this.eventService.assertCanLinkTasting(updateTastingDto.eventId, userId);
+    } else if (existingTasting.event?.cigarSecret) {
+      blindCigarId = existingTasting.event.cigarId;
+    }
+
     // Update tasting
     try {
       const tasting = await this.prisma.tasting.update({
         where: { id },
         data: {
-          cigarId: updateTastingDto.cigarId,
+          cigarId: blindCigarId ?? updateTastingDto.cigarId,
           eventId: updateTastingDto.eventId,
           moment: updateTastingDto.moment,
           situation: updateTastingDto.situation,
           pairing: updateTastingDto.pairing,
           pairingNote: updateTastingDto.pairingNote,
           location: updateTastingDto.location,
-          photoUrl: updateTastingDto.photoUrl,
           duration: updateTastingDto.duration,
         },
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
         },
       });
 
@@ -201,7 +362,7 @@ export class TastingService {
   /**
    * Complete tasting (DRAFT → COMPLETED)
    * Sets rating, comment, and visibility
-   * Tasting becomes IMMUTABLE after this
+   * Tasting can then only be amended during the amendment window
    * @param id - Tasting ID
    * @param completeTastingDto - Final data (rating, comment, visibility)
    * @param userId - Current user ID
@@ -248,15 +409,20 @@ export class TastingService {
           comment: completeTastingDto.comment ?? null,
           visibility: completeTastingDto.visibility ?? 'PUBLIC',
           duration,
+          completedAt: new Date(),
         },
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
         },
       });
 
       this.logger.log(
-        `Tasting completed: ${tasting.id} with rating ${tasting.rating}/5 (IMMUTABLE)`
+        `Tasting completed: ${tasting.id} with rating ${tasting.rating}/5`
       );
+      this.cigarStatsService.invalidate(tasting.cigarId);
       return this.mapToResponse(tasting);
     } catch (error) {
       if (
@@ -269,15 +435,241 @@ export class TastingService {
     }
   }
 
+  /**
+   * Amend a completed tasting (rating, comment, visibility, shared clubs)
+   * Only the author, only within the amendment window after completion
+   * Every effective change is stored as a revision in the same transaction
+   * @param id - Tasting ID
+   * @param amendTastingDto - Fields to change (omitted fields are kept)
+   * @param userId - Current user ID
+   * @returns Amended tasting
+   */
+  async amend(
+    id: string,
+    amendTastingDto: AmendTastingDto,
+    userId: string
+  ): Promise<TastingResponseDto> {
+    const existingTasting = await this.prisma.tasting.findUnique({
+      where: { id },
+      include: {
+        sharedClubs: { select: { clubId: true } },
+      },
+    });
+
+    if (!existingTasting) {
+      throw new TastingNotFoundException(id);
+    }
+
+    if (existingTasting.userId !== userId) {
+      throw new TastingForbiddenException('amend');
+    }
+
+    if (existingTasting.status !== TastingStatus.COMPLETED) {
+      throw new BadRequestException(
+        'Only completed tastings can be amended, drafts are edited with PATCH /tastings/:id'
+      );
+    }
+
+    const amendableUntil = this.getAmendableUntil(existingTasting);
+    if (!amendableUntil || amendableUntil < new Date()) {
+      throw new TastingAmendmentWindowClosedException(id, this.amendmentWindowHours);
+    }
+
+    const changes: TastingFieldChangeDto[] = [];
+    for (const field of ['rating', 'comment', 'visibility'] as const) {
+      const value = amendTastingDto[field];
+      if (value !== undefined && value !== existingTasting[field]) {
+        changes.push({ field, from: existingTasting[field], to: value });
+      }
+    }
+
+    const currentClubIds = existingTasting.sharedClubs.map((sc) => sc.clubId).sort();
+    const nextClubIds = amendTastingDto.clubIds
+      ? [...new Set(amendTastingDto.clubIds)].sort()
+      : currentClubIds;
+    const addedClubIds = nextClubIds.filter((clubId) => !currentClubIds.includes(clubId));
+    const removedClubIds = currentClubIds.filter((clubId) => !nextClubIds.includes(clubId));
+
+    if (addedClubIds.length > 0 || removedClubIds.length > 0) {
+      await this.assertClubMemberships(userId, addedClubIds);
+      changes.push({ field: 'clubIds', from: currentClubIds, to: nextClubIds });
+    }
+
+    if (changes.length === 0) {
+      return this.findOne(id, userId);
+    }
+
+    const tasting = await this.prisma.$transaction(async (tx) => {
+      await tx.tastingRevision.create({
+        data: {
+          tastingId: id,
+          changes: changes as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      if (removedClubIds.length > 0) {
+        await tx.tastingOnClub.deleteMany({
+          where: { tastingId: id, clubId: { in: removedClubIds } },
+        });
+      }
+
+      if (addedClubIds.length > 0) {
+        await tx.tastingOnClub.createMany({
+          data: addedClubIds.map((clubId) => ({ tastingId: id, clubId })),
+        });
+      }
+
+      return tx.tasting.update({
+        where: { id },
+        data: {
+          rating: amendTastingDto.rating,
+          comment: amendTastingDto.comment,
+          visibility: amendTastingDto.visibility,
+        },
+        include: TASTING_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Tasting amended: ${id} [${changes.map((change) => change.field).join(', ')}]`
+    );
+    this.cigarStatsService.invalidate(tasting.cigarId);
+    return this.mapToResponse(tasting);
+  }
+
+  /**
+   * Get the amendment history of a tasting (newest first, author only)
+   * @param id - Tasting ID
+   * @param userId - Current user ID
+   */
+  async getRevisions(
+    id: string,
+    userId: string
+  ): Promise<TastingRevisionResponseDto[]> {
+    const tasting = await this.prisma.tasting.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!tasting) {
+      throw new TastingNotFoundException(id);
+    }
+
+    if (tasting.userId !== userId) {
+      throw new TastingForbiddenException('view the history of');
+    }
+
+    const revisions = await this.prisma.tastingRevision.findMany({
+      where: { tastingId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return revisions.map((revision) => ({
+      id: revision.id,
+      changes: revision.changes as unknown as TastingFieldChangeDto[],
+      createdAt: revision.createdAt,
+    }));
+  }
+
+  /**
+   * Change the visibility and shared clubs of a tasting
+   * Author only, any status (DRAFT or COMPLETED), not subject to the amendment window
+   * Changes on COMPLETED tastings are recorded as a revision (same history as amend)
+   * Clubs can be removed freely, added clubs must be joined by the author
+   * @param id - Tasting ID
+   * @param updateTastingSharingDto - New visibility and/or full list of shared clubs
+   * @param userId - Current user ID
+   * @returns Updated tasting
+   */
+  async updateSharing(
+    id: string,
+    updateTastingSharingDto: UpdateTastingSharingDto,
+    userId: string
+  ): Promise<TastingResponseDto> {
+    const existingTasting = await this.prisma.tasting.findUnique({
+      where: { id },
+      include: {
+        sharedClubs: { select: { clubId: true } },
+      },
+    });
+
+    if (!existingTasting) {
+      throw new TastingNotFoundException(id);
+    }
+
+    if (existingTasting.userId !== userId) {
+      throw new TastingForbiddenException('change the sharing of');
+    }
+
+    const currentClubIds = existingTasting.sharedClubs.map((sc) => sc.clubId).sort();
+    const nextClubIds = updateTastingSharingDto.clubIds
+      ? [...new Set(updateTastingSharingDto.clubIds)].sort()
+      : currentClubIds;
+    const addedClubIds = nextClubIds.filter((clubId) => !currentClubIds.includes(clubId));
+    const removedClubIds = currentClubIds.filter((clubId) => !nextClubIds.includes(clubId));
+
+    await this.assertClubMemberships(userId, addedClubIds);
+
+    // Sharing changes after completion are part of the amendment history
+    const changes: TastingFieldChangeDto[] = [];
+    if (existingTasting.status === TastingStatus.COMPLETED) {
+      const { visibility } = updateTastingSharingDto;
+      if (visibility !== undefined && visibility !== existingTasting.visibility) {
+        changes.push({ field: 'visibility', from: existingTasting.visibility, to: visibility });
+      }
+      if (addedClubIds.length > 0 || removedClubIds.length > 0) {
+        changes.push({ field: 'clubIds', from: currentClubIds, to: nextClubIds });
+      }
+    }
+
+    const tasting = await this.prisma.$transaction(async (tx) => {
+      if (changes.length > 0) {
+        await tx.tastingRevision.create({
+          data: {
+            tastingId: id,
+            changes: changes as unknown as Prisma.InputJsonValue,
+          },
+        });
+      }
+
+      if (removedClubIds.length > 0) {
+        await tx.tastingOnClub.deleteMany({
+          where: { tastingId: id, clubId: { in: removedClubIds } },
+        });
+      }
+
+      if (addedClubIds.length > 0) {
+        await tx.tastingOnClub.createMany({
+          data: addedClubIds.map((clubId) => ({ tastingId: id, clubId })),
+        });
+      }
+
+      return tx.tasting.update({
+        where: { id },
+        data: {
+          visibility: updateTastingSharingDto.visibility,
+        },
+        include: TASTING_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Tasting sharing updated: ${id} (${tasting.visibility}, +${addedClubIds.length}/-${removedClubIds.length} clubs)`
+    );
+    this.cigarStatsService.invalidate(tasting.cigarId);
+    return this.mapToResponse(tasting);
+  }
+
   /**
    * Get current user's tastings (paginated)
+   * Supports journal filters (cigar, context, rating/date ranges, aroma) and text search
    * @param userId - User ID
-   * @param filter - Pagination and filters
+   * @param filter - Pagination, filters and search
    * @returns Paginated tastings
    */
   async findMine(
     userId: string,
-    filter: FilterTastingDto
+    filter: FilterMyTastingsDto
   ): Promise<PaginatedTastingResponseDto> {
     const {
       page = 1,
@@ -296,6 +688,7 @@ export class TastingService {
       ...(status && { status }),
       ...(cigarId && { cigarId }),
       ...(eventId && { eventId }),
+      ...this.buildJournalWhere(filter),
     };
 
     // Build orderBy clause
@@ -312,6 +705,10 @@ export class TastingService {
         take: limit,
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
+          _count: ENGAGEMENT_COUNT,
         },
       }),
       this.prisma.tasting.count({ where }),
@@ -327,6 +724,68 @@ export class TastingService {
     };
   }
 
+  /**
+   * Get the community feed (cursor-paginated, newest first)
+   * PUBLIC completed tastings of PUBLIC profiles sharing their evaluations publicly,
+   * blind tastings excluded until the reveal
+   * PRIVATE profiles only reach their accepted followers (following feed)
+   * @param filter - Cursor and page size
+   * @returns Tastings with their author and the cursor of the next page
+   */
+  async getFeed(filter: FilterTastingFeedDto): Promise<TastingFeedResponseDto> {
+    return this.findFeedPage(
+      {
+        status: TastingStatus.COMPLETED,
+        visibility: TastingVisibility.PUBLIC,
+        user: { shareEvaluationsPublicly: true, visibility: UserVisibility.PUBLIC },
+        NOT: { event: { is: unrevealedCigarEventWhere() } },
+      },
+      filter
+    );
+  }
+
+  /**
+   * Get the following feed (cursor-paginated, newest first)
+   * Completed tastings of accepted follows, each one honoring its visibility:
+   * - PUBLIC: when the author shares evaluations publicly (PRIVATE profiles included, the follow was approved)
+   * - CLUB_ONLY: when shared with a club both the viewer and the author belong to
+   * - PRIVATE: never
+   * @param userId - Current user ID
+   * @param filter - Cursor and page size
+   * @returns Tastings with their author and the cursor of the next page
+   */
+  async getFollowingFeed(userId: string, filter: FilterTastingFeedDto): Promise<TastingFeedResponseDto> {
+    const memberships = await this.prisma.clubMember.findMany({
+      where: { userId },
+      select: { clubId: true },
+    });
+
+    // CLUB_ONLY: one condition per club of the viewer, the author must still belong to that same club
+    const clubOnlyWhere: Prisma.TastingWhereInput[] = memberships.map(({ clubId }) => ({
+      visibility: TastingVisibility.CLUB_ONLY,
+      sharedClubs: { some: { clubId } },
+      user: { clubMemberships: { some: { clubId } } },
+    }));
+
+    return this.findFeedPage(
+      {
+        status: TastingStatus.COMPLETED,
+        user: {
+          followers: { some: { followerId: userId, status: FollowStatus.ACCEPTED } },
+        },
+        NOT: { event: { is: unrevealedCigarEventWhere() } },
+        OR: [
+          {
+            visibility: TastingVisibility.PUBLIC,
+            user: { shareEvaluationsPublicly: true },
+          },
+          ...clubOnlyWhere,
+        ],
+      },
+      filter
+    );
+  }
+
   /**
    * Get tastings for a cigar (paginated)
    * Only returns PUBLIC tastings or user's own tastings
@@ -350,9 +809,11 @@ export class TastingService {
     const skip = (page - 1) * limit;
 
     // Build where clause (PUBLIC tastings OR user's own tastings)
+    // Blind tastings stay out of the cigar page until the reveal
     const where: Prisma.TastingWhereInput = {
       cigarId,
       ...(status && { status }),
+      NOT: { event: { is: unrevealedCigarEventWhere() } },
       OR: [
         { visibility: 'PUBLIC' },
         ...(currentUserId ? [{ userId: currentUserId }] : []),
@@ -373,6 +834,10 @@ export class TastingService {
         take: limit,
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
+          _count: ENGAGEMENT_COUNT,
         },
       }),
       this.prisma.tasting.count({ where }),
@@ -391,6 +856,7 @@ export class TastingService {
   /**
    * Get tastings shared with a club (paginated)
    * Only accessible to club members
+   * Excludes PRIVATE tastings (except the user's own) and tastings of former members
    * @param clubId - Club ID
    * @param filter - Pagination and filters
    * @param currentUserId - Current user ID
@@ -426,6 +892,7 @@ export class TastingService {
     const skip = (page - 1) * limit;
 
     // Build where clause
+    // Authors who left the club no longer share with it, PRIVATE tastings stay with their author
     const where: Prisma.TastingWhereInput = {
       ...(status && { status }),
       ...(userId && { userId }),
@@ -434,6 +901,15 @@ export class TastingService {
           clubId,
         },
       },
+      user: {
+        clubMemberships: {
+          some: { clubId },
+        },
+      },
+      OR: [
+        { visibility: { not: 'PRIVATE' } },
+        { userId: currentUserId },
+      ],
     };
 
     // Build orderBy clause
@@ -450,6 +926,10 @@ export class TastingService {
         take: limit,
         include: {
           cigar: true,
+          event: {
+            select: CIGAR_REVEAL_SELECT,
+          },
+          _count: ENGAGEMENT_COUNT,
         },
       }),
       this.prisma.tasting.count({ where }),
@@ -486,6 +966,12 @@ export class TastingService {
       throw new TastingForbiddenException('delete');
     }
 
+    // Gallery rows cascade with the tasting, keep their URLs for storage cleanup
+    const photos = await this.prisma.tastingPhoto.findMany({
+      where: { tastingId: id },
+      select: { url: true },
+    });
+
     // Delete tasting
     try {
       await this.prisma.tasting.delete({
@@ -493,6 +979,7 @@ export class TastingService {
       });
 
       this.logger.log(`Tasting deleted: ${id}`);
+      this.cigarStatsService.invalidate(existingTasting.cigarId);
     } catch (error) {
       if (
         error instanceof Prisma.PrismaClientKnownRequestError &&
@@ -502,6 +989,241 @@ export class TastingService {
       }
       throw error;
     }
+
+    // Remove stored images once the tasting is gone (deleteImage never throws)
+    await Promise.all([
+      this.storageService.deleteEntityImage('feed', id, existingTasting.photoUrl),
+      ...photos.map((photo) => this.storageService.deleteEntityImage('cigar', id, photo.url)),
+    ]);
+  }
+
+  /**
+   * Upload the tasting cover photo (feed format)
+   * Replaces and deletes the previous photo
+   * Only the author can upload, in any status (photos are not part of the immutable tasting data)
+   * @param id - Tasting ID
+   * @param userId - Current user ID
+   * @param imageBuffer - Original image buffer
+   * @returns Public URL of the new photo
+   */
+  async uploadPhoto(
+    id: string,
+    userId: string,
+    imageBuffer: Buffer
+  ): Promise<string> {
+    const tasting = await this.findOwnedTasting(id, userId);
+
+    const photoUrl = await this.storageService.uploadImage(
+      'feed',
+      id,
+      imageBuffer
+    );
+
+    await this.prisma.tasting.update({
+      where: { id },
+      data: { photoUrl },
+    });
+
+    await this.storageService.deleteEntityImage('feed', id, tasting.photoUrl);
+
+    this.logger.log(`Photo updated for tasting ${id}`);
+    return photoUrl;
+  }
+
+  /**
+   * Add or replace a gallery photo (band, foot, ash)
+   * One photo per kind: a new upload replaces and deletes the previous one
+   * @param id - Tasting ID
+   * @param kind - Photo kind
+   * @param userId - Current user ID
+   * @param imageBuffer - Original image buffer
+   * @returns Gallery photo
+   */
+  async uploadGalleryPhoto(
+    id: string,
+    kind: TastingPhotoKind,
+    userId: string,
+    imageBuffer: Buffer
+  ): Promise<TastingPhotoDto> {
+    await this.findOwnedTasting(id, userId);
+
+    const previous = await this.prisma.tastingPhoto.findUnique({
+      where: { tastingId_kind: { tastingId: id, kind } },
+    });
+
+    const url = await this.storageService.uploadImage('cigar', id, imageBuffer, {
+      filename: `${kind.toLowerCase()}-${Date.now()}.jpg`,
+    });
+
+    const photo = await this.prisma.tastingPhoto.upsert({
+      where: { tastingId_kind: { tastingId: id, kind } },
+      update: { url, createdAt: new Date() },
+      create: { tastingId: id, kind, url },
+    });
+
+    await this.storageService.deleteEntityImage('cigar', id, previous?.url ?? null);
+
+    this.logger.log(`Gallery photo ${kind} updated for tasting ${id}`);
+    return this.mapPhotoToResponse(photo);
+  }
+
+  /**
+   * Remove a gallery photo
+   * @param id - Tasting ID
+   * @param kind - Photo kind
+   * @param userId - Current user ID
+   */
+  async removeGalleryPhoto(
+    id: string,
+    kind: TastingPhotoKind,
+    userId: string
+  ): Promise<void> {
+    await this.findOwnedTasting(id, userId);
+
+    const photo = await this.prisma.tastingPhoto.findUnique({
+      where: { tastingId_kind: { tastingId: id, kind } },
+    });
+
+    if (!photo) {
+      throw new NotFoundException(`No ${kind} photo on tasting "${id}"`);
+    }
+
+    await this.prisma.tastingPhoto.delete({ where: { id: photo.id } });
+    await this.storageService.deleteEntityImage('cigar', id, photo.url);
+
+    this.logger.log(`Gallery photo ${kind} removed from tasting ${id}`);
+  }
+
+  /**
+   * Load a tasting and check the current user is its author
+   * @throws TastingNotFoundException / TastingForbiddenException
+   */
+  private async findOwnedTasting(id: string, userId: string): Promise<Tasting> {
+    const tasting = await this.prisma.tasting.findUnique({
+      where: { id },
+    });
+
+    if (!tasting) {
+      throw new TastingNotFoundException(id);
+    }
+
+    if (tasting.userId !== userId) {
+      throw new TastingForbiddenException('edit the photos of');
+    }
+
+    return tasting;
+  }
+
+  /**
+   * Journal filters of GET /tastings/me
+   * @throws BadRequestException if a range is inverted
+   */
+  private buildJournalWhere(filter: FilterMyTastingsDto): Prisma.TastingWhereInput {
+    const {
+      search,
+      brandId,
+      origin,
+      strength,
+      minRating,
+      maxRating,
+      dateFrom,
+      dateTo,
+      pairing,
+      moment,
+      situation,
+      aroma,
+    } = filter;
+
+    if (minRating !== undefined && maxRating !== undefined && minRating > maxRating) {
+      throw new BadRequestException('minRating must be lower than or equal to maxRating');
+    }
+
+    if (dateFrom && dateTo && new Date(dateFrom) > new Date(dateTo)) {
+      throw new BadRequestException('dateFrom must be before dateTo');
+    }
+
+    // A bare date (YYYY-MM-DD) as upper bound includes the whole day
+    const dateToIsDay = !!dateTo && /^\d{4}-\d{2}-\d{2}$/.test(dateTo);
+    const dateToValue = dateTo ? new Date(dateTo) : undefined;
+    if (dateToValue && dateToIsDay) {
+      dateToValue.setUTCDate(dateToValue.getUTCDate() + 1);
+    }
+
+    const conditions: Prisma.TastingWhereInput[] = [];
+    const searchTerm = search?.trim();
+
+    if (searchTerm) {
+      conditions.push({
+        OR: [
+          { comment: { contains: searchTerm, mode: 'insensitive' } },
+          { observations: { some: { notes: { contains: searchTerm, mode: 'insensitive' } } } },
+        ],
+      });
+    }
+
+    // Cigars without a known origin fall back to their brand country
+    if (origin) {
+      conditions.push({
+        OR: [
+          { cigar: { origin: { equals: origin, mode: 'insensitive' } } },
+          { cigar: { origin: null, brand: { country: { equals: origin, mode: 'insensitive' } } } },
+        ],
+      });
+    }
+
+    // The cigar of an unrevealed blind event stays secret: cigar filters cannot be used to guess it
+    if (filter.cigarId || brandId || strength || origin) {
+      conditions.push({ NOT: { event: { is: unrevealedCigarEventWhere() } } });
+    }
+
+    return {
+      ...(conditions.length > 0 && { AND: conditions }),
+      ...((brandId || strength) && {
+        cigar: {
+          ...(brandId && { brandId }),
+          ...(strength && { strength }),
+        },
+      }),
+      ...((minRating !== undefined || maxRating !== undefined) && {
+        rating: {
+          ...(minRating !== undefined && { gte: minRating }),
+          ...(maxRating !== undefined && { lte: maxRating }),
+        },
+      }),
+      ...((dateFrom || dateToValue) && {
+        date: {
+          ...(dateFrom && { gte: new Date(dateFrom) }),
+          ...(dateToValue && (dateToIsDay ? { lt: dateToValue } : { lte: dateToValue })),
+        },
+      }),
+      ...(pairing && { pairing }),
+      ...(moment && { moment }),
+      ...(situation && { situation }),
+      ...(aroma && { observations: { some: { aromas: { has: aroma } } } }),
+    };
+  }
+
+  /**
+   * Check the user is a member of every given club, and that none is archived (read-only)
+   * @throws ForbiddenException if at least one club is not joined
+   * @throws ClubArchivedException if at least one club is archived
+   */
+  private async assertClubMemberships(userId: string, clubIds: string[]): Promise<void> {
+    if (clubIds.length === 0) return;
+
+    const memberships = await this.prisma.clubMember.findMany({
+      where: { userId, clubId: { in: clubIds } },
+      select: { clubId: true, club: { select: { isArchived: true } } },
+    });
+
+    if (memberships.length !== clubIds.length) {
+      throw new ForbiddenException('You can only share a tasting with clubs you are a member of');
+    }
+
+    const archived = memberships.find((membership) => membership.club.isArchived);
+    if (archived) {
+      throw new ClubArchivedException(archived.clubId);
+    }
   }
 
   /**
@@ -536,15 +1258,15 @@ export class TastingService {
       }
 
       // Check if user is a member of any club this tasting is shared with
+      // (and that the author still belongs to it)
       const sharedClub = await this.prisma.tastingOnClub.findFirst({
         where: {
           tastingId: tasting.id,
           club: {
-            members: {
-              some: {
-                userId: currentUserId,
-              },
-            },
+            AND: [
+              { members: { some: { userId: currentUserId } } },
+              { members: { some: { userId: tasting.userId } } },
+            ],
           },
         },
       });
@@ -555,6 +1277,14 @@ export class TastingService {
     }
   }
 
+  /**
+   * End of the amendment window (null while DRAFT)
+   */
+  private getAmendableUntil(tasting: Pick<Tasting, 'completedAt'>): Date | null {
+    if (!tasting.completedAt) return null;
+    return new Date(tasting.completedAt.getTime() + this.amendmentWindowHours * 60 * 60 * 1000);
+  }
+
   /**
    * Map Prisma entity to Response DTO
    * @param tasting - Prisma tasting entity (with relations)
@@ -578,11 +1308,19 @@ export class TastingService {
       slug: sc.club.slug,
     }));
 
+    const photos = (tasting.photos ?? []).map((photo: TastingPhoto) =>
+      this.mapPhotoToResponse(photo)
+    );
+
+    // Blind tasting: hide the cigar until the event reveals it
+    const cigarHidden = !isCigarRevealed(tasting.event);
+
     return {
       id: tasting.id,
       userId: tasting.userId,
-      cigarId: tasting.cigarId,
-      cigar: tasting.cigar,
+      cigarId: cigarHidden ? null : tasting.cigarId,
+      cigar: cigarHidden ? null : tasting.cigar,
+      cigarHidden,
       eventId: tasting.eventId,
       status: tasting.status,
       date: tasting.date,
@@ -598,8 +1336,80 @@ export class TastingService {
       visibility: tasting.visibility,
       createdAt: tasting.createdAt,
       updatedAt: tasting.updatedAt,
+      completedAt: tasting.completedAt,
+      amendableUntil: this.getAmendableUntil(tasting),
       observations,
       clubs,
+      photos,
+      likeCount: tasting._count?.likes ?? 0,
+      commentCount: tasting._count?.comments ?? 0,
+    };
+  }
+
+  /**
+   * Fetch one page of a feed, ordered by (date desc, id desc)
+   * @throws BadRequestException when the cursor can't be decoded
+   */
+  private async findFeedPage(
+    where: Prisma.TastingWhereInput,
+    filter: FilterTastingFeedDto
+  ): Promise<TastingFeedResponseDto> {
+    const { cursor, limit = 20 } = filter;
+
+    const position = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !position) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const tastings = await this.prisma.tasting.findMany({
+      where: {
+        ...where,
+        ...(position && { AND: [cursorWhere(position)] }),
+      },
+      // id breaks ties between tastings sharing the same date
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      include: FEED_INCLUDE,
+    });
+
+    const hasMore = tastings.length > limit;
+    const page = hasMore ? tastings.slice(0, limit) : tastings;
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map((tasting) => this.mapToFeedResponse(tasting)),
+      nextCursor: hasMore && last ? encodeCursor({ date: last.date, id: last.id }) : null,
+    };
+  }
+
+  /**
+   * Map a feed tasting with its author (displayName hidden for PRIVATE profiles)
+   */
+  private mapToFeedResponse(
+    tasting: Prisma.TastingGetPayload<{ include: typeof FEED_INCLUDE }>
+  ): FeedTastingResponseDto {
+    const { user } = tasting;
+
+    return {
+      ...this.mapToResponse(tasting),
+      author: {
+        id: user.id,
+        username: user.username,
+        displayName: user.visibility === UserVisibility.PUBLIC ? user.displayName : null,
+        avatarUrl: user.avatarUrl,
+      },
+    };
+  }
+
+  /**
+   * Map Prisma gallery photo to DTO
+   */
+  private mapPhotoToResponse(photo: TastingPhoto): TastingPhotoDto {
+    return {
+      id: photo.id,
+      kind: photo.kind,
+      url: photo.url,
+      createdAt: photo.createdAt,
     };
   }
 }
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FollowStatus } from '@cigar-platform/prisma-client';
+import { MemberUserDto } from '../../club/dto';
+
+/**
+ * Follow Status Response DTO
+ * Relationship between the current user and a profile
+ */
+export class FollowStatusResponseDto {
+  @ApiPropertyOptional({
+    enum: FollowStatus,
+    nullable: true,
+    example: FollowStatus.ACCEPTED,
+    description: 'Null when not following, PENDING while a PRIVATE profile has not accepted yet',
+  })
+  status: FollowStatus | null;
+}
+
+/**
+ * Follow Request Response DTO
+ * Pending follow request received by a PRIVATE profile
+ */
+export class FollowRequestResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '2024-12-20T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ type: MemberUserDto, description: 'User who asked to follow' })
+  follower: MemberUserDto;
+}
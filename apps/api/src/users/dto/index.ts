@@ -1,3 +1,4 @@
 export * from './update-profile.dto';
 export * from './user-public-profile.dto';
-export * from './profile-stats.dto';
\ No newline at end of file
+export * from './profile-stats.dto';
+export * from './follow.dto';
\ No newline at end of file
@@ -95,6 +95,14 @@ export class JournalTastingDto {
   })
   @Type(() => JournalTastingUserDto)
   user: JournalTastingUserDto | null;
+
+  @Expose()
+  @ApiProperty({ example: 12, description: 'Number of likes' })
+  likeCount: number;
+
+  @Expose()
+  @ApiProperty({ example: 3, description: 'Number of comments' })
+  commentCount: number;
 }
 
 /**
@@ -131,6 +139,16 @@ export class ClubParcoursStatsDto {
   @Expose()
   @ApiProperty({ example: 8, description: 'Number of events' })
   eventCount: number;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: Number,
+    example: 65,
+    description:
+      'Average share of members confirmed (RSVP YES) on past events, in percent (null if no past event)',
+    nullable: true,
+  })
+  participationRate: number | null;
 }
 
 /**
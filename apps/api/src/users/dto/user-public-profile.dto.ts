@@ -4,7 +4,7 @@ import { UserVisibility } from '@cigar-platform/prisma-client';
 
 /**
  * User Stats DTO
- * Statistics about user's cigar evaluations and clubs
+ * Statistics about user's cigar evaluations, clubs and follows
  */
 export class UserStatsDto {
   @Expose()
@@ -28,6 +28,20 @@ export class UserStatsDto {
     description: 'Total number of clubs the user is member of'
   })
   clubCount: number;
+
+  @Expose()
+  @ApiProperty({
+    example: 12,
+    description: 'Number of accepted followers'
+  })
+  followerCount: number;
+
+  @Expose()
+  @ApiProperty({
+    example: 8,
+    description: 'Number of accepted follows'
+  })
+  followingCount: number;
 }
 
 /**
@@ -74,7 +88,7 @@ export class UserPublicProfileDto {
   @Type(() => UserStatsDto)
   @ApiProperty({
     type: UserStatsDto,
-    description: 'User statistics (evaluations, clubs, favorite brand)'
+    description: 'User statistics (evaluations, clubs, favorite brand, follows)'
   })
   stats: UserStatsDto;
 }
\ No newline at end of file
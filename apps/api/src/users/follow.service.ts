@@ -0,0 +1,150 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../app/prisma.service';
+import { FollowStatus, UserVisibility } from '../../../../generated/prisma';
+import { UserNotFoundException } from '../common/exceptions';
+import { isUuid, normalizeUsername } from '../common/utils/identifier.util';
+import { FollowStatusResponseDto, FollowRequestResponseDto } from './dto/follow.dto';
+
+/**
+ * Service for the social graph (follow / unfollow)
+ * Following a PUBLIC profile is immediate, a PRIVATE profile has to accept the request
+ */
+@Injectable()
+export class FollowService {
+  private readonly logger = new Logger(FollowService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Follow a user
+   * Idempotent: following twice keeps the existing relationship
+   * @param followerId - ID of the current user
+   * @param identifier - User ID (UUID) or username of the profile to follow
+   * @returns Resulting follow status (PENDING for PRIVATE profiles)
+   */
+  async follow(followerId: string, identifier: string): Promise<FollowStatusResponseDto> {
+    const target = await this.resolveUser(identifier);
+
+    if (target.id === followerId) {
+      throw new BadRequestException('You cannot follow yourself');
+    }
+
+    const follow = await this.prismaService.follow.upsert({
+      where: { followerId_followingId: { followerId, followingId: target.id } },
+      create: {
+        followerId,
+        followingId: target.id,
+        status: target.visibility === UserVisibility.PRIVATE ? FollowStatus.PENDING : FollowStatus.ACCEPTED,
+      },
+      update: {},
+    });
+
+    this.logger.log(`User ${followerId} follows ${target.id} (${follow.status})`);
+
+    return { status: follow.status };
+  }
+
+  /**
+   * Unfollow a user (also cancels a pending request)
+   * @param followerId - ID of the current user
+   * @param identifier - User ID (UUID) or username of the followed profile
+   */
+  async unfollow(followerId: string, identifier: string): Promise<void> {
+    const target = await this.resolveUser(identifier);
+
+    await this.prismaService.follow.deleteMany({
+      where: { followerId, followingId: target.id },
+    });
+
+    this.logger.log(`User ${followerId} unfollowed ${target.id}`);
+  }
+
+  /**
+   * Get the follow status of the current user towards a profile
+   * @param followerId - ID of the current user
+   * @param identifier - User ID (UUID) or username of the profile
+   */
+  async getStatus(followerId: string, identifier: string): Promise<FollowStatusResponseDto> {
+    const target = await this.resolveUser(identifier);
+
+    const follow = await this.prismaService.follow.findUnique({
+      where: { followerId_followingId: { followerId, followingId: target.id } },
+      select: { status: true },
+    });
+
+    return { status: follow?.status ?? null };
+  }
+
+  /**
+   * Get pending follow requests received by the current user (oldest first)
+   * @param userId - ID of the current user
+   */
+  async getPendingRequests(userId: string): Promise<FollowRequestResponseDto[]> {
+    const requests = await this.prismaService.follow.findMany({
+      where: { followingId: userId, status: FollowStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        follower: {
+          select: { id: true, displayName: true, username: true, avatarUrl: true },
+        },
+      },
+    });
+
+    return requests.map((request) => ({
+      id: request.id,
+      createdAt: request.createdAt,
+      follower: request.follower,
+    }));
+  }
+
+  /**
+   * Accept a pending follow request
+   * @param userId - ID of the current user (the followed profile)
+   * @param requestId - ID of the follow request
+   */
+  async acceptRequest(userId: string, requestId: string): Promise<void> {
+    const { count } = await this.prismaService.follow.updateMany({
+      where: { id: requestId, followingId: userId, status: FollowStatus.PENDING },
+      data: { status: FollowStatus.ACCEPTED },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Follow request not found');
+    }
+
+    this.logger.log(`User ${userId} accepted follow request ${requestId}`);
+  }
+
+  /**
+   * Reject a pending follow request (the follower can ask again later)
+   * @param userId - ID of the current user (the followed profile)
+   * @param requestId - ID of the follow request
+   */
+  async rejectRequest(userId: string, requestId: string): Promise<void> {
+    const { count } = await this.prismaService.follow.deleteMany({
+      where: { id: requestId, followingId: userId, status: FollowStatus.PENDING },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Follow request not found');
+    }
+
+    this.logger.log(`User ${userId} rejected follow request ${requestId}`);
+  }
+
+  /**
+   * Resolve a user from a UUID or a username (with or without @)
+   */
+  private async resolveUser(identifier: string): Promise<{ id: string; visibility: UserVisibility }> {
+    const user = await this.prismaService.user.findUnique({
+      where: isUuid(identifier) ? { id: identifier } : { username: normalizeUsername(identifier) },
+      select: { id: true, visibility: true },
+    });
+
+    if (!user) {
+      throw new UserNotFoundException(identifier);
+    }
+
+    return user;
+  }
+}
@@ -3,6 +3,7 @@ import {
   Get,
   Patch,
   Post,
+  Delete,
   Body,
   Param,
   Query,
@@ -14,6 +15,7 @@ import {
   UseInterceptors,
   BadRequestException,
   ParseIntPipe,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
@@ -27,9 +29,11 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { FollowService } from './follow.service';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { UserPublicProfileDto } from './dto/user-public-profile.dto';
 import { UserProfileStatsResponseDto } from './dto/profile-stats.dto';
+import { FollowStatusResponseDto, FollowRequestResponseDto } from './dto/follow.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { MAX_IMAGE_SIZE, ALLOWED_IMAGE_MIMES } from '../common/config/image-presets.config';
 import { ClubResponseDto } from '../club/dto';
@@ -41,7 +45,10 @@ import sharp from 'sharp';
 @ApiTags('users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly followService: FollowService
+  ) {}
 
   /**
    * Get profile stats for the current user (Solo context)
@@ -67,6 +74,67 @@ export class UsersController {
     return this.usersService.getProfileStats(userId);
   }
 
+  /**
+   * Get pending follow requests received by the current user
+   * GET /users/me/follow-requests
+   */
+  @Get('me/follow-requests')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get pending follow requests (PRIVATE profiles)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending follow requests retrieved successfully',
+    type: [FollowRequestResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getFollowRequests(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } }
+  ): Promise<FollowRequestResponseDto[]> {
+    return this.followService.getPendingRequests(req.user.dbUser.id);
+  }
+
+  /**
+   * Accept a follow request
+   * POST /users/me/follow-requests/:requestId/accept
+   */
+  @Post('me/follow-requests/:requestId/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Accept a pending follow request' })
+  @ApiParam({ name: 'requestId', description: 'Follow request ID' })
+  @ApiResponse({ status: 204, description: 'Follow request accepted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Follow request not found' })
+  async acceptFollowRequest(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } },
+    @Param('requestId', ParseUUIDPipe) requestId: string
+  ): Promise<void> {
+    return this.followService.acceptRequest(req.user.dbUser.id, requestId);
+  }
+
+  /**
+   * Reject a follow request
+   * DELETE /users/me/follow-requests/:requestId
+   */
+  @Delete('me/follow-requests/:requestId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Reject a pending follow request' })
+  @ApiParam({ name: 'requestId', description: 'Follow request ID' })
+  @ApiResponse({ status: 204, description: 'Follow request rejected' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Follow request not found' })
+  async rejectFollowRequest(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } },
+    @Param('requestId', ParseUUIDPipe) requestId: string
+  ): Promise<void> {
+    return this.followService.rejectRequest(req.user.dbUser.id, requestId);
+  }
+
   /**
    * Get public profile for a user
    * GET /users/:identifier/profile
@@ -134,6 +202,85 @@ export class UsersController {
     return this.usersService.getUserClubs(identifier, limit ?? 6);
   }
 
+  /**
+   * Get the current user's follow status towards a profile
+   * GET /users/:identifier/follow-status
+   */
+  @Get(':identifier/follow-status')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get follow status towards a user' })
+  @ApiParam({
+    name: 'identifier',
+    description: 'User ID (UUID) or username (with or without @)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Follow status retrieved successfully',
+    type: FollowStatusResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getFollowStatus(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } },
+    @Param('identifier') identifier: string
+  ): Promise<FollowStatusResponseDto> {
+    return this.followService.getStatus(req.user.dbUser.id, identifier);
+  }
+
+  /**
+   * Follow a user
+   * POST /users/:identifier/follow
+   * PUBLIC profiles are followed immediately, PRIVATE profiles get a pending request
+   */
+  @Post(':identifier/follow')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Follow a user (request approval for PRIVATE profiles)' })
+  @ApiParam({
+    name: 'identifier',
+    description: 'User ID (UUID) or username (with or without @)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User followed (ACCEPTED) or follow request sent (PENDING)',
+    type: FollowStatusResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot follow yourself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async follow(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } },
+    @Param('identifier') identifier: string
+  ): Promise<FollowStatusResponseDto> {
+    return this.followService.follow(req.user.dbUser.id, identifier);
+  }
+
+  /**
+   * Unfollow a user (also cancels a pending request)
+   * DELETE /users/:identifier/follow
+   */
+  @Delete(':identifier/follow')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unfollow a user or cancel a follow request' })
+  @ApiParam({
+    name: 'identifier',
+    description: 'User ID (UUID) or username (with or without @)',
+  })
+  @ApiResponse({ status: 204, description: 'User unfollowed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unfollow(
+    @Request() req: Express.Request & { user: { dbUser: { id: string } } },
+    @Param('identifier') identifier: string
+  ): Promise<void> {
+    return this.followService.unfollow(req.user.dbUser.id, identifier);
+  }
+
   /**
    * Update current user's profile
    * PATCH /users/me
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { FollowService } from './follow.service';
 import { PrismaService } from '../app/prisma.service';
 import { StorageService } from '../common/services/storage.service';
 import { AuthModule } from '../auth/auth.module';
@@ -8,12 +9,12 @@ import { PlanModule } from '../plan/plan.module';
 
 /**
  * Users Module
- * Handles user profile management and avatar uploads
+ * Handles user profile management, avatar uploads and follows
  */
 @Module({
   imports: [AuthModule, PlanModule],
   controllers: [UsersController],
-  providers: [UsersService, PrismaService, StorageService],
+  providers: [UsersService, FollowService, PrismaService, StorageService],
   exports: [UsersService],
 })
 export class UsersModule {}
\ No newline at end of file
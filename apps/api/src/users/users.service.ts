@@ -3,7 +3,7 @@ import { PrismaService } from '../app/prisma.service';
 import { StorageService } from '../common/services/storage.service';
 import { PlanService } from '../plan/plan.service';
 import { UpdateProfileDto } from './dto/update-profile.dto';
-import { TastingStatus, User } from '@cigar-platform/prisma-client';
+import { TastingStatus, User, UserVisibility, FollowStatus } from '@cigar-platform/prisma-client';
 import { UserNotFoundException } from '../common/exceptions';
 import { UserPublicProfileDto } from './dto/user-public-profile.dto';
 import {
@@ -15,6 +15,7 @@ import {
 import { ClubResponseDto } from '../club/dto';
 import { isUuid, normalizeUsername } from '../common/utils/identifier.util';
 import { getCountryCode } from '../common/utils/country-code.util';
+import { CIGAR_REVEAL_SELECT, isCigarRevealed } from '../common/utils/cigar-reveal.util';
 
 /**
  * Service for managing user profiles
@@ -86,6 +87,14 @@ export class UsersService {
       },
     });
 
+    // A PUBLIC profile no longer needs approval: pending follow requests are accepted
+    if (user.visibility === UserVisibility.PRIVATE && updatedUser.visibility === UserVisibility.PUBLIC) {
+      await this.prismaService.follow.updateMany({
+        where: { followingId: userId, status: FollowStatus.PENDING },
+        data: { status: FollowStatus.ACCEPTED },
+      });
+    }
+
     this.logger.log(`Profile updated successfully for user ${userId}`);
     return updatedUser;
   }
@@ -214,6 +223,16 @@ export class UsersService {
       where: { userId },
     });
 
+    // Get follower / following counts (accepted follows only)
+    const [followerCount, followingCount] = await Promise.all([
+      this.prismaService.follow.count({
+        where: { followingId: userId, status: FollowStatus.ACCEPTED },
+      }),
+      this.prismaService.follow.count({
+        where: { followerId: userId, status: FollowStatus.ACCEPTED },
+      }),
+    ]);
+
     return {
       id: user.id,
       displayName: user.displayName,
@@ -226,6 +245,8 @@ export class UsersService {
         evaluationCount: tastingCount, // Renamed field for backward compatibility
         favoriteBrand,
         clubCount,
+        followerCount,
+        followingCount,
       },
     };
   }
@@ -286,12 +307,17 @@ export class UsersService {
       imageUrl: membership.club.imageUrl,
       coverUrl: membership.club.coverUrl,
       visibility: membership.club.visibility,
-      inviteCode: null, // Don't expose invite code on public profiles
       isPublicDirectory: membership.club.isPublicDirectory,
       autoApproveMembers: membership.club.autoApproveMembers,
       allowMemberInvites: membership.club.allowMemberInvites,
       maxMembers: membership.club.maxMembers,
+      city: membership.club.city,
+      country: membership.club.country,
+      latitude: membership.club.latitude,
+      longitude: membership.club.longitude,
       isArchived: membership.club.isArchived,
+      archivedAt: null,
+      purgeAt: null,
       createdBy: membership.club.createdBy,
       createdAt: membership.club.createdAt,
       updatedAt: membership.club.updatedAt,
@@ -344,7 +370,7 @@ export class UsersService {
     const isPremium = this.planService.isPremium(user.plan);
 
     // Get completed tastings with observations and cigar data
-    const tastings = await this.prismaService.tasting.findMany({
+    const allTastings = await this.prismaService.tasting.findMany({
       where: {
         userId,
         status: TastingStatus.COMPLETED,
@@ -355,15 +381,24 @@ export class UsersService {
             brand: true,
           },
         },
+        event: {
+          select: CIGAR_REVEAL_SELECT,
+        },
         observations: true,
+        _count: {
+          select: { likes: true, comments: true },
+        },
       },
       orderBy: { date: 'desc' },
     });
 
+    // Blind tastings are left out until the event cigar is revealed
+    const tastings = allTastings.filter((tasting) => isCigarRevealed(tasting.event));
+
     // Calculate parcours stats
     const brandIds = new Set(tastings.map((t) => t.cigar.brandId));
     const origins = new Set(
-      tastings.map((t) => t.cigar.origin).filter(Boolean)
+      tastings.map((t) => t.cigar.origin ?? t.cigar.brand.country).filter(Boolean)
     );
 
     const parcours = {
@@ -408,7 +443,8 @@ export class UsersService {
       // Calculate terroir stats from chronic tastings only
       const terroirCount = new Map<string, number>();
       for (const tasting of chronicTastings) {
-        const origin = tasting.cigar.origin;
+        // Cigars without a known origin fall back to their brand country
+        const origin = tasting.cigar.origin ?? tasting.cigar.brand.country;
         if (origin) {
           terroirCount.set(origin, (terroirCount.get(origin) ?? 0) + 1);
         }
@@ -453,6 +489,8 @@ export class UsersService {
         date: tasting.date,
         aromas,
         user: null, // Solo context - no user info needed
+        likeCount: tasting._count.likes,
+        commentCount: tasting._count.comments,
       };
     });
 
@@ -116,6 +116,20 @@ export class PlanService {
     this.plan()?.source === 'BETA'
   );
 
+  /**
+   * Whether user is on the free trial
+   */
+  readonly isTrial: Signal<boolean> = computed(() =>
+    this.plan()?.source === 'TRIAL' && this.isPremium()
+  );
+
+  /**
+   * Days left in the free trial (null when not on trial)
+   */
+  readonly trialDaysRemaining: Signal<number | null> = computed(() =>
+    this.isTrial() ? this.daysRemaining() : null
+  );
+
   /**
    * Whether user has lifetime access
    */
@@ -0,0 +1,194 @@
+import { inject, signal, computed } from '@angular/core';
+import { injectQuery, injectMutation } from '../query';
+import type { Query, Mutation } from '../query';
+import { AdminPlansService } from '@cigar-platform/types/lib/admin-plans/admin-plans.service';
+import type {
+  PaginatedPlanUserResponseDto,
+  PlanAdminControllerFindUsersParams,
+  UserPlanDto,
+  GiftPlanDto,
+  ExtendPlanDto,
+  PlanReasonDto,
+  BulkPlanActionDto,
+  BulkPlanActionResultDto,
+} from '@cigar-platform/types';
+
+const ITEMS_PER_PAGE = 20;
+
+/**
+ * Cohort filter of the users list (page excluded)
+ */
+export type AdminPlanFilter = Omit<PlanAdminControllerFindUsersParams, 'page' | 'limit'>;
+
+/**
+ * Admin Plans Store (Admin)
+ * Manages user plans (gift, extend, revoke, lifetime, bulk) with Query Layer
+ */
+export interface AdminPlansStore {
+  /**
+   * Users query (paginated, filtered by cohort)
+   */
+  users: Query<PaginatedPlanUserResponseDto>;
+
+  /**
+   * Gift Premium to a user
+   */
+  gift: Mutation<UserPlanDto, { userId: string; data: GiftPlanDto }>;
+
+  /**
+   * Extend the expiration of a Premium plan
+   */
+  extend: Mutation<UserPlanDto, { userId: string; data: ExtendPlanDto }>;
+
+  /**
+   * Revoke Premium access
+   */
+  revoke: Mutation<UserPlanDto, { userId: string; data: PlanReasonDto }>;
+
+  /**
+   * Convert a plan to LIFETIME Premium
+   */
+  lifetime: Mutation<UserPlanDto, { userId: string; data: PlanReasonDto }>;
+
+  /**
+   * Apply an action to a cohort (dryRun to preview)
+   */
+  bulk: Mutation<BulkPlanActionResultDto, BulkPlanActionDto>;
+
+  /**
+   * Cohort filter
+   */
+  filter: () => AdminPlanFilter;
+  setFilter: (filter: AdminPlanFilter) => void;
+
+  /**
+   * Pagination controls
+   */
+  currentPage: () => number;
+  totalPages: () => number;
+  hasNextPage: () => boolean;
+  hasPrevPage: () => boolean;
+  nextPage: () => void;
+  prevPage: () => void;
+}
+
+/**
+ * Inject Admin Plans Store
+ * Factory function that creates the admin plans store with queries and mutations
+ */
+export function injectAdminPlansStore(): AdminPlansStore {
+  const adminPlansService = inject(AdminPlansService);
+
+  // Filter & pagination state
+  const filter = signal<AdminPlanFilter>({});
+  const currentPage = signal(1);
+
+  // Query: Users with their plan (paginated)
+  const users = injectQuery<PaginatedPlanUserResponseDto>(() => ({
+    queryKey: ['admin', 'plans', 'users', filter(), currentPage()],
+    queryFn: async () => {
+      const response = await adminPlansService.planAdminControllerFindUsers({
+        ...filter(),
+        limit: ITEMS_PER_PAGE,
+        page: currentPage(),
+      });
+      return response;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  }));
+
+  // Mutation: Gift Premium
+  const gift = injectMutation<UserPlanDto, { userId: string; data: GiftPlanDto }>({
+    mutationFn: ({ userId, data }: { userId: string; data: GiftPlanDto }) =>
+      adminPlansService.planAdminControllerGift(userId, data),
+
+    onSuccess: async () => {
+      await users.refetch();
+    },
+  });
+
+  // Mutation: Extend
+  const extend = injectMutation<UserPlanDto, { userId: string; data: ExtendPlanDto }>({
+    mutationFn: ({ userId, data }: { userId: string; data: ExtendPlanDto }) =>
+      adminPlansService.planAdminControllerExtend(userId, data),
+
+    onSuccess: async () => {
+      await users.refetch();
+    },
+  });
+
+  // Mutation: Revoke
+  const revoke = injectMutation<UserPlanDto, { userId: string; data: PlanReasonDto }>({
+    mutationFn: ({ userId, data }: { userId: string; data: PlanReasonDto }) =>
+      adminPlansService.planAdminControllerRevoke(userId, data),
+
+    onSuccess: async () => {
+      await users.refetch();
+    },
+  });
+
+  // Mutation: Lifetime
+  const lifetime = injectMutation<UserPlanDto, { userId: string; data: PlanReasonDto }>({
+    mutationFn: ({ userId, data }: { userId: string; data: PlanReasonDto }) =>
+      adminPlansService.planAdminControllerConvertToLifetime(userId, data),
+
+    onSuccess: async () => {
+      await users.refetch();
+    },
+  });
+
+  // Mutation: Bulk action (no refetch on preview)
+  const bulk = injectMutation<BulkPlanActionResultDto, BulkPlanActionDto>({
+    mutationFn: (data: BulkPlanActionDto) => adminPlansService.planAdminControllerBulk(data),
+
+    onSuccess: async (result: BulkPlanActionResultDto) => {
+      if (!result.dryRun) {
+        await users.refetch();
+      }
+    },
+  });
+
+  // Pagination computed values
+  const totalPages = computed(() => {
+    const meta = users.data()?.meta;
+    if (!meta) return 1;
+    return Math.max(1, Math.ceil(meta.total / ITEMS_PER_PAGE));
+  });
+
+  const hasNextPage = computed(() => currentPage() < totalPages());
+  const hasPrevPage = computed(() => currentPage() > 1);
+
+  const setFilter = (value: AdminPlanFilter): void => {
+    filter.set(value);
+    currentPage.set(1);
+  };
+
+  const nextPage = (): void => {
+    if (hasNextPage()) {
+      currentPage.update((p) => p + 1);
+    }
+  };
+
+  const prevPage = (): void => {
+    if (hasPrevPage()) {
+      currentPage.update((p) => p - 1);
+    }
+  };
+
+  return {
+    users,
+    gift,
+    extend,
+    revoke,
+    lifetime,
+    bulk,
+    filter: () => filter(),
+    setFilter,
+    currentPage: () => currentPage(),
+    totalPages: () => totalPages(),
+    hasNextPage: () => hasNextPage(),
+    hasPrevPage: () => hasPrevPage(),
+    nextPage,
+    prevPage,
+  };
+}
@@ -0,0 +1,202 @@
+import { inject, signal, computed } from '@angular/core';
+import { injectQuery, injectMutation } from '../query';
+import type { Query, Mutation } from '../query';
+import { CigarsService } from '@cigar-platform/types/lib/cigars/cigars.service';
+import type {
+  PaginatedCigarModerationResponseDto,
+  CigarModerationResponseDto,
+  CigarResponseDto,
+  CigarControllerFindModerationQueueStatus,
+  UpdateCigarModerationDto,
+  UpdateCigarDto,
+  CigarRevisionResponseDto,
+  RejectCigarDto,
+} from '@cigar-platform/types';
+
+const ITEMS_PER_PAGE = 20;
+
+/**
+ * Cigar Moderation Store (Admin)
+ * Manages the queue of user-submitted cigars with Query Layer
+ */
+export interface CigarModerationStore {
+  /**
+   * Moderation queue query (paginated, filtered by status)
+   */
+  queue: Query<PaginatedCigarModerationResponseDto>;
+
+  /**
+   * Edit a submitted cigar before approval
+   */
+  update: Mutation<CigarModerationResponseDto, { id: string; data: UpdateCigarModerationDto }>;
+
+  /**
+   * Correct the spec of a cigar (verified ones included)
+   */
+  updateSpec: Mutation<CigarResponseDto, { id: string; data: UpdateCigarDto }>;
+
+  /**
+   * Change history of a cigar (newest first)
+   */
+  getHistory: (cigarIdGetter: () => string | null) => Query<CigarRevisionResponseDto[]>;
+
+  /**
+   * Approve a submitted cigar
+   */
+  approve: Mutation<CigarModerationResponseDto, string>;
+
+  /**
+   * Reject a submitted cigar with a reason
+   */
+  reject: Mutation<CigarModerationResponseDto, { id: string; data: RejectCigarDto }>;
+
+  /**
+   * Merge a duplicate cigar into its canonical cigar
+   */
+  merge: Mutation<CigarResponseDto, { id: string; targetCigarId: string }>;
+
+  /**
+   * Status filter
+   */
+  status: () => CigarControllerFindModerationQueueStatus;
+  setStatus: (status: CigarControllerFindModerationQueueStatus) => void;
+
+  /**
+   * Pagination controls
+   */
+  currentPage: () => number;
+  totalPages: () => number;
+  hasNextPage: () => boolean;
+  hasPrevPage: () => boolean;
+  nextPage: () => void;
+  prevPage: () => void;
+}
+
+/**
+ * Inject Cigar Moderation Store
+ * Factory function that creates the moderation store with queries and mutations
+ */
+export function injectCigarModerationStore(): CigarModerationStore {
+  const cigarsService = inject(CigarsService);
+
+  // Filter & pagination state
+  const status = signal<CigarControllerFindModerationQueueStatus>('PENDING');
+  const currentPage = signal(1);
+
+  // Query: Moderation queue (paginated)
+  const queue = injectQuery<PaginatedCigarModerationResponseDto>(() => ({
+    queryKey: ['cigars', 'moderation', status(), currentPage()],
+    queryFn: async () => {
+      const response = await cigarsService.cigarControllerFindModerationQueue({
+        limit: ITEMS_PER_PAGE,
+        page: currentPage(),
+        status: status(),
+      });
+      return response;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+  }));
+
+  // Mutation: Edit before approve
+  const update = injectMutation<CigarModerationResponseDto, { id: string; data: UpdateCigarModerationDto }>({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCigarModerationDto }) =>
+      cigarsService.cigarControllerUpdateForModeration(id, data),
+
+    onSuccess: async () => {
+      await queue.refetch();
+    },
+  });
+
+  // Mutation: Spec correction (verified cigars)
+  const updateSpec = injectMutation<CigarResponseDto, { id: string; data: UpdateCigarDto }>({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCigarDto }) =>
+      cigarsService.cigarControllerUpdate(id, data),
+
+    onSuccess: async () => {
+      await queue.refetch();
+    },
+  });
+
+  // Query factory: Change history
+  const getHistory = (cigarIdGetter: () => string | null): Query<CigarRevisionResponseDto[]> =>
+    injectQuery<CigarRevisionResponseDto[]>(() => ({
+      queryKey: ['cigars', 'history', cigarIdGetter() ?? ''],
+      queryFn: () => cigarsService.cigarControllerGetHistory(cigarIdGetter() ?? ''),
+      enabled: !!cigarIdGetter(),
+      staleTime: 30 * 1000, // 30 seconds
+    }));
+
+  // Mutation: Approve
+  const approve = injectMutation<CigarModerationResponseDto, string>({
+    mutationFn: (id: string) => cigarsService.cigarControllerApprove(id),
+
+    onSuccess: async () => {
+      await queue.refetch();
+    },
+  });
+
+  // Mutation: Reject
+  const reject = injectMutation<CigarModerationResponseDto, { id: string; data: RejectCigarDto }>({
+    mutationFn: ({ id, data }: { id: string; data: RejectCigarDto }) =>
+      cigarsService.cigarControllerReject(id, data),
+
+    onSuccess: async () => {
+      await queue.refetch();
+    },
+  });
+
+  // Mutation: Merge duplicate
+  const merge = injectMutation<CigarResponseDto, { id: string; targetCigarId: string }>({
+    mutationFn: ({ id, targetCigarId }: { id: string; targetCigarId: string }) =>
+      cigarsService.cigarControllerMerge(id, { targetCigarId }),
+
+    onSuccess: async () => {
+      await queue.refetch();
+    },
+  });
+
+  // Pagination computed values
+  const totalPages = computed(() => {
+    const meta = queue.data()?.meta;
+    if (!meta) return 1;
+    return Math.max(1, Math.ceil(meta.total / ITEMS_PER_PAGE));
+  });
+
+  const hasNextPage = computed(() => currentPage() < totalPages());
+  const hasPrevPage = computed(() => currentPage() > 1);
+
+  const setStatus = (value: CigarControllerFindModerationQueueStatus): void => {
+    status.set(value);
+    currentPage.set(1);
+  };
+
+  const nextPage = (): void => {
+    if (hasNextPage()) {
+      currentPage.update((p) => p + 1);
+    }
+  };
+
+  const prevPage = (): void => {
+    if (hasPrevPage()) {
+      currentPage.update((p) => p - 1);
+    }
+  };
+
+  return {
+    queue,
+    update,
+    updateSpec,
+    getHistory,
+    approve,
+    reject,
+    merge,
+    status: () => status(),
+    setStatus,
+    currentPage: () => currentPage(),
+    totalPages: () => totalPages(),
+    hasNextPage: () => hasNextPage(),
+    hasPrevPage: () => hasPrevPage(),
+    nextPage,
+    prevPage,
+  };
+}
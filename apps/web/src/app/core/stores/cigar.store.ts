@@ -11,6 +11,8 @@ import type { CreateCigarDto, CigarResponseDto } from '@cigar-platform/types';
  *
  * Features:
  * - Search brands for autocomplete
+ * - Cigar aggregates (ratings, flavor profile, pairings)
+ * - Near-duplicate suggestions before creation
  * - Create cigars with inline brand creation
  * - Automatic cache invalidation
  *
@@ -49,6 +51,46 @@ export function injectCigarStore() {
         staleTime: 5 * 60 * 1000, // 5 minutes (optimized for freshness)
       })),
 
+    /**
+     * Query: Cigar aggregates (ratings, aromas, tastes, pairings)
+     * Computed over the tastings the current user can read (PUBLIC only when anonymous)
+     * @param idGetter - Reactive getter for cigar ID
+     */
+    getCigarStats: (idGetter: () => string) =>
+      injectQuery(() => ({
+        queryKey: ['cigars', 'stats', idGetter()],
+        queryFn: () => cigarsService.cigarControllerGetStats(idGetter()),
+        enabled: !!idGetter(),
+        staleTime: 60 * 1000, // 1 minute
+      })),
+
+    /**
+     * Query: All brands (filter options)
+     */
+    listBrands: () =>
+      injectQuery(() => ({
+        queryKey: ['brands', 'all'],
+        queryFn: () => brandsService.brandControllerFindAll(),
+        staleTime: 30 * 60 * 1000, // 30 minutes
+      })),
+
+    /**
+     * Query: Existing brands and cigars close to the names being typed
+     * @param brandNameGetter - Reactive getter for brand name
+     * @param nameGetter - Reactive getter for cigar name
+     */
+    findDuplicates: (brandNameGetter: () => string, nameGetter: () => string) =>
+      injectQuery(() => ({
+        queryKey: ['cigars', 'duplicates', brandNameGetter(), nameGetter()],
+        queryFn: () =>
+          cigarsService.cigarControllerFindDuplicates({
+            brandName: brandNameGetter(),
+            name: nameGetter() || undefined,
+          }),
+        enabled: brandNameGetter().trim().length >= 2,
+        staleTime: 60 * 1000, // 1 minute
+      })),
+
     /**
      * Mutation: Create cigar with inline brand creation
      */
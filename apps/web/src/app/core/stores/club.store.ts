@@ -13,6 +13,9 @@ import type {
   ClubJoinRequestResponseDto,
   ClubBanResponseDto,
   ClubProfileStatsResponseDto,
+  ClubInviteResponseDto,
+  CreateClubInviteDto,
+  ClubInvitationResponseDto,
 } from '@cigar-platform/types';
 
 /**
@@ -47,6 +50,12 @@ export interface ClubStore {
    */
   publicClubs: Query<ClubResponseDto[]>;
 
+  /**
+   * Get directory clubs around a position, nearest first (reactive - pass a getter function)
+   * Disabled while the position is unknown
+   */
+  getNearbyClubs: (positionGetter: () => { lat: number; lng: number } | null) => Query<ClubResponseDto[]>;
+
   /**
    * Get club by ID (reactive - pass a getter function)
    */
@@ -77,6 +86,27 @@ export interface ClubStore {
    */
   getClubProfileStats: (clubIdGetter: () => string) => Query<ClubProfileStatsResponseDto>;
 
+  /**
+   * Get invite codes by club ID (reactive - pass getter functions)
+   * Owners/admins get every invite, members only their own
+   * @param clubIdGetter - Getter for club ID
+   * @param canInviteGetter - Getter for permission check (optional, defaults to true)
+   */
+  getInvites: (clubIdGetter: () => string, canInviteGetter?: () => boolean) => Query<ClubInviteResponseDto[]>;
+
+  /**
+   * Get pending direct invitations sent by a club (reactive - pass getter functions)
+   * Owners/admins get every invitation, members only the ones they sent
+   * @param clubIdGetter - Getter for club ID
+   * @param canInviteGetter - Getter for permission check (optional, defaults to true)
+   */
+  getInvitations: (clubIdGetter: () => string, canInviteGetter?: () => boolean) => Query<ClubInvitationResponseDto[]>;
+
+  /**
+   * Get pending club invitations received by the current user
+   */
+  getMyInvitations: () => Query<ClubInvitationResponseDto[]>;
+
   /**
    * Create club mutation
    */
@@ -88,9 +118,14 @@ export interface ClubStore {
   updateClub: Mutation<ClubResponseDto, { id: string; data: UpdateClubDto }>;
 
   /**
-   * Delete club mutation
+   * Archive club mutation (owner, restorable until purgeAt)
    */
-  deleteClub: Mutation<void, string>;
+  archiveClub: Mutation<void, string>;
+
+  /**
+   * Restore archived club mutation (owner)
+   */
+  restoreClub: Mutation<ClubResponseDto, string>;
 
   /**
    * Upload club avatar mutation
@@ -141,6 +176,36 @@ export interface ClubStore {
    * Unban member mutation (admin: remove ban)
    */
   unbanMember: Mutation<void, { clubId: string; userId: string }>;
+
+  /**
+   * Create invite code mutation
+   */
+  createInvite: Mutation<ClubInviteResponseDto, { clubId: string; data: CreateClubInviteDto }>;
+
+  /**
+   * Revoke invite code mutation
+   */
+  revokeInvite: Mutation<void, { clubId: string; inviteId: string }>;
+
+  /**
+   * Invite a user by @username mutation
+   */
+  inviteUser: Mutation<ClubInvitationResponseDto, { clubId: string; identifier: string }>;
+
+  /**
+   * Cancel a pending invitation mutation (inviter or admin)
+   */
+  cancelInvitation: Mutation<void, { clubId: string; invitationId: string }>;
+
+  /**
+   * Accept a received invitation mutation (joins the club immediately)
+   */
+  acceptInvitation: Mutation<void, string>;
+
+  /**
+   * Decline a received invitation mutation
+   */
+  declineInvitation: Mutation<void, string>;
 }
 
 /**
@@ -158,12 +223,42 @@ export function injectClubStore(): ClubStore {
       const response = await clubsService.clubControllerFindAll({
         limit: 100,
         page: 1,
+        sortBy: 'activity',
       });
       return response?.data ?? [];
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
   }));
 
+  /**
+   * Get directory clubs near a position (returns a reactive query)
+   * Distances are computed by the API (distanceKm on each club)
+   */
+  const getNearbyClubs = (
+    positionGetter: () => { lat: number; lng: number } | null
+  ): Query<ClubResponseDto[]> => {
+    return injectQuery<ClubResponseDto[]>(() => {
+      const position = positionGetter();
+
+      return {
+        queryKey: ['clubs', 'nearby', position?.lat, position?.lng],
+        queryFn: async () => {
+          const response = await clubsService.clubControllerFindAll({
+            lat: position?.lat,
+            lng: position?.lng,
+            radiusKm: 50,
+            sortBy: 'distance',
+            limit: 20,
+            page: 1,
+          });
+          return response?.data ?? [];
+        },
+        enabled: !!position,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+      };
+    });
+  };
+
   /**
    * Get club by ID (returns a reactive query)
    */
@@ -247,6 +342,58 @@ export function injectClubStore(): ClubStore {
     }));
   };
 
+  /**
+   * Get invite codes by club ID (returns a reactive query)
+   * Only fetches if user can create invites
+   */
+  const getInvites = (
+    clubIdGetter: () => string,
+    canInviteGetter?: () => boolean
+  ): Query<ClubInviteResponseDto[]> => {
+    return injectQuery<ClubInviteResponseDto[]>(() => ({
+      queryKey: ['clubs', 'invites', clubIdGetter()],
+      queryFn: () => clubsService.clubControllerGetInvites(clubIdGetter()),
+      enabled: !!clubIdGetter() && (canInviteGetter ? canInviteGetter() : true),
+      staleTime: 60 * 1000, // 1 minute (use counts change when people join)
+    }));
+  };
+
+  /**
+   * Get pending direct invitations by club ID (returns a reactive query)
+   * Only fetches if user can invite
+   */
+  const getInvitations = (
+    clubIdGetter: () => string,
+    canInviteGetter?: () => boolean
+  ): Query<ClubInvitationResponseDto[]> => {
+    return injectQuery<ClubInvitationResponseDto[]>(() => ({
+      queryKey: ['clubs', 'invitations', clubIdGetter()],
+      queryFn: async () => {
+        const clubId = clubIdGetter();
+        if (!clubId) return [];
+        const response = await clubsService.clubControllerGetInvitations(clubId, {
+          limit: 100,
+          page: 1,
+          status: 'PENDING', // Only get pending invitations
+        });
+        return response?.data ?? [];
+      },
+      enabled: !!clubIdGetter() && (canInviteGetter ? canInviteGetter() : true),
+      staleTime: 1 * 60 * 1000, // 1 minute (invitations are time-sensitive)
+    }));
+  };
+
+  /**
+   * Get pending invitations received by the current user (returns a reactive query)
+   */
+  const getMyInvitations = (): Query<ClubInvitationResponseDto[]> => {
+    return injectQuery<ClubInvitationResponseDto[]>(() => ({
+      queryKey: ['clubs', 'my-invitations'],
+      queryFn: () => clubsService.clubControllerFindMyInvitations(),
+      staleTime: 1 * 60 * 1000, // 1 minute
+    }));
+  };
+
   /**
    * Get club profile stats by club ID (returns a reactive query)
    * Includes parcours, aroma signature, terroirs, and journal
@@ -301,12 +448,16 @@ export function injectClubStore(): ClubStore {
     },
   });
 
-  // Mutation: Delete Club
-  const deleteClub = injectMutation<void, string>({
-    mutationFn: (id: string) => clubsService.clubControllerRemove(id),
+  // Mutation: Archive Club
+  const archiveClub = injectMutation<void, string>({
+    mutationFn: (id: string) => clubsService.clubControllerArchive(id),
 
     onSuccess: (_, clubId) => {
-      // Invalidate public clubs
+      // Refetch detail to get archivedAt / purgeAt
+      const detailQuery = queryCache.get<ClubResponseDto>(JSON.stringify(['clubs', 'detail', clubId]));
+      if (detailQuery) void detailQuery.refetchInBackground();
+
+      // Archived clubs leave explore
       publicClubs.invalidate();
 
       // Invalidate my-clubs to refresh user's club list in ContextStore
@@ -318,6 +469,25 @@ export function injectClubStore(): ClubStore {
     },
   });
 
+  // Mutation: Restore Club
+  const restoreClub = injectMutation<ClubResponseDto, string>({
+    mutationFn: (id: string) => clubsService.clubControllerRestore(id),
+
+    onSuccess: (restoredClub: ClubResponseDto) => {
+      const detailQuery = queryCache.get<ClubResponseDto>(JSON.stringify(['clubs', 'detail', restoredClub.id]));
+      if (detailQuery) {
+        detailQuery.setDataFresh(restoredClub);
+      }
+
+      publicClubs.invalidate();
+      queryCache.invalidateQueriesMatching(['clubs', 'my-clubs']);
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
   // Mutation: Upload Club Avatar
   const uploadClubAvatar = injectMutation<{ imageUrl: string }, { clubId: string; avatar: File }>({
     mutationFn: (variables: { clubId: string; avatar: File }) =>
@@ -636,16 +806,141 @@ export function injectClubStore(): ClubStore {
     },
   });
 
+  // Mutation: Create Invite Code
+  const createInvite = injectMutation<ClubInviteResponseDto, { clubId: string; data: CreateClubInviteDto }>({
+    mutationFn: ({ clubId, data }) => clubsService.clubControllerCreateInvite(clubId, data),
+
+    onSuccess: (invite, variables) => {
+      // Optimistic update: ajouter l'invitation en tête de liste
+      const invitesQuery = queryCache.get(JSON.stringify(['clubs', 'invites', variables.clubId]));
+
+      if (invitesQuery) {
+        const currentInvites = invitesQuery.data() as ClubInviteResponseDto[] | null;
+        invitesQuery.setDataFresh([invite, ...(currentInvites ?? [])]);
+      }
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
+  // Mutation: Revoke Invite Code
+  const revokeInvite = injectMutation<void, { clubId: string; inviteId: string }>({
+    mutationFn: ({ clubId, inviteId }) => clubsService.clubControllerRevokeInvite(clubId, inviteId),
+
+    onSuccess: (_, variables) => {
+      // Background refetch (status recomputed by the API)
+      const invitesQuery = queryCache.get(JSON.stringify(['clubs', 'invites', variables.clubId]));
+      if (invitesQuery) void invitesQuery.refetchInBackground();
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
+  // Mutation: Invite User (by @username)
+  const inviteUser = injectMutation<ClubInvitationResponseDto, { clubId: string; identifier: string }>({
+    mutationFn: ({ clubId, identifier }) =>
+      clubsService.clubControllerCreateInvitation(clubId, { identifier }),
+
+    onSuccess: (invitation, variables) => {
+      // Optimistic update: ajouter l'invitation en tête de liste
+      const invitationsQuery = queryCache.get(JSON.stringify(['clubs', 'invitations', variables.clubId]));
+
+      if (invitationsQuery) {
+        const currentInvitations = invitationsQuery.data() as ClubInvitationResponseDto[] | null;
+        invitationsQuery.setDataFresh([invitation, ...(currentInvitations ?? [])]);
+      }
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
+  // Mutation: Cancel Invitation (inviter or admin)
+  const cancelInvitation = injectMutation<void, { clubId: string; invitationId: string }>({
+    mutationFn: ({ clubId, invitationId }) =>
+      clubsService.clubControllerCancelInvitation(clubId, invitationId),
+
+    onSuccess: (_, variables) => {
+      // Optimistic update: retirer l'invitation de la liste immédiatement
+      const invitationsQuery = queryCache.get(JSON.stringify(['clubs', 'invitations', variables.clubId]));
+
+      if (invitationsQuery) {
+        const currentInvitations = invitationsQuery.data() as ClubInvitationResponseDto[] | null;
+        if (currentInvitations) {
+          invitationsQuery.setDataFresh(currentInvitations.filter(i => i.id !== variables.invitationId));
+        }
+      }
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
+  /**
+   * Remove a received invitation from the cached list (accepted or declined)
+   */
+  const removeMyInvitation = (invitationId: string): void => {
+    const myInvitationsQuery = queryCache.get(JSON.stringify(['clubs', 'my-invitations']));
+
+    if (myInvitationsQuery) {
+      const currentInvitations = myInvitationsQuery.data() as ClubInvitationResponseDto[] | null;
+      if (currentInvitations) {
+        myInvitationsQuery.setDataFresh(currentInvitations.filter(i => i.id !== invitationId));
+      }
+    }
+  };
+
+  // Mutation: Accept Invitation (joins the club immediately)
+  const acceptInvitation = injectMutation<void, string>({
+    mutationFn: (invitationId: string) => clubsService.clubControllerAcceptInvitation(invitationId),
+
+    onSuccess: (_, invitationId) => {
+      removeMyInvitation(invitationId);
+
+      // Invalidate my-clubs to refresh user's club list in ContextStore
+      queryCache.invalidateQueriesMatching(['clubs', 'my-clubs']);
+      publicClubs.invalidate();
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
+  // Mutation: Decline Invitation
+  const declineInvitation = injectMutation<void, string>({
+    mutationFn: (invitationId: string) => clubsService.clubControllerDeclineInvitation(invitationId),
+
+    onSuccess: (_, invitationId) => {
+      removeMyInvitation(invitationId);
+    },
+
+    onError: (error: Error) => {
+      // Error handling will be done in component
+    },
+  });
+
   return {
     publicClubs,
+    getNearbyClubs,
     getClubById,
     getClubMembers,
     getJoinRequests,
     getBannedMembers,
     getClubProfileStats,
+    getInvites,
+    getInvitations,
+    getMyInvitations,
     createClub,
     updateClub,
-    deleteClub,
+    archiveClub,
+    restoreClub,
     uploadClubAvatar,
     joinClub,
     joinByCode,
@@ -656,5 +951,11 @@ export function injectClubStore(): ClubStore {
     removeMember,
     banMember,
     unbanMember,
+    createInvite,
+    revokeInvite,
+    inviteUser,
+    cancelInvitation,
+    acceptInvitation,
+    declineInvitation,
   };
 }
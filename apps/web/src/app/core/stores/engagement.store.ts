@@ -0,0 +1,140 @@
+import { inject } from '@angular/core';
+import { injectQuery, injectMutation, QueryCacheService } from '../query';
+import type { Query, Mutation } from '../query';
+import { EngagementService } from '@cigar-platform/types/lib/engagement/engagement.service';
+import type {
+  PaginatedTastingCommentResponseDto,
+  TastingCommentResponseDto,
+  TastingLikeResponseDto,
+} from '@cigar-platform/types';
+
+const COMMENTS_PER_PAGE = 50;
+
+/**
+ * Engagement Store
+ * Likes and comments on tastings
+ *
+ * Features:
+ * - Comments by tasting ID (reactive getter, oldest first)
+ * - Like / unlike a tasting
+ * - Add / delete comments
+ * - Cache invalidation for tasting detail (likeCount, commentCount, likedByMe)
+ *
+ * @example
+ * ```typescript
+ * @Component({...})
+ * export class TastingViewPage {
+ *   engagementStore = injectEngagementStore();
+ *
+ *   tastingId = signal<string>('');
+ *   comments = this.engagementStore.getComments(() => this.tastingId());
+ *
+ *   async like() {
+ *     await this.engagementStore.like.mutate(this.tastingId());
+ *   }
+ * }
+ * ```
+ */
+export interface EngagementStore {
+  /**
+   * Get comments by tasting ID (reactive - pass a getter function)
+   */
+  getComments: (tastingIdGetter: () => string) => Query<PaginatedTastingCommentResponseDto>;
+
+  /**
+   * Like a tasting mutation (tasting ID)
+   */
+  like: Mutation<TastingLikeResponseDto, string>;
+
+  /**
+   * Remove my like mutation (tasting ID)
+   */
+  unlike: Mutation<TastingLikeResponseDto, string>;
+
+  /**
+   * Comment on a tasting mutation
+   */
+  addComment: Mutation<TastingCommentResponseDto, { tastingId: string; content: string }>;
+
+  /**
+   * Delete a comment mutation (comment author, tasting author or club admin)
+   */
+  deleteComment: Mutation<void, { tastingId: string; commentId: string }>;
+}
+
+/**
+ * Inject Engagement Store
+ * Factory function that creates engagement store with queries and mutations
+ */
+export function injectEngagementStore(): EngagementStore {
+  const engagementService = inject(EngagementService);
+  const queryCache = inject(QueryCacheService);
+
+  /**
+   * Get comments by tasting ID (returns a reactive query)
+   */
+  const getComments = (tastingIdGetter: () => string): Query<PaginatedTastingCommentResponseDto> => {
+    return injectQuery<PaginatedTastingCommentResponseDto>(() => ({
+      queryKey: ['comments', 'by-tasting', tastingIdGetter()],
+      queryFn: () =>
+        engagementService.engagementControllerFindComments(tastingIdGetter(), {
+          limit: COMMENTS_PER_PAGE,
+        }),
+      enabled: !!tastingIdGetter(),
+      staleTime: 60 * 1000, // 1 minute
+    }));
+  };
+
+  // Counts and likedByMe live on the tasting detail
+  const invalidateTasting = (tastingId: string): void => {
+    queryCache.invalidateQuery(['tastings', 'detail', tastingId]);
+  };
+
+  // Mutation: Like
+  const like = injectMutation<TastingLikeResponseDto, string>({
+    mutationFn: (tastingId: string) => engagementService.engagementControllerLike(tastingId),
+
+    onSuccess: (_state: TastingLikeResponseDto, tastingId: string) => {
+      invalidateTasting(tastingId);
+    },
+  });
+
+  // Mutation: Unlike
+  const unlike = injectMutation<TastingLikeResponseDto, string>({
+    mutationFn: (tastingId: string) => engagementService.engagementControllerUnlike(tastingId),
+
+    onSuccess: (_state: TastingLikeResponseDto, tastingId: string) => {
+      invalidateTasting(tastingId);
+    },
+  });
+
+  // Mutation: Add comment
+  const addComment = injectMutation<TastingCommentResponseDto, { tastingId: string; content: string }>({
+    mutationFn: ({ tastingId, content }) =>
+      engagementService.engagementControllerAddComment(tastingId, { content }),
+
+    onSuccess: (_comment: TastingCommentResponseDto, { tastingId }) => {
+      queryCache.invalidateQuery(['comments', 'by-tasting', tastingId]);
+      invalidateTasting(tastingId);
+    },
+  });
+
+  // Mutation: Delete comment
+  const deleteComment = injectMutation<void, { tastingId: string; commentId: string }>({
+    mutationFn: ({ tastingId, commentId }) =>
+      engagementService.engagementControllerRemoveComment(tastingId, commentId),
+
+    onSuccess: (_result: void, { tastingId }) => {
+      queryCache.invalidateQuery(['comments', 'by-tasting', tastingId]);
+      invalidateTasting(tastingId);
+    },
+  });
+
+  return {
+    getComments,
+    like,
+    unlike,
+    addComment,
+    deleteComment,
+  };
+}
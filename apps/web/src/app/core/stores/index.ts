@@ -17,3 +17,6 @@ export type { TastingStore } from './tasting.store';
 
 export { injectObservationStore } from './observation.store';
 export type { ObservationStore } from './observation.store';
+
+export { injectEngagementStore } from './engagement.store';
+export type { EngagementStore } from './engagement.store';
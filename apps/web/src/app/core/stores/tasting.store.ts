@@ -8,11 +8,42 @@ import type {
   UpdateTastingDto,
   CompleteTastingDto,
   PaginatedTastingResponseDto,
+  TastingCoverPhotoDto,
+  TastingPhotoDto,
+  TastingPhotoDtoKind,
+  AmendTastingDto,
+  TastingRevisionResponseDto,
+  UpdateTastingSharingDto,
+  TastingControllerFindMineParams,
+  TastingFeedResponseDto,
+  FeedTastingResponseDto,
+  TastingControllerGetFeedParams,
 } from '@cigar-platform/types';
 import { PwaService } from '../services/pwa.service';
 
 const TASTINGS_PER_PAGE = 20;
 
+/**
+ * Journal filters and search of my tastings (pagination excluded)
+ */
+export type TastingJournalFilter = Omit<TastingControllerFindMineParams, 'page' | 'limit'>;
+
+/**
+ * Feed source: community (public tastings) or following (tastings of followed users)
+ */
+export type TastingFeedScope = 'community' | 'following';
+
+/**
+ * Cursor-paginated feed (first page cached, next pages accumulated)
+ */
+export interface TastingFeed {
+  query: Query<TastingFeedResponseDto>;
+  tastings: () => FeedTastingResponseDto[];
+  hasMore: () => boolean;
+  loadMore: () => Promise<void>;
+  loadingMore: () => boolean;
+}
+
 /**
  * Tasting Store
  * Manages tasting data with Query Layer
@@ -46,6 +77,12 @@ export interface TastingStore {
    */
   myTastings: Query<PaginatedTastingResponseDto>;
 
+  /**
+   * Journal filters applied to my tastings (refetches the first page on change)
+   */
+  journalFilter: () => TastingJournalFilter;
+  setJournalFilter: (filter: TastingJournalFilter) => void;
+
   /**
    * All loaded tastings (accumulated across pages)
    */
@@ -81,6 +118,11 @@ export interface TastingStore {
    */
   getTastingsByClub: (clubIdGetter: () => string) => Query<TastingResponseDto[]>;
 
+  /**
+   * Community feed of public tastings, or tastings of followed users (infinite scroll)
+   */
+  getFeed: (scope?: TastingFeedScope) => TastingFeed;
+
   /**
    * Get current user's draft tastings (status = IN_PROGRESS)
    * Optionally filtered by cigarId
@@ -106,6 +148,36 @@ export interface TastingStore {
    * Delete tasting mutation
    */
   deleteTasting: Mutation<void, string>;
+
+  /**
+   * Amend a completed tasting (within the amendment window)
+   */
+  amendTasting: Mutation<TastingResponseDto, { id: string; data: AmendTastingDto }>;
+
+  /**
+   * Get the amendment history of a tasting (author only, reactive - pass a getter function)
+   */
+  getRevisions: (idGetter: () => string) => Query<TastingRevisionResponseDto[]>;
+
+  /**
+   * Change visibility and shared clubs mutation (author only, any status)
+   */
+  updateSharing: Mutation<TastingResponseDto, { id: string; data: UpdateTastingSharingDto }>;
+
+  /**
+   * Upload tasting photo mutation (replaces the previous one)
+   */
+  uploadPhoto: Mutation<TastingCoverPhotoDto, { id: string; photo: File }>;
+
+  /**
+   * Add or replace a gallery photo mutation (band, foot, ash)
+   */
+  uploadGalleryPhoto: Mutation<TastingPhotoDto, { id: string; kind: TastingPhotoDtoKind; photo: File }>;
+
+  /**
+   * Remove a gallery photo mutation
+   */
+  removeGalleryPhoto: Mutation<void, { id: string; kind: TastingPhotoDtoKind }>;
 }
 
 /**
@@ -117,6 +189,9 @@ export function injectTastingStore(): TastingStore {
   const queryCache = inject(QueryCacheService);
   const pwaService = inject(PwaService);
 
+  // Journal filters
+  const journalFilter = signal<TastingJournalFilter>({});
+
   // Load more state
   const currentPage = signal(1);
   const additionalTastings = signal<TastingResponseDto[]>([]);
@@ -124,16 +199,17 @@ export function injectTastingStore(): TastingStore {
 
   // Query: My Tastings (first page)
   const myTastings = injectQuery<PaginatedTastingResponseDto>(() => ({
-    queryKey: ['tastings', 'me'],
+    queryKey: ['tastings', 'me', journalFilter()],
     queryFn: async () => {
       // Reset additional tastings when first page is refetched
       additionalTastings.set([]);
       currentPage.set(1);
       const response = await tastingsService.tastingControllerFindMine({
-        limit: TASTINGS_PER_PAGE,
-        page: 1,
         sortBy: 'date',
         order: 'desc',
+        ...journalFilter(),
+        limit: TASTINGS_PER_PAGE,
+        page: 1,
       });
       return response;
     },
@@ -162,10 +238,11 @@ export function injectTastingStore(): TastingStore {
     try {
       const nextPage = currentPage() + 1;
       const response = await tastingsService.tastingControllerFindMine({
-        limit: TASTINGS_PER_PAGE,
-        page: nextPage,
         sortBy: 'date',
         order: 'desc',
+        ...journalFilter(),
+        limit: TASTINGS_PER_PAGE,
+        page: nextPage,
       });
 
       additionalTastings.update((prev) => [...prev, ...(response.data ?? [])]);
@@ -175,6 +252,72 @@ export function injectTastingStore(): TastingStore {
     }
   };
 
+  const setJournalFilter = (filter: TastingJournalFilter): void => {
+    journalFilter.set(filter);
+  };
+
+  // Invalidate my tastings for every journal filter (each filter has its own cache entry)
+  const invalidateMyTastings = (): void => {
+    queryCache.findQueries(['tastings', 'me']).forEach((query) => query.invalidate());
+  };
+
+  /**
+   * Community or following feed (cursor pagination: new tastings never shift the next pages)
+   */
+  const getFeed = (scope: TastingFeedScope = 'community'): TastingFeed => {
+    const fetchPage = (params: TastingControllerGetFeedParams): Promise<TastingFeedResponseDto> =>
+      scope === 'following'
+        ? tastingsService.tastingControllerGetFollowingFeed(params)
+        : tastingsService.tastingControllerGetFeed(params);
+
+    const additionalTastings = signal<FeedTastingResponseDto[]>([]);
+    // Cursor after the last loaded page (undefined while only the first page is loaded)
+    const nextPageCursor = signal<string | null | undefined>(undefined);
+    const loadingMoreFeed = signal(false);
+
+    const query = injectQuery<TastingFeedResponseDto>(() => ({
+      queryKey: scope === 'following' ? ['tastings', 'feed', 'following'] : ['tastings', 'feed'],
+      queryFn: async () => {
+        // Reset accumulated pages when the first page is refetched
+        additionalTastings.set([]);
+        nextPageCursor.set(undefined);
+        return fetchPage({ limit: TASTINGS_PER_PAGE });
+      },
+      staleTime: 60 * 1000, // 1 minute
+    }));
+
+    const tastings = computed(() => [...(query.data()?.data ?? []), ...additionalTastings()]);
+    const cursor = computed(() => {
+      const pageCursor = nextPageCursor();
+      return pageCursor === undefined ? query.data()?.nextCursor ?? null : pageCursor;
+    });
+
+    const loadMore = async (): Promise<void> => {
+      const currentCursor = cursor();
+      if (loadingMoreFeed() || !currentCursor) return;
+
+      loadingMoreFeed.set(true);
+      try {
+        const response = await fetchPage({
+          cursor: currentCursor,
+          limit: TASTINGS_PER_PAGE,
+        });
+        additionalTastings.update((prev) => [...prev, ...(response.data ?? [])]);
+        nextPageCursor.set(response.nextCursor ?? null);
+      } finally {
+        loadingMoreFeed.set(false);
+      }
+    };
+
+    return {
+      query,
+      tastings: () => tastings(),
+      hasMore: () => !!cursor(),
+      loadMore,
+      loadingMore: () => loadingMoreFeed(),
+    };
+  };
+
   /**
    * Get tasting by ID (returns a reactive query)
    */
@@ -259,7 +402,7 @@ export function injectTastingStore(): TastingStore {
 
     onSuccess: (newTasting: TastingResponseDto) => {
       // Invalidate my tastings to include new tasting
-      myTastings.invalidate();
+      invalidateMyTastings();
 
       // Invalidate cigar tastings if applicable
       if (newTasting.cigarId) {
@@ -278,7 +421,7 @@ export function injectTastingStore(): TastingStore {
       queryCache.invalidateQuery(['tastings', 'detail', updatedTasting.id]);
 
       // Invalidate my tastings
-      myTastings.invalidate();
+      invalidateMyTastings();
 
       // Invalidate cigar/club tastings if applicable
       if (updatedTasting.cigarId) {
@@ -296,12 +439,14 @@ export function injectTastingStore(): TastingStore {
       // Invalidate specific tasting detail
       queryCache.invalidateQuery(['tastings', 'detail', completedTasting.id]);
 
-      // Invalidate my tastings
-      myTastings.invalidate();
+      // Invalidate my tastings and the community feed
+      invalidateMyTastings();
+      queryCache.invalidateQuery(['tastings', 'feed']);
 
-      // Invalidate cigar tastings (completed tastings are public)
+      // Invalidate cigar tastings and aggregates (completed tastings are public)
       if (completedTasting.cigarId) {
         queryCache.invalidateQueriesMatching(['tastings', 'by-cigar', completedTasting.cigarId]);
+        queryCache.invalidateQuery(['cigars', 'stats', completedTasting.cigarId]);
       }
 
       // Invalidate user profile-stats (new completed tasting affects stats & journal)
@@ -325,14 +470,16 @@ export function injectTastingStore(): TastingStore {
     mutationFn: (id: string) => tastingsService.tastingControllerRemove(id),
 
     onSuccess: (_result: void, tastingId: string) => {
-      // Invalidate my tastings
-      myTastings.invalidate();
+      // Invalidate my tastings and the community feed
+      invalidateMyTastings();
+      queryCache.invalidateQuery(['tastings', 'feed']);
 
       // Invalidate specific tasting detail
       queryCache.invalidateQuery(['tastings', 'detail', tastingId]);
 
-      // Invalidate all cigar tastings (we don't know which cigar this tasting belonged to)
+      // Invalidate all cigar tastings and aggregates (we don't know which cigar this tasting belonged to)
       queryCache.invalidateQueriesMatching(['tastings', 'by-cigar']);
+      queryCache.findQueries(['cigars', 'stats']).forEach((query) => query.invalidate());
 
       // Invalidate all club tastings (we don't know which club this tasting belonged to)
       queryCache.invalidateQueriesMatching(['tastings', 'by-club']);
@@ -343,8 +490,97 @@ export function injectTastingStore(): TastingStore {
     },
   });
 
+  // Mutation: Amend Tasting (COMPLETED, within the amendment window)
+  const amendTasting = injectMutation<TastingResponseDto, { id: string; data: AmendTastingDto }>({
+    mutationFn: ({ id, data }: { id: string; data: AmendTastingDto }) =>
+      tastingsService.tastingControllerAmend(id, data),
+
+    onSuccess: (amendedTasting: TastingResponseDto) => {
+      queryCache.invalidateQuery(['tastings', 'detail', amendedTasting.id]);
+      queryCache.invalidateQuery(['tastings', 'revisions', amendedTasting.id]);
+      invalidateMyTastings();
+      queryCache.invalidateQuery(['tastings', 'feed']);
+
+      if (amendedTasting.cigarId) {
+        queryCache.invalidateQueriesMatching(['tastings', 'by-cigar', amendedTasting.cigarId]);
+        queryCache.invalidateQuery(['cigars', 'stats', amendedTasting.cigarId]);
+      }
+
+      // Rating, visibility and shared clubs feed the journal and club stats
+      queryCache.invalidateQueriesMatching(['tastings', 'by-club']);
+      queryCache.invalidateQuery(['users', 'profile-stats', 'me']);
+      queryCache.invalidateQueriesMatching(['clubs', 'profile-stats']);
+    },
+  });
+
+  /**
+   * Get the amendment history of a tasting (returns a reactive query)
+   */
+  const getRevisions = (idGetter: () => string): Query<TastingRevisionResponseDto[]> => {
+    return injectQuery<TastingRevisionResponseDto[]>(() => ({
+      queryKey: ['tastings', 'revisions', idGetter()],
+      queryFn: () => tastingsService.tastingControllerGetRevisions(idGetter()),
+      enabled: !!idGetter(),
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }));
+  };
+
+  // Mutation: Update Sharing (visibility + shared clubs)
+  const updateSharing = injectMutation<TastingResponseDto, { id: string; data: UpdateTastingSharingDto }>({
+    mutationFn: ({ id, data }: { id: string; data: UpdateTastingSharingDto }) =>
+      tastingsService.tastingControllerUpdateSharing(id, data),
+
+    onSuccess: (updatedTasting: TastingResponseDto) => {
+      queryCache.invalidateQuery(['tastings', 'detail', updatedTasting.id]);
+      invalidateMyTastings();
+      queryCache.invalidateQuery(['tastings', 'feed']);
+
+      if (updatedTasting.cigarId) {
+        queryCache.invalidateQueriesMatching(['tastings', 'by-cigar', updatedTasting.cigarId]);
+        queryCache.invalidateQuery(['cigars', 'stats', updatedTasting.cigarId]);
+      }
+
+      // Club journals and stats depend on visibility and shared clubs
+      queryCache.invalidateQueriesMatching(['tastings', 'by-club']);
+      queryCache.invalidateQueriesMatching(['clubs', 'profile-stats']);
+    },
+  });
+
+  // Mutation: Upload Tasting Photo
+  const uploadPhoto = injectMutation<TastingCoverPhotoDto, { id: string; photo: File }>({
+    mutationFn: ({ id, photo }: { id: string; photo: File }) =>
+      tastingsService.tastingControllerUploadPhoto(id, { photo }),
+
+    onSuccess: (_result: TastingCoverPhotoDto, { id }: { id: string; photo: File }) => {
+      queryCache.invalidateQuery(['tastings', 'detail', id]);
+      invalidateMyTastings();
+    },
+  });
+
+  // Mutation: Add or replace a gallery photo
+  const uploadGalleryPhoto = injectMutation<TastingPhotoDto, { id: string; kind: TastingPhotoDtoKind; photo: File }>({
+    mutationFn: ({ id, kind, photo }: { id: string; kind: TastingPhotoDtoKind; photo: File }) =>
+      tastingsService.tastingControllerUploadGalleryPhoto(id, kind, { photo }),
+
+    onSuccess: (_result: TastingPhotoDto, { id }: { id: string }) => {
+      queryCache.invalidateQuery(['tastings', 'detail', id]);
+    },
+  });
+
+  // Mutation: Remove a gallery photo
+  const removeGalleryPhoto = injectMutation<void, { id: string; kind: TastingPhotoDtoKind }>({
+    mutationFn: ({ id, kind }: { id: string; kind: TastingPhotoDtoKind }) =>
+      tastingsService.tastingControllerRemoveGalleryPhoto(id, kind),
+
+    onSuccess: (_result: void, { id }: { id: string }) => {
+      queryCache.invalidateQuery(['tastings', 'detail', id]);
+    },
+  });
+
   return {
     myTastings,
+    journalFilter: journalFilter.asReadonly(),
+    setJournalFilter,
     allMyTastings: () => allMyTastings(),
     hasMoreTastings: () => hasMoreTastings(),
     loadMoreTastings,
@@ -352,10 +588,17 @@ export function injectTastingStore(): TastingStore {
     getTastingById,
     getTastingsByCigar,
     getTastingsByClub,
+    getFeed,
     getDrafts,
     createTasting,
     updateTasting,
     completeTasting,
     deleteTasting,
+    amendTasting,
+    getRevisions,
+    updateSharing,
+    uploadPhoto,
+    uploadGalleryPhoto,
+    removeGalleryPhoto,
   };
 }
@@ -1,15 +1,21 @@
 import { inject, signal } from '@angular/core';
-import { injectQuery, injectMutation } from '../query';
+import { injectQuery, injectMutation, QueryCacheService } from '../query';
 import type { Query, Mutation } from '../query';
 import { AuthService } from '../services/auth.service';
 import { AuthenticationService } from '@cigar-platform/types/lib/authentication/authentication.service';
 import { UsersService } from '@cigar-platform/types/lib/users/users.service';
+import { PlansService } from '@cigar-platform/types/lib/plans/plans.service';
 import type {
   UserDto,
   UpdateProfileDto,
   UserPublicProfileDto,
   ClubResponseDto,
   UserProfileStatsResponseDto,
+  UserPlanDto,
+  TrialEligibilityDto,
+  FollowStatusResponseDto,
+  FollowRequestResponseDto,
+  PlanExpiryAlertDto,
 } from '@cigar-platform/types';
 
 /**
@@ -67,6 +73,56 @@ export interface UserStore {
    * Upload user avatar mutation
    */
   uploadAvatar: Mutation<unknown, { avatar: File }>;
+
+  /**
+   * Free trial availability for the current user
+   */
+  trialEligibility: Query<TrialEligibilityDto>;
+
+  /**
+   * Start the one-time free trial mutation
+   */
+  startTrial: Mutation<UserPlanDto, void>;
+
+  /**
+   * Pending "Premium expires soon" alerts of the current user
+   */
+  expiryAlerts: Query<PlanExpiryAlertDto[]>;
+
+  /**
+   * Mark an expiry alert as seen mutation
+   */
+  acknowledgeExpiryAlert: Mutation<void, string>;
+
+  /**
+   * Follow status of the current user towards a profile (reactive - pass a getter function)
+   */
+  getFollowStatus: (identifierGetter: () => string) => Query<FollowStatusResponseDto>;
+
+  /**
+   * Follow a user by ID or username (PENDING until a PRIVATE profile accepts)
+   */
+  follow: Mutation<FollowStatusResponseDto, string>;
+
+  /**
+   * Unfollow a user by ID or username (also cancels a pending request)
+   */
+  unfollow: Mutation<void, string>;
+
+  /**
+   * Pending follow requests received by the current user
+   */
+  followRequests: Query<FollowRequestResponseDto[]>;
+
+  /**
+   * Accept a follow request mutation (request ID)
+   */
+  acceptFollowRequest: Mutation<void, string>;
+
+  /**
+   * Reject a follow request mutation (request ID)
+   */
+  rejectFollowRequest: Mutation<void, string>;
 }
 
 /**
@@ -82,6 +138,8 @@ export function injectUserStore(): UserStore {
   const authService = inject(AuthService);
   const authApiService = inject(AuthenticationService);
   const usersService = inject(UsersService);
+  const plansService = inject(PlansService);
+  const queryCache = inject(QueryCacheService);
 
   // Query: Current User (disabled auto-fetch, uses AuthService as source)
   const currentUser = injectQuery<UserDto>(() => ({
@@ -216,6 +274,116 @@ export function injectUserStore(): UserStore {
     },
   });
 
+  // Query: Free trial eligibility
+  const trialEligibility = injectQuery<TrialEligibilityDto>(() => ({
+    queryKey: ['plans', 'trial', 'me'],
+    queryFn: () => plansService.planControllerGetTrialEligibility(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: !!initialUser, // Only fetch if user is authenticated
+  }));
+
+  // Mutation: Start free trial
+  const startTrial = injectMutation<UserPlanDto, void>({
+    mutationFn: () => plansService.planControllerStartTrial(),
+
+    onSuccess: async (plan: UserPlanDto) => {
+      const previousUser = currentUser.data();
+
+      if (previousUser) {
+        const updatedUser: UserDto = { ...previousUser, plan };
+        currentUser.setDataFresh(updatedUser);
+
+        // Sync with AuthService so PlanService reflects the trial everywhere
+        authService.updateCurrentUser(updatedUser);
+      }
+
+      await trialEligibility.refetch();
+    },
+  });
+
+  // Query: Pending plan expiry alerts (queued by the API expiry job)
+  const expiryAlerts = injectQuery<PlanExpiryAlertDto[]>(() => ({
+    queryKey: ['plans', 'expiry-alerts', 'me'],
+    queryFn: () => plansService.planControllerGetExpiryAlerts(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: !!initialUser, // Only fetch if user is authenticated
+  }));
+
+  // Mutation: Acknowledge expiry alert
+  const acknowledgeExpiryAlert = injectMutation<void, string>({
+    mutationFn: (alertId: string) => plansService.planControllerAcknowledgeExpiryAlert(alertId),
+
+    onSuccess: (_data, alertId: string) => {
+      expiryAlerts.setDataFresh((expiryAlerts.data() ?? []).filter((alert) => alert.id !== alertId));
+    },
+  });
+
+  /**
+   * Get follow status towards a user (returns a reactive query)
+   */
+  const getFollowStatus = (identifierGetter: () => string): Query<FollowStatusResponseDto> => {
+    return injectQuery<FollowStatusResponseDto>(() => ({
+      queryKey: ['users', 'follow-status', identifierGetter()],
+      queryFn: () => usersService.usersControllerGetFollowStatus(identifierGetter()),
+      enabled: !!identifierGetter() && !!currentUser.data(),
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }));
+  };
+
+  // Follows change profile counts and the following feed
+  const invalidateFollowQueries = (identifier?: string): void => {
+    if (identifier) {
+      queryCache.invalidateQuery(['users', 'follow-status', identifier]);
+    }
+    queryCache.findQueries(['users', 'profile']).forEach((query) => query.invalidate());
+    queryCache.invalidateQuery(['tastings', 'feed', 'following']);
+  };
+
+  // Mutation: Follow
+  const follow = injectMutation<FollowStatusResponseDto, string>({
+    mutationFn: (identifier: string) => usersService.usersControllerFollow(identifier),
+
+    onSuccess: (_status: FollowStatusResponseDto, identifier: string) => {
+      invalidateFollowQueries(identifier);
+    },
+  });
+
+  // Mutation: Unfollow
+  const unfollow = injectMutation<void, string>({
+    mutationFn: (identifier: string) => usersService.usersControllerUnfollow(identifier),
+
+    onSuccess: (_result: void, identifier: string) => {
+      invalidateFollowQueries(identifier);
+    },
+  });
+
+  // Query: Pending follow requests (PRIVATE profiles)
+  const followRequests = injectQuery<FollowRequestResponseDto[]>(() => ({
+    queryKey: ['users', 'follow-requests', 'me'],
+    queryFn: () => usersService.usersControllerGetFollowRequests(),
+    staleTime: 60 * 1000, // 1 minute
+    enabled: !!initialUser, // Only fetch if user is authenticated
+  }));
+
+  // Mutation: Accept follow request
+  const acceptFollowRequest = injectMutation<void, string>({
+    mutationFn: (requestId: string) => usersService.usersControllerAcceptFollowRequest(requestId),
+
+    onSuccess: () => {
+      queryCache.invalidateQuery(['users', 'follow-requests', 'me']);
+      invalidateFollowQueries();
+    },
+  });
+
+  // Mutation: Reject follow request
+  const rejectFollowRequest = injectMutation<void, string>({
+    mutationFn: (requestId: string) => usersService.usersControllerRejectFollowRequest(requestId),
+
+    onSuccess: () => {
+      queryCache.invalidateQuery(['users', 'follow-requests', 'me']);
+    },
+  });
+
   return {
     currentUser,
     profileStats,
@@ -223,5 +391,15 @@ export function injectUserStore(): UserStore {
     getUserClubs,
     updateProfile,
     uploadAvatar,
+    trialEligibility,
+    startTrial,
+    expiryAlerts,
+    acknowledgeExpiryAlert,
+    getFollowStatus,
+    follow,
+    unfollow,
+    followRequests,
+    acceptFollowRequest,
+    rejectFollowRequest,
   };
 }
@@ -42,6 +42,11 @@ export const adminChildRoutes: Route[] = [
     loadComponent: () =>
       import('./feedbacks/feedbacks.component').then((m) => m.FeedbacksComponent),
   },
+  {
+    path: 'cigars',
+    loadComponent: () =>
+      import('./cigars/cigars.component').then((m) => m.CigarsComponent),
+  },
   {
     path: 'analytics',
     loadComponent: () =>
@@ -0,0 +1,523 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import {
+  IconDirective,
+  ButtonComponent,
+  ModalComponent,
+  InputComponent,
+} from '@cigar-platform/shared/ui';
+import {
+  injectCigarModerationStore,
+  CigarModerationStore,
+} from '../../../core/stores/cigar-moderation.store';
+import { injectCigarStore } from '../../../core/stores/cigar.store';
+import type {
+  CigarModerationResponseDto,
+  CigarSuggestionDto,
+  CigarControllerFindModerationQueueStatus,
+  UpdateCigarModerationDto,
+} from '@cigar-platform/types';
+import { ToastService } from '../../../core/services/toast.service';
+
+type CigarStatus = CigarControllerFindModerationQueueStatus;
+
+/**
+ * Admin Cigars Component
+ * Moderation queue for user-submitted cigars (approve, edit, reject, merge duplicates)
+ * Verified cigars can still be corrected, every edit is kept in the history
+ */
+@Component({
+  selector: 'app-admin-cigars',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    IconDirective,
+    ButtonComponent,
+    ModalComponent,
+    InputComponent,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="p-6 md:p-8">
+      <div class="mb-6">
+        <h1 class="text-2xl font-bold text-smoke-50 mb-2">Moderation cigares</h1>
+        <p class="text-smoke-400">Validez les cigares proposes par les membres</p>
+      </div>
+
+      <!-- Status Tabs -->
+      <div class="flex flex-wrap gap-2 mb-6">
+        @for (status of statuses; track status) {
+          <button
+            type="button"
+            class="px-3 py-1.5 rounded-lg text-sm border transition-all"
+            [class]="moderationStore.status() === status
+              ? 'bg-gold-500/10 border-gold-500 text-gold-500'
+              : 'bg-smoke-800 border-smoke-700 text-smoke-300 hover:border-smoke-600'"
+            (click)="moderationStore.setStatus(status)"
+          >
+            {{ getStatusLabel(status) }}
+          </button>
+        }
+      </div>
+
+      @if (moderationStore.queue.loading()) {
+        <div class="flex items-center justify-center py-12">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-gold-500"></div>
+        </div>
+      } @else if (moderationStore.queue.error()) {
+        <div class="text-center py-12">
+          <p class="text-error-500">Erreur lors du chargement de la file de moderation</p>
+          <ui-button variant="secondary" size="sm" class="mt-4" (click)="moderationStore.queue.invalidate()">
+            Reessayer
+          </ui-button>
+        </div>
+      } @else if (cigars().length === 0) {
+        <div class="text-center py-12 bg-smoke-800 rounded-lg border border-smoke-700">
+          <i name="check" class="w-12 h-12 text-smoke-600 mx-auto mb-3"></i>
+          <p class="text-smoke-400">Aucun cigare {{ getStatusLabel(moderationStore.status()).toLowerCase() }}</p>
+        </div>
+      } @else {
+        <div class="space-y-4">
+          @for (cigar of cigars(); track cigar.id) {
+            <div class="bg-smoke-800 rounded-lg border border-smoke-700 p-4">
+              <!-- Header -->
+              <div class="flex items-start justify-between mb-3">
+                <div>
+                  <p class="text-xs text-smoke-400 uppercase tracking-wide">{{ cigar.brand.name }}</p>
+                  <h3 class="text-lg font-semibold text-smoke-50">{{ cigar.name }}</h3>
+                </div>
+                <span class="text-xs text-smoke-500">
+                  {{ formatDate(cigar.createdAt) }}
+                </span>
+              </div>
+
+              <!-- Specs -->
+              <div class="flex flex-wrap items-center gap-4 text-xs text-smoke-400 mb-3">
+                <span>{{ cigar.vitola || 'Vitole inconnue' }}</span>
+                @if (cigar.strength) {
+                  <span>Force {{ cigar.strength }}/5</span>
+                }
+                @if (cigar.length) {
+                  <span>{{ cigar.length }} mm</span>
+                }
+                @if (cigar.ringGauge) {
+                  <span>Cepo {{ cigar.ringGauge }}</span>
+                }
+                @if (cigar.wrapper) {
+                  <span>{{ cigar.wrapper }}</span>
+                }
+                @if (cigar.origin) {
+                  <span>{{ cigar.origin }}</span>
+                }
+              </div>
+
+              <!-- Metadata -->
+              <div class="flex flex-wrap items-center gap-4 text-xs text-smoke-500 mb-4">
+                <span class="flex items-center gap-1">
+                  <i name="user" class="w-3 h-3"></i>
+                  {{ '@' + cigar.creator.username }}
+                </span>
+                @if (cigar.rejectionReason) {
+                  <span class="flex items-center gap-1 text-error-400">
+                    <i name="x" class="w-3 h-3"></i>
+                    {{ cigar.rejectionReason }}
+                  </span>
+                }
+              </div>
+
+              <!-- Actions -->
+              <div class="flex flex-wrap gap-2">
+                @if (cigar.status !== 'VERIFIED') {
+                  <ui-button
+                    variant="primary"
+                    size="sm"
+                    [loading]="processingId() === cigar.id"
+                    [disabled]="processingId() === cigar.id"
+                    (click)="approve(cigar)"
+                  >
+                    Approuver
+                  </ui-button>
+                }
+                <ui-button
+                  variant="secondary"
+                  size="sm"
+                  [disabled]="processingId() === cigar.id"
+                  (click)="openEdit(cigar)"
+                >
+                  Modifier
+                </ui-button>
+                @if (cigar.status === 'PENDING') {
+                  <ui-button
+                    variant="destructive"
+                    size="sm"
+                    [disabled]="processingId() === cigar.id"
+                    (click)="openReject(cigar)"
+                  >
+                    Rejeter
+                  </ui-button>
+                }
+                <ui-button
+                  variant="ghost"
+                  size="sm"
+                  [disabled]="processingId() === cigar.id"
+                  (click)="mergingCigar.set(cigar)"
+                >
+                  Doublons
+                </ui-button>
+              </div>
+            </div>
+          }
+        </div>
+
+        <!-- Pagination -->
+        @if (moderationStore.totalPages() > 1) {
+          <div class="mt-6 flex items-center justify-between">
+            <span class="text-sm text-smoke-500">
+              {{ moderationStore.queue.data()?.meta?.total ?? 0 }} cigares au total
+            </span>
+
+            <div class="flex items-center gap-2">
+              <ui-button
+                variant="secondary"
+                size="sm"
+                [disabled]="!moderationStore.hasPrevPage() || moderationStore.queue.loading()"
+                (click)="moderationStore.prevPage()"
+              >
+                <i name="chevron-left" class="w-4 h-4"></i>
+              </ui-button>
+
+              <span class="text-sm text-smoke-300 px-2">
+                Page {{ moderationStore.currentPage() }} / {{ moderationStore.totalPages() }}
+              </span>
+
+              <ui-button
+                variant="secondary"
+                size="sm"
+                [disabled]="!moderationStore.hasNextPage() || moderationStore.queue.loading()"
+                (click)="moderationStore.nextPage()"
+              >
+                <i name="chevron-right" class="w-4 h-4"></i>
+              </ui-button>
+            </div>
+          </div>
+        }
+      }
+    </div>
+
+    <!-- Edit Modal -->
+    <ui-modal [isOpen]="!!editingCigar()" size="md" variant="dialog" (close)="editingCigar.set(null)">
+      <form class="flex flex-col gap-4 p-6" [formGroup]="editForm" (ngSubmit)="saveEdit(false)">
+        <h2 class="text-xl font-semibold text-smoke-50">Modifier le cigare</h2>
+        <p class="text-sm text-smoke-400">{{ editingCigar()?.brand?.name }}</p>
+
+        <ui-input inputId="cigar-name" label="Nom" [control]="editForm.controls.name" [required]="true" />
+        <ui-input inputId="cigar-vitola" label="Vitole" [control]="editForm.controls.vitola" />
+        <div class="grid grid-cols-3 gap-3">
+          <ui-input inputId="cigar-strength" type="number" label="Force (1-5)" [control]="editForm.controls.strength" />
+          <ui-input inputId="cigar-length" type="number" label="Longueur (mm)" [control]="editForm.controls.length" />
+          <ui-input inputId="cigar-ring-gauge" type="number" label="Cepo" [control]="editForm.controls.ringGauge" />
+        </div>
+        <div class="grid grid-cols-2 gap-3">
+          <ui-input inputId="cigar-wrapper" label="Cape" [control]="editForm.controls.wrapper" />
+          <ui-input inputId="cigar-origin" label="Origine" [control]="editForm.controls.origin" />
+        </div>
+
+        <div class="flex flex-col md:flex-row gap-3 mt-2">
+          <ui-button
+            type="submit"
+            variant="secondary"
+            fullWidth
+            [loading]="saving()"
+            [disabled]="editForm.invalid || saving()"
+          >
+            Enregistrer
+          </ui-button>
+          @if (editingCigar()?.status !== 'VERIFIED') {
+            <ui-button
+              variant="primary"
+              fullWidth
+              [loading]="moderationStore.approve.loading()"
+              [disabled]="editForm.invalid || saving()"
+              (click)="saveEdit(true)"
+            >
+              Enregistrer et approuver
+            </ui-button>
+          }
+        </div>
+
+        <!-- Change History -->
+        @if (historyQuery.data()?.length) {
+          <div class="border-t border-smoke-700 pt-4">
+            <p class="text-xs font-medium text-smoke-400 uppercase tracking-wide mb-2">Historique</p>
+            <div class="space-y-2 max-h-48 overflow-y-auto">
+              @for (revision of historyQuery.data(); track revision.id) {
+                <div class="text-xs">
+                  <p class="text-smoke-500">{{ formatDate(revision.createdAt) }} · {{ revision.editor ? '@' + revision.editor.username : 'Compte supprimé' }}</p>
+                  @for (change of revision.changes; track change.field) {
+                    <p class="text-smoke-300">
+                      {{ getFieldLabel(change.field) }} : {{ change.from ?? '-' }} → {{ change.to ?? '-' }}
+                    </p>
+                  }
+                </div>
+              }
+            </div>
+          </div>
+        }
+      </form>
+    </ui-modal>
+
+    <!-- Reject Modal -->
+    <ui-modal [isOpen]="!!rejectingCigar()" size="sm" variant="dialog" (close)="rejectingCigar.set(null)">
+      <form class="flex flex-col gap-4 p-6" (ngSubmit)="confirmReject()">
+        <h2 class="text-xl font-semibold text-smoke-50">Rejeter le cigare</h2>
+        <p class="text-sm text-smoke-400">
+          {{ rejectingCigar()?.brand?.name }} {{ rejectingCigar()?.name }}
+        </p>
+
+        <ui-input
+          inputId="reject-reason"
+          label="Raison"
+          placeholder="Doublon, nom incorrect..."
+          [control]="rejectReason"
+          [multiline]="true"
+          [maxlength]="500"
+          [required]="true"
+        />
+
+        <ui-button
+          type="submit"
+          variant="destructive"
+          fullWidth
+          [loading]="moderationStore.reject.loading()"
+          [disabled]="rejectReason.invalid || moderationStore.reject.loading()"
+        >
+          Rejeter
+        </ui-button>
+      </form>
+    </ui-modal>
+
+    <!-- Merge Modal -->
+    <ui-modal [isOpen]="!!mergingCigar()" size="md" variant="dialog" (close)="mergingCigar.set(null)">
+      <div class="flex flex-col gap-4 p-6">
+        <h2 class="text-xl font-semibold text-smoke-50">Doublons potentiels</h2>
+        <p class="text-sm text-smoke-400">
+          {{ mergingCigar()?.brand?.name }} {{ mergingCigar()?.name }} sera supprime et ses degustations
+          rattachees au cigare choisi. L'ancienne adresse redirigera vers ce cigare.
+        </p>
+
+        @if (duplicatesQuery.loading()) {
+          <div class="flex items-center justify-center py-6">
+            <div class="animate-spin rounded-full h-6 w-6 border-b-2 border-gold-500"></div>
+          </div>
+        } @else if (mergeCandidates().length === 0) {
+          <p class="text-sm text-smoke-500 text-center py-6">Aucun doublon detecte</p>
+        } @else {
+          <div class="space-y-2">
+            @for (candidate of mergeCandidates(); track candidate.id) {
+              <div class="flex items-center justify-between gap-3 bg-smoke-900 rounded-lg border border-smoke-700 p-3">
+                <div>
+                  <p class="text-sm text-smoke-50">{{ candidate.brand.name }} {{ candidate.name }}</p>
+                  <p class="text-xs text-smoke-500">
+                    {{ getStatusLabel(candidate.status) }} · {{ formatScore(candidate.score) }}
+                  </p>
+                </div>
+                <ui-button
+                  variant="primary"
+                  size="sm"
+                  [loading]="moderationStore.merge.loading()"
+                  [disabled]="moderationStore.merge.loading()"
+                  (click)="confirmMerge(candidate)"
+                >
+                  Fusionner
+                </ui-button>
+              </div>
+            }
+          </div>
+        }
+      </div>
+    </ui-modal>
+  `,
+})
+export class CigarsComponent {
+  readonly moderationStore: CigarModerationStore = injectCigarModerationStore();
+  readonly #toastService = inject(ToastService);
+  readonly #fb = inject(FormBuilder);
+
+  readonly statuses: CigarStatus[] = ['PENDING', 'REJECTED', 'VERIFIED'];
+
+  readonly processingId = signal<string | null>(null);
+  readonly editingCigar = signal<CigarModerationResponseDto | null>(null);
+  readonly rejectingCigar = signal<CigarModerationResponseDto | null>(null);
+  readonly mergingCigar = signal<CigarModerationResponseDto | null>(null);
+
+  readonly historyQuery = this.moderationStore.getHistory(() => this.editingCigar()?.id ?? null);
+  readonly saving = computed(
+    () => this.moderationStore.update.loading() || this.moderationStore.updateSpec.loading()
+  );
+
+  readonly duplicatesQuery = injectCigarStore().findDuplicates(
+    () => this.mergingCigar()?.brand.name ?? '',
+    () => this.mergingCigar()?.name ?? ''
+  );
+
+  // Suggestions other than the cigar being merged
+  readonly mergeCandidates = computed(() => {
+    const cigar = this.mergingCigar();
+    const suggestions = this.duplicatesQuery.data()?.cigars ?? [];
+    return cigar ? suggestions.filter((suggestion) => suggestion.id !== cigar.id) : [];
+  });
+
+  readonly editForm = this.#fb.group({
+    name: this.#fb.nonNullable.control('', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]),
+    vitola: this.#fb.nonNullable.control('', [Validators.maxLength(50)]),
+    strength: this.#fb.control<number | null>(null, [Validators.min(1), Validators.max(5)]),
+    length: this.#fb.control<number | null>(null, [Validators.min(50), Validators.max(300)]),
+    ringGauge: this.#fb.control<number | null>(null, [Validators.min(20), Validators.max(80)]),
+    wrapper: this.#fb.nonNullable.control('', [Validators.maxLength(50)]),
+    origin: this.#fb.nonNullable.control('', [Validators.maxLength(50)]),
+  });
+
+  readonly rejectReason = this.#fb.nonNullable.control('', [
+    Validators.required,
+    Validators.minLength(3),
+    Validators.maxLength(500),
+  ]);
+
+  readonly cigars = computed(() => this.moderationStore.queue.data()?.data ?? []);
+
+  async approve(cigar: CigarModerationResponseDto): Promise<void> {
+    this.processingId.set(cigar.id);
+
+    const result = await this.moderationStore.approve.mutate(cigar.id);
+    if (result) {
+      this.#toastService.success(`${cigar.name} approuve`);
+    } else {
+      this.#toastService.error("Erreur lors de l'approbation");
+    }
+
+    this.processingId.set(null);
+  }
+
+  openEdit(cigar: CigarModerationResponseDto): void {
+    this.editForm.reset({
+      name: cigar.name,
+      vitola: cigar.vitola ?? '',
+      strength: cigar.strength,
+      length: cigar.length,
+      ringGauge: cigar.ringGauge,
+      wrapper: cigar.wrapper ?? '',
+      origin: cigar.origin ?? '',
+    });
+    this.editingCigar.set(cigar);
+  }
+
+  async saveEdit(andApprove: boolean): Promise<void> {
+    const cigar = this.editingCigar();
+    if (!cigar || this.editForm.invalid) return;
+
+    const value = this.editForm.getRawValue();
+    const data: UpdateCigarModerationDto = {
+      name: value.name.trim(),
+      vitola: value.vitola.trim() || undefined,
+      strength: value.strength ?? undefined,
+      length: value.length ?? undefined,
+      ringGauge: value.ringGauge ?? undefined,
+      wrapper: value.wrapper.trim() || undefined,
+      origin: value.origin.trim() || undefined,
+    };
+
+    // Verified cigars go through the spec correction endpoint (recorded in the history)
+    const updated = cigar.status === 'VERIFIED'
+      ? await this.moderationStore.updateSpec.mutate({ id: cigar.id, data })
+      : await this.moderationStore.update.mutate({ id: cigar.id, data });
+    if (!updated) {
+      this.#toastService.error('Erreur lors de la modification');
+      return;
+    }
+
+    this.editingCigar.set(null);
+
+    if (andApprove) {
+      await this.approve({ ...cigar, name: updated.name });
+    } else {
+      this.#toastService.success('Cigare modifie');
+    }
+  }
+
+  openReject(cigar: CigarModerationResponseDto): void {
+    this.rejectReason.reset('');
+    this.rejectingCigar.set(cigar);
+  }
+
+  async confirmReject(): Promise<void> {
+    const cigar = this.rejectingCigar();
+    if (!cigar || this.rejectReason.invalid) return;
+
+    const result = await this.moderationStore.reject.mutate({
+      id: cigar.id,
+      data: { reason: this.rejectReason.value.trim() },
+    });
+
+    if (result) {
+      this.rejectingCigar.set(null);
+      this.#toastService.success(`${cigar.name} rejete`);
+    } else {
+      this.#toastService.error('Erreur lors du rejet');
+    }
+  }
+
+  async confirmMerge(target: CigarSuggestionDto): Promise<void> {
+    const cigar = this.mergingCigar();
+    if (!cigar) return;
+
+    const result = await this.moderationStore.merge.mutate({
+      id: cigar.id,
+      targetCigarId: target.id,
+    });
+
+    if (result) {
+      this.mergingCigar.set(null);
+      this.#toastService.success(`${cigar.name} fusionne avec ${result.name}`);
+    } else {
+      this.#toastService.error('Erreur lors de la fusion');
+    }
+  }
+
+  formatScore(score: number): string {
+    return `${Math.round(score * 100)}% similaire`;
+  }
+
+  getFieldLabel(field: string): string {
+    const labels: Record<string, string> = {
+      name: 'Nom',
+      vitola: 'Vitole',
+      strength: 'Force',
+      length: 'Longueur',
+      ringGauge: 'Cepo',
+      wrapper: 'Cape',
+      origin: 'Origine',
+      mergedCigar: 'Doublon fusionné',
+    };
+    return labels[field] || field;
+  }
+
+  getStatusLabel(status: string): string {
+    const labels: Record<string, string> = {
+      PENDING: 'En attente',
+      REJECTED: 'Rejetes',
+      VERIFIED: 'Valides',
+    };
+    return labels[status] || status;
+  }
+
+  formatDate(date: Date | string): string {
+    return new Date(date).toLocaleDateString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+}
@@ -7,7 +7,7 @@ interface AdminSection {
   title: string;
   description: string;
   route: string;
-  icon: 'heart' | 'star' | 'users' | 'settings' | 'lock' | 'flame';
+  icon: 'heart' | 'star' | 'users' | 'settings' | 'lock' | 'flame' | 'box';
   color: string;
 }
 
@@ -65,6 +65,13 @@ export class DashboardComponent {
       icon: 'heart',
       color: 'bg-gold-500/20 text-gold-500',
     },
+    {
+      title: 'Cigares',
+      description: 'File de moderation des cigares proposes',
+      route: '/admin/cigars',
+      icon: 'box',
+      color: 'bg-amber-500/20 text-amber-400',
+    },
     {
       title: 'Analytics',
       description: 'Statistiques et evenements',
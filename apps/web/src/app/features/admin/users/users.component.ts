@@ -1,15 +1,498 @@
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, computed, effect, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { debounceTime } from 'rxjs';
+import {
+  IconDirective,
+  ButtonComponent,
+  ModalComponent,
+  InputComponent,
+  SelectComponent,
+} from '@cigar-platform/shared/ui';
+import type { SelectOption } from '@cigar-platform/shared/ui';
+import {
+  injectAdminPlansStore,
+  AdminPlansStore,
+} from '../../../core/stores/admin-plans.store';
+import type {
+  PlanUserResponseDto,
+  PlanAdminAction,
+  BulkPlanActionDto,
+  BulkPlanActionResultDto,
+  PlanAdminControllerFindUsersType,
+  PlanAdminControllerFindUsersSource,
+  PlanAdminControllerFindUsersStatus,
+} from '@cigar-platform/types';
+import { ToastService } from '../../../core/services/toast.service';
 
+/**
+ * Admin Users Component
+ * Users with their plan: gift, extend, revoke or convert to LIFETIME
+ * Bulk actions apply to the filtered cohort (previewed before being applied)
+ */
 @Component({
   selector: 'app-admin-users',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    IconDirective,
+    ButtonComponent,
+    ModalComponent,
+    InputComponent,
+    SelectComponent,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
   template: `
-    <div class="p-8">
-      <h1 class="text-3xl font-bold text-smoke-50 mb-6">Gestion des utilisateurs</h1>
-      <p class="text-smoke-300">Liste et gestion des utilisateurs à venir...</p>
+    <div class="p-6 md:p-8">
+      <div class="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 class="text-2xl font-bold text-smoke-50 mb-2">Gestion des utilisateurs</h1>
+          <p class="text-smoke-400">Offrez, prolongez ou revoquez les plans Premium</p>
+        </div>
+        <ui-button variant="secondary" size="sm" (click)="openBulk()">
+          <i name="users" class="w-4 h-4"></i>
+          Action groupee
+        </ui-button>
+      </div>
+
+      <!-- Cohort Filters -->
+      <form class="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-3 mb-6" [formGroup]="filterForm">
+        <div class="md:col-span-3 xl:col-span-2">
+          <ui-input inputId="users-search" type="search" label="Recherche" placeholder="Pseudo, nom, email..." [control]="filterForm.controls.search" />
+        </div>
+        <ui-select label="Plan" [options]="typeOptions" [control]="filterForm.controls.type" />
+        <ui-select label="Source" [options]="sourceOptions" [control]="filterForm.controls.source" />
+        <ui-input inputId="users-min-tastings" type="number" label="Degustations min." [control]="filterForm.controls.minCompletedTastings" />
+        <ui-input inputId="users-expiring" type="number" label="Expire sous (jours)" [control]="filterForm.controls.expiringWithinDays" />
+      </form>
+
+      @if (plansStore.users.loading()) {
+        <div class="flex items-center justify-center py-12">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-gold-500"></div>
+        </div>
+      } @else if (plansStore.users.error()) {
+        <div class="text-center py-12">
+          <p class="text-error-500">Erreur lors du chargement des utilisateurs</p>
+          <ui-button variant="secondary" size="sm" class="mt-4" (click)="plansStore.users.invalidate()">
+            Reessayer
+          </ui-button>
+        </div>
+      } @else if (users().length === 0) {
+        <div class="text-center py-12 bg-smoke-800 rounded-lg border border-smoke-700">
+          <i name="users" class="w-12 h-12 text-smoke-600 mx-auto mb-3"></i>
+          <p class="text-smoke-400">Aucun utilisateur pour ces filtres</p>
+        </div>
+      } @else {
+        <div class="space-y-3">
+          @for (user of users(); track user.id) {
+            <div class="bg-smoke-800 rounded-lg border border-smoke-700 p-4 flex flex-col md:flex-row md:items-center gap-4">
+              <!-- Identity -->
+              <div class="flex-1 min-w-0">
+                <p class="text-smoke-50 font-medium truncate">{{ user.displayName }}</p>
+                <p class="text-xs text-smoke-500 truncate">{{ '@' + user.username }} · {{ user.email }}</p>
+              </div>
+
+              <!-- Plan -->
+              <div class="flex flex-wrap items-center gap-3 text-xs">
+                <span
+                  class="px-2 py-1 rounded-md border"
+                  [class]="user.plan.isPremium
+                    ? 'bg-gold-500/10 border-gold-500/40 text-gold-500'
+                    : 'bg-smoke-900 border-smoke-700 text-smoke-400'"
+                >
+                  {{ user.plan.label }}
+                </span>
+                @if (user.plan.status !== 'ACTIVE') {
+                  <span class="text-error-400">{{ getStatusLabel(user.plan.status) }}</span>
+                }
+                <span class="text-smoke-400">{{ formatExpiry(user) }}</span>
+                <span class="text-smoke-500">{{ user.completedTastingCount }} degustation(s)</span>
+              </div>
+
+              <!-- Actions -->
+              <div class="flex flex-wrap gap-2">
+                <ui-button variant="primary" size="sm" [disabled]="processing()" (click)="openAction(user, 'GIFT')">
+                  Offrir
+                </ui-button>
+                @if (canExtend(user)) {
+                  <ui-button variant="secondary" size="sm" [disabled]="processing()" (click)="openAction(user, 'EXTEND')">
+                    Prolonger
+                  </ui-button>
+                }
+                @if (user.plan.source !== 'LIFETIME') {
+                  <ui-button variant="ghost" size="sm" [disabled]="processing()" (click)="openAction(user, 'LIFETIME')">
+                    A vie
+                  </ui-button>
+                }
+                @if (canRevoke(user)) {
+                  <ui-button variant="destructive" size="sm" [disabled]="processing()" (click)="openAction(user, 'REVOKE')">
+                    Revoquer
+                  </ui-button>
+                }
+              </div>
+            </div>
+          }
+        </div>
+
+        <!-- Pagination -->
+        @if (plansStore.totalPages() > 1) {
+          <div class="mt-6 flex items-center justify-between">
+            <span class="text-sm text-smoke-500">
+              {{ plansStore.users.data()?.meta?.total ?? 0 }} utilisateurs au total
+            </span>
+
+            <div class="flex items-center gap-2">
+              <ui-button
+                variant="secondary"
+                size="sm"
+                [disabled]="!plansStore.hasPrevPage() || plansStore.users.loading()"
+                (click)="plansStore.prevPage()"
+              >
+                <i name="chevron-left" class="w-4 h-4"></i>
+              </ui-button>
+
+              <span class="text-sm text-smoke-300 px-2">
+                Page {{ plansStore.currentPage() }} / {{ plansStore.totalPages() }}
+              </span>
+
+              <ui-button
+                variant="secondary"
+                size="sm"
+                [disabled]="!plansStore.hasNextPage() || plansStore.users.loading()"
+                (click)="plansStore.nextPage()"
+              >
+                <i name="chevron-right" class="w-4 h-4"></i>
+              </ui-button>
+            </div>
+          </div>
+        }
+      }
     </div>
+
+    <!-- Single User Action Modal -->
+    <ui-modal [isOpen]="!!pendingAction()" size="sm" variant="dialog" (close)="pendingAction.set(null)">
+      <form class="flex flex-col gap-4 p-6" [formGroup]="actionForm" (ngSubmit)="confirmAction()">
+        <h2 class="text-xl font-semibold text-smoke-50">{{ getActionLabel(pendingAction()?.action) }}</h2>
+        <p class="text-sm text-smoke-400">
+          {{ pendingAction()?.user?.displayName }} · {{ pendingAction()?.user?.plan?.label }}
+        </p>
+
+        @if (pendingAction()?.action === 'GIFT' || pendingAction()?.action === 'EXTEND') {
+          <ui-input
+            inputId="plan-expires-at"
+            type="date"
+            label="Expire le"
+            [hint]="pendingAction()?.action === 'GIFT' ? 'Laisser vide pour un cadeau sans expiration' : ''"
+            [control]="actionForm.controls.expiresAt"
+            [required]="pendingAction()?.action === 'EXTEND'"
+          />
+        }
+        @if (pendingAction()?.action !== 'EXTEND') {
+          <ui-input
+            inputId="plan-reason"
+            label="Raison"
+            placeholder="Beta testeur actif, geste commercial..."
+            [control]="actionForm.controls.reason"
+            [maxlength]="255"
+          />
+        }
+
+        <ui-button
+          type="submit"
+          [variant]="pendingAction()?.action === 'REVOKE' ? 'destructive' : 'primary'"
+          fullWidth
+          [loading]="processing()"
+          [disabled]="!canConfirmAction() || processing()"
+        >
+          Confirmer
+        </ui-button>
+      </form>
+    </ui-modal>
+
+    <!-- Bulk Action Modal -->
+    <ui-modal [isOpen]="bulkOpen()" size="md" variant="dialog" (close)="bulkOpen.set(false)">
+      <form class="flex flex-col gap-4 p-6" [formGroup]="bulkForm" (ngSubmit)="applyBulk()">
+        <h2 class="text-xl font-semibold text-smoke-50">Action groupee</h2>
+        <p class="text-sm text-smoke-400">
+          L'action s'applique a tous les utilisateurs correspondant aux filtres actuels :
+          {{ describeFilter() }}
+        </p>
+
+        <ui-select label="Action" [options]="actionOptions" [control]="bulkForm.controls.action" [required]="true" />
+
+        @if (bulkForm.controls.action.value === 'GIFT' || bulkForm.controls.action.value === 'EXTEND') {
+          <ui-input
+            inputId="bulk-expires-at"
+            type="date"
+            label="Expire le"
+            [control]="bulkForm.controls.expiresAt"
+            [required]="bulkForm.controls.action.value === 'EXTEND'"
+          />
+        }
+        @if (bulkForm.controls.action.value !== 'EXTEND') {
+          <ui-input inputId="bulk-reason" label="Raison" [control]="bulkForm.controls.reason" [maxlength]="255" />
+        }
+
+        @if (bulkPreview(); as preview) {
+          <div class="bg-smoke-900 rounded-lg border border-smoke-700 p-3 text-sm text-smoke-300">
+            {{ preview.matched }} utilisateur(s) concerne(s)
+          </div>
+        }
+
+        <div class="flex flex-col md:flex-row gap-3">
+          <ui-button
+            variant="secondary"
+            fullWidth
+            [loading]="plansStore.bulk.loading() && !bulkPreview()"
+            [disabled]="!canSubmitBulk() || plansStore.bulk.loading()"
+            (click)="previewBulk()"
+          >
+            Previsualiser
+          </ui-button>
+          <ui-button
+            type="submit"
+            variant="primary"
+            fullWidth
+            [loading]="plansStore.bulk.loading() && !!bulkPreview()"
+            [disabled]="!bulkPreview()?.matched || !canSubmitBulk() || plansStore.bulk.loading()"
+          >
+            Appliquer
+          </ui-button>
+        </div>
+      </form>
+    </ui-modal>
   `,
 })
-export class UsersComponent {}
\ No newline at end of file
+export class UsersComponent {
+  readonly plansStore: AdminPlansStore = injectAdminPlansStore();
+  readonly #toastService = inject(ToastService);
+  readonly #fb = inject(FormBuilder);
+
+  readonly typeOptions: SelectOption[] = [
+    { value: '', label: 'Tous' },
+    { value: 'FREE', label: 'Gratuit' },
+    { value: 'PREMIUM', label: 'Premium' },
+  ];
+
+  readonly sourceOptions: SelectOption[] = [
+    { value: '', label: 'Toutes' },
+    { value: 'DEFAULT', label: 'Par defaut' },
+    { value: 'BETA', label: 'Beta' },
+    { value: 'GIFT', label: 'Cadeau' },
+    { value: 'SUBSCRIPTION', label: 'Abonnement' },
+    { value: 'LIFETIME', label: 'A vie' },
+  ];
+
+  readonly actionOptions: SelectOption[] = [
+    { value: 'GIFT', label: 'Offrir Premium' },
+    { value: 'EXTEND', label: 'Prolonger Premium' },
+    { value: 'LIFETIME', label: 'Passer a vie' },
+    { value: 'REVOKE', label: 'Revoquer Premium' },
+  ];
+
+  readonly filterForm = this.#fb.nonNullable.group({
+    search: '',
+    type: '',
+    source: '',
+    minCompletedTastings: this.#fb.control<number | null>(null, [Validators.min(1)]),
+    expiringWithinDays: this.#fb.control<number | null>(null, [Validators.min(1), Validators.max(365)]),
+  });
+
+  readonly actionForm = this.#fb.nonNullable.group({
+    expiresAt: '',
+    reason: ['', [Validators.maxLength(255)]],
+  });
+
+  readonly bulkForm = this.#fb.nonNullable.group({
+    action: ['GIFT', [Validators.required]],
+    expiresAt: '',
+    reason: ['', [Validators.maxLength(255)]],
+  });
+
+  readonly processing = signal(false);
+  readonly pendingAction = signal<{ user: PlanUserResponseDto; action: PlanAdminAction } | null>(null);
+  readonly bulkOpen = signal(false);
+  readonly bulkPreview = signal<BulkPlanActionResultDto | null>(null);
+
+  readonly users = computed(() => this.plansStore.users.data()?.data ?? []);
+
+  readonly #actionValue = toSignal(this.actionForm.valueChanges, { initialValue: this.actionForm.getRawValue() });
+  readonly #bulkValue = toSignal(this.bulkForm.valueChanges, { initialValue: this.bulkForm.getRawValue() });
+
+  readonly canConfirmAction = computed(() => {
+    const value = this.#actionValue();
+    return this.pendingAction()?.action !== 'EXTEND' || !!value.expiresAt;
+  });
+
+  readonly canSubmitBulk = computed(() => {
+    const value = this.#bulkValue();
+    return this.hasCohortFilter() && (value.action !== 'EXTEND' || !!value.expiresAt);
+  });
+
+  readonly hasCohortFilter = computed(() => {
+    const filter = this.plansStore.filter();
+    return !!(filter.type || filter.source || filter.minCompletedTastings || filter.expiringWithinDays);
+  });
+
+  constructor() {
+    // Apply filters (debounced so typing doesn't flood the API)
+    effect((onCleanup) => {
+      const subscription = this.filterForm.valueChanges.pipe(debounceTime(300)).subscribe(() => {
+        if (this.filterForm.invalid) return;
+
+        const value = this.filterForm.getRawValue();
+        this.plansStore.setFilter({
+          search: value.search.trim() || undefined,
+          type: (value.type || undefined) as PlanAdminControllerFindUsersType | undefined,
+          source: (value.source || undefined) as PlanAdminControllerFindUsersSource | undefined,
+          minCompletedTastings: value.minCompletedTastings ?? undefined,
+          expiringWithinDays: value.expiringWithinDays ?? undefined,
+        });
+      });
+      onCleanup(() => subscription.unsubscribe());
+    });
+  }
+
+  canExtend(user: PlanUserResponseDto): boolean {
+    return user.plan.type === 'PREMIUM' && user.plan.source !== 'LIFETIME';
+  }
+
+  canRevoke(user: PlanUserResponseDto): boolean {
+    return user.plan.type === 'PREMIUM' && user.plan.status === 'ACTIVE';
+  }
+
+  openAction(user: PlanUserResponseDto, action: PlanAdminAction): void {
+    this.actionForm.reset({
+      expiresAt: action === 'EXTEND' && user.plan.expiresAt ? user.plan.expiresAt.slice(0, 10) : '',
+      reason: '',
+    });
+    this.pendingAction.set({ user, action });
+  }
+
+  async confirmAction(): Promise<void> {
+    const pending = this.pendingAction();
+    if (!pending || !this.canConfirmAction()) return;
+
+    const { user, action } = pending;
+    const value = this.actionForm.getRawValue();
+    const expiresAt = value.expiresAt ? new Date(value.expiresAt).toISOString() : undefined;
+    const reason = value.reason.trim() || undefined;
+
+    this.processing.set(true);
+
+    let result;
+    switch (action) {
+      case 'GIFT':
+        result = await this.plansStore.gift.mutate({ userId: user.id, data: { expiresAt, reason } });
+        break;
+      case 'EXTEND':
+        result = await this.plansStore.extend.mutate({ userId: user.id, data: { expiresAt: expiresAt ?? '' } });
+        break;
+      case 'LIFETIME':
+        result = await this.plansStore.lifetime.mutate({ userId: user.id, data: { reason } });
+        break;
+      case 'REVOKE':
+        result = await this.plansStore.revoke.mutate({ userId: user.id, data: { reason } });
+        break;
+    }
+
+    this.processing.set(false);
+
+    if (result) {
+      this.pendingAction.set(null);
+      this.#toastService.success(`${user.displayName} : ${result.label}`);
+    } else {
+      this.#toastService.error("Erreur lors de la mise a jour du plan");
+    }
+  }
+
+  openBulk(): void {
+    this.bulkForm.reset({ action: 'GIFT', expiresAt: '', reason: '' });
+    this.bulkPreview.set(null);
+    this.bulkOpen.set(true);
+
+    if (!this.hasCohortFilter()) {
+      this.#toastService.error('Selectionnez au moins un filtre (plan, source, degustations ou expiration)');
+    }
+  }
+
+  async previewBulk(): Promise<void> {
+    const result = await this.plansStore.bulk.mutate(this.buildBulkPayload(true));
+    if (result) {
+      this.bulkPreview.set(result);
+    } else {
+      this.#toastService.error('Erreur lors de la previsualisation');
+    }
+  }
+
+  async applyBulk(): Promise<void> {
+    if (!this.bulkPreview()?.matched || !this.canSubmitBulk()) return;
+
+    const result = await this.plansStore.bulk.mutate(this.buildBulkPayload(false));
+    if (result) {
+      this.bulkOpen.set(false);
+      this.#toastService.success(`${result.updated} plan(s) mis a jour`);
+    } else {
+      this.#toastService.error("Erreur lors de l'action groupee");
+    }
+  }
+
+  describeFilter(): string {
+    const filter = this.plansStore.filter();
+    const parts: string[] = [];
+    if (filter.type) parts.push(this.typeOptions.find((o) => o.value === filter.type)?.label ?? filter.type);
+    if (filter.source) parts.push(this.sourceOptions.find((o) => o.value === filter.source)?.label ?? filter.source);
+    if (filter.minCompletedTastings) parts.push(`${filter.minCompletedTastings}+ degustations`);
+    if (filter.expiringWithinDays) parts.push(`expire sous ${filter.expiringWithinDays} jours`);
+    return parts.length ? parts.join(', ') : 'aucun filtre';
+  }
+
+  getActionLabel(action: PlanAdminAction | undefined): string {
+    const labels: Record<string, string> = {
+      GIFT: 'Offrir Premium',
+      EXTEND: 'Prolonger Premium',
+      LIFETIME: 'Passer a vie',
+      REVOKE: 'Revoquer Premium',
+    };
+    return action ? labels[action] : '';
+  }
+
+  getStatusLabel(status: PlanAdminControllerFindUsersStatus): string {
+    const labels: Record<string, string> = {
+      ACTIVE: 'Actif',
+      EXPIRED: 'Expire',
+      CANCELLED: 'Revoque',
+    };
+    return labels[status] || status;
+  }
+
+  formatExpiry(user: PlanUserResponseDto): string {
+    if (!user.plan.expiresAt) {
+      return user.plan.type === 'PREMIUM' ? "Pas d'expiration" : '';
+    }
+    const date = new Date(user.plan.expiresAt).toLocaleDateString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+    return `Expire le ${date}`;
+  }
+
+  private buildBulkPayload(dryRun: boolean): BulkPlanActionDto {
+    const value = this.bulkForm.getRawValue();
+    const filter = this.plansStore.filter();
+
+    return {
+      type: filter.type,
+      source: filter.source,
+      minCompletedTastings: filter.minCompletedTastings,
+      expiringWithinDays: filter.expiringWithinDays,
+      action: value.action as PlanAdminAction,
+      expiresAt: value.expiresAt ? new Date(value.expiresAt).toISOString() : undefined,
+      reason: value.action !== 'EXTEND' ? value.reason.trim() || undefined : undefined,
+      dryRun,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { Component, computed, effect, inject, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
 import { toSignal } from '@angular/core/rxjs-interop';
@@ -9,8 +9,16 @@ import {
   ButtonComponent,
   TooltipDirective,
 } from '@cigar-platform/shared/ui';
+import { AROMAS, TASTES, PAIRING_TYPES } from '@cigar-platform/shared/constants';
 import { injectCigarStore } from '../../../core/stores/cigar.store';
 
+const FLAVOR_LABELS = new Map<string, string>([
+  ...AROMAS.map((aroma) => [aroma.id, aroma.label] as const),
+  ...TASTES.map((taste) => [taste.id, taste.label] as const),
+]);
+
+const PAIRING_LABELS = new Map<string, string>(PAIRING_TYPES.map((pairing) => [pairing.id, pairing.label]));
+
 /**
  * Cigar Public Profile Page
  *
@@ -20,13 +28,13 @@ import { injectCigarStore } from '../../../core/stores/cigar.store';
  * Features:
  * - View cigar information (name, brand, format, strength, origin)
  * - See cigar image and description
- * - View ratings and reviews (TODO Phase 2)
+ * - Community aggregates: average rating, distribution, aromas, tastes, pairings
  *
  * Architecture: ALL STARS ⭐
  * - Reactive getter pattern for queries
  * - Computed signals (no `!` assertions)
  * - Clean separation of concerns
- * - Uses slug from URL
+ * - Uses slug from URL (old slugs of merged cigars are replaced by the canonical one)
  */
 @Component({
   selector: 'app-cigar-profile',
@@ -66,7 +74,11 @@ export class CigarProfilePage {
   readonly name = computed(() => this.cigar()?.name ?? '');
   readonly slug = computed(() => this.cigar()?.slug ?? '');
   readonly vitola = computed(() => this.cigar()?.vitola ?? '');
-  readonly strength = computed(() => this.cigar()?.strength ?? 3);
+  readonly strength = computed(() => this.cigar()?.strength ?? null);
+  readonly length = computed(() => this.cigar()?.length ?? null);
+  readonly ringGauge = computed(() => this.cigar()?.ringGauge ?? null);
+  readonly wrapper = computed(() => this.cigar()?.wrapper ?? '');
+  readonly origin = computed(() => this.cigar()?.origin ?? '');
   readonly isVerified = computed(() => this.cigar()?.isVerified ?? false);
   readonly status = computed(() => this.cigar()?.status ?? 'PENDING');
   readonly createdAt = computed(() => this.cigar()?.createdAt ?? null);
@@ -80,15 +92,59 @@ export class CigarProfilePage {
   readonly brandIsVerified = computed(() => this.brand()?.isVerified ?? false);
 
   // Template compatibility (for existing HTML)
-  readonly country = this.brandCountry; // Alias for template
+  readonly country = computed(() => this.origin() || this.brandCountry()); // Cigar origin, brand country as fallback
   readonly format = this.vitola; // Alias for template
 
+  // Dimensions (e.g. "119 mm × 52")
+  readonly dimensions = computed(() => {
+    const parts = [
+      this.length() ? `${this.length()} mm` : null,
+      this.ringGauge() ? `${this.ringGauge()}` : null,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' × ') : null;
+  });
+
   // TODO Phase 2: Add to CigarResponseDto
   readonly imageUrl = computed(() => null as string | null);
   readonly description = computed(() => null as string | null);
-  readonly dimensions = computed(() => null as string | null);
-  readonly averageRating = computed(() => 0);
-  readonly reviewCount = computed(() => 0);
+
+  // Aggregates over the tastings the viewer can read
+  readonly statsQuery = this.#cigarStore.getCigarStats(() => this.cigar()?.id ?? '');
+  readonly stats = computed(() => this.statsQuery.data() ?? null);
+  readonly averageRating = computed(() => this.stats()?.averageRating ?? 0);
+  readonly reviewCount = computed(() => this.stats()?.tastingCount ?? 0);
+
+  // Distribution bars, widths relative to the most frequent star (5 stars first)
+  readonly ratingBars = computed(() => {
+    const distribution = this.stats()?.ratingDistribution ?? [];
+    const max = Math.max(1, ...distribution.map((bucket) => bucket.count));
+    return [...distribution]
+      .reverse()
+      .map((bucket) => ({ ...bucket, width: Math.round((bucket.count / max) * 100) }));
+  });
+
+  readonly topAromas = computed(() =>
+    (this.stats()?.topAromas ?? []).map((aroma) => ({ ...aroma, label: FLAVOR_LABELS.get(aroma.id) ?? aroma.id }))
+  );
+  readonly topTastes = computed(() =>
+    (this.stats()?.topTastes ?? []).map((taste) => ({ ...taste, label: FLAVOR_LABELS.get(taste.id) ?? taste.id }))
+  );
+  readonly topPairings = computed(() =>
+    (this.stats()?.topPairings ?? []).map((pairing) => ({
+      ...pairing,
+      label: PAIRING_LABELS.get(pairing.pairing) ?? pairing.pairing,
+    }))
+  );
+
+  constructor() {
+    // Old slug (merged cigar): swap the URL for the canonical slug
+    effect(() => {
+      const slug = this.slug();
+      if (slug && slug !== this.cigarSlugParam()) {
+        void this.#router.navigate(['/cigar', slug], { replaceUrl: true });
+      }
+    });
+  }
 
   /**
    * Navigate to tasting page with pre-selected cigar
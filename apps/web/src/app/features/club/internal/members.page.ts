@@ -7,6 +7,8 @@ import type {
   ClubMemberResponseDto,
   ClubJoinRequestResponseDto,
   ClubBanResponseDto,
+  ClubInviteResponseDto,
+  ClubInvitationResponseDto,
 } from '@cigar-platform/types';
 import { ToastService, AuthService } from '../../../core/services';
 import {
@@ -31,6 +33,8 @@ import { ConfirmationModalComponent, type ConfirmationResult } from '../../../sh
  * - Admin: Update member roles
  * - Admin: Remove/ban members
  * - View pending join requests (admin)
+ * - Create/revoke invite codes (admin, or members if the club allows member invites)
+ * - Invite a user by @username, list/cancel pending invitations
  *
  * Architecture: ALL STARS ⭐
  * - Template in separate .html file
@@ -65,7 +69,24 @@ export class MembersPage {
   readonly clubId = signal<string>('');
 
   // Tab state
-  readonly activeTab = signal<'members' | 'requests' | 'banned'>('members');
+  readonly activeTab = signal<'members' | 'requests' | 'banned' | 'invites'>('members');
+
+  // Invite creation options
+  readonly inviteValidityOptions = [
+    { hours: 24, label: '24 heures' },
+    { hours: 168, label: '7 jours' },
+    { hours: 720, label: '30 jours' },
+  ];
+  readonly inviteMaxUsesOptions = [1, 5, 25];
+  readonly inviteExpiresInHours = signal<number>(168);
+  readonly inviteMaxUses = signal<number>(1);
+
+  // Revoke action tracking
+  readonly revokingInviteId = signal<string | null>(null);
+
+  // Direct invitation form + cancel action tracking
+  readonly invitationIdentifier = signal<string>('');
+  readonly cancellingInvitationId = signal<string | null>(null);
 
   // Notification badges - track viewed items
   readonly viewedRequestIds = signal<Set<string>>(new Set());
@@ -97,6 +118,18 @@ export class MembersPage {
     () => this.contextStore.canManageClub()
   );
 
+  // Only fetch invites if user can create them
+  readonly invitesQuery = this.#clubStore.getInvites(
+    () => this.clubId(),
+    () => this.canInvite()
+  );
+
+  // Pending direct invitations (all for admins, sent ones for members)
+  readonly invitationsQuery = this.#clubStore.getInvitations(
+    () => this.clubId(),
+    () => this.canInvite()
+  );
+
   // Computed states - extract signals from queries with fallbacks
   readonly loading = this.membersQuery.loading;
   readonly error = this.membersQuery.error;
@@ -105,6 +138,10 @@ export class MembersPage {
   readonly joinRequests = computed(() => this.joinRequestsQuery.data() ?? []);
   readonly bannedMembersLoading = this.bannedMembersQuery.loading;
   readonly bannedMembers = computed(() => this.bannedMembersQuery.data() ?? []);
+  readonly invitesLoading = this.invitesQuery.loading;
+  readonly invites = computed(() => this.invitesQuery.data() ?? []);
+  readonly invitationsLoading = this.invitationsQuery.loading;
+  readonly invitations = computed(() => this.invitationsQuery.data() ?? []);
 
   // Computed - Sorted members (Owner > Admin > Member)
   readonly sortedMembers = computed(() => {
@@ -149,10 +186,17 @@ export class MembersPage {
     return this.#authService.currentUser()?.id ?? '';
   });
 
+  // Computed - Owners/admins always invite, members only if the club allows it
+  readonly canInvite = computed(() => {
+    return this.contextStore.canManageClub() || !!this.contextStore.context().club?.allowMemberInvites;
+  });
+
   // Exposed mutation loading states for UI locking
   readonly removingMember = this.#clubStore.removeMember.loading;
   readonly banningMember = this.#clubStore.banMember.loading;
   readonly updatingJoinRequest = this.#clubStore.updateJoinRequest.loading;
+  readonly creatingInvite = this.#clubStore.createInvite.loading;
+  readonly invitingUser = this.#clubStore.inviteUser.loading;
 
   constructor() {
     // Update club ID from context
@@ -469,11 +513,151 @@ export class MembersPage {
     this.#toastService.success(`${ban.user.displayName} a été débanni`);
   }
 
+  onInviteValidityChange(event: Event): void {
+    this.inviteExpiresInHours.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  onInviteMaxUsesChange(event: Event): void {
+    this.inviteMaxUses.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  /**
+   * Create an invite code with the selected validity and max uses
+   */
+  async onCreateInvite(): Promise<void> {
+    if (this.#clubStore.createInvite.loading()) return;
+
+    const clubId = this.clubId();
+    if (!clubId) return;
+
+    const invite = await this.#clubStore.createInvite.mutate({
+      clubId,
+      data: {
+        expiresInHours: this.inviteExpiresInHours(),
+        maxUses: this.inviteMaxUses(),
+      },
+    });
+
+    if (this.#clubStore.createInvite.error() || !invite) {
+      this.#toastService.error('Échec de la création de l\'invitation');
+      return;
+    }
+
+    await this.onCopyInvite(invite);
+  }
+
+  /**
+   * Copy an invite code to the clipboard
+   */
+  async onCopyInvite(invite: ClubInviteResponseDto): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(invite.code);
+      this.#toastService.success(`Code ${invite.code} copié`);
+    } catch {
+      this.#toastService.info(`Code d'invitation : ${invite.code}`);
+    }
+  }
+
+  /**
+   * Revoke an invite code
+   */
+  async onRevokeInvite(invite: ClubInviteResponseDto): Promise<void> {
+    const clubId = this.clubId();
+    if (!clubId) return;
+
+    this.revokingInviteId.set(invite.id);
+
+    await this.#clubStore.revokeInvite.mutate({
+      clubId,
+      inviteId: invite.id,
+    });
+
+    this.revokingInviteId.set(null);
+
+    if (this.#clubStore.revokeInvite.error()) {
+      this.#toastService.error('Échec de la révocation');
+      return;
+    }
+
+    this.#toastService.success(`Invitation ${invite.code} révoquée`);
+  }
+
+  /**
+   * Creator or club admin can revoke an active invite
+   */
+  canRevokeInvite(invite: ClubInviteResponseDto): boolean {
+    return invite.status === 'ACTIVE'
+      && (this.contextStore.canManageClub() || invite.creator.id === this.currentUserId());
+  }
+
+  /**
+   * Status label for an invite
+   */
+  inviteStatusLabel(invite: ClubInviteResponseDto): string {
+    const labels: Record<ClubInviteResponseDto['status'], string> = {
+      ACTIVE: 'Active',
+      EXPIRED: 'Expirée',
+      EXHAUSTED: 'Épuisée',
+      REVOKED: 'Révoquée',
+    };
+    return labels[invite.status];
+  }
+
+  onInvitationIdentifierInput(event: Event): void {
+    this.invitationIdentifier.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Invite a user by @username
+   * Accepting joins the club directly (no join request review)
+   */
+  async onInviteUser(): Promise<void> {
+    if (this.#clubStore.inviteUser.loading()) return;
+
+    const clubId = this.clubId();
+    const identifier = this.invitationIdentifier().trim();
+    if (!clubId || !identifier) return;
+
+    const invitation = await this.#clubStore.inviteUser.mutate({ clubId, identifier });
+
+    if (this.#clubStore.inviteUser.error() || !invitation) {
+      this.#toastService.error('Invitation impossible (utilisateur introuvable, déjà membre ou déjà invité)');
+      return;
+    }
+
+    this.invitationIdentifier.set('');
+    this.#toastService.success(`Invitation envoyée à ${invitation.invitee.displayName}`);
+  }
+
+  /**
+   * Cancel a pending invitation
+   */
+  async onCancelInvitation(invitation: ClubInvitationResponseDto): Promise<void> {
+    const clubId = this.clubId();
+    if (!clubId) return;
+
+    this.cancellingInvitationId.set(invitation.id);
+
+    await this.#clubStore.cancelInvitation.mutate({
+      clubId,
+      invitationId: invitation.id,
+    });
+
+    this.cancellingInvitationId.set(null);
+
+    if (this.#clubStore.cancelInvitation.error()) {
+      this.#toastService.error('Échec de l\'annulation');
+      return;
+    }
+
+    this.#toastService.success(`Invitation de ${invitation.invitee.displayName} annulée`);
+  }
+
   /**
    * Switch active tab
    * Marks all items in the tab as viewed (resets notification badge)
    */
-  setActiveTab(tab: 'members' | 'requests' | 'banned'): void {
+  setActiveTab(tab: 'members' | 'requests' | 'banned' | 'invites'): void {
     this.activeTab.set(tab);
 
     // Mark items as viewed when user clicks on the tab
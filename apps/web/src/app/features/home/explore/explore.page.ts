@@ -14,7 +14,7 @@ import {
 import { CommonModule } from '@angular/common';
 import { FormControl, ReactiveFormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
-import type { SearchResultDto } from '@cigar-platform/types';
+import type { ClubResponseDto, SearchResultDto } from '@cigar-platform/types';
 import {
   IconDirective,
   InputComponent,
@@ -22,7 +22,9 @@ import {
   SearchResultItemComponent,
 } from '@cigar-platform/shared/ui';
 import { injectSearchStore } from '../../../core/stores/search.store';
+import { injectClubStore } from '../../../core/stores/club.store';
 import { AuthService } from '../../../core/services/auth.service';
+import { ToastService } from '../../../core/services/toast.service';
 import { CreateCigarModalComponent } from '../../../shared/components/create-cigar-modal/create-cigar-modal.component';
 
 /**
@@ -36,6 +38,7 @@ import { CreateCigarModalComponent } from '../../../shared/components/create-cig
  * - Keyboard navigation
  * - Smart caching (5 min stale time)
  * - Auto-focus on search input
+ * - Clubs near me (browser geolocation, distances computed by the API)
  *
  * ALL STARS Architecture:
  * - Uses search.store (not service)
@@ -63,7 +66,9 @@ export class ExplorePage implements AfterViewInit {
 
   readonly #router = inject(Router);
   readonly #searchStore = injectSearchStore();
+  readonly #clubStore = injectClubStore();
   readonly #authService = inject(AuthService);
+  readonly #toastService = inject(ToastService);
 
   // Search input control
   readonly searchControl = new FormControl('');
@@ -82,6 +87,14 @@ export class ExplorePage implements AfterViewInit {
   // Loading state
   readonly loading: Signal<boolean> = this.#omnisearchQuery.loading;
 
+  // Clubs near me (query stays disabled until the position is known)
+  readonly #nearbyPosition = signal<{ lat: number; lng: number } | null>(null);
+  readonly locating = signal<boolean>(false);
+  readonly #nearbyClubsQuery = this.#clubStore.getNearbyClubs(() => this.#nearbyPosition());
+  readonly nearbyClubs: Signal<ClubResponseDto[]> = computed(() => this.#nearbyClubsQuery.data() ?? []);
+  readonly nearbyLoading: Signal<boolean> = computed(() => this.locating() || this.#nearbyClubsQuery.loading());
+  readonly hasNearbyPosition = computed(() => this.#nearbyPosition() !== null);
+
   // Search results
   readonly searchResults: Signal<SearchResultDto> = computed<SearchResultDto>(() => {
     const data = this.#omnisearchQuery.data();
@@ -219,6 +232,47 @@ export class ExplorePage implements AfterViewInit {
     }
   }
 
+  /**
+   * Ask the browser position, then load the directory clubs around it
+   */
+  locateNearbyClubs(): void {
+    if (!navigator.geolocation) {
+      this.#toastService.error('La géolocalisation n\'est pas disponible sur cet appareil');
+      return;
+    }
+
+    this.locating.set(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        this.locating.set(false);
+        this.#nearbyPosition.set({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        });
+      },
+      () => {
+        this.locating.set(false);
+        this.#toastService.error('Impossible d\'obtenir votre position');
+      },
+      { maximumAge: 10 * 60 * 1000, timeout: 10000 }
+    );
+  }
+
+  /**
+   * Subtitle of a nearby club: city and distance
+   */
+  nearbyClubSubtitle(club: ClubResponseDto): string {
+    const distance = club.distanceKm !== undefined ? `${club.distanceKm.toLocaleString('fr-FR')} km` : '';
+    return [club.city, distance].filter(Boolean).join(' · ');
+  }
+
+  /**
+   * Navigate to a nearby club profile
+   */
+  openNearbyClub(club: ClubResponseDto): void {
+    void this.#router.navigate(['/club', club.slug]);
+  }
+
   /**
    * Handle create cigar request
    */
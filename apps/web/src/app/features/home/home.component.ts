@@ -5,6 +5,7 @@ import { toSignal } from '@angular/core/rxjs-interop';
 import { filter, map, startWith } from 'rxjs';
 import { AuthService } from '../../core/services';
 import { ContextStore, type ClubWithRole } from '../../core/stores/context.store';
+import { injectUserStore } from '../../core/stores/user.store';
 import type { UserWithAuth } from '@cigar-platform/types';
 import {
   FabMenuComponent,
@@ -63,6 +64,7 @@ import { SettingsDrawerComponent } from '../../shared/components/settings-drawer
 export class HomeComponent {
   #authService = inject(AuthService);
   #router = inject(Router);
+  #userStore = injectUserStore();
 
   // Expose contextStore for template access to permission methods
   readonly contextStore = inject(ContextStore);
@@ -71,6 +73,9 @@ export class HomeComponent {
   readonly context = this.contextStore.context;
   readonly userClubs = this.contextStore.userClubs;
 
+  // Unread notifications (Premium expiry alerts)
+  readonly notificationsCount: Signal<number> = computed(() => this.#userStore.expiryAlerts.data()?.length ?? 0);
+
   // Admin check for navigation visibility
   readonly isAdmin: Signal<boolean> = computed(() => {
     const user = this.currentUser();
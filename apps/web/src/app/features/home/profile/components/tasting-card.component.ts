@@ -13,6 +13,7 @@ import type { JournalTastingDto } from '@cigar-platform/types';
  * - Brand avatar (logo or gold initials fallback)
  * - High contrast user attribution
  * - Elegant inline aromas display
+ * - Like and comment counts
  *
  * Usage:
  * ```html
@@ -78,6 +79,19 @@ import type { JournalTastingDto } from '@cigar-platform/types';
               <span class="text-smoke-600">·</span>
             }
             <span class="text-[11px] text-smoke-400">{{ tasting().date | date:'d MMM yyyy' }}</span>
+
+            @if (tasting().likeCount > 0 || tasting().commentCount > 0) {
+              <span class="ml-auto flex items-center gap-2 text-[11px] text-smoke-400">
+                @if (tasting().likeCount > 0) {
+                  <span class="flex items-center gap-0.5">
+                    <i name="heart" class="w-3 h-3"></i>{{ tasting().likeCount }}
+                  </span>
+                }
+                @if (tasting().commentCount > 0) {
+                  <span>{{ tasting().commentCount }} commentaire{{ tasting().commentCount > 1 ? 's' : '' }}</span>
+                }
+              </span>
+            }
           </div>
         </div>
       </div>
@@ -29,6 +29,10 @@ interface ClubSettingsFormValue {
   autoApproveMembers: boolean;
   allowMemberInvites: boolean;
   maxMembers: number | null;
+  city: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
 }
 
 /**
@@ -43,7 +47,7 @@ interface ClubSettingsFormValue {
  * - Configure club settings (visibility, approval, invites, max members)
  * - Manage invite codes
  * - Transfer ownership (owner only)
- * - Archive/Delete club (owner only)
+ * - Archive club (owner only), restore it until its purge date
  *
  * Architecture: ALL STARS ⭐
  * - Template in separate .html file
@@ -97,6 +101,8 @@ export class ClubSettingsPage {
   // Mutation loading state
   readonly updateClubLoading = this.clubStore.updateClub.loading;
   readonly leavingClub = this.clubStore.removeMember.loading;
+  readonly archivingClub = this.clubStore.archiveClub.loading;
+  readonly restoringClub = this.clubStore.restoreClub.loading;
 
   // Confirmation modals
   readonly showLeaveConfirm = signal<boolean>(false);
@@ -111,6 +117,9 @@ export class ClubSettingsPage {
     return this.contextStore.context().clubRole === 'owner';
   });
 
+  // Archived clubs are read-only (restorable by the owner until purgeAt)
+  readonly isArchived = computed(() => this.club()?.isArchived ?? false);
+
   // Club link computed (Prestige URL with slug)
   readonly clubSlug = computed(() => this.club()?.slug ?? '');
   readonly clubUrl = computed(() => {
@@ -134,7 +143,11 @@ export class ClubSettingsPage {
       original.isPublicDirectory !== current.isPublicDirectory ||
       original.autoApproveMembers !== current.autoApproveMembers ||
       original.allowMemberInvites !== current.allowMemberInvites ||
-      original.maxMembers !== current.maxMembers
+      original.maxMembers !== current.maxMembers ||
+      original.city !== current.city ||
+      original.country !== current.country ||
+      original.latitude !== current.latitude ||
+      original.longitude !== current.longitude
     );
   });
 
@@ -153,6 +166,10 @@ export class ClubSettingsPage {
     autoApproveMembers: FormControl<boolean>;
     allowMemberInvites: FormControl<boolean>;
     maxMembers: FormControl<number | null>;
+    city: FormControl<string | null>;
+    country: FormControl<string | null>;
+    latitude: FormControl<number | null>;
+    longitude: FormControl<number | null>;
   }> = this.#fb.nonNullable.group({
     name: ['', [Validators.required, Validators.minLength(3), Validators.maxLength(100)]],
     description: this.#fb.control<string | null>(null, [Validators.maxLength(500)]),
@@ -161,8 +178,15 @@ export class ClubSettingsPage {
     autoApproveMembers: [false],
     allowMemberInvites: [true],
     maxMembers: this.#fb.control<number | null>(null, [Validators.min(1)]),
+    city: this.#fb.control<string | null>(null, [Validators.maxLength(100)]),
+    country: this.#fb.control<string | null>(null, [Validators.pattern(/^[A-Za-z]{2}$/)]),
+    latitude: this.#fb.control<number | null>(null),
+    longitude: this.#fb.control<number | null>(null),
   });
 
+  // Geolocation in progress (club coordinates)
+  readonly locating = signal<boolean>(false);
+
   constructor() {
     // Guard: Redirect if user doesn't have access to settings
     effect(() => {
@@ -215,6 +239,10 @@ export class ClubSettingsPage {
         this.clubForm.controls.autoApproveMembers.enable({ emitEvent: false });
         this.clubForm.controls.allowMemberInvites.enable({ emitEvent: false });
         this.clubForm.controls.maxMembers.enable({ emitEvent: false });
+        this.clubForm.controls.city.enable({ emitEvent: false });
+        this.clubForm.controls.country.enable({ emitEvent: false });
+        this.clubForm.controls.latitude.enable({ emitEvent: false });
+        this.clubForm.controls.longitude.enable({ emitEvent: false });
       } else if (canManage) {
         // Admin: Only description enabled
         this.clubForm.controls.name.disable({ emitEvent: false });
@@ -224,6 +252,10 @@ export class ClubSettingsPage {
         this.clubForm.controls.autoApproveMembers.disable({ emitEvent: false });
         this.clubForm.controls.allowMemberInvites.disable({ emitEvent: false });
         this.clubForm.controls.maxMembers.disable({ emitEvent: false });
+        this.clubForm.controls.city.disable({ emitEvent: false });
+        this.clubForm.controls.country.disable({ emitEvent: false });
+        this.clubForm.controls.latitude.disable({ emitEvent: false });
+        this.clubForm.controls.longitude.disable({ emitEvent: false });
       } else {
         // Member: All fields disabled
         this.clubForm.controls.name.disable({ emitEvent: false });
@@ -233,6 +265,10 @@ export class ClubSettingsPage {
         this.clubForm.controls.autoApproveMembers.disable({ emitEvent: false });
         this.clubForm.controls.allowMemberInvites.disable({ emitEvent: false });
         this.clubForm.controls.maxMembers.disable({ emitEvent: false });
+        this.clubForm.controls.city.disable({ emitEvent: false });
+        this.clubForm.controls.country.disable({ emitEvent: false });
+        this.clubForm.controls.latitude.disable({ emitEvent: false });
+        this.clubForm.controls.longitude.disable({ emitEvent: false });
       }
     });
   }
@@ -249,6 +285,10 @@ export class ClubSettingsPage {
       autoApproveMembers: club.autoApproveMembers,
       allowMemberInvites: club.allowMemberInvites,
       maxMembers: club.maxMembers ? Number(club.maxMembers) : null,
+      city: club.city ?? null,
+      country: club.country ?? null,
+      latitude: club.latitude ?? null,
+      longitude: club.longitude ?? null,
     };
 
     this.clubForm.patchValue(formValue);
@@ -273,6 +313,33 @@ export class ClubSettingsPage {
     }
   }
 
+  /**
+   * Set the club coordinates from the current browser position
+   * Used by the "clubs near me" search of /explore
+   */
+  onUseCurrentPosition(): void {
+    if (!navigator.geolocation) {
+      this.#toastService.error('La géolocalisation n\'est pas disponible sur cet appareil');
+      return;
+    }
+
+    this.locating.set(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        this.locating.set(false);
+        this.clubForm.patchValue({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+      },
+      () => {
+        this.locating.set(false);
+        this.#toastService.error('Impossible d\'obtenir votre position');
+      },
+      { timeout: 10000 }
+    );
+  }
+
   /**
    * Handle avatar file selection
    * Uploads the selected file and shows success/error feedback
@@ -323,6 +390,10 @@ export class ClubSettingsPage {
       ...formValue,
       description: formValue.description || undefined,
       maxMembers: formValue.maxMembers || undefined,
+      city: formValue.city || undefined,
+      country: formValue.country ? formValue.country.toUpperCase() : undefined,
+      latitude: formValue.latitude ?? undefined,
+      longitude: formValue.longitude ?? undefined,
     };
 
     // Store handles API + invalidation
@@ -362,9 +433,12 @@ export class ClubSettingsPage {
 
   /**
    * Confirm archive club
-   * Archives the club and switches to solo context
+   * The club stays in the owner's context (read-only) so it can be restored
    */
   async onConfirmArchiveClub(): Promise<void> {
+    // Lock: Prevent double-click
+    if (this.clubStore.archiveClub.loading()) return;
+
     const clubData = this.club();
     if (!clubData) {
       return;
@@ -373,16 +447,42 @@ export class ClubSettingsPage {
     // Close modal
     this.showArchiveConfirm.set(false);
 
-    try {
-      // TODO: Implement archive endpoint
-      this.#toastService.success('Club archivé avec succès');
+    await this.clubStore.archiveClub.mutate(clubData.id);
 
-      // Switch to solo context and navigate to explore
-      this.contextStore.switchToSolo();
-      await this.#router.navigate(['/explore']);
-    } catch (error) {
+    if (this.clubStore.archiveClub.error()) {
       this.#toastService.error('Impossible d\'archiver le club');
+      return;
+    }
+
+    this.#toastService.success('Club archivé avec succès');
+
+    // Refresh user clubs so the context shows the archived state
+    await this.contextStore.loadUserClubs();
+  }
+
+  /**
+   * Restore archived club (owner only)
+   */
+  async onRestoreClub(): Promise<void> {
+    // Lock: Prevent double-click
+    if (this.clubStore.restoreClub.loading()) return;
+
+    const clubData = this.club();
+    if (!clubData) {
+      return;
+    }
+
+    await this.clubStore.restoreClub.mutate(clubData.id);
+
+    if (this.clubStore.restoreClub.error()) {
+      this.#toastService.error('Impossible de restaurer le club');
+      return;
     }
+
+    this.#toastService.success(`${clubData.name} est de nouveau actif`);
+
+    // Refresh user clubs so the context leaves the archived state
+    await this.contextStore.loadUserClubs();
   }
 
   /**
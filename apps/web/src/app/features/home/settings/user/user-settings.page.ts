@@ -10,15 +10,17 @@ import {
 import { Router, RouterLink } from '@angular/router';
 import { take } from 'rxjs/operators';
 import { AuthService, FormService, ToastService, PlanService } from '../../../../core/services';
-import { injectUserStore, UserStore } from '../../../../core/stores';
+import { injectUserStore, UserStore, injectClubStore } from '../../../../core/stores';
+import { ContextStore } from '../../../../core/stores/context.store';
 import {
   ButtonComponent,
   InputComponent,
   AvatarUploadComponent,
+  AvatarComponent,
   SwitchComponent,
   IconDirective,
 } from '@cigar-platform/shared/ui';
-import { UserDto } from '@cigar-platform/types';
+import { UserDto, ClubInvitationResponseDto } from '@cigar-platform/types';
 import { ConfirmationModalComponent } from '../../../../shared/components/confirmation-modal/confirmation-modal.component';
 import { FeedbackModalComponent } from '../../../../shared/components/feedback-modal/feedback-modal.component';
 import { usernameAvailabilityValidator } from '../../../../core/validators/username-availability.validator';
@@ -41,6 +43,7 @@ interface UserProfileFormValue {
  * Features:
  * - Update display name
  * - Upload avatar
+ * - Accept / reject follow requests (PRIVATE profile)
  * - View account info (email, auth provider)
  * - Logout
  *
@@ -60,6 +63,7 @@ interface UserProfileFormValue {
     ButtonComponent,
     InputComponent,
     AvatarUploadComponent,
+    AvatarComponent,
     SwitchComponent,
     ConfirmationModalComponent,
     FeedbackModalComponent,
@@ -77,6 +81,8 @@ export class UserSettingsPage {
   readonly planService = inject(PlanService);
 
   readonly userStore: UserStore = injectUserStore();
+  #clubStore = injectClubStore();
+  #contextStore = inject(ContextStore);
   readonly currentUser: Signal<UserDto | null> = this.userStore.currentUser.data;
 
   // Profile link computed
@@ -113,6 +119,15 @@ export class UserSettingsPage {
   readonly #visibilityLoading = signal<boolean>(false);
   readonly #shareEvaluationsLoading = signal<boolean>(false);
 
+  // Pending follow requests (request being accepted/rejected)
+  readonly followRequests = computed(() => this.userStore.followRequests.data() ?? []);
+  readonly followRequestLoading = signal<string | null>(null);
+
+  // Pending club invitations (invitation being accepted/declined)
+  readonly clubInvitationsQuery = this.#clubStore.getMyInvitations();
+  readonly clubInvitations = computed(() => this.clubInvitationsQuery.data() ?? []);
+  readonly clubInvitationLoading = signal<string | null>(null);
+
   // Confirmation modals
   readonly showLogoutConfirm = signal<boolean>(false);
   readonly showFeedbackModal = signal<boolean>(false);
@@ -297,6 +312,64 @@ export class UserSettingsPage {
     }
   }
 
+  /**
+   * Accept a pending follow request
+   */
+  async onAcceptFollowRequest(requestId: string): Promise<void> {
+    this.followRequestLoading.set(requestId);
+    await this.userStore.acceptFollowRequest.mutate(requestId);
+    this.followRequestLoading.set(null);
+
+    if (this.userStore.acceptFollowRequest.error()) {
+      this.#toastService.error('Impossible d\'accepter la demande');
+    }
+  }
+
+  /**
+   * Reject a pending follow request
+   */
+  async onRejectFollowRequest(requestId: string): Promise<void> {
+    this.followRequestLoading.set(requestId);
+    await this.userStore.rejectFollowRequest.mutate(requestId);
+    this.followRequestLoading.set(null);
+
+    if (this.userStore.rejectFollowRequest.error()) {
+      this.#toastService.error('Impossible de refuser la demande');
+    }
+  }
+
+  /**
+   * Accept a club invitation (joins the club immediately)
+   */
+  async onAcceptClubInvitation(invitation: ClubInvitationResponseDto): Promise<void> {
+    this.clubInvitationLoading.set(invitation.id);
+    await this.#clubStore.acceptInvitation.mutate(invitation.id);
+    this.clubInvitationLoading.set(null);
+
+    if (this.#clubStore.acceptInvitation.error()) {
+      this.#toastService.error('Impossible de rejoindre le club');
+      return;
+    }
+
+    this.#toastService.success(`Vous avez rejoint ${invitation.club.name}`);
+
+    // Refresh my-clubs list so the club shows up in the context switcher
+    await this.#contextStore.loadUserClubs();
+  }
+
+  /**
+   * Decline a club invitation
+   */
+  async onDeclineClubInvitation(invitation: ClubInvitationResponseDto): Promise<void> {
+    this.clubInvitationLoading.set(invitation.id);
+    await this.#clubStore.declineInvitation.mutate(invitation.id);
+    this.clubInvitationLoading.set(null);
+
+    if (this.#clubStore.declineInvitation.error()) {
+      this.#toastService.error('Impossible de refuser l\'invitation');
+    }
+  }
+
   /**
    * Update profile (text fields only - switches auto-save)
    */
@@ -331,6 +404,19 @@ export class UserSettingsPage {
     }
   }
 
+  /**
+   * Start the one-time free trial
+   */
+  async startTrial(): Promise<void> {
+    const plan = await this.userStore.startTrial.mutate();
+
+    if (plan) {
+      this.#toastService.success(`Essai Premium activé pour ${plan.daysRemaining} jours`);
+    } else {
+      this.#toastService.error("Impossible de démarrer l'essai gratuit");
+    }
+  }
+
   /**
    * Logout user
    * Shows confirmation modal first
@@ -68,6 +68,10 @@ describe('TastingStateMachine', () => {
       slug: 'test-cigar',
       vitola: 'robusto',
       strength: 3,
+      length: null,
+      ringGauge: null,
+      wrapper: null,
+      origin: null,
       brand: {
         id: 'brand-123',
         name: 'Test Brand',
@@ -100,6 +104,12 @@ describe('TastingStateMachine', () => {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       cigar: mockCigar,
+      cigarHidden: false,
+      observations: [],
+      clubs: [],
+      photos: [],
+      likeCount: 0,
+      commentCount: 0,
     };
 
     describe('DRAFT_FOUND', () => {
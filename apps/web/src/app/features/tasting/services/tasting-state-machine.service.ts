@@ -160,13 +160,13 @@ export class TastingStateMachine {
         const newState = {
           ...state,
           tastingId: draft.id,
-          cigarId: draft.cigarId,
+          cigarId: draft.cigarId ?? null,
           eventId: draft.eventId || null,
           confirmedDraftCigar: draft.cigar || null,
           data: {
             ...state.data,
             quick: {
-              cigarId: draft.cigarId,
+              cigarId: draft.cigarId ?? null,
               cigarName: draft.cigar?.name || null,
               moment: draft.moment || null,
               situation: draft.situation || null,
@@ -1,5 +1,6 @@
-import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { Component, computed, inject, signal, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule, DatePipe } from '@angular/common';
+import { FormBuilder, FormControl, ReactiveFormsModule } from '@angular/forms';
 import { ActivatedRoute, RouterLink } from '@angular/router';
 import { toSignal } from '@angular/core/rxjs-interop';
 import { map } from 'rxjs/operators';
@@ -8,9 +9,24 @@ import {
   PageSectionComponent,
   ButtonComponent,
   RatingBandsComponent,
+  SelectComponent,
+  SelectOption,
+  CheckboxComponent,
+  AvatarComponent,
+  AvatarUser,
 } from '@cigar-platform/shared/ui';
 import { injectTastingStore } from '../../../core/stores/tasting.store';
+import { injectEngagementStore } from '../../../core/stores/engagement.store';
+import { ContextStore } from '../../../core/stores/context.store';
+import { AuthService, ToastService } from '../../../core/services';
 import { AROMAS, TASTES } from '@cigar-platform/shared/constants';
+import type {
+  TastingPhotoDto,
+  TastingPhotoDtoKind,
+  TastingFieldChangeDto,
+  AmendTastingDtoVisibility,
+  TastingCommentResponseDto,
+} from '@cigar-platform/types';
 
 /**
  * Map for translating aroma/taste IDs to French labels
@@ -24,6 +40,28 @@ function getFlavorLabel(id: string): string {
   return FLAVOR_LABELS_MAP.get(id) ?? id;
 }
 
+const VISIBILITY_OPTIONS: SelectOption[] = [
+  { value: 'PUBLIC', label: 'Public' },
+  { value: 'CLUB_ONLY', label: 'Clubs uniquement' },
+  { value: 'PRIVATE', label: 'Privé' },
+];
+
+const REVISION_FIELD_LABELS: Record<string, string> = {
+  rating: 'Note',
+  comment: 'Commentaire',
+  visibility: 'Visibilité',
+  clubIds: 'Clubs',
+};
+
+/**
+ * Gallery slots (one photo per kind)
+ */
+const GALLERY_SLOTS: { kind: TastingPhotoDtoKind; label: string }[] = [
+  { kind: 'BAND', label: 'La Bague' },
+  { kind: 'FOOT', label: 'Le Pied' },
+  { kind: 'ASH', label: 'La Cendre' },
+];
+
 /**
  * Tasting View Page (Read-only)
  *
@@ -35,6 +73,10 @@ function getFlavorLabel(id: string): string {
  * - See cigar info, rating, notes
  * - See observations (aromas, tastes) if chronic
  * - View context (situation, pairing, location)
+ * - Photo and gallery (band, foot, ash), editable by the author
+ * - Amendment of rating, comment and visibility during the amendment window, with history
+ * - Visibility and club sharing, editable by the author at any time
+ * - Likes and comments (completed tastings), comments deletable by their author, the tasting author and club admins
  *
  * Architecture: ALL STARS
  */
@@ -48,6 +90,10 @@ function getFlavorLabel(id: string): string {
     PageSectionComponent,
     ButtonComponent,
     RatingBandsComponent,
+    SelectComponent,
+    CheckboxComponent,
+    AvatarComponent,
+    ReactiveFormsModule,
     DatePipe,
   ],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -110,6 +156,30 @@ function getFlavorLabel(id: string): string {
           </div>
         </div>
 
+        <!-- Photo -->
+        @if (photoUrl() || isAuthor()) {
+          <div class="relative rounded-lg overflow-hidden bg-smoke-800 border border-smoke-700">
+            @if (photoUrl()) {
+              <img [src]="photoUrl()" [alt]="cigarName()" class="w-full aspect-square object-cover" decoding="async" />
+            }
+            @if (isAuthor()) {
+              <input type="file" id="tasting-photo" accept="image/jpeg,image/png,image/webp" class="hidden" (change)="onPhotoSelected($event)" />
+              <label
+                for="tasting-photo"
+                class="block px-4 py-3 text-sm text-gold-500 hover:text-gold-400 cursor-pointer font-medium"
+                [class.opacity-50]="uploadingPhoto()"
+                [class.pointer-events-none]="uploadingPhoto()"
+              >
+                @if (uploadingPhoto()) {
+                  Chargement...
+                } @else {
+                  {{ photoUrl() ? 'Changer la photo' : 'Ajouter une photo' }}
+                }
+              </label>
+            }
+          </div>
+        }
+
         <!-- Rating Bands -->
         @if (rating()) {
           <div class="flex justify-center">
@@ -117,6 +187,34 @@ function getFlavorLabel(id: string): string {
           </div>
         }
 
+        <!-- Amendment (author, during the amendment window) -->
+        @if (canAmend()) {
+          @if (amending()) {
+            <div class="p-4 rounded-lg bg-smoke-800 border border-smoke-700 space-y-4">
+              <div class="flex justify-center">
+                <ui-rating-bands [value]="amendRating()" size="sm" (valueChange)="amendRating.set($event)" />
+              </div>
+              <textarea
+                [formControl]="amendForm.controls.comment"
+                placeholder="Partagez vos impressions..."
+                rows="4"
+                maxlength="1000"
+                class="w-full px-4 py-3 bg-smoke-900/30 text-smoke-200 placeholder:text-smoke-500 border-2 border-smoke-800 rounded-lg focus:border-gold-500/50 focus:outline-none resize-none"
+              ></textarea>
+              <ui-select label="Visibilité" [options]="visibilityOptions" [control]="amendForm.controls.visibility" />
+              <div class="flex justify-end gap-3">
+                <ui-button variant="ghost" size="sm" (clicked)="amending.set(false)">Annuler</ui-button>
+                <ui-button size="sm" [loading]="amendLoading()" (clicked)="saveAmendment()">Enregistrer</ui-button>
+              </div>
+            </div>
+          } @else {
+            <div class="flex items-center justify-center gap-3 text-sm text-smoke-400">
+              <span>Modifiable jusqu'au {{ amendableUntil() | date:'d MMM HH:mm' }}</span>
+              <ui-button variant="ghost" size="sm" icon="edit" (clicked)="startAmendment()">Modifier</ui-button>
+            </div>
+          }
+        }
+
         <!-- Context Section -->
         @if (situation() || pairing() || location()) {
           <ui-page-section title="Le Moment" [showDivider]="true">
@@ -203,22 +301,175 @@ function getFlavorLabel(id: string): string {
           </ui-page-section>
         }
 
+        <!-- Likes & Comments (completed tastings) -->
+        @if (isCompleted()) {
+          <ui-page-section title="Les Échanges" [showDivider]="true">
+            <div class="space-y-4">
+              <div class="flex items-center gap-4">
+                <button
+                  type="button"
+                  class="inline-flex items-center gap-2 text-sm transition-colors"
+                  [class]="likedByMe() ? 'text-gold-500' : 'text-smoke-400 hover:text-gold-500'"
+                  [disabled]="likeLoading()"
+                  (click)="toggleLike()"
+                >
+                  <i name="heart" class="w-5 h-5" [class.fill-current]="likedByMe()"></i>
+                  <span>{{ likeCount() }}</span>
+                </button>
+                <span class="text-sm text-smoke-500">
+                  {{ commentCount() }} commentaire{{ commentCount() > 1 ? 's' : '' }}
+                </span>
+              </div>
+
+              @for (entry of comments(); track entry.id) {
+                <div class="flex items-start gap-3 p-3 rounded-lg bg-smoke-800 border border-smoke-700">
+                  <a [routerLink]="['/user', '@' + entry.author.username]">
+                    <ui-avatar [user]="toAvatarUser(entry)" size="sm" />
+                  </a>
+                  <div class="min-w-0 flex-1">
+                    <p class="text-xs text-smoke-500">
+                      <a [routerLink]="['/user', '@' + entry.author.username]" class="font-medium text-smoke-200 hover:text-gold-400">
+                        {{ entry.author.displayName ?? '@' + entry.author.username }}
+                      </a>
+                      · {{ entry.createdAt | date:'d MMM HH:mm' }}
+                    </p>
+                    <p class="text-sm text-smoke-200 whitespace-pre-wrap mt-1">{{ entry.content }}</p>
+                  </div>
+                  @if (entry.canDelete) {
+                    <ui-button variant="ghost" size="icon" icon="trash" (clicked)="deleteComment(entry.id)" />
+                  }
+                </div>
+              }
+
+              <div class="space-y-2">
+                <textarea
+                  [formControl]="commentControl"
+                  placeholder="Ajouter un commentaire..."
+                  rows="2"
+                  maxlength="1000"
+                  class="w-full px-4 py-3 bg-smoke-900/30 text-smoke-200 placeholder:text-smoke-500 border-2 border-smoke-800 rounded-lg focus:border-gold-500/50 focus:outline-none resize-none"
+                ></textarea>
+                <div class="flex justify-end">
+                  <ui-button size="sm" [loading]="commentLoading()" (clicked)="addComment()">Publier</ui-button>
+                </div>
+              </div>
+            </div>
+          </ui-page-section>
+        }
+
+        <!-- Gallery Section -->
+        @if (photos().length > 0 || isAuthor()) {
+          <ui-page-section title="Les Photos" subtitle="Bague, pied et cendre" [showDivider]="true">
+            <div class="grid grid-cols-3 gap-3 md:gap-4">
+              @for (slot of gallerySlots; track slot.kind) {
+                <div class="rounded-lg overflow-hidden bg-smoke-800 border border-smoke-700">
+                  @if (getPhoto(slot.kind); as photo) {
+                    <img [src]="photo.url" [alt]="slot.label" class="w-full aspect-square object-cover" decoding="async" />
+                  } @else {
+                    <div class="w-full aspect-square flex items-center justify-center">
+                      <i name="flame" class="w-6 h-6 text-smoke-500"></i>
+                    </div>
+                  }
+                  <div class="px-3 py-2">
+                    <p class="text-xs text-smoke-500">{{ slot.label }}</p>
+                    @if (isAuthor()) {
+                      <div class="flex items-center gap-3 mt-1">
+                        <input type="file" [id]="'gallery-' + slot.kind" accept="image/jpeg,image/png,image/webp" class="hidden" (change)="onGalleryPhotoSelected(slot.kind, $event)" />
+                        <label [for]="'gallery-' + slot.kind" class="text-xs text-gold-500 hover:text-gold-400 cursor-pointer font-medium">
+                          {{ getPhoto(slot.kind) ? 'Changer' : 'Ajouter' }}
+                        </label>
+                        @if (getPhoto(slot.kind)) {
+                          <button type="button" class="text-xs text-smoke-400 hover:text-red-400" (click)="removeGalleryPhoto(slot.kind)">
+                            Retirer
+                          </button>
+                        }
+                      </div>
+                    }
+                  </div>
+                </div>
+              }
+            </div>
+            <p class="caption mt-2">JPG, PNG, WebP (max 5MB)</p>
+          </ui-page-section>
+        }
+
+        <!-- Revision History (author only) -->
+        @if (revisions().length > 0) {
+          <ui-page-section title="Historique des modifications" [showDivider]="true">
+            <div class="space-y-3">
+              @for (revision of revisions(); track revision.id) {
+                <div class="p-4 rounded-lg bg-smoke-800 border border-smoke-700">
+                  <p class="text-xs text-smoke-500 mb-2">{{ revision.createdAt | date:'d MMM yyyy HH:mm' }}</p>
+                  @for (change of revision.changes; track change.field) {
+                    <p class="text-sm text-smoke-300">
+                      <span class="text-gold-500">{{ getRevisionFieldLabel(change.field) }}</span> :
+                      {{ formatRevisionValue(change, change.from) }} → {{ formatRevisionValue(change, change.to) }}
+                    </p>
+                  }
+                </div>
+              }
+            </div>
+          </ui-page-section>
+        }
+
         <!-- Club Association -->
-        @if (clubName()) {
-          <ui-page-section title="Associé avec" [showDivider]="false">
-            <div class="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-smoke-800 border border-smoke-700">
-              <i name="users" class="w-4 h-4 text-gold-500"></i>
-              <span class="text-smoke-200">{{ clubName() }}</span>
+        @if (clubs().length > 0 && !editingSharing()) {
+          <ui-page-section title="Partagé avec" [showDivider]="false">
+            <div class="flex flex-wrap gap-2">
+              @for (club of clubs(); track club.id) {
+                <div class="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-smoke-800 border border-smoke-700">
+                  <i name="users" class="w-4 h-4 text-gold-500"></i>
+                  <span class="text-smoke-200">{{ club.name }}</span>
+                </div>
+              }
             </div>
           </ui-page-section>
         }
+
+        <!-- Sharing (author only) -->
+        @if (isAuthor()) {
+          @if (editingSharing()) {
+            <ui-page-section title="Partage" [showDivider]="false">
+              <div class="p-4 rounded-lg bg-smoke-800 border border-smoke-700 space-y-4">
+                <ui-select label="Visibilité" [options]="visibilityOptions" [control]="sharingVisibility" />
+                @if (sharingClubs().length > 0) {
+                  <div class="space-y-2">
+                    <p class="text-sm text-smoke-400">Clubs</p>
+                    @for (entry of sharingClubs(); track entry.id) {
+                      <ui-checkbox [label]="entry.name" [control]="entry.control" size="sm" />
+                    }
+                  </div>
+                } @else {
+                  <p class="text-sm text-smoke-500">Rejoignez un club pour y partager vos dégustations.</p>
+                }
+                <div class="flex justify-end gap-3">
+                  <ui-button variant="ghost" size="sm" (clicked)="editingSharing.set(false)">Annuler</ui-button>
+                  <ui-button size="sm" [loading]="sharingLoading()" (clicked)="saveSharing()">Enregistrer</ui-button>
+                </div>
+              </div>
+            </ui-page-section>
+          } @else {
+            <div class="flex justify-center">
+              <ui-button variant="ghost" size="sm" icon="users" (clicked)="startSharing()">
+                {{ visibilityLabel() }} · Gérer le partage
+              </ui-button>
+            </div>
+          }
+        }
       }
     </div>
   `,
 })
 export class TastingViewPage {
   readonly #route = inject(ActivatedRoute);
+  readonly #authService = inject(AuthService);
+  readonly #toastService = inject(ToastService);
+  readonly #contextStore = inject(ContextStore);
   readonly #tastingStore = injectTastingStore();
+  readonly #engagementStore = injectEngagementStore();
+
+  readonly gallerySlots = GALLERY_SLOTS;
+  readonly visibilityOptions = VISIBILITY_OPTIONS;
 
   // Route params
   readonly tastingIdParam = toSignal(
@@ -252,17 +503,216 @@ export class TastingViewPage {
   readonly pairingNote = computed(() => this.tasting()?.pairingNote ?? null);
   readonly location = computed(() => this.tasting()?.location ?? null);
 
-  // Club - Get first club name if shared
-  readonly clubName = computed(() => {
-    const clubs = this.tasting()?.clubs;
-    return clubs && clubs.length > 0 ? clubs[0].name : null;
+  // Clubs the tasting is shared with
+  readonly clubs = computed(() => this.tasting()?.clubs ?? []);
+
+  // Photos (editable by the author only)
+  readonly isAuthor = computed(() => {
+    const userId = this.#authService.currentUser()?.id;
+    return !!userId && this.tasting()?.userId === userId;
   });
+  readonly photoUrl = computed(() => this.tasting()?.photoUrl ?? null);
+  readonly photos = computed(() => this.tasting()?.photos ?? []);
+  readonly uploadingPhoto = this.#tastingStore.uploadPhoto.loading;
+
+  // Amendment window (author only)
+  readonly amendableUntil = computed(() => this.tasting()?.amendableUntil ?? null);
+  readonly canAmend = computed(() => {
+    const until = this.amendableUntil();
+    return this.isAuthor() && !!until && new Date(until) > new Date();
+  });
+  readonly amending = signal(false);
+  readonly amendRating = signal(0);
+  readonly amendForm = inject(FormBuilder).nonNullable.group({
+    comment: [''],
+    visibility: ['PUBLIC' as AmendTastingDtoVisibility],
+  });
+  readonly amendLoading = this.#tastingStore.amendTasting.loading;
+
+  // Sharing (author only, any status)
+  readonly visibilityLabel = computed(
+    () => VISIBILITY_OPTIONS.find((option) => option.value === this.tasting()?.visibility)?.label ?? ''
+  );
+  readonly editingSharing = signal(false);
+  readonly sharingVisibility = new FormControl<AmendTastingDtoVisibility>('PUBLIC', { nonNullable: true });
+  readonly sharingClubs = signal<{ id: string; name: string; control: FormControl<boolean> }[]>([]);
+  readonly sharingLoading = this.#tastingStore.updateSharing.loading;
+
+  readonly revisionsQuery = this.#tastingStore.getRevisions(() => (this.isAuthor() ? this.tastingIdParam() : ''));
+  readonly revisions = computed(() => this.revisionsQuery.data() ?? []);
+
+  // Likes & comments (completed tastings only)
+  readonly isCompleted = computed(() => this.tasting()?.status === 'COMPLETED');
+  readonly likeCount = computed(() => this.tasting()?.likeCount ?? 0);
+  readonly commentCount = computed(() => this.tasting()?.commentCount ?? 0);
+  readonly likedByMe = computed(() => this.tasting()?.likedByMe ?? false);
+  readonly likeLoading = computed(
+    () => this.#engagementStore.like.loading() || this.#engagementStore.unlike.loading()
+  );
+  readonly commentsQuery = this.#engagementStore.getComments(() =>
+    this.isCompleted() ? this.tastingIdParam() : ''
+  );
+  readonly comments = computed(() => this.commentsQuery.data()?.data ?? []);
+  readonly commentControl = new FormControl('', { nonNullable: true });
+  readonly commentLoading = this.#engagementStore.addComment.loading;
 
   // Observations (chronic tasting data)
   readonly observations = computed(() => this.tasting()?.observations ?? []);
   readonly hasObservations = computed(() => this.observations().length > 0);
 
+  startAmendment(): void {
+    const tasting = this.tasting();
+    if (!tasting) return;
+
+    this.amendRating.set(tasting.rating);
+    this.amendForm.setValue({
+      comment: tasting.comment ?? '',
+      visibility: tasting.visibility,
+    });
+    this.amending.set(true);
+  }
+
+  async saveAmendment(): Promise<void> {
+    const { comment, visibility } = this.amendForm.getRawValue();
+    const result = await this.#tastingStore.amendTasting.mutate({
+      id: this.tastingIdParam(),
+      data: { rating: this.amendRating(), comment, visibility },
+    });
+
+    if (result) {
+      this.amending.set(false);
+      this.#toastService.success('Dégustation modifiée');
+    } else {
+      this.#toastService.error('Impossible de modifier la dégustation');
+    }
+  }
+
+  startSharing(): void {
+    const tasting = this.tasting();
+    if (!tasting) return;
+
+    const sharedClubIds = (tasting.clubs ?? []).map((club) => club.id);
+    this.sharingVisibility.setValue(tasting.visibility);
+    this.sharingClubs.set(
+      this.#contextStore.userClubs().map((club) => ({
+        id: club.id,
+        name: club.name,
+        control: new FormControl(sharedClubIds.includes(club.id), { nonNullable: true }),
+      }))
+    );
+    this.editingSharing.set(true);
+  }
+
+  async saveSharing(): Promise<void> {
+    // Clubs the author has left stay listed on the tasting until removed server-side
+    const memberClubIds = this.sharingClubs().map((entry) => entry.id);
+    const formerClubIds = this.clubs()
+      .map((club) => club.id)
+      .filter((clubId) => !memberClubIds.includes(clubId));
+    const clubIds = [
+      ...formerClubIds,
+      ...this.sharingClubs().filter((entry) => entry.control.value).map((entry) => entry.id),
+    ];
+
+    const result = await this.#tastingStore.updateSharing.mutate({
+      id: this.tastingIdParam(),
+      data: { visibility: this.sharingVisibility.value, clubIds },
+    });
+
+    if (result) {
+      this.editingSharing.set(false);
+      this.#toastService.success('Partage mis à jour');
+    } else {
+      this.#toastService.error('Impossible de modifier le partage');
+    }
+  }
+
+  async toggleLike(): Promise<void> {
+    const tastingId = this.tastingIdParam();
+    const result = this.likedByMe()
+      ? await this.#engagementStore.unlike.mutate(tastingId)
+      : await this.#engagementStore.like.mutate(tastingId);
+
+    if (!result) {
+      this.#toastService.error("Impossible d'enregistrer votre j'aime");
+    }
+  }
+
+  async addComment(): Promise<void> {
+    const content = this.commentControl.value.trim();
+    if (!content) return;
+
+    const result = await this.#engagementStore.addComment.mutate({ tastingId: this.tastingIdParam(), content });
+    if (result) {
+      this.commentControl.reset();
+    } else {
+      this.#toastService.error('Impossible de publier le commentaire');
+    }
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    await this.#engagementStore.deleteComment.mutate({ tastingId: this.tastingIdParam(), commentId });
+    if (this.#engagementStore.deleteComment.error()) {
+      this.#toastService.error('Impossible de supprimer le commentaire');
+    }
+  }
+
+  async onPhotoSelected(event: Event): Promise<void> {
+    const file = this.#takeFile(event);
+    if (!file) return;
+
+    const result = await this.#tastingStore.uploadPhoto.mutate({ id: this.tastingIdParam(), photo: file });
+    if (result) {
+      this.#toastService.success('Photo mise à jour');
+    } else {
+      this.#toastService.error("Échec de l'upload de la photo");
+    }
+  }
+
+  async onGalleryPhotoSelected(kind: TastingPhotoDtoKind, event: Event): Promise<void> {
+    const file = this.#takeFile(event);
+    if (!file) return;
+
+    const result = await this.#tastingStore.uploadGalleryPhoto.mutate({ id: this.tastingIdParam(), kind, photo: file });
+    if (!result) {
+      this.#toastService.error("Échec de l'upload de la photo");
+    }
+  }
+
+  async removeGalleryPhoto(kind: TastingPhotoDtoKind): Promise<void> {
+    await this.#tastingStore.removeGalleryPhoto.mutate({ id: this.tastingIdParam(), kind });
+    if (this.#tastingStore.removeGalleryPhoto.error()) {
+      this.#toastService.error('Impossible de retirer la photo');
+    }
+  }
+
   // Helper methods
+  getPhoto(kind: TastingPhotoDtoKind): TastingPhotoDto | null {
+    return this.photos().find((photo) => photo.kind === kind) ?? null;
+  }
+
+  toAvatarUser(comment: TastingCommentResponseDto): AvatarUser {
+    return {
+      id: comment.author.id,
+      displayName: comment.author.displayName ?? comment.author.username,
+      avatarUrl: comment.author.avatarUrl ?? null,
+    };
+  }
+
+  getRevisionFieldLabel(field: string): string {
+    return REVISION_FIELD_LABELS[field] ?? field;
+  }
+
+  formatRevisionValue(change: TastingFieldChangeDto, value: TastingFieldChangeDto['from']): string {
+    if (value === null || value === '') return '—';
+    if (Array.isArray(value)) return `${value.length} club(s)`;
+    if (change.field === 'visibility') {
+      return VISIBILITY_OPTIONS.find((option) => option.value === value)?.label ?? String(value);
+    }
+    if (change.field === 'rating') return `${value}/5`;
+    return String(value);
+  }
+
   getFlavorLabel(id: string): string {
     return getFlavorLabel(id);
   }
@@ -278,4 +728,14 @@ export class TastingViewPage {
     };
     return labels[phase] ?? phase;
   }
-}
\ No newline at end of file
+
+  /**
+   * Read the selected file and reset the input so the same file can be picked again
+   */
+  #takeFile(event: Event): File | null {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0] ?? null;
+    input.value = '';
+    return file;
+  }
+}
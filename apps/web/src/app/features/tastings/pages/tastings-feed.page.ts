@@ -0,0 +1,201 @@
+import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule, DatePipe } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import {
+  IconDirective,
+  ButtonComponent,
+  AvatarComponent,
+  AvatarUser,
+} from '@cigar-platform/shared/ui';
+import { injectTastingStore, TastingFeedScope } from '../../../core/stores/tasting.store';
+import { InfiniteScrollDirective } from '../../../shared/directives';
+import type { FeedTastingResponseDto } from '@cigar-platform/types';
+
+/**
+ * Tastings Feed Page
+ *
+ * Route: /tastings/feed (community), /tastings/feed/following (followed users)
+ * Accessible: Authenticated users
+ *
+ * Features:
+ * - Public completed tastings of the community, newest first
+ * - Tastings of followed users, as far as each tasting's visibility allows
+ * - Infinite scroll (cursor pagination: no skipped or duplicated entries)
+ * - Author shown by display name, or @username for private profiles
+ */
+@Component({
+  selector: 'app-tastings-feed',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    IconDirective,
+    ButtonComponent,
+    AvatarComponent,
+    InfiniteScrollDirective,
+    DatePipe,
+  ],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="mx-auto max-w-4xl space-y-6 md:space-y-8 px-4 md:px-6 py-6 md:py-8">
+      <!-- Header -->
+      <div class="flex items-center justify-between gap-4">
+        <div>
+          <h1 class="font-display text-3xl md:text-4xl text-gold-500">Communauté</h1>
+          <p class="text-smoke-400 mt-1">Les dernières dégustations partagées</p>
+        </div>
+
+        <a routerLink="/tastings">
+          <ui-button variant="ghost" size="sm" icon="book-open">
+            Mon journal
+          </ui-button>
+        </a>
+      </div>
+
+      <!-- Scope Tabs -->
+      <div class="flex gap-2">
+        @for (tab of tabs; track tab.scope) {
+          <a
+            [routerLink]="tab.link"
+            class="px-4 py-1.5 rounded-full text-sm font-medium transition-colors"
+            [class]="tab.scope === scope ? 'bg-gold-500 text-smoke-950' : 'bg-smoke-800 text-smoke-300 hover:text-smoke-100'"
+          >
+            {{ tab.label }}
+          </a>
+        }
+      </div>
+
+      <!-- Loading State -->
+      @if (loading()) {
+        <div class="flex justify-center py-12">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-gold-500"></div>
+        </div>
+      }
+
+      <!-- Error State -->
+      @if (error()) {
+        <div class="text-center py-12">
+          <i name="alert-circle" class="w-12 h-12 text-red-500 mx-auto mb-4"></i>
+          <p class="text-smoke-400">Une erreur est survenue</p>
+        </div>
+      }
+
+      <!-- Feed -->
+      @if (!loading() && !error()) {
+        @if (tastings().length > 0) {
+          <div class="space-y-4">
+            @for (tasting of tastings(); track tasting.id) {
+              <article class="p-4 rounded-lg bg-smoke-800 border border-smoke-700">
+                <!-- Author -->
+                <a
+                  [routerLink]="['/user', '@' + tasting.author.username]"
+                  class="flex items-center gap-3 mb-3 group"
+                >
+                  <ui-avatar [user]="toAvatarUser(tasting)" size="sm" />
+                  <div class="min-w-0">
+                    <p class="text-sm font-medium text-smoke-100 group-hover:text-gold-400 truncate">
+                      {{ tasting.author.displayName ?? '@' + tasting.author.username }}
+                    </p>
+                    <p class="text-xs text-smoke-500">{{ tasting.date | date:'d MMM yyyy' }}</p>
+                  </div>
+                </a>
+
+                <!-- Tasting -->
+                <a [routerLink]="['/tastings', tasting.id]" class="block group">
+                  @if (tasting.photoUrl) {
+                    <img
+                      [src]="tasting.photoUrl"
+                      [alt]="tasting.cigar?.name ?? 'Photo de la dégustation'"
+                      class="w-full aspect-square object-cover rounded-lg mb-3"
+                      loading="lazy"
+                    />
+                  }
+
+                  <div class="flex items-start justify-between gap-3">
+                    <div class="min-w-0">
+                      <h3 class="text-base font-medium text-smoke-100 group-hover:text-gold-400 truncate">
+                        {{ tasting.cigar?.name ?? 'Cigare inconnu' }}
+                      </h3>
+                      <p class="text-sm text-smoke-400 truncate">{{ tasting.cigar?.brand?.name ?? '' }}</p>
+                    </div>
+                    <div class="flex items-center gap-1 text-gold-500 flex-shrink-0">
+                      <i name="star" class="w-4 h-4 fill-current"></i>
+                      <span class="text-sm font-semibold">{{ tasting.rating }}</span>
+                    </div>
+                  </div>
+
+                  @if (tasting.comment) {
+                    <p class="text-sm text-smoke-300 mt-2 line-clamp-3">{{ tasting.comment }}</p>
+                  }
+
+                  <div class="flex items-center gap-4 mt-3 text-xs text-smoke-400">
+                    <span class="flex items-center gap-1">
+                      <i name="heart" class="w-3.5 h-3.5"></i>{{ tasting.likeCount }}
+                    </span>
+                    <span>{{ tasting.commentCount }} commentaire{{ tasting.commentCount > 1 ? 's' : '' }}</span>
+                  </div>
+                </a>
+              </article>
+            }
+          </div>
+
+          <!-- Infinite Scroll Sentinel -->
+          <div appInfiniteScroll [enabled]="hasMore() && !loadingMore()" (reachedEnd)="loadMore()"></div>
+          @if (loadingMore()) {
+            <div class="flex justify-center py-4">
+              <div class="animate-spin rounded-full h-6 w-6 border-b-2 border-gold-500"></div>
+            </div>
+          }
+        } @else {
+          <!-- Empty State -->
+          <div class="flex flex-col items-center justify-center py-16 px-4 rounded-lg bg-smoke-800 border border-smoke-700 text-center">
+            <div class="w-16 h-16 rounded-full bg-smoke-700 flex items-center justify-center mb-4">
+              <i name="users" class="w-8 h-8 text-smoke-500"></i>
+            </div>
+            @if (scope === 'following') {
+              <h3 class="text-lg font-medium text-smoke-200 mb-2">Aucune dégustation</h3>
+              <p class="text-sm text-smoke-400 max-w-sm">
+                Suivez d'autres amateurs depuis leur profil pour retrouver leurs dégustations ici.
+              </p>
+            } @else {
+              <h3 class="text-lg font-medium text-smoke-200 mb-2">Aucune dégustation publique</h3>
+              <p class="text-sm text-smoke-400 max-w-sm">
+                Les dégustations publiques de la communauté apparaîtront ici.
+              </p>
+            }
+          </div>
+        }
+      }
+    </div>
+  `,
+})
+export class TastingsFeedPage {
+  readonly #tastingStore = injectTastingStore();
+
+  // Each scope has its own route: the feed is created once for the page
+  readonly scope: TastingFeedScope = inject(ActivatedRoute).snapshot.data['scope'] ?? 'community';
+  readonly #feed = this.#tastingStore.getFeed(this.scope);
+
+  readonly tabs: { scope: TastingFeedScope; label: string; link: string }[] = [
+    { scope: 'community', label: 'Tous', link: '/tastings/feed' },
+    { scope: 'following', label: 'Abonnements', link: '/tastings/feed/following' },
+  ];
+
+  readonly loading = computed(() => this.#feed.query.loading());
+  readonly error = computed(() => this.#feed.query.error());
+  readonly tastings = computed(() => this.#feed.tastings());
+  readonly hasMore = computed(() => this.#feed.hasMore());
+  readonly loadingMore = computed(() => this.#feed.loadingMore());
+
+  async loadMore(): Promise<void> {
+    await this.#feed.loadMore();
+  }
+
+  toAvatarUser(tasting: FeedTastingResponseDto): AvatarUser {
+    return {
+      id: tasting.author.id,
+      displayName: tasting.author.displayName ?? tasting.author.username,
+      avatarUrl: tasting.author.avatarUrl ?? null,
+    };
+  }
+}
@@ -1,13 +1,49 @@
-import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { Component, computed, inject, signal, effect, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule, DatePipe } from '@angular/common';
 import { RouterLink } from '@angular/router';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { debounceTime } from 'rxjs/operators';
 import {
   IconDirective,
   ButtonComponent,
+  InputComponent,
+  SelectComponent,
+  SelectOption,
 } from '@cigar-platform/shared/ui';
-import { injectTastingStore } from '../../../core/stores/tasting.store';
+import { injectTastingStore, TastingJournalFilter } from '../../../core/stores/tasting.store';
+import { injectCigarStore } from '../../../core/stores/cigar.store';
 import { ContextStore } from '../../../core/stores/context.store';
-import type { TastingResponseDto } from '@cigar-platform/types';
+import {
+  AROMAS,
+  PAIRING_TYPES,
+  TASTING_MOMENTS,
+  TASTING_SITUATIONS,
+} from '@cigar-platform/shared/constants';
+import { CIGAR_STRENGTH_LABELS } from '@cigar-platform/types/lib/cigar';
+import type {
+  TastingResponseDto,
+  TastingControllerFindMineSortBy,
+  TastingControllerFindMineOrder,
+  TastingControllerFindMinePairing,
+  TastingControllerFindMineMoment,
+  TastingControllerFindMineSituation,
+  TastingControllerFindMineAroma,
+} from '@cigar-platform/types';
+
+const toOptions = (list: readonly { id: string; label: string }[]): SelectOption[] =>
+  list.map((item) => ({ value: item.id, label: item.label }));
+
+const RATING_OPTIONS: SelectOption[] = Array.from({ length: 10 }, (_, index) => {
+  const rating = (index + 1) / 2;
+  return { value: String(rating), label: `${rating}/5` };
+});
+
+const SORT_OPTIONS: SelectOption[] = [
+  { value: 'date:desc', label: 'Plus récentes' },
+  { value: 'date:asc', label: 'Plus anciennes' },
+  { value: 'rating:desc', label: 'Mieux notées' },
+  { value: 'rating:asc', label: 'Moins bien notées' },
+];
 
 /**
  * Tastings List Page
@@ -20,6 +56,7 @@ import type { TastingResponseDto } from '@cigar-platform/types';
  * - Context-aware: Solo shows user's tastings, Club shows club's tastings
  * - Click on tasting to view details
  * - Create new tasting CTA
+ * - Solo journal: text search, filters (cigar, context, rating/date ranges, aroma) and sort
  *
  * Architecture: ALL STARS
  */
@@ -29,8 +66,11 @@ import type { TastingResponseDto } from '@cigar-platform/types';
   imports: [
     CommonModule,
     RouterLink,
+    ReactiveFormsModule,
     IconDirective,
     ButtonComponent,
+    InputComponent,
+    SelectComponent,
     DatePipe,
   ],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -45,14 +85,65 @@ import type { TastingResponseDto } from '@cigar-platform/types';
           <p class="text-smoke-400 mt-1">{{ pageSubtitle() }}</p>
         </div>
 
-        <!-- New Tasting Button -->
-        <a routerLink="/tasting/new">
-          <ui-button icon="plus" size="sm">
-            Nouvelle
-          </ui-button>
-        </a>
+        <div class="flex items-center gap-2">
+          <!-- Community Feed -->
+          <a routerLink="/tastings/feed">
+            <ui-button variant="ghost" icon="users" size="sm">
+              Communauté
+            </ui-button>
+          </a>
+
+          <!-- New Tasting Button -->
+          <a routerLink="/tasting/new">
+            <ui-button icon="plus" size="sm">
+              Nouvelle
+            </ui-button>
+          </a>
+        </div>
       </div>
 
+      <!-- Journal Search & Filters (solo) -->
+      @if (!isClubContext()) {
+        <form class="space-y-3" [formGroup]="filterForm">
+          <div class="flex items-end gap-3">
+            <div class="flex-1">
+              <ui-input
+                inputId="journal-search"
+                type="search"
+                placeholder="Rechercher dans mes commentaires et notes..."
+                [control]="filterForm.controls.search"
+                [maxlength]="100"
+              />
+            </div>
+            <ui-button variant="outline" icon="filter" (clicked)="showFilters.set(!showFilters())">
+              Filtres{{ activeFilterCount() > 0 ? ' (' + activeFilterCount() + ')' : '' }}
+            </ui-button>
+          </div>
+
+          @if (showFilters()) {
+            <div class="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 rounded-lg bg-smoke-800 border border-smoke-700">
+              <ui-select label="Tri" [options]="sortOptions" [control]="filterForm.controls.sort" />
+              <ui-select label="Marque" placeholder="Toutes" [options]="brandOptions()" [control]="filterForm.controls.brandId" />
+              <ui-input inputId="journal-origin" label="Origine" placeholder="Cuba, Nicaragua..." [control]="filterForm.controls.origin" [maxlength]="100" />
+              <ui-select label="Force" placeholder="Toutes" [options]="strengthOptions" [control]="filterForm.controls.strength" />
+              <ui-select label="Note min." placeholder="—" [options]="ratingOptions" [control]="filterForm.controls.minRating" />
+              <ui-select label="Note max." placeholder="—" [options]="ratingOptions" [control]="filterForm.controls.maxRating" />
+              <ui-input inputId="journal-date-from" type="date" label="Du" [control]="filterForm.controls.dateFrom" />
+              <ui-input inputId="journal-date-to" type="date" label="Au" [control]="filterForm.controls.dateTo" />
+              <ui-select label="Accord" placeholder="Tous" [options]="pairingOptions" [control]="filterForm.controls.pairing" />
+              <ui-select label="Moment" placeholder="Tous" [options]="momentOptions" [control]="filterForm.controls.moment" />
+              <ui-select label="Situation" placeholder="Toutes" [options]="situationOptions" [control]="filterForm.controls.situation" />
+              <ui-select label="Arôme" placeholder="Tous" [options]="aromaOptions" [control]="filterForm.controls.aroma" />
+              @if (activeFilterCount() > 0) {
+                <div class="col-span-2 md:col-span-3 flex justify-end">
+                  <ui-button variant="ghost" size="sm" (clicked)="resetFilters()">Réinitialiser</ui-button>
+                </div>
+              }
+            </div>
+          }
+        </form>
+      }
+
       <!-- Loading State -->
       @if (loading()) {
         <div class="flex justify-center py-12">
@@ -80,10 +171,10 @@ import type { TastingResponseDto } from '@cigar-platform/types';
                 <div class="flex items-start gap-3">
                   <!-- Brand Logo or Placeholder -->
                   <div class="flex-shrink-0 w-12 h-12 rounded bg-smoke-700 flex items-center justify-center overflow-hidden">
-                    @if (tasting.cigar?.brand?.logoUrl) {
+                    @if (tasting.cigar?.brand?.logoUrl; as logoUrl) {
                       <img
-                        [src]="tasting.cigar.brand.logoUrl"
-                        [alt]="tasting.cigar.brand.name"
+                        [src]="logoUrl"
+                        [alt]="tasting.cigar?.brand?.name"
                         class="w-full h-full object-contain"
                       />
                     } @else {
@@ -151,6 +242,18 @@ import type { TastingResponseDto } from '@cigar-platform/types';
               </ui-button>
             </div>
           }
+        } @else if (hasJournalFilter()) {
+          <!-- No Results -->
+          <div class="flex flex-col items-center justify-center py-16 px-4 rounded-lg bg-smoke-800 border border-smoke-700 text-center">
+            <div class="w-16 h-16 rounded-full bg-smoke-700 flex items-center justify-center mb-4">
+              <i name="search" class="w-8 h-8 text-smoke-500"></i>
+            </div>
+            <h3 class="text-lg font-medium text-smoke-200 mb-2">Aucun résultat</h3>
+            <p class="text-sm text-smoke-400 max-w-sm mb-6">
+              Aucune dégustation ne correspond à votre recherche.
+            </p>
+            <ui-button variant="outline" (clicked)="resetFilters()">Réinitialiser les filtres</ui-button>
+          </div>
         } @else {
           <!-- Empty State -->
           <div class="flex flex-col items-center justify-center py-16 px-4 rounded-lg bg-smoke-800 border border-smoke-700 text-center">
@@ -177,6 +280,90 @@ import type { TastingResponseDto } from '@cigar-platform/types';
 export class TastingsListPage {
   readonly #tastingStore = injectTastingStore();
   readonly #contextStore = inject(ContextStore);
+  readonly #cigarStore = injectCigarStore();
+  readonly #fb = inject(FormBuilder);
+
+  // Journal filters (solo context)
+  readonly sortOptions = SORT_OPTIONS;
+  readonly ratingOptions = RATING_OPTIONS;
+  readonly pairingOptions = toOptions(PAIRING_TYPES);
+  readonly momentOptions = toOptions(TASTING_MOMENTS);
+  readonly situationOptions = toOptions(TASTING_SITUATIONS);
+  readonly aromaOptions = toOptions(AROMAS);
+  readonly strengthOptions: SelectOption[] = Object.entries(CIGAR_STRENGTH_LABELS).map(([value, label]) => ({
+    value,
+    label: `${value} - ${label}`,
+  }));
+
+  readonly #brandsQuery = this.#cigarStore.listBrands();
+  readonly brandOptions = computed<SelectOption[]>(() =>
+    (this.#brandsQuery.data() ?? []).map((brand) => ({ value: brand.id, label: brand.name }))
+  );
+
+  readonly filterForm = this.#fb.nonNullable.group({
+    search: '',
+    sort: 'date:desc',
+    brandId: '',
+    origin: '',
+    strength: '',
+    minRating: '',
+    maxRating: '',
+    dateFrom: '',
+    dateTo: '',
+    pairing: '',
+    moment: '',
+    situation: '',
+    aroma: '',
+  });
+
+  readonly showFilters = signal(false);
+
+  // Sort and search are not counted as filters
+  readonly activeFilterCount = computed(() => {
+    const filter = this.#tastingStore.journalFilter();
+    return Object.entries(filter).filter(
+      ([key, value]) => value !== undefined && !['sortBy', 'order', 'search'].includes(key)
+    ).length;
+  });
+  readonly hasJournalFilter = computed(
+    () => this.activeFilterCount() > 0 || !!this.#tastingStore.journalFilter().search
+  );
+
+  constructor() {
+    // Apply filters (debounced so typing doesn't flood the API)
+    effect((onCleanup) => {
+      const subscription = this.filterForm.valueChanges.pipe(debounceTime(300)).subscribe(() => {
+        this.#tastingStore.setJournalFilter(this.#toJournalFilter());
+      });
+      onCleanup(() => subscription.unsubscribe());
+    });
+  }
+
+  resetFilters(): void {
+    this.filterForm.reset();
+  }
+
+  #toJournalFilter(): TastingJournalFilter {
+    const value = this.filterForm.getRawValue();
+    const [sortBy, order] = value.sort.split(':') as [TastingControllerFindMineSortBy, TastingControllerFindMineOrder];
+
+    return {
+      sortBy,
+      order,
+      search: value.search.trim() || undefined,
+      brandId: value.brandId || undefined,
+      origin: value.origin.trim() || undefined,
+      strength: value.strength ? Number(value.strength) : undefined,
+      minRating: value.minRating ? Number(value.minRating) : undefined,
+      maxRating: value.maxRating ? Number(value.maxRating) : undefined,
+      dateFrom: value.dateFrom || undefined,
+      dateTo: value.dateTo || undefined,
+      pairing: (value.pairing || undefined) as TastingControllerFindMinePairing | undefined,
+      moment: (value.moment || undefined) as TastingControllerFindMineMoment | undefined,
+      situation: (value.situation || undefined) as TastingControllerFindMineSituation | undefined,
+      aroma: (value.aroma || undefined) as TastingControllerFindMineAroma | undefined,
+    };
+  }
 
   // Context
   readonly context = computed(() => this.#contextStore.context());
@@ -2,7 +2,7 @@ import { Route } from '@angular/router';
 
 /**
  * Tastings Routes
- * List and view completed tastings
+ * List and view completed tastings, community and following feeds
  */
 export const tastingsRoutes: Route[] = [
   {
@@ -10,6 +10,18 @@ export const tastingsRoutes: Route[] = [
     loadComponent: () =>
       import('./pages/tastings-list.page').then((m) => m.TastingsListPage),
   },
+  {
+    path: 'feed',
+    loadComponent: () =>
+      import('./pages/tastings-feed.page').then((m) => m.TastingsFeedPage),
+    data: { scope: 'community' },
+  },
+  {
+    path: 'feed/following',
+    loadComponent: () =>
+      import('./pages/tastings-feed.page').then((m) => m.TastingsFeedPage),
+    data: { scope: 'following' },
+  },
   {
     path: ':id',
     loadComponent: () =>
@@ -1,12 +1,14 @@
-import { Component, computed, inject } from '@angular/core';
+import { Component, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
 import { toSignal } from '@angular/core/rxjs-interop';
 import { map } from 'rxjs/operators';
 import { injectUserStore } from '../../../core/stores/user.store';
+import { ToastService } from '../../../core/services';
 import {
   PageSectionComponent,
   AvatarComponent,
+  ButtonComponent,
   TooltipDirective,
   SkeletonComponent,
 } from '@cigar-platform/shared/ui';
@@ -20,6 +22,8 @@ import {
  * Features:
  * - View user public information (avatar, bio, displayName)
  * - View user statistics (evaluation count, favorite brand, club count)
+ * - View follower / following counts
+ * - Follow / unfollow (authenticated, PRIVATE profiles must accept the request)
  * - View user's public clubs (max 6)
  *
  * Privacy:
@@ -39,6 +43,7 @@ import {
     CommonModule,
     PageSectionComponent,
     AvatarComponent,
+    ButtonComponent,
     TooltipDirective,
     SkeletonComponent,
   ],
@@ -48,6 +53,7 @@ export class UserProfilePage {
   #route = inject(ActivatedRoute);
   #router = inject(Router);
   #userStore = injectUserStore();
+  #toastService = inject(ToastService);
 
   // Route params (toSignal pattern - no subscribe)
   // Username from URL (with or without @)
@@ -93,6 +99,30 @@ export class UserProfilePage {
   readonly evaluationCount = computed(() => this.profile()?.stats.evaluationCount ?? 0);
   readonly favoriteBrand = computed(() => this.profile()?.stats.favoriteBrand ?? null);
   readonly clubCount = computed(() => this.profile()?.stats.clubCount ?? 0);
+  readonly followerCount = computed(() => this.profile()?.stats.followerCount ?? 0);
+  readonly followingCount = computed(() => this.profile()?.stats.followingCount ?? 0);
+
+  // Follow (authenticated visitors only, never on one's own profile)
+  readonly canFollow = computed(() => {
+    const currentUser = this.#userStore.currentUser.data();
+    const profile = this.profile();
+    return !!currentUser && !!profile && currentUser.id !== profile.id;
+  });
+  readonly followStatusQuery = this.#userStore.getFollowStatus(() =>
+    this.canFollow() ? this.usernameParam() : ''
+  );
+  readonly followStatus = computed(() => this.followStatusQuery.data()?.status ?? null);
+  readonly followLoading = signal(false);
+  readonly followLabel = computed(() => {
+    switch (this.followStatus()) {
+      case 'ACCEPTED':
+        return 'Abonné';
+      case 'PENDING':
+        return 'Demande envoyée';
+      default:
+        return 'Suivre';
+    }
+  });
 
   // User object for avatar component
   readonly user = computed(() => {
@@ -110,6 +140,35 @@ export class UserProfilePage {
     return clubs && clubs.length > 0;
   });
 
+  /**
+   * Follow, or unfollow / cancel the pending request
+   */
+  async toggleFollow(): Promise<void> {
+    const identifier = this.usernameParam();
+    if (!identifier || this.followLoading()) return;
+
+    this.followLoading.set(true);
+
+    if (this.followStatus()) {
+      await this.#userStore.unfollow.mutate(identifier);
+      this.followLoading.set(false);
+
+      if (this.#userStore.unfollow.error()) {
+        this.#toastService.error('Impossible de se désabonner');
+      }
+      return;
+    }
+
+    const result = await this.#userStore.follow.mutate(identifier);
+    this.followLoading.set(false);
+
+    if (!result) {
+      this.#toastService.error('Impossible de suivre ce profil');
+    } else if (result.status === 'PENDING') {
+      this.#toastService.success('Demande d\'abonnement envoyée');
+    }
+  }
+
   /**
    * Navigate to club detail page (using slug for Prestige URL)
    */
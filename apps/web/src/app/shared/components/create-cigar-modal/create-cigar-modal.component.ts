@@ -2,6 +2,8 @@ import { Component, input, output, signal, computed, effect, inject, ChangeDetec
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators, FormControl } from '@angular/forms';
 import { Router } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { debounceTime } from 'rxjs/operators';
 import {
   ModalComponent,
   ButtonComponent,
@@ -13,6 +15,7 @@ import {
 } from '@cigar-platform/shared/ui';
 import { CIGAR_VITOLAS, CIGAR_STRENGTH_MIN, CIGAR_STRENGTH_MAX, CIGAR_STRENGTH_LABELS } from '@cigar-platform/types/lib/cigar';
 import { CIGAR_COUNTRIES } from '@cigar-platform/types';
+import type { BrandSuggestionDto } from '@cigar-platform/types';
 import { injectCigarStore } from '../../../core/stores/cigar.store';
 
 /**
@@ -28,6 +31,8 @@ import { injectCigarStore } from '../../../core/stores/cigar.store';
  * - Pre-fill with search query
  * - Brand input with toggle for new brand fields
  * - Strength slider (1-5, tactile)
+ * - Optional specification (dimensions, wrapper, origin)
+ * - Near-duplicate suggestions (existing cigar or brand spelled differently)
  * - Success screen with "Déguster maintenant" or "Consulter la fiche"
  *
  * Architecture: ALL STARS ⭐
@@ -81,12 +86,16 @@ export class CreateCigarModalComponent {
   });
   readonly brandsLoading = this.brandsQuery.loading;
 
-  // Country search state
+  // Country search state (brand country and cigar origin)
   readonly countrySearchQuery = signal<string>('');
+  readonly originSearchQuery = signal<string>('');
 
   // Country options for autocomplete (filtered + sorted by relevance)
-  readonly countryOptions = computed(() => {
-    const query = this.countrySearchQuery().toLowerCase().trim();
+  readonly countryOptions = computed(() => this.#filterCountries(this.countrySearchQuery()));
+  readonly originOptions = computed(() => this.#filterCountries(this.originSearchQuery()));
+
+  #filterCountries(search: string): { value: string; label: string; metadata: string }[] {
+    const query = search.toLowerCase().trim();
 
     if (!query) {
       // No search: return all countries
@@ -112,7 +121,7 @@ export class CreateCigarModalComponent {
       .filter(c => c.score > 0) // Only matching countries
       .sort((a, b) => b.score - a.score) // Best matches first
       .map(({ value, label, metadata }) => ({ value, label, metadata })); // Remove score
-  });
+  }
 
   // Create mutation
   readonly createMutation = this.#cigarStore.createCigar;
@@ -121,6 +130,7 @@ export class CreateCigarModalComponent {
   // Internal state
   readonly currentStep = signal<Step>('form');
   readonly showNewBrandFields = signal<boolean>(false);
+  readonly showSpecFields = signal<boolean>(false);
   readonly createdCigarName = signal<string>('');
   readonly createdCigarSlug = signal<string>('');
 
@@ -136,8 +146,33 @@ export class CreateCigarModalComponent {
     name: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]],
     vitola: ['', [Validators.required]],
     strength: new FormControl<number>(3, [Validators.required, Validators.min(CIGAR_STRENGTH_MIN), Validators.max(CIGAR_STRENGTH_MAX)]),
+    // Optional specification
+    length: new FormControl<number | null>(null, [Validators.min(50), Validators.max(300)]),
+    ringGauge: new FormControl<number | null>(null, [Validators.min(20), Validators.max(80)]),
+    wrapper: ['', [Validators.maxLength(50)]],
+    origin: ['', [Validators.maxLength(50)]],
   });
 
+  // Near-duplicate suggestions (debounced form values)
+  readonly #typedBrandName = toSignal(
+    this.cigarForm.controls.brandName.valueChanges.pipe(debounceTime(400)),
+    { initialValue: '' }
+  );
+  readonly #typedName = toSignal(
+    this.cigarForm.controls.name.valueChanges.pipe(debounceTime(400)),
+    { initialValue: '' }
+  );
+  readonly duplicatesQuery = this.#cigarStore.findDuplicates(
+    () => this.#typedBrandName() ?? '',
+    () => this.#typedName() ?? ''
+  );
+  readonly similarCigars = computed(() => this.duplicatesQuery.data()?.cigars ?? []);
+  // Only suggest a brand spelled differently from what was typed
+  readonly suggestedBrand = computed<BrandSuggestionDto | null>(() => {
+    const typed = (this.#typedBrandName() ?? '').trim().toLowerCase();
+    const [best] = this.duplicatesQuery.data()?.brands ?? [];
+    return best && best.name.toLowerCase() !== typed ? best : null;
+  });
 
   constructor() {
     // Auto-fill cigar name when prefillName changes
@@ -162,12 +197,17 @@ export class CreateCigarModalComponent {
   resetModal(): void {
     this.currentStep.set('form');
     this.showNewBrandFields.set(false);
+    this.showSpecFields.set(false);
     this.cigarForm.reset({
       brandName: '',
       brandCountry: '',
       name: '',
       vitola: '',
       strength: 3,
+      length: null,
+      ringGauge: null,
+      wrapper: '',
+      origin: '',
     });
     this.createdCigarName.set('');
     this.createdCigarSlug.set('');
@@ -184,6 +224,13 @@ export class CreateCigarModalComponent {
     }
   }
 
+  /**
+   * Toggle optional specification fields (dimensions, wrapper, origin)
+   */
+  toggleSpecFields(): void {
+    this.showSpecFields.update(v => !v);
+  }
+
   /**
    * Handle brand search from autocomplete
    */
@@ -199,6 +246,22 @@ export class CreateCigarModalComponent {
     this.showNewBrandFields.set(true);
   }
 
+  /**
+   * Use the existing brand suggested by duplicate detection
+   */
+  useSuggestedBrand(brand: BrandSuggestionDto): void {
+    this.cigarForm.patchValue({ brandName: brand.name });
+    this.showNewBrandFields.set(false);
+  }
+
+  /**
+   * Open an existing cigar instead of creating a duplicate
+   */
+  openExistingCigar(slug: string): void {
+    void this.#router.navigate(['/cigar', slug]);
+    this.close.emit();
+  }
+
   /**
    * Handle country search from autocomplete
    */
@@ -206,6 +269,13 @@ export class CreateCigarModalComponent {
     this.countrySearchQuery.set(query);
   }
 
+  /**
+   * Handle cigar origin search from autocomplete
+   */
+  onOriginSearch(query: string): void {
+    this.originSearchQuery.set(query);
+  }
+
   /**
    * Submit the full form (create cigar)
    */
@@ -221,6 +291,10 @@ export class CreateCigarModalComponent {
       brandCountry: this.showNewBrandFields() ? (formValue.brandCountry ?? undefined) : undefined,
       vitola: formValue.vitola ?? '',
       strength: formValue.strength ?? 3,
+      length: formValue.length ?? undefined,
+      ringGauge: formValue.ringGauge ?? undefined,
+      wrapper: formValue.wrapper?.trim() || undefined,
+      origin: formValue.origin?.trim() || undefined,
     });
 
     // Check for errors
@@ -67,6 +67,9 @@ import { ManageMemberMenuComponent } from '../manage-member-menu/manage-member-m
             <!-- Date -->
             <span class="text-xs text-smoke-300">
               Membre depuis {{ formatDate(member().joinedAt) }}
+              @if (member().joinedVia; as invite) {
+                · invité par {{ '@' + invite.creator.username }} ({{ invite.code }})
+              }
             </span>
           </div>
         </a>
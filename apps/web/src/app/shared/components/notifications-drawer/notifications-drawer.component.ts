@@ -1,15 +1,19 @@
-import { Component, input, output } from '@angular/core';
+import { Component, input, output, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ModalComponent, IconDirective } from '@cigar-platform/shared/ui';
+import { ModalComponent, IconDirective, ButtonComponent } from '@cigar-platform/shared/ui';
+import type { PlanExpiryAlertDto } from '@cigar-platform/types';
+import { injectUserStore } from '../../../core/stores';
+import { ToastService } from '../../../core/services/toast.service';
 
 /**
  * Notifications Drawer Component
  * Slide-over panel from right displaying user notifications
+ * - Premium expiry alerts (queued by the API, dismissed once seen)
  */
 @Component({
   selector: 'app-notifications-drawer',
   standalone: true,
-  imports: [CommonModule, ModalComponent, IconDirective],
+  imports: [CommonModule, ModalComponent, IconDirective, ButtonComponent],
   template: `
     <ui-modal
       [isOpen]="isOpen()"
@@ -32,6 +36,28 @@ import { ModalComponent, IconDirective } from '@cigar-platform/shared/ui';
           </button>
         </div>
 
+        <!-- Premium Expiry Alerts -->
+        @for (alert of expiryAlerts(); track alert.id) {
+          <div class="flex gap-3 border-b border-smoke-700 px-5 py-4">
+            <div class="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-gold-500/10">
+              <i name="bell" class="h-5 w-5 text-gold-500"></i>
+            </div>
+            <div class="flex-1 space-y-2">
+              <p class="text-sm text-smoke-200">
+                {{ expiryMessage(alert) }}
+                (le {{ alert.expiresAt | date:'d MMMM yyyy' }})
+              </p>
+              <ui-button
+                variant="ghost"
+                size="sm"
+                [loading]="acknowledging()"
+                (click)="acknowledge(alert)"
+              >
+                J'ai compris
+              </ui-button>
+            </div>
+          </div>
+        } @empty {
         <!-- Empty State -->
         <div class="flex flex-1 flex-col items-center justify-center px-6 py-16 text-center">
           <div class="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-smoke-800">
@@ -44,11 +70,33 @@ import { ModalComponent, IconDirective } from '@cigar-platform/shared/ui';
             Vous n'avez pas de nouvelles notifications pour le moment.
           </p>
         </div>
+        }
       </div>
     </ui-modal>
   `,
 })
 export class NotificationsDrawerComponent {
+  readonly #userStore = injectUserStore();
+  readonly #toastService = inject(ToastService);
+
   readonly isOpen = input<boolean>(false);
   readonly close = output<void>();
+
+  readonly expiryAlerts = computed<PlanExpiryAlertDto[]>(() => this.#userStore.expiryAlerts.data() ?? []);
+  readonly acknowledging = this.#userStore.acknowledgeExpiryAlert.loading;
+
+  expiryMessage(alert: PlanExpiryAlertDto): string {
+    if (alert.daysRemaining <= 1) {
+      return 'Votre accès Premium se termine demain';
+    }
+    return `Votre accès Premium se termine dans ${alert.daysRemaining} jours`;
+  }
+
+  async acknowledge(alert: PlanExpiryAlertDto): Promise<void> {
+    await this.#userStore.acknowledgeExpiryAlert.mutate(alert.id);
+
+    if (this.#userStore.acknowledgeExpiryAlert.error()) {
+      this.#toastService.error('Impossible de masquer la notification');
+    }
+  }
 }
\ No newline at end of file
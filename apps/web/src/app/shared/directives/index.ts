@@ -2,4 +2,4 @@
  * Shared Directives
  * Web-specific directives
  */
-export { PullToRefreshDirective } from './pull-to-refresh.directive';
\ No newline at end of file
+export { PullToRefreshDirective } from './pull-to-refresh.directive';export { InfiniteScrollDirective } from './infinite-scroll.directive';
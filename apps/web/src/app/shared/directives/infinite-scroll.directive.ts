@@ -0,0 +1,61 @@
+import {
+  Directive,
+  ElementRef,
+  inject,
+  input,
+  output,
+  OnInit,
+  OnDestroy,
+  NgZone,
+} from '@angular/core';
+
+/**
+ * Infinite Scroll Directive
+ * Emits when the host element (a sentinel placed after the list) enters the viewport
+ *
+ * Usage:
+ * <div appInfiniteScroll [enabled]="hasMore()" (reachedEnd)="loadMore()"></div>
+ */
+@Directive({
+  selector: '[appInfiniteScroll]',
+  standalone: true,
+})
+export class InfiniteScrollDirective implements OnInit, OnDestroy {
+  private readonly el = inject(ElementRef);
+  private readonly ngZone = inject(NgZone);
+
+  /**
+   * Distance before the sentinel at which loading starts
+   */
+  readonly rootMargin = input<string>('400px');
+
+  /**
+   * Whether more items can be loaded
+   */
+  readonly enabled = input<boolean>(true);
+
+  /**
+   * Emitted when the sentinel becomes visible
+   */
+  readonly reachedEnd = output<void>();
+
+  private observer: IntersectionObserver | null = null;
+
+  ngOnInit(): void {
+    this.ngZone.runOutsideAngular(() => {
+      this.observer = new IntersectionObserver(
+        (entries) => {
+          if (!this.enabled() || !entries.some((entry) => entry.isIntersecting)) return;
+          this.ngZone.run(() => this.reachedEnd.emit());
+        },
+        { rootMargin: this.rootMargin() }
+      );
+      this.observer.observe(this.el.nativeElement);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+}
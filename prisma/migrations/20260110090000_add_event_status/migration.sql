@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('PUBLISHED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing rows are backfilled above, Prisma sets updatedAt itself from now on
+ALTER TABLE "events" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "events_date_idx" ON "events"("date");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "RSVPResponse" AS ENUM ('PENDING', 'YES', 'NO', 'MAYBE');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "maxAttendees" INTEGER;
+
+-- CreateTable
+CREATE TABLE "event_attendees" (
+    "id" UUID NOT NULL,
+    "eventId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "response" "RSVPResponse" NOT NULL DEFAULT 'PENDING',
+    "isWaitlisted" BOOLEAN NOT NULL DEFAULT false,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_attendees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_attendees_eventId_userId_key" ON "event_attendees"("eventId", "userId");
+
+-- CreateIndex
+CREATE INDEX "event_attendees_eventId_idx" ON "event_attendees"("eventId");
+
+-- CreateIndex
+CREATE INDEX "event_attendees_userId_idx" ON "event_attendees"("userId");
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "cigarSecret" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "cigarRevealAt" TIMESTAMP(3),
+ADD COLUMN     "cigarRevealed" BOOLEAN NOT NULL DEFAULT false;
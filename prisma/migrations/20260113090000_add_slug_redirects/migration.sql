@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "brand_slug_redirects" (
+    "id" UUID NOT NULL,
+    "slug" TEXT NOT NULL,
+    "brandId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "brand_slug_redirects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cigar_slug_redirects" (
+    "id" UUID NOT NULL,
+    "slug" TEXT NOT NULL,
+    "cigarId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cigar_slug_redirects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "brand_slug_redirects_slug_key" ON "brand_slug_redirects"("slug");
+
+-- CreateIndex
+CREATE INDEX "brand_slug_redirects_brandId_idx" ON "brand_slug_redirects"("brandId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cigar_slug_redirects_slug_key" ON "cigar_slug_redirects"("slug");
+
+-- CreateIndex
+CREATE INDEX "cigar_slug_redirects_cigarId_idx" ON "cigar_slug_redirects"("cigarId");
+
+-- AddForeignKey
+ALTER TABLE "brand_slug_redirects" ADD CONSTRAINT "brand_slug_redirects_brandId_fkey" FOREIGN KEY ("brandId") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cigar_slug_redirects" ADD CONSTRAINT "cigar_slug_redirects_cigarId_fkey" FOREIGN KEY ("cigarId") REFERENCES "cigars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
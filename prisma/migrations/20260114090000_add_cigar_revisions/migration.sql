@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "cigar_revisions" (
+    "id" UUID NOT NULL,
+    "cigarId" UUID NOT NULL,
+    "editedBy" UUID NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cigar_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cigar_revisions_cigarId_idx" ON "cigar_revisions"("cigarId");
+
+-- CreateIndex
+CREATE INDEX "cigar_revisions_editedBy_idx" ON "cigar_revisions"("editedBy");
+
+-- AddForeignKey
+ALTER TABLE "cigar_revisions" ADD CONSTRAINT "cigar_revisions_cigarId_fkey" FOREIGN KEY ("cigarId") REFERENCES "cigars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cigar_revisions" ADD CONSTRAINT "cigar_revisions_editedBy_fkey" FOREIGN KEY ("editedBy") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "plan_transitions" (
+    "id" UUID NOT NULL,
+    "planId" UUID NOT NULL,
+    "fromStatus" "PlanStatus" NOT NULL,
+    "toStatus" "PlanStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "plan_expiry_alerts" (
+    "id" UUID NOT NULL,
+    "planId" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_expiry_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "plan_transitions_planId_idx" ON "plan_transitions"("planId");
+
+-- CreateIndex
+CREATE INDEX "plan_expiry_alerts_sentAt_idx" ON "plan_expiry_alerts"("sentAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_expiry_alerts_planId_expiresAt_key" ON "plan_expiry_alerts"("planId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "plan_transitions" ADD CONSTRAINT "plan_transitions_planId_fkey" FOREIGN KEY ("planId") REFERENCES "user_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_expiry_alerts" ADD CONSTRAINT "plan_expiry_alerts_planId_fkey" FOREIGN KEY ("planId") REFERENCES "user_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "TastingPhotoKind" AS ENUM ('BAND', 'FOOT', 'ASH');
+
+-- CreateTable
+CREATE TABLE "tasting_photos" (
+    "id" UUID NOT NULL,
+    "tastingId" UUID NOT NULL,
+    "kind" "TastingPhotoKind" NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tasting_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasting_photos_tastingId_kind_key" ON "tasting_photos"("tastingId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "tasting_photos" ADD CONSTRAINT "tasting_photos_tastingId_fkey" FOREIGN KEY ("tastingId") REFERENCES "tastings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing rows stay at version 1 (free-form) until scripts/migrate-observation-organoleptic.ts upgrades them
+ALTER TABLE "observations" ADD COLUMN     "organolepticVersion" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "tastings" ADD COLUMN     "completedAt" TIMESTAMP(3);
+
+-- Backfill: best known completion date for existing completed tastings
+UPDATE "tastings" SET "completedAt" = "updatedAt" WHERE "status" = 'COMPLETED';
+
+-- CreateTable
+CREATE TABLE "tasting_revisions" (
+    "id" UUID NOT NULL,
+    "tastingId" UUID NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tasting_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tasting_revisions_tastingId_idx" ON "tasting_revisions"("tastingId");
+
+-- AddForeignKey
+ALTER TABLE "tasting_revisions" ADD CONSTRAINT "tasting_revisions_tastingId_fkey" FOREIGN KEY ("tastingId") REFERENCES "tastings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
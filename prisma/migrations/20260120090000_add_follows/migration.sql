@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "FollowStatus" AS ENUM ('PENDING', 'ACCEPTED');
+
+-- CreateTable
+CREATE TABLE "follows" (
+    "id" UUID NOT NULL,
+    "followerId" UUID NOT NULL,
+    "followingId" UUID NOT NULL,
+    "status" "FollowStatus" NOT NULL DEFAULT 'ACCEPTED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "follows_followingId_status_idx" ON "follows"("followingId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "follows_followerId_followingId_key" ON "follows"("followerId", "followingId");
+
+-- AddForeignKey
+ALTER TABLE "follows" ADD CONSTRAINT "follows_followerId_fkey" FOREIGN KEY ("followerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "follows" ADD CONSTRAINT "follows_followingId_fkey" FOREIGN KEY ("followingId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
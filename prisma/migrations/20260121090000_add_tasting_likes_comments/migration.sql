@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "tasting_likes" (
+    "id" UUID NOT NULL,
+    "tastingId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tasting_likes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tasting_comments" (
+    "id" UUID NOT NULL,
+    "tastingId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tasting_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tasting_likes_userId_idx" ON "tasting_likes"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasting_likes_tastingId_userId_key" ON "tasting_likes"("tastingId", "userId");
+
+-- CreateIndex
+CREATE INDEX "tasting_comments_tastingId_createdAt_idx" ON "tasting_comments"("tastingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "tasting_comments_userId_idx" ON "tasting_comments"("userId");
+
+-- AddForeignKey
+ALTER TABLE "tasting_likes" ADD CONSTRAINT "tasting_likes_tastingId_fkey" FOREIGN KEY ("tastingId") REFERENCES "tastings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasting_likes" ADD CONSTRAINT "tasting_likes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasting_comments" ADD CONSTRAINT "tasting_comments_tastingId_fkey" FOREIGN KEY ("tastingId") REFERENCES "tastings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasting_comments" ADD CONSTRAINT "tasting_comments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
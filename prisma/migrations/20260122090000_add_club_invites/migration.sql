@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "club_invites" (
+    "id" UUID NOT NULL,
+    "clubId" UUID NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdBy" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER NOT NULL DEFAULT 1,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "club_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "club_members" ADD COLUMN "inviteId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_invites_code_key" ON "club_invites"("code");
+
+-- CreateIndex
+CREATE INDEX "club_invites_clubId_idx" ON "club_invites"("clubId");
+
+-- CreateIndex
+CREATE INDEX "club_invites_createdBy_idx" ON "club_invites"("createdBy");
+
+-- AddForeignKey
+ALTER TABLE "club_invites" ADD CONSTRAINT "club_invites_clubId_fkey" FOREIGN KEY ("clubId") REFERENCES "clubs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_invites" ADD CONSTRAINT "club_invites_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_members" ADD CONSTRAINT "club_members_inviteId_fkey" FOREIGN KEY ("inviteId") REFERENCES "club_invites"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Data migration: static club codes become invites created by the club creator,
+-- valid 30 more days with the maximum number of uses (they used to never expire)
+INSERT INTO "club_invites" ("id", "clubId", "code", "createdBy", "expiresAt", "maxUses")
+SELECT gen_random_uuid(), "id", "inviteCode", "createdBy", CURRENT_TIMESTAMP + INTERVAL '30 days', 100
+FROM "clubs"
+WHERE "inviteCode" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "clubs_inviteCode_key";
+
+-- AlterTable
+ALTER TABLE "clubs" DROP COLUMN "inviteCode";
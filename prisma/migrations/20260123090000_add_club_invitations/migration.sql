@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ClubInvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "club_invitations" (
+    "id" UUID NOT NULL,
+    "clubId" UUID NOT NULL,
+    "inviteeId" UUID NOT NULL,
+    "invitedBy" UUID NOT NULL,
+    "status" "ClubInvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "club_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "club_invitations_inviteeId_idx" ON "club_invitations"("inviteeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_invitations_clubId_inviteeId_key" ON "club_invitations"("clubId", "inviteeId");
+
+-- AddForeignKey
+ALTER TABLE "club_invitations" ADD CONSTRAINT "club_invitations_clubId_fkey" FOREIGN KEY ("clubId") REFERENCES "clubs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_invitations" ADD CONSTRAINT "club_invitations_inviteeId_fkey" FOREIGN KEY ("inviteeId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_invitations" ADD CONSTRAINT "club_invitations_invitedBy_fkey" FOREIGN KEY ("invitedBy") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
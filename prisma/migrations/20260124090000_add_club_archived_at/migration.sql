@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "clubs" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- Clubs archived before this migration start their retention window now
+UPDATE "clubs" SET "archivedAt" = CURRENT_TIMESTAMP WHERE "isArchived" = true;
+
+-- CreateIndex
+CREATE INDEX "clubs_isArchived_archivedAt_idx" ON "clubs"("isArchived", "archivedAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "clubs" ADD COLUMN     "city" TEXT,
+ADD COLUMN     "country" TEXT,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "clubs_country_idx" ON "clubs"("country");
+
+-- CreateIndex
+CREATE INDEX "clubs_latitude_longitude_idx" ON "clubs"("latitude", "longitude");
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "cigar_revisions" DROP CONSTRAINT "cigar_revisions_editedBy_fkey";
+
+-- AlterTable
+ALTER TABLE "cigar_revisions" ALTER COLUMN "editedBy" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "cigar_revisions" ADD CONSTRAINT "cigar_revisions_editedBy_fkey" FOREIGN KEY ("editedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -648,6 +648,132 @@ async function main() {
     console.log(`  ${statusEmoji} ${brand.name} ${cigar.name} (${cigar.vitola}, ${cigar.length}mm × ${cigar.ringGauge})`);
   }
 
+  // === SEED CLUBS WITH LOCATIONS ===
+  // Geographic dataset for the directory "near me" queries (GET /clubs?lat=..&lng=..&radiusKm=..)
+  // From Paris: Boulogne ~8 km, Versailles ~18 km, Bruxelles ~264 km, Lyon ~390 km, Genève ~410 km
+  const clubs = [
+    {
+      name: 'Cercle du Havane Paris',
+      slug: 'cercle_du_havane_paris',
+      description: 'Dégustations mensuelles au cœur de Paris.',
+      city: 'Paris',
+      country: 'FR',
+      latitude: 48.8566,
+      longitude: 2.3522,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Boulogne Smoke Lounge',
+      slug: 'boulogne_smoke_lounge',
+      description: 'Soirées cigares et rhums à Boulogne-Billancourt.',
+      city: 'Boulogne-Billancourt',
+      country: 'FR',
+      latitude: 48.8397,
+      longitude: 2.2399,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Les Amateurs de Versailles',
+      slug: 'amateurs_de_versailles',
+      description: 'Club privé, listé dans le répertoire (adhésion sur demande).',
+      city: 'Versailles',
+      country: 'FR',
+      latitude: 48.8049,
+      longitude: 2.1204,
+      visibility: 'PRIVATE' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Fumoir Secret Montmartre',
+      slug: 'fumoir_secret_montmartre',
+      description: 'Club privé hors répertoire : jamais listé, même à proximité.',
+      city: 'Paris',
+      country: 'FR',
+      latitude: 48.8867,
+      longitude: 2.3431,
+      visibility: 'PRIVATE' as const,
+      isPublicDirectory: false,
+    },
+    {
+      name: 'Lyon Cigar Society',
+      slug: 'lyon_cigar_society',
+      description: 'Les passionnés lyonnais, un samedi par mois.',
+      city: 'Lyon',
+      country: 'FR',
+      latitude: 45.764,
+      longitude: 4.8357,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Club des Bagues Genève',
+      slug: 'club_des_bagues_geneve',
+      description: 'Amateurs de cigares au bord du Léman.',
+      city: 'Genève',
+      country: 'CH',
+      latitude: 46.2044,
+      longitude: 6.1432,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Bruxelles Vitolas',
+      slug: 'bruxelles_vitolas',
+      description: 'Club belge ouvert à tous les curieux.',
+      city: 'Bruxelles',
+      country: 'BE',
+      latitude: 50.8503,
+      longitude: 4.3517,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+    {
+      name: 'Aficionados Itinérants',
+      slug: 'aficionados_itinerants',
+      description: 'Pays seulement, sans coordonnées : filtrable par pays, absent des recherches par rayon.',
+      city: null,
+      country: 'FR',
+      latitude: null,
+      longitude: null,
+      visibility: 'PUBLIC' as const,
+      isPublicDirectory: true,
+    },
+  ];
+
+  console.log(`\n📍 Seeding ${clubs.length} clubs with locations...`);
+
+  for (const clubData of clubs) {
+    const club = await prisma.club.upsert({
+      where: { slug: clubData.slug },
+      update: {
+        name: clubData.name,
+        description: clubData.description,
+        city: clubData.city,
+        country: clubData.country,
+        latitude: clubData.latitude,
+        longitude: clubData.longitude,
+        visibility: clubData.visibility,
+        isPublicDirectory: clubData.isPublicDirectory,
+      },
+      create: {
+        ...clubData,
+        createdBy: systemUser.id,
+      },
+    });
+
+    await prisma.clubMember.upsert({
+      where: { clubId_userId: { clubId: club.id, userId: systemUser.id } },
+      update: {},
+      create: { clubId: club.id, userId: systemUser.id, role: 'owner' },
+    });
+
+    console.log(`  ✓ ${club.name} (${club.city ?? '—'}, ${club.country})`);
+  }
+
+  console.log(`\n✅ ${clubs.length} clubs created`);
+
   console.log('\n✨ Seed completed successfully!');
   console.log(`\n📊 Summary:`);
   console.log(`  - 5 test users with different plans created`);
@@ -655,6 +781,7 @@ async function main() {
   console.log(`  - ${cigars.length} cigars created`);
   console.log(`  - ${cigars.filter(c => c.status === 'VERIFIED').length} verified cigars`);
   console.log(`  - ${cigars.filter(c => c.status === 'PENDING').length} pending cigars`);
+  console.log(`  - ${clubs.length} clubs with locations created`);
   console.log(`\n🎫 Test Users for Plan Feature:`);
   console.log(`  - free@test.local       → FREE plan`);
   console.log(`  - beta@test.local       → PREMIUM BETA (expires 2026-12-31)`);
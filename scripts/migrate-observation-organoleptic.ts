@@ -0,0 +1,147 @@
+/**
+ * Migration Script: Upgrade legacy observations to the current organoleptic schema
+ *
+ * Observations written before server-side validation (organolepticVersion = 1)
+ * may hold old phase names, unknown ids or out-of-range intensities.
+ * Each row is upgraded with upgradeOrganoleptic, re-validated, then saved with
+ * the current version. Rows that still fail validation are reported and left untouched.
+ *
+ * Run with: npx tsx scripts/migrate-observation-organoleptic.ts [--dry-run]
+ */
+
+import { PrismaClient, Prisma } from '../generated/prisma';
+import { AROMAS } from '../shared/constants/src';
+import {
+  ORGANOLEPTIC_SCHEMA_VERSION,
+  validateOrganoleptic,
+  upgradeOrganoleptic,
+  isObservationPhase,
+} from '../apps/api/src/observation/organoleptic.schema';
+
+const prisma = new PrismaClient();
+
+/**
+ * Phase names used by the first API version
+ */
+const LEGACY_PHASES: Record<string, string> = {
+  fumage_cru: 'cold_draw',
+  foin: 'first_third',
+  divin: 'second_third',
+  purin: 'final_third',
+};
+
+const AROMA_IDS: readonly string[] = AROMAS.map((aroma) => aroma.id);
+
+/**
+ * Aroma ids of the upgraded payload (FlavorTag format: { id, intensity })
+ */
+function extractAromaIds(organoleptic: Record<string, unknown>): string[] {
+  return Object.values(organoleptic).flatMap((phaseData) => {
+    const aromas = (phaseData as Record<string, unknown>)['aromas'];
+    return Array.isArray(aromas) ? aromas.map((tag) => (tag as { id: string }).id) : [];
+  });
+}
+
+async function migrateObservationOrganoleptic(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`🚀 Starting organoleptic migration to version ${ORGANOLEPTIC_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const observations = await prisma.observation.findMany({
+    where: { organolepticVersion: { lt: ORGANOLEPTIC_SCHEMA_VERSION } },
+    select: {
+      id: true,
+      tastingId: true,
+      phase: true,
+      aromas: true,
+      organoleptic: true,
+    },
+  });
+
+  console.log(`Found ${observations.length} observations to upgrade\n`);
+
+  let updatedCount = 0;
+  let failedCount = 0;
+  let errorCount = 0;
+
+  for (const observation of observations) {
+    try {
+      const phase = LEGACY_PHASES[observation.phase] ?? observation.phase;
+
+      if (!isObservationPhase(phase)) {
+        console.log(`⚠️  Observation ${observation.id}: unknown phase "${observation.phase}", skipping`);
+        failedCount++;
+        continue;
+      }
+
+      // Renaming the phase must not create a second observation for the same tasting/phase
+      if (phase !== observation.phase) {
+        const duplicate = await prisma.observation.findFirst({
+          where: { tastingId: observation.tastingId, phase, id: { not: observation.id } },
+          select: { id: true },
+        });
+        if (duplicate) {
+          console.log(`⚠️  Observation ${observation.id}: "${phase}" already exists on tasting ${observation.tastingId}, skipping`);
+          failedCount++;
+          continue;
+        }
+      }
+
+      const organoleptic = observation.organoleptic
+        ? upgradeOrganoleptic(phase, observation.organoleptic)
+        : null;
+
+      if (observation.organoleptic && !organoleptic) {
+        console.log(`⚠️  Observation ${observation.id} (${phase}): payload has no "${phase}" data, skipping`);
+        failedCount++;
+        continue;
+      }
+
+      const issues = organoleptic ? validateOrganoleptic(phase, organoleptic) : [];
+      if (issues.length > 0) {
+        console.log(`⚠️  Observation ${observation.id} (${phase}): still invalid after upgrade`);
+        issues.forEach((issue) => console.log(`     - ${issue.path}: ${issue.message}`));
+        failedCount++;
+        continue;
+      }
+
+      // Keep known top-level aromas, fall back to the upgraded payload
+      const knownAromas = observation.aromas.filter((id) => AROMA_IDS.includes(id));
+      const aromas = knownAromas.length > 0 || !organoleptic ? knownAromas : extractAromaIds(organoleptic);
+
+      if (!dryRun) {
+        await prisma.observation.update({
+          where: { id: observation.id },
+          data: {
+            phase,
+            aromas,
+            organoleptic: organoleptic ? (organoleptic as Prisma.JsonObject) : Prisma.DbNull,
+            organolepticVersion: ORGANOLEPTIC_SCHEMA_VERSION,
+          },
+        });
+      }
+
+      console.log(`✅ Observation ${observation.id} (${observation.phase}${phase !== observation.phase ? ` → ${phase}` : ''}): upgraded`);
+      updatedCount++;
+    } catch (error) {
+      console.error(`❌ Error upgrading observation ${observation.id}:`, error);
+      errorCount++;
+    }
+  }
+
+  console.log('\n📊 Migration Summary:');
+  console.log(`   Total observations: ${observations.length}`);
+  console.log(`   Upgraded: ${updatedCount}${dryRun ? ' (dry run, nothing written)' : ''}`);
+  console.log(`   Left at previous version: ${failedCount}`);
+  console.log(`   Errors: ${errorCount}`);
+  console.log('\n✨ Migration complete!');
+}
+
+// Run the migration
+migrateObservationOrganoleptic()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,77 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { signWebhookPayload } from '../apps/api/src/common/utils/webhook-signature.util';
+
+/**
+ * Replay recorded Stripe webhook fixtures against a running API
+ * No Stripe account needed: payloads are signed locally with STRIPE_WEBHOOK_SECRET
+ *
+ * Usage:
+ *   npm run stripe:replay -- --user <userId> [--url http://localhost:3000/api/webhooks/stripe] [--only created] [--twice]
+ *
+ * --twice sends every event a second time (the API must answer duplicate: true)
+ */
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'stripe-webhooks');
+const PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+/**
+ * Fill the fixture placeholders (user and billing periods relative to now)
+ */
+function render(template: string, userId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  return template
+    .replace(/"\{\{PERIOD_START\}\}"/g, String(now))
+    .replace(/"\{\{PERIOD_END\}\}"/g, String(now + PERIOD_SECONDS))
+    .replace(/"\{\{NEXT_PERIOD_END\}\}"/g, String(now + 2 * PERIOD_SECONDS))
+    .replace(/"\{\{THIRD_PERIOD_END\}\}"/g, String(now + 3 * PERIOD_SECONDS))
+    .replace(/\{\{USER_ID\}\}/g, userId);
+}
+
+async function replayStripeWebhooks() {
+  const userId = getArg('user');
+  const url = getArg('url') ?? 'http://localhost:3000/api/webhooks/stripe';
+  const only = getArg('only');
+  const twice = process.argv.includes('--twice');
+  const secret = process.env['STRIPE_WEBHOOK_SECRET'] ?? 'whsec_local';
+
+  if (!userId) {
+    console.error('❌ Missing --user <userId>');
+    process.exit(1);
+  }
+
+  const fixtures = readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json') && (!only || file.includes(only)))
+    .sort();
+
+  console.log(`🔄 Replaying ${fixtures.length} fixture(s) to ${url}\n`);
+
+  for (const file of fixtures) {
+    const payload = render(readFileSync(join(FIXTURES_DIR, file), 'utf8'), userId);
+
+    for (let attempt = 1; attempt <= (twice ? 2 : 1); attempt++) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Stripe-Signature': signWebhookPayload(payload, secret),
+        },
+        body: payload,
+      });
+
+      const body = await response.text();
+      const icon = response.ok ? '✅' : '❌';
+      console.log(`${icon} ${file}${attempt > 1 ? ' (retry)' : ''} → ${response.status} ${body}`);
+    }
+  }
+
+  console.log('\n✨ Done!');
+}
+
+replayStripeWebhooks();
@@ -0,0 +1,136 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * Cigar Platform API
+ * API for cigar tasting club management
+ * OpenAPI spec version: 1.0
+ */
+import {
+  HttpClient
+} from '@angular/common/http';
+
+import {
+  Injectable,
+  inject
+} from '@angular/core';
+
+import type {
+  DeepNonNullable
+} from '@orval/core';
+
+import type {
+  BulkPlanActionDto,
+  BulkPlanActionResultDto,
+  ExtendPlanDto,
+  GiftPlanDto,
+  PaginatedPlanUserResponseDto,
+  PlanAdminControllerFindUsersParams,
+  PlanReasonDto,
+  UserPlanDto
+} from '../generated-api.schemas';
+
+import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
+
+
+
+
+
+
+@Injectable({ providedIn: 'root' })
+export class AdminPlansService {
+  private readonly http = inject(HttpClient);
+/**
+ * @summary List users with their plan (admins only)
+ */
+ planAdminControllerFindUsers<TData = PaginatedPlanUserResponseDto>(
+    params?: DeepNonNullable<PlanAdminControllerFindUsersParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/users`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Gift Premium to a user (admins only)
+ */
+ planAdminControllerGift<TData = UserPlanDto>(
+    userId: string,
+    giftPlanDto: GiftPlanDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/users/${userId}/gift`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: giftPlanDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Extend the expiration of a Premium plan (admins only)
+ */
+ planAdminControllerExtend<TData = UserPlanDto>(
+    userId: string,
+    extendPlanDto: ExtendPlanDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/users/${userId}/extend`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: extendPlanDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Revoke Premium access (admins only)
+ */
+ planAdminControllerRevoke<TData = UserPlanDto>(
+    userId: string,
+    planReasonDto: PlanReasonDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/users/${userId}/revoke`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: planReasonDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Convert a plan to LIFETIME Premium (admins only)
+ */
+ planAdminControllerConvertToLifetime<TData = UserPlanDto>(
+    userId: string,
+    planReasonDto: PlanReasonDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/users/${userId}/lifetime`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: planReasonDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Apply a plan action to a cohort of users (admins only)
+ */
+ planAdminControllerBulk<TData = BulkPlanActionResultDto>(
+    bulkPlanActionDto: BulkPlanActionDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/admin/plans/bulk`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: bulkPlanActionDto
+    },
+      this.http,
+      );
+    }
+  };
+
+export type PlanAdminControllerFindUsersClientResult = NonNullable<PaginatedPlanUserResponseDto>
+export type PlanAdminControllerGiftClientResult = NonNullable<UserPlanDto>
+export type PlanAdminControllerExtendClientResult = NonNullable<UserPlanDto>
+export type PlanAdminControllerRevokeClientResult = NonNullable<UserPlanDto>
+export type PlanAdminControllerConvertToLifetimeClientResult = NonNullable<UserPlanDto>
+export type PlanAdminControllerBulkClientResult = NonNullable<BulkPlanActionResultDto>
@@ -19,8 +19,11 @@ import type {
 } from '@orval/core';
 
 import type {
+  BrandCigarControllerFindAllParams,
   BrandControllerFindAllParams,
-  BrandResponseDto
+  BrandResponseDto,
+  MergeBrandDto,
+  PaginatedCigarCatalogResponseDto
 } from '../generated-api.schemas';
 
 import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
@@ -46,6 +49,50 @@ export class BrandsService {
       this.http,
       );
     }
+  /**
+ * @summary Get brand by slug (public, old slugs of merged brands resolve too)
+ */
+ brandControllerFindBySlug<TData = BrandResponseDto>(
+    slug: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/brands/${slug}`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Merge a duplicate brand into its canonical brand (moderators only)
+ */
+ brandControllerMerge<TData = BrandResponseDto>(
+    id: string,
+    mergeBrandDto: MergeBrandDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/brands/${id}/merge`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: mergeBrandDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Browse the cigars of a brand (public, same filters and facets as GET /cigars)
+ */
+ brandCigarControllerFindAll<TData = PaginatedCigarCatalogResponseDto>(
+    slug: string,
+    params?: DeepNonNullable<BrandCigarControllerFindAllParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/brands/${slug}/cigars`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
   };
 
 export type BrandControllerFindAllClientResult = NonNullable<BrandResponseDto[]>
+export type BrandControllerFindBySlugClientResult = NonNullable<BrandResponseDto>
+export type BrandControllerMergeClientResult = NonNullable<BrandResponseDto>
+export type BrandCigarControllerFindAllClientResult = NonNullable<PaginatedCigarCatalogResponseDto>
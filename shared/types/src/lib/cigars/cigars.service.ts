@@ -15,8 +15,25 @@ import {
 } from '@angular/core';
 
 import type {
+  DeepNonNullable
+} from '@orval/core';
+
+import type {
+  CigarControllerFindCatalogParams,
+  CigarControllerFindDuplicatesParams,
+  CigarControllerFindModerationQueueParams,
+  CigarDuplicatesResponseDto,
+  CigarModerationResponseDto,
   CigarResponseDto,
-  CreateCigarDto
+  CigarRevisionResponseDto,
+  CigarStatsResponseDto,
+  CreateCigarDto,
+  MergeCigarDto,
+  PaginatedCigarCatalogResponseDto,
+  PaginatedCigarModerationResponseDto,
+  RejectCigarDto,
+  UpdateCigarDto,
+  UpdateCigarModerationDto
 } from '../generated-api.schemas';
 
 import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
@@ -30,13 +47,14 @@ import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-
 export class CigarsService {
   private readonly http = inject(HttpClient);
 /**
- * @summary Get cigar by slug (public)
+ * @summary Browse the cigar catalogue (public, paginated, filters with facet counts)
  */
- cigarControllerFindBySlug<TData = CigarResponseDto>(
-    slug: string,
+ cigarControllerFindCatalog<TData = PaginatedCigarCatalogResponseDto>(
+    params?: DeepNonNullable<CigarControllerFindCatalogParams>,
  ) {
       return customInstance<TData>(
-      {url: `/api/cigars/${slug}`, method: 'GET'
+      {url: `/api/cigars`, method: 'GET',
+        params
     },
       this.http,
       );
@@ -55,7 +73,151 @@ export class CigarsService {
       this.http,
       );
     }
+  /**
+ * @summary Find existing brands and cigars close to the submitted names
+ */
+ cigarControllerFindDuplicates<TData = CigarDuplicatesResponseDto>(
+    params: DeepNonNullable<CigarControllerFindDuplicatesParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/duplicates`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get cigar by slug (public, old slugs of merged cigars resolve too)
+ */
+ cigarControllerFindBySlug<TData = CigarResponseDto>(
+    slug: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${slug}`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Edit the cigar specification (submitter until verified, moderators always)
+ */
+ cigarControllerUpdate<TData = CigarResponseDto>(
+    id: string,
+    updateCigarDto: UpdateCigarDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: updateCigarDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get cigar aggregates (ratings, aromas, tastes, pairings) over the tastings the viewer can read
+ */
+ cigarControllerGetStats<TData = CigarStatsResponseDto>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/stats`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get the change history of a cigar (moderators only)
+ */
+ cigarControllerGetHistory<TData = CigarRevisionResponseDto[]>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/history`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get cigars awaiting moderation (moderators only)
+ */
+ cigarControllerFindModerationQueue<TData = PaginatedCigarModerationResponseDto>(
+    params?: DeepNonNullable<CigarControllerFindModerationQueueParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/moderation/queue`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Edit a submitted cigar before approval (moderators only)
+ */
+ cigarControllerUpdateForModeration<TData = CigarModerationResponseDto>(
+    id: string,
+    updateCigarModerationDto: UpdateCigarModerationDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/moderation`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: updateCigarModerationDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Approve a submitted cigar (moderators only)
+ */
+ cigarControllerApprove<TData = CigarModerationResponseDto>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/approve`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Reject a submitted cigar with a reason (moderators only)
+ */
+ cigarControllerReject<TData = CigarModerationResponseDto>(
+    id: string,
+    rejectCigarDto: RejectCigarDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/reject`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: rejectCigarDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Merge a duplicate cigar into its canonical cigar (moderators only)
+ */
+ cigarControllerMerge<TData = CigarResponseDto>(
+    id: string,
+    mergeCigarDto: MergeCigarDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/cigars/${id}/merge`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: mergeCigarDto
+    },
+      this.http,
+      );
+    }
   };
 
-export type CigarControllerFindBySlugClientResult = NonNullable<CigarResponseDto>
+export type CigarControllerFindCatalogClientResult = NonNullable<PaginatedCigarCatalogResponseDto>
 export type CigarControllerCreateClientResult = NonNullable<CigarResponseDto>
+export type CigarControllerFindDuplicatesClientResult = NonNullable<CigarDuplicatesResponseDto>
+export type CigarControllerFindBySlugClientResult = NonNullable<CigarResponseDto>
+export type CigarControllerUpdateClientResult = NonNullable<CigarResponseDto>
+export type CigarControllerGetStatsClientResult = NonNullable<CigarStatsResponseDto>
+export type CigarControllerGetHistoryClientResult = NonNullable<CigarRevisionResponseDto[]>
+export type CigarControllerFindModerationQueueClientResult = NonNullable<PaginatedCigarModerationResponseDto>
+export type CigarControllerUpdateForModerationClientResult = NonNullable<CigarModerationResponseDto>
+export type CigarControllerApproveClientResult = NonNullable<CigarModerationResponseDto>
+export type CigarControllerRejectClientResult = NonNullable<CigarModerationResponseDto>
+export type CigarControllerMergeClientResult = NonNullable<CigarResponseDto>
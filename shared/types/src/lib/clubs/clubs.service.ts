@@ -22,17 +22,23 @@ import type {
   BanMemberDto,
   ClubControllerFindAllParams,
   ClubControllerGetBannedMembersParams,
+  ClubControllerGetInvitationsParams,
   ClubControllerGetJoinRequestsParams,
   ClubControllerGetMembersParams,
   ClubControllerUploadAvatar200,
   ClubControllerUploadAvatarBody,
+  ClubInvitationResponseDto,
+  ClubInviteResponseDto,
   ClubProfileStatsResponseDto,
   ClubResponseDto,
   CreateClubDto,
+  CreateClubInvitationDto,
+  CreateClubInviteDto,
   CreateJoinRequestDto,
   JoinByCodeDto,
   JoinByCodeResponseDto,
   PaginatedBanResponseDto,
+  PaginatedClubInvitationResponseDto,
   PaginatedClubResponseDto,
   PaginatedJoinRequestResponseDto,
   PaginatedMemberResponseDto,
@@ -67,7 +73,7 @@ export class ClubsService {
       );
     }
   /**
- * @summary Get all clubs with pagination and filtering
+ * @summary Browse the club directory (listed, non-archived clubs) with pagination, search and sorting
  */
  clubControllerFindAll<TData = PaginatedClubResponseDto>(
     params?: DeepNonNullable<ClubControllerFindAllParams>,
@@ -92,6 +98,42 @@ export class ClubsService {
       );
     }
   /**
+ * @summary Get my pending club invitations
+ */
+ clubControllerFindMyInvitations<TData = ClubInvitationResponseDto[]>(
+    
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/me/invitations`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Accept a club invitation (joins the club immediately)
+ */
+ clubControllerAcceptInvitation<TData = JoinByCodeResponseDto>(
+    invitationId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/me/invitations/${invitationId}/accept`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Decline a club invitation
+ */
+ clubControllerDeclineInvitation<TData = void>(
+    invitationId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/me/invitations/${invitationId}/decline`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Get club profile stats (parcours, signature, terroirs, journal)
  */
  clubControllerGetProfileStats<TData = ClubProfileStatsResponseDto>(
@@ -131,9 +173,10 @@ export class ClubsService {
       );
     }
   /**
- * @summary Delete a club
+ * The club becomes read-only and hidden from explore and search. Members keep access to its history. It can be restored until purgeAt, then it is deleted for good.
+ * @summary Archive a club
  */
- clubControllerRemove<TData = void>(
+ clubControllerArchive<TData = void>(
     id: string,
  ) {
       return customInstance<TData>(
@@ -162,6 +205,18 @@ if(clubControllerUploadAvatarBody.avatar !== undefined) {
       );
     }
   /**
+ * @summary Restore an archived club (before its purge date)
+ */
+ clubControllerRestore<TData = ClubResponseDto>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/restore`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Get club members
  */
  clubControllerGetMembers<TData = PaginatedMemberResponseDto>(
@@ -275,6 +330,88 @@ if(clubControllerUploadAvatarBody.avatar !== undefined) {
       );
     }
   /**
+ * @summary Create an invite code (owners/admins, or any member if member invites are allowed)
+ */
+ clubControllerCreateInvite<TData = ClubInviteResponseDto>(
+    id: string,
+    createClubInviteDto: CreateClubInviteDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invites`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createClubInviteDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get club invites (all for owners/admins, own invites for members)
+ */
+ clubControllerGetInvites<TData = ClubInviteResponseDto[]>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invites`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Revoke an invite (invite creator or owners/admins)
+ */
+ clubControllerRevokeInvite<TData = void>(
+    id: string,
+    inviteId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invites/${inviteId}`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Invite a user by @username (owners/admins, or any member if member invites are allowed)
+ */
+ clubControllerCreateInvitation<TData = ClubInvitationResponseDto>(
+    id: string,
+    createClubInvitationDto: CreateClubInvitationDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invitations`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createClubInvitationDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get club invitations (all for owners/admins, sent ones for members)
+ */
+ clubControllerGetInvitations<TData = PaginatedClubInvitationResponseDto>(
+    id: string,
+    params?: DeepNonNullable<ClubControllerGetInvitationsParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invitations`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Cancel a pending invitation (inviter or owners/admins)
+ */
+ clubControllerCancelInvitation<TData = void>(
+    id: string,
+    invitationId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${id}/invitations/${invitationId}`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Join a club or create join request
  */
  clubControllerJoinClub<TData = void>(
@@ -351,11 +488,15 @@ if(clubControllerUploadAvatarBody.avatar !== undefined) {
 export type ClubControllerCreateClientResult = NonNullable<ClubResponseDto>
 export type ClubControllerFindAllClientResult = NonNullable<PaginatedClubResponseDto>
 export type ClubControllerFindMyClubsClientResult = NonNullable<void>
+export type ClubControllerFindMyInvitationsClientResult = NonNullable<ClubInvitationResponseDto[]>
+export type ClubControllerAcceptInvitationClientResult = NonNullable<JoinByCodeResponseDto>
+export type ClubControllerDeclineInvitationClientResult = NonNullable<void>
 export type ClubControllerGetProfileStatsClientResult = NonNullable<ClubProfileStatsResponseDto>
 export type ClubControllerFindOneClientResult = NonNullable<ClubResponseDto>
 export type ClubControllerUpdateClientResult = NonNullable<ClubResponseDto>
-export type ClubControllerRemoveClientResult = NonNullable<void>
+export type ClubControllerArchiveClientResult = NonNullable<void>
 export type ClubControllerUploadAvatarClientResult = NonNullable<ClubControllerUploadAvatar200>
+export type ClubControllerRestoreClientResult = NonNullable<ClubResponseDto>
 export type ClubControllerGetMembersClientResult = NonNullable<PaginatedMemberResponseDto>
 export type ClubControllerGetMyMembershipClientResult = NonNullable<void>
 export type ClubControllerUpdateMemberRoleClientResult = NonNullable<void>
@@ -364,6 +505,12 @@ export type ClubControllerRemoveMemberClientResult = NonNullable<void>
 export type ClubControllerBanMemberClientResult = NonNullable<void>
 export type ClubControllerUnbanMemberClientResult = NonNullable<void>
 export type ClubControllerGetBannedMembersClientResult = NonNullable<PaginatedBanResponseDto>
+export type ClubControllerCreateInviteClientResult = NonNullable<ClubInviteResponseDto>
+export type ClubControllerGetInvitesClientResult = NonNullable<ClubInviteResponseDto[]>
+export type ClubControllerRevokeInviteClientResult = NonNullable<void>
+export type ClubControllerCreateInvitationClientResult = NonNullable<ClubInvitationResponseDto>
+export type ClubControllerGetInvitationsClientResult = NonNullable<PaginatedClubInvitationResponseDto>
+export type ClubControllerCancelInvitationClientResult = NonNullable<void>
 export type ClubControllerJoinClubClientResult = NonNullable<void>
 export type ClubControllerJoinByCodeClientResult = NonNullable<JoinByCodeResponseDto>
 export type ClubControllerGetJoinRequestsClientResult = NonNullable<PaginatedJoinRequestResponseDto>
@@ -0,0 +1,111 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * Cigar Platform API
+ * API for cigar tasting club management
+ * OpenAPI spec version: 1.0
+ */
+import {
+  HttpClient
+} from '@angular/common/http';
+
+import {
+  Injectable,
+  inject
+} from '@angular/core';
+
+import type {
+  DeepNonNullable
+} from '@orval/core';
+
+import type {
+  CreateTastingCommentDto,
+  EngagementControllerFindCommentsParams,
+  PaginatedTastingCommentResponseDto,
+  TastingCommentResponseDto,
+  TastingLikeResponseDto
+} from '../generated-api.schemas';
+
+import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
+
+
+
+
+
+
+@Injectable({ providedIn: 'root' })
+export class EngagementService {
+  private readonly http = inject(HttpClient);
+/**
+ * @summary Like a tasting
+ */
+ engagementControllerLike<TData = TastingLikeResponseDto>(
+    tastingId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${tastingId}/like`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Remove my like from a tasting
+ */
+ engagementControllerUnlike<TData = TastingLikeResponseDto>(
+    tastingId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${tastingId}/like`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get comments of a tasting (paginated, oldest first)
+ */
+ engagementControllerFindComments<TData = PaginatedTastingCommentResponseDto>(
+    tastingId: string,
+    params?: DeepNonNullable<EngagementControllerFindCommentsParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${tastingId}/comments`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Comment on a tasting
+ */
+ engagementControllerAddComment<TData = TastingCommentResponseDto>(
+    tastingId: string,
+    createTastingCommentDto: CreateTastingCommentDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${tastingId}/comments`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createTastingCommentDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Delete a comment (comment author, tasting author or club admin)
+ */
+ engagementControllerRemoveComment<TData = void>(
+    tastingId: string,
+    commentId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${tastingId}/comments/${commentId}`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  };
+
+export type EngagementControllerLikeClientResult = NonNullable<TastingLikeResponseDto>
+export type EngagementControllerUnlikeClientResult = NonNullable<TastingLikeResponseDto>
+export type EngagementControllerFindCommentsClientResult = NonNullable<PaginatedTastingCommentResponseDto>
+export type EngagementControllerAddCommentClientResult = NonNullable<TastingCommentResponseDto>
+export type EngagementControllerRemoveCommentClientResult = NonNullable<void>
@@ -0,0 +1,179 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * Cigar Platform API
+ * API for cigar tasting club management
+ * OpenAPI spec version: 1.0
+ */
+import {
+  HttpClient
+} from '@angular/common/http';
+
+import {
+  Injectable,
+  inject
+} from '@angular/core';
+
+import type {
+  DeepNonNullable
+} from '@orval/core';
+
+import type {
+  CreateEventDto,
+  EventAttendeeResponseDto,
+  EventAttendeesResponseDto,
+  EventBlindResultsResponseDto,
+  EventControllerFindAllParams,
+  EventResponseDto,
+  PaginatedEventResponseDto,
+  RespondEventDto,
+  UpdateEventDto
+} from '../generated-api.schemas';
+
+import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
+
+
+
+
+
+
+@Injectable({ providedIn: 'root' })
+export class EventsService {
+  private readonly http = inject(HttpClient);
+/**
+ * @summary Create a club event
+ */
+ eventControllerCreate<TData = EventResponseDto>(
+    clubId: string,
+    createEventDto: CreateEventDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createEventDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get club events (upcoming or past, paginated)
+ */
+ eventControllerFindAll<TData = PaginatedEventResponseDto>(
+    clubId: string,
+    params?: DeepNonNullable<EventControllerFindAllParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get a club event by ID
+ */
+ eventControllerFindOne<TData = EventResponseDto>(
+    clubId: string,
+    eventId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Update a club event
+ */
+ eventControllerUpdate<TData = EventResponseDto>(
+    clubId: string,
+    eventId: string,
+    updateEventDto: UpdateEventDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: updateEventDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Cancel a club event
+ */
+ eventControllerCancel<TData = EventResponseDto>(
+    clubId: string,
+    eventId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}/cancel`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Reveal the secret cigar of a blind-tasting event
+ */
+ eventControllerRevealCigar<TData = EventResponseDto>(
+    clubId: string,
+    eventId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}/reveal`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get blind ratings next to the revealed cigar
+ */
+ eventControllerGetBlindResults<TData = EventBlindResultsResponseDto>(
+    clubId: string,
+    eventId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}/blind-results`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Respond to a club event (YES / NO / MAYBE)
+ */
+ eventControllerRespond<TData = EventAttendeeResponseDto>(
+    clubId: string,
+    eventId: string,
+    respondEventDto: RespondEventDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}/rsvp`, method: 'PUT',
+      headers: {'Content-Type': 'application/json', },
+      data: respondEventDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get attendees of a club event with response counts
+ */
+ eventControllerGetAttendees<TData = EventAttendeesResponseDto>(
+    clubId: string,
+    eventId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/clubs/${clubId}/events/${eventId}/attendees`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  };
+
+export type EventControllerCreateClientResult = NonNullable<EventResponseDto>
+export type EventControllerFindAllClientResult = NonNullable<PaginatedEventResponseDto>
+export type EventControllerFindOneClientResult = NonNullable<EventResponseDto>
+export type EventControllerUpdateClientResult = NonNullable<EventResponseDto>
+export type EventControllerCancelClientResult = NonNullable<EventResponseDto>
+export type EventControllerRevealCigarClientResult = NonNullable<EventResponseDto>
+export type EventControllerGetBlindResultsClientResult = NonNullable<EventBlindResultsResponseDto>
+export type EventControllerRespondClientResult = NonNullable<EventAttendeeResponseDto>
+export type EventControllerGetAttendeesClientResult = NonNullable<EventAttendeesResponseDto>
@@ -223,6 +223,25 @@ export interface CreateClubDto {
   maxMembers?: number;
   /** Show in public directory (even if PRIVATE) */
   isPublicDirectory?: boolean;
+  /**
+   * City where the club meets
+   * @maxLength 100
+   */
+  city?: string;
+  /** Country (ISO 3166-1 alpha-2 code) */
+  country?: string;
+  /**
+   * Latitude in degrees (set together with longitude)
+   * @minimum -90
+   * @maximum 90
+   */
+  latitude?: number;
+  /**
+   * Longitude in degrees (set together with latitude)
+   * @minimum -180
+   * @maximum 180
+   */
+  longitude?: number;
 }
 
 export type ClubResponseDtoVisibility = typeof ClubResponseDtoVisibility[keyof typeof ClubResponseDtoVisibility];
@@ -269,13 +288,22 @@ export interface ClubResponseDto {
   imageUrl?: string;
   coverUrl?: string;
   visibility: ClubResponseDtoVisibility;
-  /** Only returned for club owners/admins */
-  inviteCode?: string;
   isPublicDirectory: boolean;
   autoApproveMembers: boolean;
   allowMemberInvites: boolean;
   maxMembers?: number;
+  city?: string;
+  /** ISO 3166-1 alpha-2 code */
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Distance from the searched position in km (directory "near me" queries only) */
+  distanceKm?: number;
   isArchived: boolean;
+  /** When the club was archived (null when active) */
+  archivedAt?: string;
+  /** When an archived club is purged; it can be restored until then */
+  purgeAt?: string;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -303,6 +331,65 @@ export interface PaginatedClubResponseDto {
   meta: PaginationMetaDto;
 }
 
+export interface ClubInvitationClubDto {
+  id: string;
+  name: string;
+  slug: string;
+  /** @nullable */
+  imageUrl: string | null;
+}
+
+export interface MemberUserDto {
+  id: string;
+  displayName: string;
+  username: string;
+  /** @nullable */
+  avatarUrl: string | null;
+}
+
+export type ClubInvitationResponseDtoStatus = typeof ClubInvitationResponseDtoStatus[keyof typeof ClubInvitationResponseDtoStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ClubInvitationResponseDtoStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+} as const;
+
+export interface ClubInvitationResponseDto {
+  id: string;
+  clubId: string;
+  status: ClubInvitationResponseDtoStatus;
+  createdAt: string;
+  updatedAt: string;
+  club: ClubInvitationClubDto;
+  /** User who is invited */
+  invitee: MemberUserDto;
+  /** Member who sent the invitation */
+  inviter: MemberUserDto;
+}
+
+/**
+ * The role assigned to the user in the club
+ */
+export type JoinByCodeResponseDtoRole = typeof JoinByCodeResponseDtoRole[keyof typeof JoinByCodeResponseDtoRole];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const JoinByCodeResponseDtoRole = {
+  owner: 'owner',
+  admin: 'admin',
+  member: 'member',
+} as const;
+
+export interface JoinByCodeResponseDto {
+  /** The club that was joined */
+  club: ClubResponseDto;
+  /** The role assigned to the user in the club */
+  role: JoinByCodeResponseDtoRole;
+}
+
 export interface ClubParcoursStatsDto {
   /** Total number of tastings shared with club */
   tastingCount: number;
@@ -310,6 +397,11 @@ export interface ClubParcoursStatsDto {
   memberCount: number;
   /** Number of events */
   eventCount: number;
+  /**
+   * Average share of members confirmed (RSVP YES) on past events, in percent (null if no past event)
+   * @nullable
+   */
+  participationRate?: number | null;
 }
 
 export interface AromaStatDto {
@@ -350,6 +442,10 @@ export interface JournalTastingDto {
   aromas?: string[];
   /** User who made the tasting (for club context only) */
   user?: JournalTastingUserDto;
+  /** Number of likes */
+  likeCount: number;
+  /** Number of comments */
+  commentCount: number;
 }
 
 export interface ClubProfileStatsResponseDto {
@@ -405,14 +501,31 @@ export interface UpdateClubDto {
   maxMembers?: number;
   /** Show in public directory (even if PRIVATE) */
   isPublicDirectory?: boolean;
+  /**
+   * City where the club meets
+   * @maxLength 100
+   */
+  city?: string;
+  /** Country (ISO 3166-1 alpha-2 code) */
+  country?: string;
+  /**
+   * Latitude in degrees (set together with longitude)
+   * @minimum -90
+   * @maximum 90
+   */
+  latitude?: number;
+  /**
+   * Longitude in degrees (set together with latitude)
+   * @minimum -180
+   * @maximum 180
+   */
+  longitude?: number;
 }
 
-export interface MemberUserDto {
+export interface ClubMemberInviteDto {
   id: string;
-  displayName: string;
-  username: string;
-  /** @nullable */
-  avatarUrl: string | null;
+  code: string;
+  creator: MemberUserDto;
 }
 
 export type ClubMemberResponseDtoRole = typeof ClubMemberResponseDtoRole[keyof typeof ClubMemberResponseDtoRole];
@@ -425,6 +538,12 @@ export const ClubMemberResponseDtoRole = {
   member: 'member',
 } as const;
 
+/**
+ * Invite used to join (null = join request or direct join), only returned to owners/admins
+ * @nullable
+ */
+export type ClubMemberResponseDtoJoinedVia = ClubMemberInviteDto | null;
+
 export interface ClubMemberResponseDto {
   id: string;
   clubId: string;
@@ -432,6 +551,11 @@ export interface ClubMemberResponseDto {
   role: ClubMemberResponseDtoRole;
   joinedAt: string;
   user: MemberUserDto;
+  /**
+   * Invite used to join (null = join request or direct join), only returned to owners/admins
+   * @nullable
+   */
+  joinedVia?: ClubMemberResponseDtoJoinedVia;
 }
 
 export interface PaginatedMemberResponseDto {
@@ -493,37 +617,76 @@ export interface PaginatedBanResponseDto {
   meta: PaginationMetaDto;
 }
 
-export interface CreateJoinRequestDto {
+export interface CreateClubInviteDto {
   /**
-   * Optional message to club owner/admin
-   * @maxLength 500
+   * Validity in hours (1 hour to 30 days)
+   * @minimum 1
+   * @maximum 720
    */
-  message?: string;
-}
-
-export interface JoinByCodeDto {
-  /** Club invitation code */
-  code?: string;
+  expiresInHours?: number;
+  /**
+   * Number of members who can join with this code (1 = single-use)
+   * @minimum 1
+   * @maximum 100
+   */
+  maxUses?: number;
 }
 
 /**
- * The role assigned to the user in the club
+ * Computed from revokedAt, expiresAt and useCount
  */
-export type JoinByCodeResponseDtoRole = typeof JoinByCodeResponseDtoRole[keyof typeof JoinByCodeResponseDtoRole];
+export type ClubInviteResponseDtoStatus = typeof ClubInviteResponseDtoStatus[keyof typeof ClubInviteResponseDtoStatus];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const JoinByCodeResponseDtoRole = {
-  owner: 'owner',
-  admin: 'admin',
-  member: 'member',
+export const ClubInviteResponseDtoStatus = {
+  ACTIVE: 'ACTIVE',
+  EXPIRED: 'EXPIRED',
+  EXHAUSTED: 'EXHAUSTED',
+  REVOKED: 'REVOKED',
 } as const;
 
-export interface JoinByCodeResponseDto {
-  /** The club that was joined */
-  club: ClubResponseDto;
-  /** The role assigned to the user in the club */
-  role: JoinByCodeResponseDtoRole;
+export interface ClubInviteResponseDto {
+  id: string;
+  clubId: string;
+  code: string;
+  expiresAt: string;
+  maxUses: number;
+  useCount: number;
+  /** @nullable */
+  revokedAt: string | null;
+  /** Computed from revokedAt, expiresAt and useCount */
+  status: ClubInviteResponseDtoStatus;
+  createdAt: string;
+  creator: MemberUserDto;
+}
+
+export interface CreateClubInvitationDto {
+  /**
+   * Username (with or without @) of the user to invite
+   * @pattern ^@?[a-z0-9._]{3,30}$
+   */
+  identifier: string;
+}
+
+export interface PaginatedClubInvitationResponseDto {
+  /** Array of invitations */
+  data: ClubInvitationResponseDto[];
+  /** Pagination metadata */
+  meta: PaginationMetaDto;
+}
+
+export interface CreateJoinRequestDto {
+  /**
+   * Optional message to club owner/admin
+   * @maxLength 500
+   */
+  message?: string;
+}
+
+export interface JoinByCodeDto {
+  /** Club invitation code */
+  code?: string;
 }
 
 export type ClubJoinRequestResponseDtoStatus = typeof ClubJoinRequestResponseDtoStatus[keyof typeof ClubJoinRequestResponseDtoStatus];
@@ -598,6 +761,13 @@ export interface UserProfileStatsResponseDto {
   journal: JournalTastingDto[];
 }
 
+export interface FollowRequestResponseDto {
+  id: string;
+  createdAt: string;
+  /** User who asked to follow */
+  follower: MemberUserDto;
+}
+
 export interface UserStatsDto {
   /** Total number of cigar evaluations by this user */
   evaluationCount: number;
@@ -605,6 +775,10 @@ export interface UserStatsDto {
   favoriteBrand?: string;
   /** Total number of clubs the user is member of */
   clubCount: number;
+  /** Number of accepted followers */
+  followerCount: number;
+  /** Number of accepted follows */
+  followingCount: number;
 }
 
 export type UserPublicProfileDtoVisibility = typeof UserPublicProfileDtoVisibility[keyof typeof UserPublicProfileDtoVisibility];
@@ -624,10 +798,31 @@ export interface UserPublicProfileDto {
   avatarUrl?: string;
   bio?: string;
   createdAt: string;
-  /** User statistics (evaluations, clubs, favorite brand) */
+  /** User statistics (evaluations, clubs, favorite brand, follows) */
   stats: UserStatsDto;
 }
 
+/**
+ * Null when not following, PENDING while a PRIVATE profile has not accepted yet
+ * @nullable
+ */
+export type FollowStatusResponseDtoStatus = typeof FollowStatusResponseDtoStatus[keyof typeof FollowStatusResponseDtoStatus] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FollowStatusResponseDtoStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+} as const;
+
+export interface FollowStatusResponseDto {
+  /**
+   * Null when not following, PENDING while a PRIVATE profile has not accepted yet
+   * @nullable
+   */
+  status?: FollowStatusResponseDtoStatus;
+}
+
 export interface BrandSearchItemDto {
   id: string;
   type: string;
@@ -757,115 +952,454 @@ export interface BrandResponseDto {
   createdAt: string;
 }
 
-export interface CigarResponseDto {
+export interface MergeBrandDto {
+  /** ID of the canonical brand (kept after the merge) */
+  targetBrandId: string;
+}
+
+export interface CigarCatalogItemDto {
   id: string;
   name: string;
   slug: string;
-  vitola: string;
-  strength: number;
+  /** @nullable */
+  vitola: string | null;
+  /**
+   * Strength (1-5), null when unknown
+   * @nullable
+   */
+  strength: number | null;
+  /** @nullable */
+  length: number | null;
+  /** @nullable */
+  ringGauge: number | null;
+  /** @nullable */
+  wrapper: string | null;
+  /** @nullable */
+  origin: string | null;
   brand: BrandResponseDto;
   isVerified: boolean;
   status: string;
   createdAt: string;
+  /** Number of public completed tastings */
+  tastingCount: number;
+  /**
+   * Average public rating (1 decimal), null without tastings
+   * @nullable
+   */
+  averageRating: number | null;
 }
 
-export interface CreateCigarDto {
-  /** Brand name (will be created if not exists) */
-  brandName: string;
-  /** Brand country (only for new brands) */
-  brandCountry?: string;
-  /** Cigar name */
+export interface CatalogBrandFacetDto {
+  id: string;
   name: string;
-  /** Cigar vitola (format) */
-  vitola: string;
-  /** Cigar strength (1-5) */
-  strength: number;
+  slug: string;
+  count: number;
 }
 
-/**
- * Time of day
- */
-export type CreateTastingDtoMoment = typeof CreateTastingDtoMoment[keyof typeof CreateTastingDtoMoment];
+export interface CatalogFacetCountDto {
+  value: string;
+  count: number;
+}
+
+export interface CatalogNumericFacetCountDto {
+  value: number;
+  count: number;
+}
+
+export type CatalogStatusFacetDtoValue = typeof CatalogStatusFacetDtoValue[keyof typeof CatalogStatusFacetDtoValue];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const CreateTastingDtoMoment = {
-  MATIN: 'MATIN',
-  APRES_MIDI: 'APRES_MIDI',
-  SOIR: 'SOIR',
+export const CatalogStatusFacetDtoValue = {
+  PENDING: 'PENDING',
+  VERIFIED: 'VERIFIED',
 } as const;
 
-/**
- * Tasting situation
- */
-export type CreateTastingDtoSituation = typeof CreateTastingDtoSituation[keyof typeof CreateTastingDtoSituation];
+export interface CatalogStatusFacetDto {
+  value: CatalogStatusFacetDtoValue;
+  count: number;
+}
 
+export interface CigarCatalogFacetsDto {
+  brands: CatalogBrandFacetDto[];
+  origins: CatalogFacetCountDto[];
+  vitolas: CatalogFacetCountDto[];
+  strengths: CatalogNumericFacetCountDto[];
+  ringGauges: CatalogNumericFacetCountDto[];
+  statuses: CatalogStatusFacetDto[];
+}
 
-// eslint-disable-next-line @typescript-eslint/no-redeclare
-export const CreateTastingDtoSituation = {
-  APERITIF: 'APERITIF',
-  COCKTAIL: 'COCKTAIL',
-  DIGESTIF: 'DIGESTIF',
-} as const;
+export interface PaginatedCigarCatalogResponseDto {
+  data: CigarCatalogItemDto[];
+  meta: PaginationMetaDto;
+  facets: CigarCatalogFacetsDto;
+}
 
 /**
- * Beverage pairing type
+ * @nullable
  */
-export type CreateTastingDtoPairing = typeof CreateTastingDtoPairing[keyof typeof CreateTastingDtoPairing];
+export type BrandSuggestionDtoCountry = { [key: string]: unknown } | null;
 
+/**
+ * @nullable
+ */
+export type BrandSuggestionDtoDescription = { [key: string]: unknown } | null;
 
-// eslint-disable-next-line @typescript-eslint/no-redeclare
-export const CreateTastingDtoPairing = {
-  WHISKY: 'WHISKY',
-  RHUM: 'RHUM',
-  COGNAC: 'COGNAC',
-  CAFE: 'CAFE',
-  THE: 'THE',
-  EAU: 'EAU',
-  VIN: 'VIN',
-  BIERE: 'BIERE',
-  AUTRE: 'AUTRE',
-} as const;
+/**
+ * @nullable
+ */
+export type BrandSuggestionDtoLogoUrl = { [key: string]: unknown } | null;
 
-export interface CreateTastingDto {
-  /** UUID of the cigar being tasted */
-  cigarId: string;
-  /** UUID of the club to associate this tasting with */
-  clubId?: string;
-  /** UUID of the event (if tasting during an event) */
-  eventId?: string;
-  /** Time of day */
-  moment?: CreateTastingDtoMoment;
-  /** Tasting situation */
-  situation?: CreateTastingDtoSituation;
-  /** Beverage pairing type */
-  pairing?: CreateTastingDtoPairing;
-  /** Pairing details (e.g., "Lagavulin 16") */
-  pairingNote?: string;
-  /** Location (for solo tastings only) */
-  location?: string;
-  /** Photo URL */
-  photoUrl?: string;
-  /**
-   * Duration in minutes
-   * @minimum 1
-   * @maximum 300
-   */
-  duration?: number;
+export interface BrandSuggestionDto {
+  id: string;
+  name: string;
+  slug: string;
+  /** @nullable */
+  country: BrandSuggestionDtoCountry;
+  /** @nullable */
+  description: BrandSuggestionDtoDescription;
+  /** @nullable */
+  logoUrl: BrandSuggestionDtoLogoUrl;
+  isVerified: boolean;
+  createdAt: string;
+  /** Similarity score (1 = same name once normalized) */
+  score: number;
 }
 
-export type ObservationResponseDtoOrganoleptic = { [key: string]: unknown };
-
+export interface CigarSuggestionDto {
+  id: string;
+  name: string;
+  slug: string;
+  /** @nullable */
+  vitola: string | null;
+  /**
+   * Strength (1-5), null when unknown
+   * @nullable
+   */
+  strength: number | null;
+  /** @nullable */
+  length: number | null;
+  /** @nullable */
+  ringGauge: number | null;
+  /** @nullable */
+  wrapper: string | null;
+  /** @nullable */
+  origin: string | null;
+  brand: BrandResponseDto;
+  isVerified: boolean;
+  status: string;
+  createdAt: string;
+  /** Similarity score (1 = same name once normalized) */
+  score: number;
+}
+
+export interface CigarDuplicatesResponseDto {
+  /** Brands close to the submitted brand name */
+  brands: BrandSuggestionDto[];
+  /** Cigars close to the submitted name within those brands */
+  cigars: CigarSuggestionDto[];
+}
+
+export interface CigarResponseDto {
+  id: string;
+  name: string;
+  slug: string;
+  /** @nullable */
+  vitola: string | null;
+  /**
+   * Strength (1-5), null when unknown
+   * @nullable
+   */
+  strength: number | null;
+  /** @nullable */
+  length: number | null;
+  /** @nullable */
+  ringGauge: number | null;
+  /** @nullable */
+  wrapper: string | null;
+  /** @nullable */
+  origin: string | null;
+  brand: BrandResponseDto;
+  isVerified: boolean;
+  status: string;
+  createdAt: string;
+}
+
+export interface CreateCigarDto {
+  /** Brand name (will be created if not exists) */
+  brandName: string;
+  /** Brand country (only for new brands) */
+  brandCountry?: string;
+  /** Cigar name */
+  name: string;
+  /** Cigar vitola (format) */
+  vitola: string;
+  /** Cigar strength (1-5) */
+  strength: number;
+  /** Length in mm */
+  length?: number;
+  /** Ring gauge (64ths of an inch) */
+  ringGauge?: number;
+  /** Wrapper type */
+  wrapper?: string;
+  /** Country of origin */
+  origin?: string;
+}
+
+export interface UpdateCigarDto {
+  /** Cigar name */
+  name?: string;
+  /** Cigar vitola (format) */
+  vitola?: string;
+  /** Cigar strength (1-5) */
+  strength?: number;
+  /** Length in mm */
+  length?: number;
+  /** Ring gauge (64ths of an inch) */
+  ringGauge?: number;
+  /** Wrapper type */
+  wrapper?: string;
+  /** Country of origin */
+  origin?: string;
+}
+
+export interface CigarRatingBucketDto {
+  /** Star (1-5) */
+  rating: number;
+  count: number;
+}
+
+export interface CigarFlavorCountDto {
+  id: string;
+  count: number;
+}
+
+export type CigarPairingCountDtoPairing = typeof CigarPairingCountDtoPairing[keyof typeof CigarPairingCountDtoPairing];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CigarPairingCountDtoPairing = {
+  WHISKY: 'WHISKY',
+  RHUM: 'RHUM',
+  COGNAC: 'COGNAC',
+  CAFE: 'CAFE',
+  THE: 'THE',
+  EAU: 'EAU',
+  VIN: 'VIN',
+  BIERE: 'BIERE',
+  AUTRE: 'AUTRE',
+} as const;
+
+export interface CigarPairingCountDto {
+  pairing: CigarPairingCountDtoPairing;
+  count: number;
+}
+
+export interface CigarStatsResponseDto {
+  cigarId: string;
+  tastingCount: number;
+  /**
+   * Average rating (1 decimal), null without tastings
+   * @nullable
+   */
+  averageRating: number | null;
+  /** One bucket per star, 1 to 5 */
+  ratingDistribution: CigarRatingBucketDto[];
+  /** Most cited aromas (most cited first) */
+  topAromas: CigarFlavorCountDto[];
+  /** Most cited tastes (most cited first) */
+  topTastes: CigarFlavorCountDto[];
+  /** Most frequent pairings (most frequent first) */
+  topPairings: CigarPairingCountDto[];
+}
+
+/**
+ * @nullable
+ */
+export type CigarFieldChangeDtoFrom = string | number | null;
+
+/**
+ * @nullable
+ */
+export type CigarFieldChangeDtoTo = string | number | null;
+
+export interface CigarFieldChangeDto {
+  field: string;
+  /** @nullable */
+  from: CigarFieldChangeDtoFrom;
+  /** @nullable */
+  to: CigarFieldChangeDtoTo;
+}
+
+export interface CigarSubmitterDto {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+/**
+ * Editor (null once the account is deleted)
+ * @nullable
+ */
+export type CigarRevisionResponseDtoEditor = CigarSubmitterDto | null;
+
+export interface CigarRevisionResponseDto {
+  id: string;
+  changes: CigarFieldChangeDto[];
+  /**
+   * Editor (null once the account is deleted)
+   * @nullable
+   */
+  editor: CigarRevisionResponseDtoEditor;
+  createdAt: string;
+}
+
+export interface CigarModerationResponseDto {
+  id: string;
+  name: string;
+  slug: string;
+  /** @nullable */
+  vitola: string | null;
+  /**
+   * Strength (1-5), null when unknown
+   * @nullable
+   */
+  strength: number | null;
+  /** @nullable */
+  length: number | null;
+  /** @nullable */
+  ringGauge: number | null;
+  /** @nullable */
+  wrapper: string | null;
+  /** @nullable */
+  origin: string | null;
+  brand: BrandResponseDto;
+  isVerified: boolean;
+  status: string;
+  createdAt: string;
+  /** @nullable */
+  rejectionReason: string | null;
+  /** @nullable */
+  verifiedAt: string | null;
+  creator: CigarSubmitterDto;
+}
+
+export interface PaginatedCigarModerationResponseDto {
+  data: CigarModerationResponseDto[];
+  meta: PaginationMetaDto;
+}
+
+export interface UpdateCigarModerationDto {
+  /** Cigar name (the slug is regenerated) */
+  name?: string;
+  /** Cigar vitola (format) */
+  vitola?: string;
+  /** Cigar strength (1-5) */
+  strength?: number;
+  /** Length in mm */
+  length?: number;
+  /** Ring gauge (64ths of an inch) */
+  ringGauge?: number;
+  /** Wrapper type */
+  wrapper?: string;
+  /** Country of origin */
+  origin?: string;
+}
+
+export interface RejectCigarDto {
+  /** Reason shown to the submitter */
+  reason: string;
+}
+
+export interface MergeCigarDto {
+  /** ID of the canonical cigar (kept after the merge) */
+  targetCigarId: string;
+}
+
+/**
+ * Time of day
+ */
+export type CreateTastingDtoMoment = typeof CreateTastingDtoMoment[keyof typeof CreateTastingDtoMoment];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CreateTastingDtoMoment = {
+  MATIN: 'MATIN',
+  APRES_MIDI: 'APRES_MIDI',
+  SOIR: 'SOIR',
+} as const;
+
+/**
+ * Tasting situation
+ */
+export type CreateTastingDtoSituation = typeof CreateTastingDtoSituation[keyof typeof CreateTastingDtoSituation];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CreateTastingDtoSituation = {
+  APERITIF: 'APERITIF',
+  COCKTAIL: 'COCKTAIL',
+  DIGESTIF: 'DIGESTIF',
+} as const;
+
+/**
+ * Beverage pairing type
+ */
+export type CreateTastingDtoPairing = typeof CreateTastingDtoPairing[keyof typeof CreateTastingDtoPairing];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CreateTastingDtoPairing = {
+  WHISKY: 'WHISKY',
+  RHUM: 'RHUM',
+  COGNAC: 'COGNAC',
+  CAFE: 'CAFE',
+  THE: 'THE',
+  EAU: 'EAU',
+  VIN: 'VIN',
+  BIERE: 'BIERE',
+  AUTRE: 'AUTRE',
+} as const;
+
+export interface CreateTastingDto {
+  /** UUID of the cigar being tasted (optional with an eventId: blind-tasting events impose their secret cigar) */
+  cigarId?: string;
+  /** UUID of the club to associate this tasting with */
+  clubId?: string;
+  /** UUID of the event (if tasting during an event) */
+  eventId?: string;
+  /** Time of day */
+  moment?: CreateTastingDtoMoment;
+  /** Tasting situation */
+  situation?: CreateTastingDtoSituation;
+  /** Beverage pairing type */
+  pairing?: CreateTastingDtoPairing;
+  /** Pairing details (e.g., "Lagavulin 16") */
+  pairingNote?: string;
+  /** Location (for solo tastings only) */
+  location?: string;
+  /**
+   * Duration in minutes
+   * @minimum 1
+   * @maximum 300
+   */
+  duration?: number;
+}
+
+export type ObservationResponseDtoOrganoleptic = { [key: string]: unknown };
+
 export interface ObservationResponseDto {
   id: string;
   tastingId: string;
-  /** Phase: presentation | fumage_cru | foin | divin | purin | conclusion */
+  /** Phase: presentation | cold_draw | first_third | second_third | final_third | conclusion */
   phase: string;
   intensity?: number;
   combustion?: number;
   aromas?: string[];
   notes?: string;
   organoleptic?: ObservationResponseDtoOrganoleptic;
+  /** Organoleptic schema version (1 = legacy free-form payload) */
+  organolepticVersion: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -876,6 +1410,29 @@ export interface TastingClubDto {
   slug: string;
 }
 
+export type TastingPhotoDtoKind = typeof TastingPhotoDtoKind[keyof typeof TastingPhotoDtoKind];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TastingPhotoDtoKind = {
+  BAND: 'BAND',
+  FOOT: 'FOOT',
+  ASH: 'ASH',
+} as const;
+
+export interface TastingPhotoDto {
+  id: string;
+  kind: TastingPhotoDtoKind;
+  url: string;
+  createdAt: string;
+}
+
+/**
+ * Null while the cigar of a blind-tasting event is hidden
+ * @nullable
+ */
+export type TastingResponseDtoCigar = CigarResponseDto | null;
+
 export type TastingResponseDtoStatus = typeof TastingResponseDtoStatus[keyof typeof TastingResponseDtoStatus];
 
 
@@ -934,8 +1491,15 @@ export const TastingResponseDtoVisibility = {
 export interface TastingResponseDto {
   id: string;
   userId: string;
-  cigarId: string;
-  cigar: CigarResponseDto;
+  /** Null while the cigar of a blind-tasting event is hidden */
+  cigarId?: string;
+  /**
+   * Null while the cigar of a blind-tasting event is hidden
+   * @nullable
+   */
+  cigar?: TastingResponseDtoCigar;
+  /** True when the tasting belongs to a blind-tasting event whose cigar is not revealed yet */
+  cigarHidden: boolean;
   eventId?: string;
   status: TastingResponseDtoStatus;
   date: string;
@@ -950,142 +1514,778 @@ export interface TastingResponseDto {
   comment?: string;
   visibility: TastingResponseDtoVisibility;
   createdAt: string;
-  updatedAt: string;
-  /** Tasting observations by phase (chronic mode) */
-  observations: ObservationResponseDto[];
-  /** Clubs this tasting is shared with */
-  clubs: TastingClubDto[];
+  updatedAt: string;
+  completedAt?: string;
+  /** End of the amendment window (null while DRAFT) */
+  amendableUntil?: string;
+  /** Tasting observations by phase (chronic mode) */
+  observations: ObservationResponseDto[];
+  /** Clubs this tasting is shared with */
+  clubs: TastingClubDto[];
+  /** Gallery photos (one per kind) */
+  photos: TastingPhotoDto[];
+  /** Number of likes */
+  likeCount: number;
+  /** Number of comments */
+  commentCount: number;
+  /** Whether the current user liked this tasting (GET /tastings/:id only) */
+  likedByMe?: boolean;
+}
+
+export interface PaginatedTastingResponseDto {
+  /** Array of tastings */
+  data: TastingResponseDto[];
+  /** Pagination metadata */
+  meta: PaginationMetaDto;
+}
+
+export interface TastingAuthorDto {
+  id: string;
+  username: string;
+  /**
+   * Null when the author profile is PRIVATE
+   * @nullable
+   */
+  displayName?: string | null;
+  /** @nullable */
+  avatarUrl?: string | null;
+}
+
+/**
+ * Null while the cigar of a blind-tasting event is hidden
+ * @nullable
+ */
+export type FeedTastingResponseDtoCigar = CigarResponseDto | null;
+
+export type FeedTastingResponseDtoStatus = typeof FeedTastingResponseDtoStatus[keyof typeof FeedTastingResponseDtoStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FeedTastingResponseDtoStatus = {
+  DRAFT: 'DRAFT',
+  COMPLETED: 'COMPLETED',
+} as const;
+
+export type FeedTastingResponseDtoMoment = typeof FeedTastingResponseDtoMoment[keyof typeof FeedTastingResponseDtoMoment];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FeedTastingResponseDtoMoment = {
+  MATIN: 'MATIN',
+  APRES_MIDI: 'APRES_MIDI',
+  SOIR: 'SOIR',
+} as const;
+
+export type FeedTastingResponseDtoSituation = typeof FeedTastingResponseDtoSituation[keyof typeof FeedTastingResponseDtoSituation];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FeedTastingResponseDtoSituation = {
+  APERITIF: 'APERITIF',
+  COCKTAIL: 'COCKTAIL',
+  DIGESTIF: 'DIGESTIF',
+} as const;
+
+export type FeedTastingResponseDtoPairing = typeof FeedTastingResponseDtoPairing[keyof typeof FeedTastingResponseDtoPairing];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FeedTastingResponseDtoPairing = {
+  WHISKY: 'WHISKY',
+  RHUM: 'RHUM',
+  COGNAC: 'COGNAC',
+  CAFE: 'CAFE',
+  THE: 'THE',
+  EAU: 'EAU',
+  VIN: 'VIN',
+  BIERE: 'BIERE',
+  AUTRE: 'AUTRE',
+} as const;
+
+export type FeedTastingResponseDtoVisibility = typeof FeedTastingResponseDtoVisibility[keyof typeof FeedTastingResponseDtoVisibility];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const FeedTastingResponseDtoVisibility = {
+  PUBLIC: 'PUBLIC',
+  PRIVATE: 'PRIVATE',
+  CLUB_ONLY: 'CLUB_ONLY',
+} as const;
+
+export interface FeedTastingResponseDto {
+  id: string;
+  userId: string;
+  /** Null while the cigar of a blind-tasting event is hidden */
+  cigarId?: string;
+  /**
+   * Null while the cigar of a blind-tasting event is hidden
+   * @nullable
+   */
+  cigar?: FeedTastingResponseDtoCigar;
+  /** True when the tasting belongs to a blind-tasting event whose cigar is not revealed yet */
+  cigarHidden: boolean;
+  eventId?: string;
+  status: FeedTastingResponseDtoStatus;
+  date: string;
+  moment?: FeedTastingResponseDtoMoment;
+  situation?: FeedTastingResponseDtoSituation;
+  pairing?: FeedTastingResponseDtoPairing;
+  pairingNote?: string;
+  location?: string;
+  photoUrl?: string;
+  duration?: number;
+  rating: number;
+  comment?: string;
+  visibility: FeedTastingResponseDtoVisibility;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  /** End of the amendment window (null while DRAFT) */
+  amendableUntil?: string;
+  /** Tasting observations by phase (chronic mode) */
+  observations: ObservationResponseDto[];
+  /** Clubs this tasting is shared with */
+  clubs: TastingClubDto[];
+  /** Gallery photos (one per kind) */
+  photos: TastingPhotoDto[];
+  /** Number of likes */
+  likeCount: number;
+  /** Number of comments */
+  commentCount: number;
+  /** Whether the current user liked this tasting (GET /tastings/:id only) */
+  likedByMe?: boolean;
+  /** Author of the tasting */
+  author: TastingAuthorDto;
+}
+
+export interface TastingFeedResponseDto {
+  /** Tastings, newest first */
+  data: FeedTastingResponseDto[];
+  /**
+   * Cursor of the next page (null on the last page)
+   * @nullable
+   */
+  nextCursor?: string | null;
+}
+
+/**
+ * Time of day
+ */
+export type UpdateTastingDtoMoment = typeof UpdateTastingDtoMoment[keyof typeof UpdateTastingDtoMoment];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdateTastingDtoMoment = {
+  MATIN: 'MATIN',
+  APRES_MIDI: 'APRES_MIDI',
+  SOIR: 'SOIR',
+} as const;
+
+/**
+ * Tasting situation
+ */
+export type UpdateTastingDtoSituation = typeof UpdateTastingDtoSituation[keyof typeof UpdateTastingDtoSituation];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdateTastingDtoSituation = {
+  APERITIF: 'APERITIF',
+  COCKTAIL: 'COCKTAIL',
+  DIGESTIF: 'DIGESTIF',
+} as const;
+
+/**
+ * Beverage pairing type
+ */
+export type UpdateTastingDtoPairing = typeof UpdateTastingDtoPairing[keyof typeof UpdateTastingDtoPairing];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdateTastingDtoPairing = {
+  WHISKY: 'WHISKY',
+  RHUM: 'RHUM',
+  COGNAC: 'COGNAC',
+  CAFE: 'CAFE',
+  THE: 'THE',
+  EAU: 'EAU',
+  VIN: 'VIN',
+  BIERE: 'BIERE',
+  AUTRE: 'AUTRE',
+} as const;
+
+export interface UpdateTastingDto {
+  /** UUID of the cigar being tasted (optional with an eventId: blind-tasting events impose their secret cigar) */
+  cigarId?: string;
+  /** UUID of the club to associate this tasting with */
+  clubId?: string;
+  /** UUID of the event (if tasting during an event) */
+  eventId?: string;
+  /** Time of day */
+  moment?: UpdateTastingDtoMoment;
+  /** Tasting situation */
+  situation?: UpdateTastingDtoSituation;
+  /** Beverage pairing type */
+  pairing?: UpdateTastingDtoPairing;
+  /** Pairing details (e.g., "Lagavulin 16") */
+  pairingNote?: string;
+  /** Location (for solo tastings only) */
+  location?: string;
+  /**
+   * Duration in minutes
+   * @minimum 1
+   * @maximum 300
+   */
+  duration?: number;
+}
+
+/**
+ * Tasting visibility
+ */
+export type CompleteTastingDtoVisibility = typeof CompleteTastingDtoVisibility[keyof typeof CompleteTastingDtoVisibility];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CompleteTastingDtoVisibility = {
+  PUBLIC: 'PUBLIC',
+  PRIVATE: 'PRIVATE',
+  CLUB_ONLY: 'CLUB_ONLY',
+} as const;
+
+export interface CompleteTastingDto {
+  /**
+   * Rating from 0.5 to 5 (by steps of 0.5)
+   * @minimum 0.5
+   * @maximum 5
+   */
+  rating: number;
+  /** Global comment about the tasting */
+  comment?: string;
+  /** Tasting visibility */
+  visibility?: CompleteTastingDtoVisibility;
+}
+
+/**
+ * Tasting visibility
+ */
+export type AmendTastingDtoVisibility = typeof AmendTastingDtoVisibility[keyof typeof AmendTastingDtoVisibility];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const AmendTastingDtoVisibility = {
+  PUBLIC: 'PUBLIC',
+  PRIVATE: 'PRIVATE',
+  CLUB_ONLY: 'CLUB_ONLY',
+} as const;
+
+export interface AmendTastingDto {
+  /**
+   * Rating from 0.5 to 5 (by steps of 0.5)
+   * @minimum 0.5
+   * @maximum 5
+   */
+  rating?: number;
+  /** Global comment about the tasting */
+  comment?: string;
+  /** Tasting visibility */
+  visibility?: AmendTastingDtoVisibility;
+  /** Clubs the tasting is shared with (replaces the current list, member clubs only) */
+  clubIds?: string[];
+}
+
+/**
+ * Tasting visibility
+ */
+export type UpdateTastingSharingDtoVisibility = typeof UpdateTastingSharingDtoVisibility[keyof typeof UpdateTastingSharingDtoVisibility];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdateTastingSharingDtoVisibility = {
+  PUBLIC: 'PUBLIC',
+  PRIVATE: 'PRIVATE',
+  CLUB_ONLY: 'CLUB_ONLY',
+} as const;
+
+export interface UpdateTastingSharingDto {
+  /** Tasting visibility */
+  visibility?: UpdateTastingSharingDtoVisibility;
+  /** Clubs the tasting is shared with (replaces the current list, an empty list un-shares it everywhere). Added clubs must be joined */
+  clubIds?: string[];
+}
+
+/**
+ * @nullable
+ */
+export type TastingFieldChangeDtoFrom = string | number | string[] | null;
+
+/**
+ * @nullable
+ */
+export type TastingFieldChangeDtoTo = string | number | string[] | null;
+
+export interface TastingFieldChangeDto {
+  field: string;
+  /** @nullable */
+  from: TastingFieldChangeDtoFrom;
+  /** @nullable */
+  to: TastingFieldChangeDtoTo;
+}
+
+export interface TastingRevisionResponseDto {
+  id: string;
+  changes: TastingFieldChangeDto[];
+  createdAt: string;
+}
+
+export interface TastingCoverPhotoDto {
+  photoUrl: string;
+}
+
+/**
+ * Organoleptic profile for the phase, keyed by phase (presentation, coldDraw, firstThird, secondThird, finalThird, conclusion). Validated server-side against the shared tasting vocabularies.
+ */
+export type UpsertObservationDtoOrganoleptic = { [key: string]: unknown };
+
+export interface UpsertObservationDto {
+  /**
+   * Aroma intensity (1-5)
+   * @minimum 1
+   * @maximum 5
+   */
+  intensity?: number;
+  /**
+   * Combustion quality (1-5)
+   * @minimum 1
+   * @maximum 5
+   */
+  combustion?: number;
+  /** Detected aromas (AROMAS ids, extracted from organoleptic when omitted) */
+  aromas?: string[];
+  /** Free-form notes */
+  notes?: string;
+  /** Organoleptic profile for the phase, keyed by phase (presentation, coldDraw, firstThird, secondThird, finalThird, conclusion). Validated server-side against the shared tasting vocabularies. */
+  organoleptic?: UpsertObservationDtoOrganoleptic;
+}
+
+export interface CreateEventDto {
+  /**
+   * Event name
+   * @minLength 3
+   * @maxLength 100
+   */
+  name: string;
+  /**
+   * Event description
+   * @maxLength 2000
+   */
+  description?: string;
+  /**
+   * Event location
+   * @maxLength 200
+   */
+  location?: string;
+  /** Event date and time (ISO 8601) */
+  date: string;
+  /** UUID of the main cigar of the event */
+  cigarId?: string;
+  /** Keep the cigar secret until reveal (blind tasting, requires cigarId) */
+  cigarSecret?: boolean;
+  /** Automatic reveal date of a secret cigar (ISO 8601, omit for manual reveal) */
+  cigarRevealAt?: string;
+  /**
+   * Maximum number of attendees (YES responses beyond the cap go to the waitlist)
+   * @minimum 1
+   * @maximum 500
+   */
+  maxAttendees?: number;
+}
+
+export interface EventCigarDto {
+  id: string;
+  name: string;
+  slug: string;
+  brandName: string;
+}
+
+export type EventMyAttendanceDtoResponse = typeof EventMyAttendanceDtoResponse[keyof typeof EventMyAttendanceDtoResponse];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const EventMyAttendanceDtoResponse = {
+  PENDING: 'PENDING',
+  YES: 'YES',
+  NO: 'NO',
+  MAYBE: 'MAYBE',
+} as const;
+
+export interface EventMyAttendanceDto {
+  response: EventMyAttendanceDtoResponse;
+  isWaitlisted: boolean;
+}
+
+export type EventResponseDtoStatus = typeof EventResponseDtoStatus[keyof typeof EventResponseDtoStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const EventResponseDtoStatus = {
+  PUBLISHED: 'PUBLISHED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+/**
+ * Event cigar (null when secret and not yet revealed, except for club owners and admins)
+ * @nullable
+ */
+export type EventResponseDtoCigar = EventCigarDto | null;
+
+/**
+ * Current user's RSVP (null if not answered)
+ * @nullable
+ */
+export type EventResponseDtoMyAttendance = EventMyAttendanceDto | null;
+
+export interface EventResponseDto {
+  id: string;
+  clubId: string;
+  name: string;
+  description?: string;
+  location?: string;
+  date: string;
+  status: EventResponseDtoStatus;
+  cancelledAt?: string;
+  cigarId?: string;
+  /**
+   * Event cigar (null when secret and not yet revealed, except for club owners and admins)
+   * @nullable
+   */
+  cigar?: EventResponseDtoCigar;
+  /** Blind tasting: the cigar is hidden until reveal */
+  cigarSecret: boolean;
+  /** Automatic reveal date (null = manual reveal) */
+  cigarRevealAt?: string;
+  /** Whether the cigar has been revealed (manually or automatically) */
+  cigarRevealed: boolean;
+  /** Event creator */
+  creator: MemberUserDto;
+  /** Attendance cap (null = unlimited) */
+  maxAttendees?: number;
+  /** Number of confirmed attendees (YES, not waitlisted) */
+  attendeeCount: number;
+  /** Number of YES responses waiting for a seat */
+  waitlistCount: number;
+  /**
+   * Current user's RSVP (null if not answered)
+   * @nullable
+   */
+  myAttendance?: EventResponseDtoMyAttendance;
+  /** Number of tastings linked to this event */
+  tastingCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaginatedEventResponseDto {
+  /** Array of events */
+  data: EventResponseDto[];
+  /** Pagination metadata */
+  meta: PaginationMetaDto;
+}
+
+export interface UpdateEventDto {
+  /**
+   * Event name
+   * @minLength 3
+   * @maxLength 100
+   */
+  name?: string;
+  /**
+   * Event description
+   * @maxLength 2000
+   */
+  description?: string;
+  /**
+   * Event location
+   * @maxLength 200
+   */
+  location?: string;
+  /** Event date and time (ISO 8601) */
+  date?: string;
+  /** UUID of the main cigar of the event */
+  cigarId?: string;
+  /** Keep the cigar secret until reveal (blind tasting, requires cigarId) */
+  cigarSecret?: boolean;
+  /**
+   * Maximum number of attendees (YES responses beyond the cap go to the waitlist)
+   * @minimum 1
+   * @maximum 500
+   */
+  maxAttendees?: number;
+  /**
+   * Automatic reveal date of a secret cigar (ISO 8601, null to switch back to a manual reveal)
+   * @nullable
+   */
+  cigarRevealAt?: string | null;
+}
+
+export interface EventBlindResultDto {
+  tastingId: string;
+  /** Rating given before the reveal */
+  rating: number;
+  comment?: string;
+  date: string;
+  user: MemberUserDto;
+}
+
+export interface EventBlindResultsResponseDto {
+  /** Revealed cigar */
+  cigar: EventCigarDto;
+  /** Average blind rating (null if no tasting) */
+  averageRating?: number;
+  results: EventBlindResultDto[];
+}
+
+/**
+ * RSVP response
+ */
+export type RespondEventDtoResponse = typeof RespondEventDtoResponse[keyof typeof RespondEventDtoResponse];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const RespondEventDtoResponse = {
+  YES: 'YES',
+  NO: 'NO',
+  MAYBE: 'MAYBE',
+} as const;
+
+export interface RespondEventDto {
+  /** RSVP response */
+  response: RespondEventDtoResponse;
+}
+
+export type EventAttendeeResponseDtoResponse = typeof EventAttendeeResponseDtoResponse[keyof typeof EventAttendeeResponseDtoResponse];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const EventAttendeeResponseDtoResponse = {
+  PENDING: 'PENDING',
+  YES: 'YES',
+  NO: 'NO',
+  MAYBE: 'MAYBE',
+} as const;
+
+export interface EventAttendeeResponseDto {
+  id: string;
+  eventId: string;
+  userId: string;
+  response: EventAttendeeResponseDtoResponse;
+  /** True when the user answered YES but the event is full (promoted automatically when a seat frees up) */
+  isWaitlisted: boolean;
+  respondedAt?: string;
+  user: MemberUserDto;
+}
+
+export interface EventAttendanceCountsDto {
+  /** Confirmed attendees (YES, not waitlisted) */
+  yes: number;
+  maybe: number;
+  no: number;
+  /** Club members who have not answered yet */
+  pending: number;
+  /** YES responses waiting for a seat */
+  waitlisted: number;
+}
+
+export interface EventAttendeesResponseDto {
+  counts: EventAttendanceCountsDto;
+  /** Attendance cap (null = unlimited) */
+  maxAttendees?: number;
+  attendees: EventAttendeeResponseDto[];
+}
+
+export interface TastingLikeResponseDto {
+  /** Number of likes */
+  likeCount: number;
+  /** Whether the current user likes this tasting */
+  likedByMe: boolean;
+}
+
+export interface TastingCommentResponseDto {
+  id: string;
+  tastingId: string;
+  content: string;
+  createdAt: string;
+  /** Author of the comment */
+  author: TastingAuthorDto;
+  /** Whether the current user can delete this comment (comment author, tasting author or club admin) */
+  canDelete: boolean;
+}
+
+export interface PaginatedTastingCommentResponseDto {
+  /** Comments, oldest first */
+  data: TastingCommentResponseDto[];
+  /** Pagination metadata */
+  meta: PaginationMetaDto;
+}
+
+export interface CreateTastingCommentDto {
+  /**
+   * Comment text
+   * @maxLength 1000
+   */
+  content: string;
+}
+
+/**
+ * Why the trial is not available (null when eligible)
+ * @nullable
+ */
+export type TrialEligibilityDtoReason = typeof TrialEligibilityDtoReason[keyof typeof TrialEligibilityDtoReason] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TrialEligibilityDtoReason = {
+  ALREADY_USED: 'ALREADY_USED',
+  ALREADY_PREMIUM: 'ALREADY_PREMIUM',
+} as const;
+
+export interface TrialEligibilityDto {
+  /** Whether the user can start a free trial */
+  eligible: boolean;
+  /** Trial length in days */
+  durationDays: number;
+  /**
+   * Why the trial is not available (null when eligible)
+   * @nullable
+   */
+  reason: TrialEligibilityDtoReason;
+}
+
+export interface PlanExpiryAlertDto {
+  id: string;
+  /** Expiration date the alert is about */
+  expiresAt: string;
+  /** Days left before expiration */
+  daysRemaining: number;
+}
+
+export interface PlanUserResponseDto {
+  id: string;
+  username: string;
+  displayName: string;
+  email: string;
+  /** @nullable */
+  avatarUrl?: string | null;
+  createdAt: string;
+  /** Completed tastings */
+  completedTastingCount: number;
+  plan: UserPlanDto;
 }
 
-export interface PaginatedTastingResponseDto {
-  /** Array of tastings */
-  data: TastingResponseDto[];
-  /** Pagination metadata */
+export interface PaginatedPlanUserResponseDto {
+  data: PlanUserResponseDto[];
   meta: PaginationMetaDto;
 }
 
+export interface GiftPlanDto {
+  /** Reason kept on the plan */
+  reason?: string;
+  /** Expiration date (ISO 8601, omit for no expiration) */
+  expiresAt?: string;
+}
+
+export interface ExtendPlanDto {
+  /** New expiration date (ISO 8601, must be in the future) */
+  expiresAt: string;
+}
+
+export interface PlanReasonDto {
+  /** Reason kept on the plan */
+  reason?: string;
+}
+
 /**
- * Time of day
+ * Action applied to every user of the cohort
  */
-export type UpdateTastingDtoMoment = typeof UpdateTastingDtoMoment[keyof typeof UpdateTastingDtoMoment];
+export type PlanAdminAction = typeof PlanAdminAction[keyof typeof PlanAdminAction];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const UpdateTastingDtoMoment = {
-  MATIN: 'MATIN',
-  APRES_MIDI: 'APRES_MIDI',
-  SOIR: 'SOIR',
+export const PlanAdminAction = {
+  GIFT: 'GIFT',
+  EXTEND: 'EXTEND',
+  REVOKE: 'REVOKE',
+  LIFETIME: 'LIFETIME',
 } as const;
 
 /**
- * Tasting situation
+ * Filter by plan type
  */
-export type UpdateTastingDtoSituation = typeof UpdateTastingDtoSituation[keyof typeof UpdateTastingDtoSituation];
+export type BulkPlanActionDtoType = typeof BulkPlanActionDtoType[keyof typeof BulkPlanActionDtoType];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const UpdateTastingDtoSituation = {
-  APERITIF: 'APERITIF',
-  COCKTAIL: 'COCKTAIL',
-  DIGESTIF: 'DIGESTIF',
+export const BulkPlanActionDtoType = {
+  FREE: 'FREE',
+  PREMIUM: 'PREMIUM',
 } as const;
 
 /**
- * Beverage pairing type
+ * Filter by plan source
  */
-export type UpdateTastingDtoPairing = typeof UpdateTastingDtoPairing[keyof typeof UpdateTastingDtoPairing];
+export type BulkPlanActionDtoSource = typeof BulkPlanActionDtoSource[keyof typeof BulkPlanActionDtoSource];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const UpdateTastingDtoPairing = {
-  WHISKY: 'WHISKY',
-  RHUM: 'RHUM',
-  COGNAC: 'COGNAC',
-  CAFE: 'CAFE',
-  THE: 'THE',
-  EAU: 'EAU',
-  VIN: 'VIN',
-  BIERE: 'BIERE',
-  AUTRE: 'AUTRE',
+export const BulkPlanActionDtoSource = {
+  DEFAULT: 'DEFAULT',
+  SUBSCRIPTION: 'SUBSCRIPTION',
+  TRIAL: 'TRIAL',
+  BETA: 'BETA',
+  GIFT: 'GIFT',
+  LIFETIME: 'LIFETIME',
 } as const;
 
-export interface UpdateTastingDto {
-  /** UUID of the cigar being tasted */
-  cigarId?: string;
-  /** UUID of the club to associate this tasting with */
-  clubId?: string;
-  /** UUID of the event (if tasting during an event) */
-  eventId?: string;
-  /** Time of day */
-  moment?: UpdateTastingDtoMoment;
-  /** Tasting situation */
-  situation?: UpdateTastingDtoSituation;
-  /** Beverage pairing type */
-  pairing?: UpdateTastingDtoPairing;
-  /** Pairing details (e.g., "Lagavulin 16") */
-  pairingNote?: string;
-  /** Location (for solo tastings only) */
-  location?: string;
-  /** Photo URL */
-  photoUrl?: string;
-  /**
-   * Duration in minutes
-   * @minimum 1
-   * @maximum 300
-   */
-  duration?: number;
-}
-
 /**
- * Tasting visibility
+ * Filter by plan status
  */
-export type CompleteTastingDtoVisibility = typeof CompleteTastingDtoVisibility[keyof typeof CompleteTastingDtoVisibility];
+export type BulkPlanActionDtoStatus = typeof BulkPlanActionDtoStatus[keyof typeof BulkPlanActionDtoStatus];
 
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
-export const CompleteTastingDtoVisibility = {
-  PUBLIC: 'PUBLIC',
-  PRIVATE: 'PRIVATE',
-  CLUB_ONLY: 'CLUB_ONLY',
+export const BulkPlanActionDtoStatus = {
+  ACTIVE: 'ACTIVE',
+  EXPIRED: 'EXPIRED',
+  CANCELLED: 'CANCELLED',
 } as const;
 
-export interface CompleteTastingDto {
-  /**
-   * Rating from 0.5 to 5 (by steps of 0.5)
-   * @minimum 0.5
-   * @maximum 5
-   */
-  rating: number;
-  /** Global comment about the tasting */
-  comment?: string;
-  /** Tasting visibility */
-  visibility?: CompleteTastingDtoVisibility;
+export interface BulkPlanActionDto {
+  /** Filter by plan type */
+  type?: BulkPlanActionDtoType;
+  /** Filter by plan source */
+  source?: BulkPlanActionDtoSource;
+  /** Filter by plan status */
+  status?: BulkPlanActionDtoStatus;
+  /** Only users with at least this many completed tastings */
+  minCompletedTastings?: number;
+  /** Only plans expiring within this many days */
+  expiringWithinDays?: number;
+  /** Action applied to every user of the cohort */
+  action: PlanAdminAction;
+  /** Restrict the cohort to these users */
+  userIds?: string[];
+  /** Expiration date for GIFT (optional) and EXTEND (required) */
+  expiresAt?: string;
+  /** Reason kept on the plans */
+  reason?: string;
+  /** Only count the cohort, change nothing */
+  dryRun?: boolean;
 }
 
-/**
- * Detailed organoleptic profile (JSON)
- */
-export type UpsertObservationDtoOrganoleptic = { [key: string]: unknown };
-
-export interface UpsertObservationDto {
-  /**
-   * Aroma intensity (1-5)
-   * @minimum 1
-   * @maximum 5
-   */
-  intensity?: number;
-  /**
-   * Combustion quality (1-5)
-   * @minimum 1
-   * @maximum 5
-   */
-  combustion?: number;
-  /** Detected aromas (simple array) */
-  aromas?: string[];
-  /** Free-form notes */
-  notes?: string;
-  /** Detailed organoleptic profile (JSON) */
-  organoleptic?: UpsertObservationDtoOrganoleptic;
+export interface BulkPlanActionResultDto {
+  /** Users matching the cohort */
+  matched: number;
+  /** Plans actually changed (0 for a dry run) */
+  updated: number;
+  dryRun: boolean;
 }
 
 /**
@@ -1215,7 +2415,7 @@ export type TrackEventDtoData = { [key: string]: unknown };
 
 export interface TrackEventDto {
   /**
-   * Event name
+   * Event name (lowercase snake_case)
    * @maxLength 100
    */
   event: string;
@@ -1227,7 +2427,7 @@ export interface TrackEventDto {
    */
   page: string;
   /**
-   * Platform (desktop, android, ios)
+   * Platform (desktop, android, ios, web)
    * @maxLength 50
    */
   platform?: string;
@@ -1325,13 +2525,35 @@ limit?: number;
  */
 search?: string;
 /**
- * Sort by field
+ * Sort by recent activity (shared tastings and events of the last days, always most active first, inactive clubs follow by creation date), member count, distance (requires lat/lng, always nearest first), name or creation date
  */
 sortBy?: ClubControllerFindAllSortBy;
 /**
  * Sort order
  */
 order?: ClubControllerFindAllOrder;
+/**
+ * Filter by country (ISO 3166-1 alpha-2 code)
+ */
+country?: string;
+/**
+ * Latitude of the searched position (with lng)
+ * @minimum -90
+ * @maximum 90
+ */
+lat?: number;
+/**
+ * Longitude of the searched position (with lat)
+ * @minimum -180
+ * @maximum 180
+ */
+lng?: number;
+/**
+ * Search radius in km around lat/lng
+ * @minimum 1
+ * @maximum 500
+ */
+radiusKm?: number;
 };
 
 export type ClubControllerFindAllSortBy = typeof ClubControllerFindAllSortBy[keyof typeof ClubControllerFindAllSortBy];
@@ -1339,6 +2561,9 @@ export type ClubControllerFindAllSortBy = typeof ClubControllerFindAllSortBy[key
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare
 export const ClubControllerFindAllSortBy = {
+  activity: 'activity',
+  memberCount: 'memberCount',
+  distance: 'distance',
   name: 'name',
   createdAt: 'createdAt',
 } as const;
@@ -1366,7 +2591,170 @@ page: number;
 limit: number;
 };
 
-export type ClubControllerGetBannedMembersParams = {
+export type ClubControllerGetBannedMembersParams = {
+/**
+ * Page number
+ */
+page?: number;
+/**
+ * Items per page
+ */
+limit?: number;
+};
+
+export type ClubControllerGetInvitationsParams = {
+/**
+ * Page number
+ * @minimum 1
+ */
+page?: number;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 100
+ */
+limit?: number;
+/**
+ * Filter by status
+ */
+status?: ClubControllerGetInvitationsStatus;
+};
+
+export type ClubControllerGetInvitationsStatus = typeof ClubControllerGetInvitationsStatus[keyof typeof ClubControllerGetInvitationsStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ClubControllerGetInvitationsStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+} as const;
+
+export type ClubControllerGetJoinRequestsParams = {
+page: number;
+limit: number;
+status: string;
+};
+
+export type UsersControllerGetUserClubsParams = {
+/**
+ * Maximum number of clubs to return
+ */
+limit?: number;
+};
+
+export type UsersControllerUploadAvatarBody = {
+  /** Image file (JPEG, PNG, WebP, max 5MB) */
+  avatar?: Blob;
+};
+
+export type UsersControllerUploadAvatar200 = {
+  avatarUrl?: string;
+};
+
+export type UsersControllerCheckUsernameAvailabilityParams = {
+/**
+ * Current user ID to exclude from check (when updating own profile)
+ */
+currentUserId?: string;
+};
+
+export type UsersControllerCheckUsernameAvailability200 = {
+  available?: boolean;
+};
+
+export type SearchControllerSearchParams = {
+/**
+ * Search query with optional prefix (@ for users, # for clubs)
+ * @minLength 1
+ * @maxLength 100
+ */
+q: string;
+};
+
+export type BrandControllerFindAllParams = {
+/**
+ * Search brands by name or slug (case-insensitive)
+ */
+search?: string;
+};
+
+export type CigarControllerFindCatalogParams = {
+/**
+ * Page number
+ * @minimum 1
+ */
+page?: number;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 100
+ */
+limit?: number;
+/**
+ * Sort by number of public tastings, average public rating or name (cigars without tastings come last, by name)
+ */
+sortBy?: CigarControllerFindCatalogSortBy;
+/**
+ * Filter by brand ID
+ */
+brandId?: string;
+/**
+ * Filter by origin (case insensitive)
+ */
+origin?: string;
+/**
+ * Filter by vitola (case insensitive)
+ */
+vitola?: string;
+/**
+ * Filter by strength (1 = light, 5 = full)
+ * @minimum 1
+ * @maximum 5
+ */
+strength?: number;
+/**
+ * Filter by ring gauge
+ * @minimum 1
+ */
+ringGauge?: number;
+/**
+ * Filter by verification status (both by default)
+ */
+status?: CigarControllerFindCatalogStatus;
+};
+
+export type CigarControllerFindCatalogSortBy = typeof CigarControllerFindCatalogSortBy[keyof typeof CigarControllerFindCatalogSortBy];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CigarControllerFindCatalogSortBy = {
+  popularity: 'popularity',
+  rating: 'rating',
+  name: 'name',
+} as const;
+
+export type CigarControllerFindCatalogStatus = typeof CigarControllerFindCatalogStatus[keyof typeof CigarControllerFindCatalogStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CigarControllerFindCatalogStatus = {
+  PENDING: 'PENDING',
+  VERIFIED: 'VERIFIED',
+} as const;
+
+export type CigarControllerFindDuplicatesParams = {
+/**
+ * Brand name as typed by the user
+ */
+brandName: string;
+/**
+ * Cigar name as typed by the user
+ */
+name?: string;
+};
+
+export type CigarControllerFindModerationQueueParams = {
 /**
  * Page number
  */
@@ -1375,57 +2763,82 @@ page?: number;
  * Items per page
  */
 limit?: number;
-};
-
-export type ClubControllerGetJoinRequestsParams = {
-page: number;
-limit: number;
-status: string;
-};
-
-export type UsersControllerGetUserClubsParams = {
 /**
- * Maximum number of clubs to return
+ * Filter by status (defaults to the PENDING queue)
  */
-limit?: number;
+status?: CigarControllerFindModerationQueueStatus;
 };
 
-export type UsersControllerUploadAvatarBody = {
-  /** Image file (JPEG, PNG, WebP, max 5MB) */
-  avatar?: Blob;
-};
+export type CigarControllerFindModerationQueueStatus = typeof CigarControllerFindModerationQueueStatus[keyof typeof CigarControllerFindModerationQueueStatus];
 
-export type UsersControllerUploadAvatar200 = {
-  avatarUrl?: string;
-};
 
-export type UsersControllerCheckUsernameAvailabilityParams = {
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const CigarControllerFindModerationQueueStatus = {
+  PENDING: 'PENDING',
+  VERIFIED: 'VERIFIED',
+  REJECTED: 'REJECTED',
+} as const;
+
+export type BrandCigarControllerFindAllParams = {
 /**
- * Current user ID to exclude from check (when updating own profile)
+ * Page number
+ * @minimum 1
  */
-currentUserId?: string;
-};
-
-export type UsersControllerCheckUsernameAvailability200 = {
-  available?: boolean;
-};
-
-export type SearchControllerSearchParams = {
+page?: number;
 /**
- * Search query with optional prefix (@ for users, # for clubs)
- * @minLength 1
- * @maxLength 100
+ * Items per page
+ * @minimum 1
+ * @maximum 100
  */
-q: string;
-};
-
-export type BrandControllerFindAllParams = {
+limit?: number;
 /**
- * Search brands by name or slug (case-insensitive)
+ * Sort by number of public tastings, average public rating or name (cigars without tastings come last, by name)
  */
-search?: string;
+sortBy?: BrandCigarControllerFindAllSortBy;
+/**
+ * Filter by origin (case insensitive)
+ */
+origin?: string;
+/**
+ * Filter by vitola (case insensitive)
+ */
+vitola?: string;
+/**
+ * Filter by strength (1 = light, 5 = full)
+ * @minimum 1
+ * @maximum 5
+ */
+strength?: number;
+/**
+ * Filter by ring gauge
+ * @minimum 1
+ */
+ringGauge?: number;
+/**
+ * Filter by verification status (both by default)
+ */
+status?: BrandCigarControllerFindAllStatus;
 };
 
+export type BrandCigarControllerFindAllSortBy = typeof BrandCigarControllerFindAllSortBy[keyof typeof BrandCigarControllerFindAllSortBy];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const BrandCigarControllerFindAllSortBy = {
+  popularity: 'popularity',
+  rating: 'rating',
+  name: 'name',
+} as const;
+
+export type BrandCigarControllerFindAllStatus = typeof BrandCigarControllerFindAllStatus[keyof typeof BrandCigarControllerFindAllStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const BrandCigarControllerFindAllStatus = {
+  PENDING: 'PENDING',
+  VERIFIED: 'VERIFIED',
+} as const;
+
 export type TastingControllerFindMineParams = {
 /**
  * Page number
@@ -1462,6 +2875,61 @@ userId?: string;
  * Filter by event ID
  */
 eventId?: string;
+/**
+ * Search in the comment and observation notes (case insensitive)
+ * @maxLength 100
+ */
+search?: string;
+/**
+ * Filter by cigar brand ID
+ */
+brandId?: string;
+/**
+ * Filter by origin (cigar origin, or brand country when unknown)
+ */
+origin?: string;
+/**
+ * Filter by cigar strength (1 = light, 5 = full)
+ * @minimum 1
+ * @maximum 5
+ */
+strength?: number;
+/**
+ * Minimum rating (inclusive)
+ * @minimum 0.5
+ * @maximum 5
+ */
+minRating?: number;
+/**
+ * Maximum rating (inclusive)
+ * @minimum 0.5
+ * @maximum 5
+ */
+maxRating?: number;
+/**
+ * Tastings on or after this date (ISO 8601)
+ */
+dateFrom?: string;
+/**
+ * Tastings on or before this date (ISO 8601, a bare date includes the whole day)
+ */
+dateTo?: string;
+/**
+ * Filter by pairing
+ */
+pairing?: TastingControllerFindMinePairing;
+/**
+ * Filter by moment of the day
+ */
+moment?: TastingControllerFindMineMoment;
+/**
+ * Filter by situation
+ */
+situation?: TastingControllerFindMineSituation;
+/**
+ * Filter by aroma detected in at least one observation
+ */
+aroma?: TastingControllerFindMineAroma;
 };
 
 export type TastingControllerFindMineSortBy = typeof TastingControllerFindMineSortBy[keyof typeof TastingControllerFindMineSortBy];
@@ -1492,6 +2960,91 @@ export const TastingControllerFindMineStatus = {
   COMPLETED: 'COMPLETED',
 } as const;
 
+export type TastingControllerFindMinePairing = typeof TastingControllerFindMinePairing[keyof typeof TastingControllerFindMinePairing];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TastingControllerFindMinePairing = {
+  WHISKY: 'WHISKY',
+  RHUM: 'RHUM',
+  COGNAC: 'COGNAC',
+  CAFE: 'CAFE',
+  THE: 'THE',
+  EAU: 'EAU',
+  VIN: 'VIN',
+  BIERE: 'BIERE',
+  AUTRE: 'AUTRE',
+} as const;
+
+export type TastingControllerFindMineMoment = typeof TastingControllerFindMineMoment[keyof typeof TastingControllerFindMineMoment];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TastingControllerFindMineMoment = {
+  MATIN: 'MATIN',
+  APRES_MIDI: 'APRES_MIDI',
+  SOIR: 'SOIR',
+} as const;
+
+export type TastingControllerFindMineSituation = typeof TastingControllerFindMineSituation[keyof typeof TastingControllerFindMineSituation];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TastingControllerFindMineSituation = {
+  APERITIF: 'APERITIF',
+  COCKTAIL: 'COCKTAIL',
+  DIGESTIF: 'DIGESTIF',
+} as const;
+
+export type TastingControllerFindMineAroma = typeof TastingControllerFindMineAroma[keyof typeof TastingControllerFindMineAroma];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const TastingControllerFindMineAroma = {
+  herbaceous: 'herbaceous',
+  floral: 'floral',
+  woody: 'woody',
+  earthy: 'earthy',
+  undergrowth: 'undergrowth',
+  peppery: 'peppery',
+  spiced: 'spiced',
+  fruity: 'fruity',
+  animal: 'animal',
+  coffee: 'coffee',
+  cacao: 'cacao',
+  cream: 'cream',
+  brioche: 'brioche',
+  pastry: 'pastry',
+  caramel: 'caramel',
+  empyreumatic: 'empyreumatic',
+} as const;
+
+export type TastingControllerGetFeedParams = {
+/**
+ * Opaque cursor returned as nextCursor by the previous page (omit for the first page)
+ */
+cursor?: string;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 50
+ */
+limit?: number;
+};
+
+export type TastingControllerGetFollowingFeedParams = {
+/**
+ * Opaque cursor returned as nextCursor by the previous page (omit for the first page)
+ */
+cursor?: string;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 50
+ */
+limit?: number;
+};
+
 export type TastingControllerFindByCigarParams = {
 /**
  * Page number
@@ -1620,6 +3173,137 @@ export const TastingControllerFindByClubStatus = {
   COMPLETED: 'COMPLETED',
 } as const;
 
+export type TastingControllerUploadPhotoBody = {
+  /** Image file (JPEG, PNG, WebP, max 5MB) */
+  photo?: Blob;
+};
+
+export type TastingControllerUploadGalleryPhotoBody = {
+  /** Image file (JPEG, PNG, WebP, max 5MB) */
+  photo?: Blob;
+};
+
+export type EventControllerFindAllParams = {
+/**
+ * Page number
+ * @minimum 1
+ */
+page?: number;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 100
+ */
+limit?: number;
+/**
+ * Upcoming events (soonest first) or past events (most recent first)
+ */
+period?: EventControllerFindAllPeriod;
+/**
+ * Filter by status
+ */
+status?: EventControllerFindAllStatus;
+};
+
+export type EventControllerFindAllPeriod = typeof EventControllerFindAllPeriod[keyof typeof EventControllerFindAllPeriod];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const EventControllerFindAllPeriod = {
+  upcoming: 'upcoming',
+  past: 'past',
+} as const;
+
+export type EventControllerFindAllStatus = typeof EventControllerFindAllStatus[keyof typeof EventControllerFindAllStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const EventControllerFindAllStatus = {
+  PUBLISHED: 'PUBLISHED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type EngagementControllerFindCommentsParams = {
+/**
+ * Page number
+ * @minimum 1
+ */
+page?: number;
+/**
+ * Items per page
+ * @minimum 1
+ * @maximum 50
+ */
+limit?: number;
+};
+
+export type PlanAdminControllerFindUsersParams = {
+/**
+ * Filter by plan type
+ */
+type?: PlanAdminControllerFindUsersType;
+/**
+ * Filter by plan source
+ */
+source?: PlanAdminControllerFindUsersSource;
+/**
+ * Filter by plan status
+ */
+status?: PlanAdminControllerFindUsersStatus;
+/**
+ * Only users with at least this many completed tastings
+ */
+minCompletedTastings?: number;
+/**
+ * Only plans expiring within this many days
+ */
+expiringWithinDays?: number;
+/**
+ * Page number
+ */
+page?: number;
+/**
+ * Items per page
+ */
+limit?: number;
+/**
+ * Search by username, display name or email
+ */
+search?: string;
+};
+
+export type PlanAdminControllerFindUsersType = typeof PlanAdminControllerFindUsersType[keyof typeof PlanAdminControllerFindUsersType];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const PlanAdminControllerFindUsersType = {
+  FREE: 'FREE',
+  PREMIUM: 'PREMIUM',
+} as const;
+
+export type PlanAdminControllerFindUsersSource = typeof PlanAdminControllerFindUsersSource[keyof typeof PlanAdminControllerFindUsersSource];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const PlanAdminControllerFindUsersSource = {
+  DEFAULT: 'DEFAULT',
+  SUBSCRIPTION: 'SUBSCRIPTION',
+  TRIAL: 'TRIAL',
+  BETA: 'BETA',
+  GIFT: 'GIFT',
+  LIFETIME: 'LIFETIME',
+} as const;
+
+export type PlanAdminControllerFindUsersStatus = typeof PlanAdminControllerFindUsersStatus[keyof typeof PlanAdminControllerFindUsersStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const PlanAdminControllerFindUsersStatus = {
+  ACTIVE: 'ACTIVE',
+  EXPIRED: 'EXPIRED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
 export type FeedbackControllerFindAllParams = {
 /**
  * Page number
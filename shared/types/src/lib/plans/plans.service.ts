@@ -0,0 +1,86 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * Cigar Platform API
+ * API for cigar tasting club management
+ * OpenAPI spec version: 1.0
+ */
+import {
+  HttpClient
+} from '@angular/common/http';
+
+import {
+  Injectable,
+  inject
+} from '@angular/core';
+
+import type {
+  PlanExpiryAlertDto,
+  TrialEligibilityDto,
+  UserPlanDto
+} from '../generated-api.schemas';
+
+import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
+
+
+
+
+
+
+@Injectable({ providedIn: 'root' })
+export class PlansService {
+  private readonly http = inject(HttpClient);
+/**
+ * @summary Check whether the current user can start the free trial
+ */
+ planControllerGetTrialEligibility<TData = TrialEligibilityDto>(
+    
+ ) {
+      return customInstance<TData>(
+      {url: `/api/plans/me/trial`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Start the one-time free Premium trial
+ */
+ planControllerStartTrial<TData = UserPlanDto>(
+    
+ ) {
+      return customInstance<TData>(
+      {url: `/api/plans/me/trial`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get the pending "Premium expires soon" alerts of the current user
+ */
+ planControllerGetExpiryAlerts<TData = PlanExpiryAlertDto[]>(
+    
+ ) {
+      return customInstance<TData>(
+      {url: `/api/plans/me/expiry-alerts`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Mark an expiry alert as seen
+ */
+ planControllerAcknowledgeExpiryAlert<TData = void>(
+    alertId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/plans/me/expiry-alerts/${alertId}/acknowledge`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  };
+
+export type PlanControllerGetTrialEligibilityClientResult = NonNullable<TrialEligibilityDto>
+export type PlanControllerStartTrialClientResult = NonNullable<UserPlanDto>
+export type PlanControllerGetExpiryAlertsClientResult = NonNullable<PlanExpiryAlertDto[]>
+export type PlanControllerAcknowledgeExpiryAlertClientResult = NonNullable<void>
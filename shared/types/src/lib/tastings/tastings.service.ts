@@ -19,14 +19,24 @@ import type {
 } from '@orval/core';
 
 import type {
+  AmendTastingDto,
   CompleteTastingDto,
   CreateTastingDto,
   PaginatedTastingResponseDto,
   TastingControllerFindByCigarParams,
   TastingControllerFindByClubParams,
   TastingControllerFindMineParams,
+  TastingControllerGetFeedParams,
+  TastingControllerGetFollowingFeedParams,
+  TastingControllerUploadGalleryPhotoBody,
+  TastingControllerUploadPhotoBody,
+  TastingCoverPhotoDto,
+  TastingFeedResponseDto,
+  TastingPhotoDto,
   TastingResponseDto,
-  UpdateTastingDto
+  TastingRevisionResponseDto,
+  UpdateTastingDto,
+  UpdateTastingSharingDto
 } from '../generated-api.schemas';
 
 import { customInstance } from '../../../../../apps/web/src/app/core/api/custom-instance';
@@ -54,7 +64,7 @@ export class TastingsService {
       );
     }
   /**
- * @summary Get my tastings (paginated)
+ * @summary Get my tastings (paginated, with journal filters and search)
  */
  tastingControllerFindMine<TData = PaginatedTastingResponseDto>(
     params?: DeepNonNullable<TastingControllerFindMineParams>,
@@ -67,6 +77,32 @@ export class TastingsService {
       );
     }
   /**
+ * @summary Get the community feed of public tastings (cursor-paginated, newest first)
+ */
+ tastingControllerGetFeed<TData = TastingFeedResponseDto>(
+    params?: DeepNonNullable<TastingControllerGetFeedParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/feed`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get the feed of tastings from followed users (cursor-paginated, newest first)
+ */
+ tastingControllerGetFollowingFeed<TData = TastingFeedResponseDto>(
+    params?: DeepNonNullable<TastingControllerGetFollowingFeedParams>,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/feed/following`, method: 'GET',
+        params
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Get tastings for a cigar (paginated)
  */
  tastingControllerFindByCigar<TData = PaginatedTastingResponseDto>(
@@ -148,13 +184,115 @@ export class TastingsService {
       this.http,
       );
     }
+  /**
+ * @summary Amend a completed tasting within the amendment window (author only)
+ */
+ tastingControllerAmend<TData = TastingResponseDto>(
+    id: string,
+    amendTastingDto: AmendTastingDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/amend`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: amendTastingDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Change the visibility and shared clubs of a tasting (author only, any status)
+ */
+ tastingControllerUpdateSharing<TData = TastingResponseDto>(
+    id: string,
+    updateTastingSharingDto: UpdateTastingSharingDto,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/sharing`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: updateTastingSharingDto
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Get the amendment history of a tasting (author only)
+ */
+ tastingControllerGetRevisions<TData = TastingRevisionResponseDto[]>(
+    id: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/revisions`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Upload tasting photo (author only)
+ */
+ tastingControllerUploadPhoto<TData = TastingCoverPhotoDto>(
+    id: string,
+    tastingControllerUploadPhotoBody: TastingControllerUploadPhotoBody,
+ ) {const formData = new FormData();
+if(tastingControllerUploadPhotoBody.photo !== undefined) {
+ formData.append(`photo`, tastingControllerUploadPhotoBody.photo)
+ }
+
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/photo`, method: 'POST',
+      headers: {'Content-Type': 'multipart/form-data', },
+       data: formData
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Add or replace a gallery photo (author only)
+ */
+ tastingControllerUploadGalleryPhoto<TData = TastingPhotoDto>(
+    id: string,
+    kind: 'BAND' | 'FOOT' | 'ASH',
+    tastingControllerUploadGalleryPhotoBody: TastingControllerUploadGalleryPhotoBody,
+ ) {const formData = new FormData();
+if(tastingControllerUploadGalleryPhotoBody.photo !== undefined) {
+ formData.append(`photo`, tastingControllerUploadGalleryPhotoBody.photo)
+ }
+
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/photos/${kind}`, method: 'POST',
+      headers: {'Content-Type': 'multipart/form-data', },
+       data: formData
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Remove a gallery photo (author only)
+ */
+ tastingControllerRemoveGalleryPhoto<TData = void>(
+    id: string,
+    kind: 'BAND' | 'FOOT' | 'ASH',
+ ) {
+      return customInstance<TData>(
+      {url: `/api/tastings/${id}/photos/${kind}`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
   };
 
 export type TastingControllerCreateClientResult = NonNullable<TastingResponseDto>
 export type TastingControllerFindMineClientResult = NonNullable<PaginatedTastingResponseDto>
+export type TastingControllerGetFeedClientResult = NonNullable<TastingFeedResponseDto>
+export type TastingControllerGetFollowingFeedClientResult = NonNullable<TastingFeedResponseDto>
 export type TastingControllerFindByCigarClientResult = NonNullable<PaginatedTastingResponseDto>
 export type TastingControllerFindByClubClientResult = NonNullable<PaginatedTastingResponseDto>
 export type TastingControllerFindOneClientResult = NonNullable<TastingResponseDto>
 export type TastingControllerUpdateClientResult = NonNullable<TastingResponseDto>
 export type TastingControllerRemoveClientResult = NonNullable<void>
 export type TastingControllerCompleteClientResult = NonNullable<TastingResponseDto>
+export type TastingControllerAmendClientResult = NonNullable<TastingResponseDto>
+export type TastingControllerUpdateSharingClientResult = NonNullable<TastingResponseDto>
+export type TastingControllerGetRevisionsClientResult = NonNullable<TastingRevisionResponseDto[]>
+export type TastingControllerUploadPhotoClientResult = NonNullable<TastingCoverPhotoDto>
+export type TastingControllerUploadGalleryPhotoClientResult = NonNullable<TastingPhotoDto>
+export type TastingControllerRemoveGalleryPhotoClientResult = NonNullable<void>
@@ -20,6 +20,8 @@ import type {
 
 import type {
   ClubResponseDto,
+  FollowRequestResponseDto,
+  FollowStatusResponseDto,
   UpdateProfileDto,
   UserProfileStatsResponseDto,
   UserPublicProfileDto,
@@ -53,6 +55,42 @@ export class UsersService {
       );
     }
   /**
+ * @summary Get pending follow requests (PRIVATE profiles)
+ */
+ usersControllerGetFollowRequests<TData = FollowRequestResponseDto[]>(
+    
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/me/follow-requests`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Accept a pending follow request
+ */
+ usersControllerAcceptFollowRequest<TData = void>(
+    requestId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/me/follow-requests/${requestId}/accept`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Reject a pending follow request
+ */
+ usersControllerRejectFollowRequest<TData = void>(
+    requestId: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/me/follow-requests/${requestId}`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Get user public profile with stats
  */
  usersControllerGetPublicProfile<TData = UserPublicProfileDto>(
@@ -79,6 +117,42 @@ export class UsersService {
       );
     }
   /**
+ * @summary Get follow status towards a user
+ */
+ usersControllerGetFollowStatus<TData = FollowStatusResponseDto>(
+    identifier: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/${identifier}/follow-status`, method: 'GET'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Follow a user (request approval for PRIVATE profiles)
+ */
+ usersControllerFollow<TData = FollowStatusResponseDto>(
+    identifier: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/${identifier}/follow`, method: 'POST'
+    },
+      this.http,
+      );
+    }
+  /**
+ * @summary Unfollow a user or cancel a follow request
+ */
+ usersControllerUnfollow<TData = void>(
+    identifier: string,
+ ) {
+      return customInstance<TData>(
+      {url: `/api/users/${identifier}/follow`, method: 'DELETE'
+    },
+      this.http,
+      );
+    }
+  /**
  * @summary Update current user profile
  */
  usersControllerUpdateProfile<TData = void>(
@@ -127,8 +201,14 @@ if(usersControllerUploadAvatarBody.avatar !== undefined) {
   };
 
 export type UsersControllerGetProfileStatsClientResult = NonNullable<UserProfileStatsResponseDto>
+export type UsersControllerGetFollowRequestsClientResult = NonNullable<FollowRequestResponseDto[]>
+export type UsersControllerAcceptFollowRequestClientResult = NonNullable<void>
+export type UsersControllerRejectFollowRequestClientResult = NonNullable<void>
 export type UsersControllerGetPublicProfileClientResult = NonNullable<UserPublicProfileDto>
 export type UsersControllerGetUserClubsClientResult = NonNullable<ClubResponseDto[]>
+export type UsersControllerGetFollowStatusClientResult = NonNullable<FollowStatusResponseDto>
+export type UsersControllerFollowClientResult = NonNullable<FollowStatusResponseDto>
+export type UsersControllerUnfollowClientResult = NonNullable<void>
 export type UsersControllerUpdateProfileClientResult = NonNullable<void>
 export type UsersControllerUploadAvatarClientResult = NonNullable<UsersControllerUploadAvatar200>
 export type UsersControllerCheckUsernameAvailabilityClientResult = NonNullable<UsersControllerCheckUsernameAvailability200>
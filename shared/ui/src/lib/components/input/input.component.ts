@@ -13,7 +13,7 @@ import { ReactiveFormsModule, FormControl, ValidationErrors } from '@angular/for
 import { merge, startWith, Subscription } from 'rxjs';
 import clsx from 'clsx';
 
-export type InputType = 'text' | 'email' | 'password' | 'number' | 'tel' | 'url' | 'search';
+export type InputType = 'text' | 'email' | 'password' | 'number' | 'tel' | 'url' | 'search' | 'date';
 export type InputSize = 'sm' | 'md' | 'lg';
 export type AutocompleteValue = 'on' | 'off' | 'name' | 'email' | 'username' | 'new-password' | 'current-password' | 'tel' | 'url';
 export type InputMode = 'none' | 'text' | 'decimal' | 'numeric' | 'tel' | 'search' | 'email' | 'url';